@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto';
+import { HttpError } from '../shared/http';
+import {
+  Conversation,
+  ConversationChanges,
+  ConversationMessage,
+  ConversationRepository,
+  DEFAULT_CONVERSATION_TITLE,
+} from '../conversations/repository';
+import { GenerateResult, ModelClient } from './model';
+import { Answer, ConversationHistory } from './pipeline';
+
+/** Unsummarised messages a thread may hold before the older ones are condensed. */
+export const SUMMARY_TRIGGER = 16;
+/** Messages kept verbatim after summarising; even, so replay starts on a user turn. */
+export const RECENT_MESSAGES = 6;
+const TITLE_LENGTH = 60;
+
+const SUMMARY_PROMPT = [
+  'Summarise the conversation below between a user and ProjectKB so it can stand in for it',
+  'as context in later turns. Keep facts, decisions, open questions and the names of the',
+  'source files cited. Reply with the summary only.',
+].join(' ');
+
+export interface ConversationDependencies {
+  conversations: ConversationRepository;
+  model: ModelClient;
+}
+
+export interface ActiveConversation {
+  conversation: Conversation;
+  messages: ConversationMessage[];
+}
+
+export const openConversation = async (
+  conversations: ConversationRepository,
+  userId: string,
+  pkbId: string,
+  conversationId: string,
+): Promise<ActiveConversation> => {
+  const conversation = await conversations.get(userId, pkbId, conversationId);
+  if (!conversation) {
+    throw new HttpError(404, 'Conversation not found');
+  }
+  const messages = await conversations.listMessages(userId, pkbId, conversationId);
+  return { conversation, messages };
+};
+
+/** The summary plus the turns after it, in the shape the answer pipeline replays. */
+export const toHistory = ({ conversation, messages }: ActiveConversation): ConversationHistory => ({
+  summary: conversation.summary,
+  messages: messages
+    .slice(conversation.summarizedThrough)
+    .map(({ role, content }) => ({ role, content })),
+});
+
+const titleFrom = (question: string): string => {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : title;
+};
+
+const summarize = (
+  model: ModelClient,
+  previousSummary: string | undefined,
+  messages: ConversationMessage[],
+): Promise<GenerateResult> => {
+  const transcript = messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  return model.generate({
+    system: SUMMARY_PROMPT,
+    messages: [{
+      role: 'user',
+      content: previousSummary
+        ? `Earlier summary:\n${previousSummary}\n\nConversation since then:\n\n${transcript}`
+        : `Conversation:\n\n${transcript}`,
+    }],
+    maxTokens: 512,
+  });
+};
+
+/**
+ * Appends a question and its answer to the thread and updates its token
+ * totals. The first question names an untitled thread, and once too many
+ * messages have built up since the last summary, all but the most recent
+ * are folded into the rolling summary.
+ */
+export const recordExchange = async (
+  deps: ConversationDependencies,
+  active: ActiveConversation,
+  question: string,
+  answer: Answer,
+): Promise<Conversation> => {
+  const { conversation } = active;
+  const createdAt = new Date().toISOString();
+  const exchange: ConversationMessage[] = [
+    {
+      messageId: randomUUID(),
+      index: active.messages.length,
+      role: 'user',
+      content: question,
+      createdAt,
+    },
+    {
+      messageId: randomUUID(),
+      index: active.messages.length + 1,
+      role: 'assistant',
+      content: answer.response,
+      createdAt,
+      modelId: answer.modelId,
+      inputTokens: answer.usage.inputTokens,
+      outputTokens: answer.usage.outputTokens,
+      citations: answer.citations,
+    },
+  ];
+  await deps.conversations.appendMessages(
+    conversation.userId,
+    conversation.pkbId,
+    conversation.conversationId,
+    exchange,
+  );
+
+  const messages = [...active.messages, ...exchange];
+  const changes: ConversationChanges = {
+    messageCount: messages.length,
+    inputTokens: conversation.inputTokens + answer.usage.inputTokens,
+    outputTokens: conversation.outputTokens + answer.usage.outputTokens,
+    modelId: answer.modelId,
+  };
+  if (active.messages.length === 0 && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+    changes.title = titleFrom(question);
+  }
+
+  if (messages.length - conversation.summarizedThrough > SUMMARY_TRIGGER) {
+    const summarizedThrough = messages.length - RECENT_MESSAGES;
+    const result = await summarize(
+      deps.model,
+      conversation.summary,
+      messages.slice(conversation.summarizedThrough, summarizedThrough),
+    );
+    changes.summary = result.text;
+    changes.summarizedThrough = summarizedThrough;
+    changes.inputTokens = (changes.inputTokens ?? 0) + result.inputTokens;
+    changes.outputTokens = (changes.outputTokens ?? 0) + result.outputTokens;
+  }
+
+  const updated = await deps.conversations.update(
+    conversation.userId,
+    conversation.pkbId,
+    conversation.conversationId,
+    changes,
+  );
+  // The thread may have been deleted while the answer was generated.
+  return updated ?? conversation;
+};
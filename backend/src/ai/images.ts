@@ -0,0 +1,102 @@
+import { HttpError } from '../shared/http';
+import { ContentRepository } from '../content/repository';
+import { FileStorage } from '../content/storage';
+import { parseContentKey } from '../content/upload-policy';
+import { MAX_IMAGE_BYTES, isVisionMediaType } from './model';
+
+/** An uploaded image named in a query, by content ID or by its S3 URL. */
+export interface ImageReference {
+  contentId?: string;
+  url?: string;
+}
+
+/** An image loaded from the file bucket, ready to send to the model. */
+export interface ImageAttachment {
+  contentId: string;
+  fileName: string;
+  mediaType: string;
+  data: Buffer;
+  /** Caption generated at ingestion, used to widen retrieval. */
+  caption?: string;
+}
+
+export interface ImageLoader {
+  load(pkbId: string, reference: ImageReference): Promise<ImageAttachment>;
+}
+
+// s3.amazonaws.com, s3.<region>.amazonaws.com or the legacy s3-<region> form.
+const S3_HOST = 's3([.-][a-z0-9-]+)?\\.amazonaws\\.com';
+
+/**
+ * Extracts the object key from an `s3://` URL or a path-style or
+ * virtual-hosted S3 HTTPS URL (presigned or not) for `bucket`. Returns
+ * undefined for URLs that point anywhere else.
+ */
+export const parseS3Url = (value: string, bucket: string): string | undefined => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return undefined;
+  }
+
+  const path = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  if (url.protocol === 's3:') {
+    return url.hostname === bucket ? path : undefined;
+  }
+  if (url.protocol !== 'https:') {
+    return undefined;
+  }
+  const bucketHost = bucket.replace(/\./g, '\\.');
+  if (new RegExp(`^${bucketHost}\\.${S3_HOST}$`).test(url.hostname)) {
+    return path;
+  }
+  if (new RegExp(`^${S3_HOST}$`).test(url.hostname) && path.startsWith(`${bucket}/`)) {
+    return path.slice(bucket.length + 1);
+  }
+  return undefined;
+};
+
+/**
+ * Loads query images from the file bucket. Only images uploaded to the
+ * PKB being queried can be referenced, whichever way they are named.
+ */
+export class StoredImageLoader implements ImageLoader {
+  constructor(
+    private readonly content: ContentRepository,
+    private readonly storage: FileStorage,
+    private readonly bucket: string,
+  ) {}
+
+  private resolveContentId(pkbId: string, reference: ImageReference): string {
+    if (reference.contentId) {
+      return reference.contentId;
+    }
+    const key = reference.url ? parseS3Url(reference.url, this.bucket) : undefined;
+    const target = key ? parseContentKey(key) : undefined;
+    if (!target || target.pkbId !== pkbId) {
+      throw new HttpError(400, 'imageUrl must point to an image uploaded to this PKB');
+    }
+    return target.contentId;
+  }
+
+  async load(pkbId: string, reference: ImageReference): Promise<ImageAttachment> {
+    const contentId = this.resolveContentId(pkbId, reference);
+    const item = await this.content.get(pkbId, contentId);
+    if (!item || item.status !== 'uploaded') {
+      throw new HttpError(404, 'Image not found');
+    }
+    if (!isVisionMediaType(item.fileType)) {
+      throw new HttpError(415, `${item.fileName} is not a supported image`);
+    }
+    if (item.size !== undefined && item.size > MAX_IMAGE_BYTES) {
+      throw new HttpError(413, `${item.fileName} is too large to send to the model`);
+    }
+
+    const data = await this.storage.read(item.s3Key, item.versionId);
+    if (data.length > MAX_IMAGE_BYTES) {
+      throw new HttpError(413, `${item.fileName} is too large to send to the model`);
+    }
+    return { contentId, fileName: item.fileName, mediaType: item.fileType, data, caption: item.caption };
+  }
+}
@@ -0,0 +1,120 @@
+import { BedrockRuntime, S3 } from 'aws-sdk';
+import { jsonResponse } from '../shared/http';
+import { createDocumentClient } from '../shared/dynamo';
+import { RouteRequest, createRouter } from '../shared/router';
+import { createCognitoVerifier } from '../shared/jwt';
+import { modelsWith } from '../shared/models';
+import { DynamoPkbRepository, PkbRepository } from '../pkb/repository';
+import { DynamoMembershipRepository, MembershipRepository } from '../pkb/members';
+import { authorizePkb } from '../pkb/access';
+import { DynamoChunkStore } from '../ingestion/chunk-store';
+import { BedrockEmbedder, Embedder } from '../ingestion/embedder';
+import { DynamoContentRepository } from '../content/repository';
+import { DynamoFolderRepository } from '../content/folders';
+import { DynamoLabelIndex } from '../content/labels';
+import { S3FileStorage } from '../content/storage';
+import { ConversationRepository, DynamoConversationRepository } from '../conversations/repository';
+import { DynamoUsageRepository, UsageRepository } from '../usage/repository';
+import { UsageTracker } from '../usage/metering';
+import { UsageQuota, enforceQuota, quotaFromEnvironment } from '../usage/quota';
+import { BedrockModelClient, ModelClient } from './model';
+import { ChunkIndexPassageSource, PassageSource } from './retrieval';
+import { answerQuery } from './pipeline';
+import { ImageLoader, StoredImageLoader } from './images';
+import { openConversation, recordExchange, toHistory } from './conversation';
+import { QueryRequestBody, parseQueryRequest, prepareAnswerRequest } from './request';
+import { createStreamHandler } from './stream';
+
+export interface AiDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+  passages: PassageSource;
+  embedder: Embedder;
+  model: ModelClient;
+  conversations: ConversationRepository;
+  images: ImageLoader;
+  /** Records the tokens and estimated cost of every answer; unmetered without it. */
+  usage?: UsageRepository;
+  /** Refuses questions once the caller has used it up; needs `usage`. */
+  quota?: UsageQuota;
+}
+
+export const createHandler = (deps: AiDependencies) => createRouter({
+  listAiModels: async () =>
+    jsonResponse(200, { models: modelsWith('chat'), defaultModelId: deps.model.defaultModelId }),
+
+  queryPkb: async ({ userId, body }: RouteRequest<QueryRequestBody>) => {
+    const query = parseQueryRequest(body);
+    const { pkb } = await authorizePkb(deps, userId, query.pkbId, 'viewer');
+    await enforceQuota(deps.usage, deps.quota, userId);
+    const { conversationId, request } = await prepareAnswerRequest(deps.images, query, pkb);
+
+    const tracker = new UsageTracker(deps.usage);
+    const metered = { ...deps, model: tracker.model(deps.model), embedder: tracker.embedder(deps.embedder) };
+    try {
+      if (!conversationId) {
+        return jsonResponse(200, await answerQuery(metered, request));
+      }
+
+      const active = await openConversation(deps.conversations, userId, request.pkbId, conversationId);
+      const answer = await answerQuery(metered, { ...request, history: toHistory(active) });
+      await recordExchange(metered, active, request.query, answer);
+      return jsonResponse(200, { ...answer, conversationId });
+    } finally {
+      await tracker.flush({ userId, pkbId: request.pkbId });
+    }
+  },
+});
+
+const documentClient = createDocumentClient();
+const contentRepository = new DynamoContentRepository(documentClient, process.env.CONTENT_TABLE || 'projectkb-content');
+const fileBucket = process.env.FILE_BUCKET || 'projectkb-files';
+const bedrock = new BedrockRuntime();
+
+const dependencies: AiDependencies = {
+  pkbs: new DynamoPkbRepository(documentClient, {
+    pkbs: process.env.PKB_TABLE || 'projectkb-pkbs',
+    content: process.env.CONTENT_TABLE || 'projectkb-content',
+  }),
+  members: new DynamoMembershipRepository(documentClient, process.env.MEMBER_TABLE || 'projectkb-members'),
+  passages: new ChunkIndexPassageSource(
+    new DynamoChunkStore(documentClient, process.env.CHUNK_TABLE || 'projectkb-chunks'),
+    {
+      content: contentRepository,
+      folders: new DynamoFolderRepository(documentClient, process.env.FOLDER_TABLE || 'projectkb-folders'),
+      labels: new DynamoLabelIndex(documentClient, process.env.LABEL_TABLE || 'projectkb-content-labels'),
+    },
+  ),
+  embedder: new BedrockEmbedder(bedrock, process.env.EMBEDDING_MODEL_ID),
+  model: new BedrockModelClient(
+    bedrock,
+    process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-haiku-20240307-v1:0',
+  ),
+  conversations: new DynamoConversationRepository(
+    documentClient,
+    process.env.CONVERSATION_TABLE || 'projectkb-conversations',
+  ),
+  images: new StoredImageLoader(
+    contentRepository,
+    new S3FileStorage(new S3({ signatureVersion: 'v4' }), fileBucket),
+    fileBucket,
+  ),
+  usage: new DynamoUsageRepository(documentClient, process.env.USAGE_TABLE || 'projectkb-usage'),
+  quota: quotaFromEnvironment(),
+};
+
+export const handler = createHandler(dependencies);
+
+const streamingHandler = createStreamHandler({
+  ...dependencies,
+  verifyToken: createCognitoVerifier(
+    process.env.AWS_REGION || 'us-east-1',
+    process.env.USER_POOL_ID || '',
+    process.env.USER_POOL_CLIENT_ID || '',
+  ),
+});
+
+// `awslambda` only exists inside the Lambda runtime.
+export const streamHandler = typeof awslambda === 'undefined'
+  ? streamingHandler
+  : awslambda.streamifyResponse(streamingHandler);
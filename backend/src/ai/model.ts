@@ -0,0 +1,299 @@
+import { BedrockRuntime } from 'aws-sdk';
+import { HttpError } from '../shared/http';
+import { outputTokenLimit } from '../shared/models';
+
+/** Raw image sent alongside a message to a multimodal model. */
+export interface ImageInput {
+  mediaType: string;
+  data: Buffer;
+}
+
+const MB = 1024 * 1024;
+
+/** Image formats Claude accepts, and the largest raw image it takes (5 MB once base64-encoded). */
+export const VISION_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const MAX_IMAGE_BYTES = 3.75 * MB;
+
+export const isVisionMediaType = (mediaType: string): boolean =>
+  VISION_MEDIA_TYPES.includes(mediaType.toLowerCase());
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  /** Shown to the model before the text; only user messages may carry images. */
+  images?: ImageInput[];
+}
+
+export interface GenerateRequest {
+  /** Overrides the client's default model. */
+  modelId?: string;
+  system?: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type ModelStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; result: GenerateResult };
+
+/**
+ * Text generation backend. Bedrock in production; {@link FakeModelClient}
+ * stands in for it in tests and local development.
+ */
+export interface ModelClient {
+  /** Answers requests that name no model. */
+  readonly defaultModelId: string;
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+  /** Yields text deltas as the model produces them, then a final `done` event. */
+  stream(request: GenerateRequest): AsyncIterable<ModelStreamEvent>;
+}
+
+/**
+ * Bedrock refused the request because the model is at its rate limit.
+ * Reaches the client as a 429 once every fallback is throttled too.
+ */
+export class ModelThrottledError extends HttpError {
+  constructor(public readonly modelId: string) {
+    super(429, `${modelId} is busy; please try again shortly`);
+    this.name = 'ModelThrottledError';
+  }
+}
+
+const isThrottling = (error: unknown): boolean => {
+  const { code, statusCode } = error as { code?: string; statusCode?: number };
+  return code === 'ThrottlingException' || statusCode === 429;
+};
+
+/**
+ * Maps a failed Bedrock invocation to the error the caller sees. Throttling
+ * lets the caller fall back to another model; anything else is logged and
+ * reported without Bedrock's own message.
+ */
+export const invocationError = (modelId: string, error: unknown): Error => {
+  if (isThrottling(error)) {
+    return new ModelThrottledError(modelId);
+  }
+  console.error('Bedrock invocation failed', error);
+  return new HttpError(500, 'AI service unavailable');
+};
+
+/**
+ * Generates with the first of `modelIds` that is not throttled. The result
+ * names the model that answered.
+ */
+export const generateWithFallback = async (
+  model: ModelClient,
+  request: GenerateRequest,
+  modelIds: string[],
+): Promise<GenerateResult> => {
+  for (const [index, modelId] of modelIds.entries()) {
+    try {
+      return await model.generate({ ...request, modelId });
+    } catch (error) {
+      if (!(error instanceof ModelThrottledError) || index === modelIds.length - 1) {
+        throw error;
+      }
+    }
+  }
+  throw new Error('No model to generate with');
+};
+
+/**
+ * Streaming variant of {@link generateWithFallback}. A model is only
+ * skipped if it is throttled before its first token; text already sent
+ * cannot be taken back.
+ */
+export async function* streamWithFallback(
+  model: ModelClient,
+  request: GenerateRequest,
+  modelIds: string[],
+): AsyncGenerator<ModelStreamEvent> {
+  for (const [index, modelId] of modelIds.entries()) {
+    let started = false;
+    try {
+      for await (const event of model.stream({ ...request, modelId })) {
+        started = true;
+        yield event;
+      }
+      return;
+    } catch (error) {
+      if (started || !(error instanceof ModelThrottledError) || index === modelIds.length - 1) {
+        throw error;
+      }
+    }
+  }
+  throw new Error('No model to generate with');
+}
+
+/** Completion length of requests that set no `maxTokens`. */
+export const DEFAULT_MAX_TOKENS = 1024;
+const ANTHROPIC_VERSION = 'bedrock-2023-05-31';
+
+interface AnthropicResponse {
+  content?: { type?: string; text?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/** Events of the Anthropic streaming protocol that carry text or usage. */
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { text?: string };
+  usage?: { output_tokens?: number };
+}
+
+/** A `chunk` event, or one of the named exception events such as `throttlingException`. */
+type BedrockStreamEvent = Partial<Record<string, { bytes?: BedrockRuntime.PartBody; message?: string }>>;
+
+const buildAnthropicBody = (modelId: string, request: GenerateRequest): string =>
+  JSON.stringify({
+    anthropic_version: ANTHROPIC_VERSION,
+    // Bedrock rejects requests for more than the model can produce.
+    max_tokens: outputTokenLimit(modelId, request.maxTokens ?? DEFAULT_MAX_TOKENS),
+    temperature: request.temperature ?? 0.2,
+    system: request.system,
+    messages: request.messages.map(({ role, content, images = [] }) => ({
+      role,
+      content: [
+        ...images.map((image) => ({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mediaType, data: image.data.toString('base64') },
+        })),
+        { type: 'text', text: content },
+      ],
+    })),
+  });
+
+export class BedrockModelClient implements ModelClient {
+  constructor(
+    private readonly runtime: BedrockRuntime,
+    readonly defaultModelId: string,
+  ) {}
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    const modelId = request.modelId ?? this.defaultModelId;
+    const response = await this.runtime
+      .invokeModel({
+        modelId,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: buildAnthropicBody(modelId, request),
+      })
+      .promise()
+      .catch((error) => {
+        throw invocationError(modelId, error);
+      });
+
+    const payload = JSON.parse(response.body.toString()) as AnthropicResponse;
+    const text = (payload.content ?? [])
+      .map((block) => block.text ?? '')
+      .join('');
+
+    return {
+      text,
+      modelId,
+      inputTokens: payload.usage?.input_tokens ?? 0,
+      outputTokens: payload.usage?.output_tokens ?? 0,
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<ModelStreamEvent> {
+    const modelId = request.modelId ?? this.defaultModelId;
+    const response = await this.runtime
+      .invokeModelWithResponseStream({
+        modelId,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: buildAnthropicBody(modelId, request),
+      })
+      .promise()
+      .catch((error) => {
+        throw invocationError(modelId, error);
+      });
+
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of response.body as AsyncIterable<BedrockStreamEvent>) {
+      if (!event.chunk?.bytes) {
+        // Anything other than a chunk is one of the stream's exception events.
+        const [name, error] = Object.entries(event).find(([, value]) => value) ?? ['unknown error'];
+        if (name === 'throttlingException') {
+          throw new ModelThrottledError(modelId);
+        }
+        throw new Error(`Bedrock stream failed: ${name}${error?.message ? ` - ${error.message}` : ''}`);
+      }
+
+      const payload = JSON.parse(Buffer.from(event.chunk.bytes as Uint8Array).toString()) as AnthropicStreamEvent;
+      if (payload.type === 'message_start') {
+        inputTokens = payload.message?.usage?.input_tokens ?? 0;
+      } else if (payload.type === 'content_block_delta' && payload.delta?.text) {
+        text += payload.delta.text;
+        yield { type: 'text', text: payload.delta.text };
+      } else if (payload.type === 'message_delta') {
+        outputTokens = payload.usage?.output_tokens ?? outputTokens;
+      }
+    }
+
+    yield { type: 'done', result: { text, modelId, inputTokens, outputTokens } };
+  }
+}
+
+/**
+ * Deterministic model for tests: answers by quoting the first sentence of
+ * each numbered source in the prompt, citing it as `[n]`. Images are
+ * "described" by their type and size. Models added to `throttled` refuse
+ * every request, as Bedrock does at its rate limit.
+ */
+export class FakeModelClient implements ModelClient {
+  readonly requests: GenerateRequest[] = [];
+  readonly throttled = new Set<string>();
+
+  constructor(readonly defaultModelId = 'fake-model') {}
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    const modelId = request.modelId ?? this.defaultModelId;
+    if (this.throttled.has(modelId)) {
+      throw new ModelThrottledError(modelId);
+    }
+    this.requests.push(request);
+    const prompt = request.messages.map((message) => message.content).join('\n');
+
+    const images = request.messages.flatMap((message) => message.images ?? []);
+    const sources = Array.from(prompt.matchAll(/^\[(\d+)\][^\n]*\n([^\n]+)/gm));
+    const parts = [
+      ...images.map((image) => `An image (${image.mediaType}, ${image.data.length} bytes).`),
+      ...sources.map(([, marker, body]) => `${body.split(/(?<=\.)\s/)[0].trim()} [${marker}]`),
+    ];
+    const text = parts.length > 0
+      ? parts.join(' ')
+      : 'I could not find anything about that in this knowledge base.';
+
+    return {
+      text,
+      modelId,
+      inputTokens: countTokens(`${request.system ?? ''}\n${prompt}`),
+      outputTokens: countTokens(text),
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<ModelStreamEvent> {
+    const result = await this.generate(request);
+    for (const word of result.text.match(/\S+\s*/g) ?? []) {
+      yield { type: 'text', text: word };
+    }
+    yield { type: 'done', result };
+  }
+}
+
+// Rough whitespace token count; good enough for the fake's usage figures.
+const countTokens = (text: string): number => text.split(/\s+/).filter(Boolean).length;
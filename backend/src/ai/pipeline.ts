@@ -0,0 +1,177 @@
+import {
+  ChatMessage,
+  DEFAULT_MAX_TOKENS,
+  GenerateRequest,
+  GenerateResult,
+  ModelClient,
+  generateWithFallback,
+  streamWithFallback,
+} from './model';
+import { PassageSource, ScoredPassage } from './retrieval';
+import { Citation, SYSTEM_PROMPT, buildQuestionMessage, extractCitations } from './prompt';
+import { ImageAttachment } from './images';
+import { ContentScope } from '../content/scope';
+import { Embedder } from '../ingestion/embedder';
+import { HttpError } from '../shared/http';
+import { estimateTokens, fallbackChain, promptTokenBudget } from '../shared/models';
+
+export const DEFAULT_TOP_K = 6;
+/** Claude scales images to at most about 1,600 tokens. */
+const IMAGE_TOKENS = 1600;
+
+/** Earlier turns of a conversation, replayed to the model before the new question. */
+export interface ConversationHistory {
+  /** Summary of turns too old to replay verbatim. */
+  summary?: string;
+  messages: ChatMessage[];
+}
+
+export interface AnswerRequest {
+  pkbId: string;
+  query: string;
+  topK?: number;
+  history?: ConversationHistory;
+  /** Uploaded image the question is about, sent to the model alongside it. */
+  image?: ImageAttachment;
+  /** Answers only from a folder or tag of the PKB. */
+  scope?: ContentScope;
+  /** Registry model to answer with; the client's default otherwise. */
+  modelId?: string;
+}
+
+export interface Answer {
+  response: string;
+  citations: Citation[];
+  /** The model that answered. */
+  modelId: string;
+  /** The model asked for, when it was throttled and a fallback answered instead. */
+  fallbackFrom?: string;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+export type AnswerStreamEvent =
+  | { type: 'token'; text: string }
+  | ({ type: 'answer' } & Answer);
+
+export interface AnswerDependencies {
+  passages: PassageSource;
+  /** Embeds the retrieval query, with the model that embedded the PKB's chunks. */
+  embedder: Embedder;
+  model: ModelClient;
+}
+
+interface PreparedPrompt {
+  passages: ScoredPassage[];
+  request: GenerateRequest;
+  /** The requested model followed by its fallbacks. */
+  modelIds: string[];
+}
+
+/**
+ * Follow-up questions ("what about the second one?") rarely retrieve well on
+ * their own, so the previous question is folded into the retrieval query,
+ * as is the caption of an attached image.
+ */
+const buildRetrievalQuery = (request: AnswerRequest): string => {
+  const previous = [...(request.history?.messages ?? [])].reverse().find((message) => message.role === 'user');
+  return [previous?.content, request.query, request.image?.caption].filter(Boolean).join('\n');
+};
+
+const buildSystemPrompt = (history?: ConversationHistory): string =>
+  history?.summary
+    ? `${SYSTEM_PROMPT}\n\nSummary of the earlier conversation:\n${history.summary}`
+    : SYSTEM_PROMPT;
+
+const messageTokens = (message: ChatMessage): number =>
+  estimateTokens(message.content) + (message.images?.length ?? 0) * IMAGE_TOKENS;
+
+/**
+ * Ranks the PKB's passages against the query and builds the model request
+ * that asks for an answer grounded in the best of them, after any earlier
+ * turns of the conversation.
+ *
+ * The prompt must fit the context window of every model that may answer
+ * it, next to the completion. The lowest-ranked passages go first, then the
+ * oldest turns; a question that does not fit on its own is refused.
+ */
+const preparePrompt = async (deps: AnswerDependencies, request: AnswerRequest): Promise<PreparedPrompt> => {
+  const query = buildRetrievalQuery(request);
+  const [embedding] = await deps.embedder.embed([query]);
+  const modelIds = fallbackChain(request.modelId ?? deps.model.defaultModelId, request.image !== undefined);
+  const budget = promptTokenBudget(modelIds, DEFAULT_MAX_TOKENS);
+  const system = buildSystemPrompt(request.history);
+
+  let passages = await deps.passages.findPassages({
+    pkbId: request.pkbId,
+    query,
+    embedding,
+    limit: request.topK ?? DEFAULT_TOP_K,
+    scope: request.scope,
+  });
+  let question = buildQuestionMessage(request.query, passages, request.image);
+  const questionTokens = () => estimateTokens(system) + messageTokens(question);
+  while (questionTokens() > budget && passages.length > 0) {
+    passages = passages.slice(0, -1);
+    question = buildQuestionMessage(request.query, passages, request.image);
+  }
+  if (questionTokens() > budget) {
+    throw new HttpError(400, 'The question is too long for the selected model');
+  }
+
+  const history: ChatMessage[] = [];
+  let remaining = budget - questionTokens();
+  for (const message of [...(request.history?.messages ?? [])].reverse()) {
+    remaining -= messageTokens(message);
+    if (remaining < 0) {
+      break;
+    }
+    history.unshift(message);
+  }
+  // Turns must start with a question.
+  if (history[0]?.role === 'assistant') {
+    history.shift();
+  }
+
+  return {
+    passages,
+    request: { system, messages: [...history, question] },
+    modelIds,
+  };
+};
+
+const toAnswer = (result: GenerateResult, prompt: PreparedPrompt): Answer => ({
+  response: result.text,
+  citations: extractCitations(result.text, prompt.passages),
+  modelId: result.modelId,
+  ...(result.modelId !== prompt.modelIds[0] ? { fallbackFrom: prompt.modelIds[0] } : {}),
+  usage: { inputTokens: result.inputTokens, outputTokens: result.outputTokens },
+});
+
+/**
+ * Retrieval-augmented answering: rank the PKB's passages against the query,
+ * ask the model to answer from the best ones and resolve its citations.
+ * A throttled model hands the question to its fallbacks.
+ */
+export const answerQuery = async (deps: AnswerDependencies, request: AnswerRequest): Promise<Answer> => {
+  const prompt = await preparePrompt(deps, request);
+  const result = await generateWithFallback(deps.model, prompt.request, prompt.modelIds);
+  return toAnswer(result, prompt);
+};
+
+/**
+ * Streaming variant of {@link answerQuery}: yields the answer token by token
+ * and finishes with the complete answer, including its citations.
+ */
+export async function* streamAnswer(
+  deps: AnswerDependencies,
+  request: AnswerRequest,
+): AsyncGenerator<AnswerStreamEvent> {
+  const prompt = await preparePrompt(deps, request);
+  for await (const event of streamWithFallback(deps.model, prompt.request, prompt.modelIds)) {
+    if (event.type === 'text') {
+      yield { type: 'token', text: event.text };
+    } else {
+      yield { type: 'answer', ...toAnswer(event.result, prompt) };
+    }
+  }
+}
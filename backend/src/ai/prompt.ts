@@ -0,0 +1,84 @@
+import { formatTimestamp } from '../shared/timestamps';
+import { ChatMessage, ImageInput } from './model';
+import { ScoredPassage } from './retrieval';
+
+export interface Citation {
+  /** The `[n]` marker used in the answer text. */
+  marker: number;
+  contentId: string;
+  fileName: string;
+  start: number;
+  end: number;
+  excerpt: string;
+  /** Where in a recording the cited passage is, in seconds. */
+  startTime?: number;
+  endTime?: number;
+}
+
+const EXCERPT_LENGTH = 200;
+
+export const SYSTEM_PROMPT = [
+  'You are ProjectKB, an assistant that answers questions using only the sources provided',
+  'from the user\'s project knowledge base. Cite every claim with the bracketed number of',
+  'the source it came from, e.g. [1]. If the sources do not contain the answer, say so',
+  'plainly instead of guessing. When a source is a recording transcript, also give the',
+  'timestamp of what you cite, e.g. "at 12:05 [2]".',
+].join(' ');
+
+const sourceHeading = (passage: ScoredPassage, marker: number): string =>
+  passage.startTime === undefined
+    ? `[${marker}] ${passage.fileName}`
+    : `[${marker}] ${passage.fileName} (recording, from ${formatTimestamp(passage.startTime)})`;
+
+/** An image the question is about, shown to the model with the question. */
+export interface QuestionImage extends ImageInput {
+  fileName: string;
+}
+
+export const buildQuestionMessage = (
+  question: string,
+  passages: ScoredPassage[],
+  image?: QuestionImage,
+): ChatMessage => {
+  const sources = passages
+    .map((passage, i) => `${sourceHeading(passage, i + 1)}\n${passage.text.trim()}`)
+    .join('\n\n');
+  const context = passages.length > 0 ? `Sources:\n\n${sources}` : 'No sources matched this question.';
+  const attachment = image ? `\n\nThe question is about the attached image, ${image.fileName}.` : '';
+
+  return {
+    role: 'user',
+    content: `${context}${attachment}\n\nQuestion: ${question}`,
+    images: image ? [{ mediaType: image.mediaType, data: image.data }] : undefined,
+  };
+};
+
+/**
+ * Maps the `[n]` markers in a model answer back to the passages they refer
+ * to. Markers that do not correspond to a passage are ignored.
+ */
+export const extractCitations = (answer: string, passages: ScoredPassage[]): Citation[] => {
+  const markers = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const marker = Number(match[1]);
+    if (marker >= 1 && marker <= passages.length) {
+      markers.add(marker);
+    }
+  }
+
+  return Array.from(markers)
+    .sort((a, b) => a - b)
+    .map((marker) => {
+      const passage = passages[marker - 1];
+      return {
+        marker,
+        contentId: passage.contentId,
+        fileName: passage.fileName,
+        start: passage.start,
+        end: passage.end,
+        excerpt: passage.text.trim().slice(0, EXCERPT_LENGTH),
+        startTime: passage.startTime,
+        endTime: passage.endTime,
+      };
+    });
+};
@@ -0,0 +1,129 @@
+import { HttpError, requireString } from '../shared/http';
+import { AnswerRequest, DEFAULT_TOP_K } from './pipeline';
+import { ImageLoader, ImageReference } from './images';
+import { parseScope } from '../content/scope';
+import { Pkb } from '../pkb/repository';
+import { hasCapability, modelsWith } from '../shared/models';
+
+const MAX_QUERY_LENGTH = 2000;
+const MAX_TOP_K = 20;
+
+export interface QueryRequestBody {
+  pkbId?: unknown;
+  query?: unknown;
+  topK?: unknown;
+  conversationId?: unknown;
+  /** `image` when asking about an uploaded image; `text` (the default) otherwise. */
+  context?: unknown;
+  imageContentId?: unknown;
+  imageUrl?: unknown;
+  /** `{ folderId?, tag? }` to answer from part of the PKB only. */
+  scope?: unknown;
+  /** Chat model from the registry; overrides the PKB's choice. */
+  modelId?: unknown;
+}
+
+export interface QueryRequest extends AnswerRequest {
+  /** Thread to continue; without one the question is answered on its own. */
+  conversationId?: string;
+  imageReference?: ImageReference;
+}
+
+const parseImageReference = (body: QueryRequestBody): ImageReference | undefined => {
+  const context = body.context ?? 'text';
+  if (context !== 'text' && context !== 'image') {
+    throw new HttpError(400, 'context must be "text" or "image"');
+  }
+  const contentId = body.imageContentId === undefined ? undefined : requireString(body.imageContentId, 'imageContentId');
+  const url = body.imageUrl === undefined ? undefined : requireString(body.imageUrl, 'imageUrl');
+  if (!contentId && !url) {
+    if (context === 'image') {
+      throw new HttpError(400, 'imageContentId or imageUrl is required for image queries');
+    }
+    return undefined;
+  }
+  return { contentId, url };
+};
+
+const parseTopK = (value: unknown): number => {
+  if (value === undefined) {
+    return DEFAULT_TOP_K;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_TOP_K) {
+    throw new HttpError(400, `topK must be an integer between 1 and ${MAX_TOP_K}`);
+  }
+  return value;
+};
+
+/** A chat model id from the registry, as sent in a query or PKB setting. */
+export const parseChatModelId = (value: unknown, field = 'modelId'): string => {
+  const modelId = requireString(value, field);
+  if (!hasCapability(modelId, 'chat')) {
+    const known = modelsWith('chat').map((model) => model.modelId).join(', ');
+    throw new HttpError(400, `${field} must be one of ${known}`);
+  }
+  return modelId;
+};
+
+/**
+ * Validates an `/ai/query` request body; shared by the REST and streaming
+ * endpoints.
+ */
+export const parseQueryRequest = (body: QueryRequestBody): QueryRequest => {
+  const pkbId = requireString(body.pkbId, 'pkbId');
+  const query = requireString(body.query, 'query');
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new HttpError(400, `query must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+  const conversationId = body.conversationId === undefined
+    ? undefined
+    : requireString(body.conversationId, 'conversationId');
+  const imageReference = parseImageReference(body);
+  const modelId = body.modelId === undefined ? undefined : parseChatModelId(body.modelId);
+  if (modelId && imageReference && !hasCapability(modelId, 'vision')) {
+    throw new HttpError(400, `${modelId} cannot read images`);
+  }
+  return {
+    pkbId,
+    query,
+    topK: parseTopK(body.topK),
+    conversationId,
+    imageReference,
+    scope: parseScope(body.scope),
+    modelId,
+  };
+};
+
+/**
+ * The model a query asked for, else the PKB's choice if that model can
+ * handle the query; the stage default answers when neither applies.
+ */
+const selectModel = (query: QueryRequest, pkb: Pkb): string | undefined => {
+  if (query.modelId) {
+    return query.modelId;
+  }
+  const needsVision = query.imageReference !== undefined;
+  return pkb.chatModelId && (!needsVision || hasCapability(pkb.chatModelId, 'vision'))
+    ? pkb.chatModelId
+    : undefined;
+};
+
+/**
+ * Splits a parsed query into the conversation to continue and the answer
+ * request, loading any referenced image into the request and picking the
+ * model that answers it.
+ */
+export const prepareAnswerRequest = async (
+  images: ImageLoader,
+  query: QueryRequest,
+  pkb: Pkb,
+): Promise<{ conversationId?: string; request: AnswerRequest }> => {
+  const { conversationId, imageReference, ...rest } = query;
+  const request = { ...rest, modelId: selectModel(query, pkb) };
+  return {
+    conversationId,
+    request: imageReference
+      ? { ...request, image: await images.load(request.pkbId, imageReference) }
+      : request,
+  };
+};
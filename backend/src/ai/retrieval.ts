@@ -0,0 +1,116 @@
+import { tokenize } from '../shared/text';
+import { ChunkStore } from '../ingestion/chunk-store';
+import { ContentScope, ScopeDependencies, resolveScope } from '../content/scope';
+import { scoreChunks } from '../search/hybrid';
+
+export interface Passage {
+  contentId: string;
+  fileName: string;
+  text: string;
+  start: number;
+  end: number;
+  /** Media time of the passage, in seconds, for transcripts. */
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface ScoredPassage extends Passage {
+  score: number;
+}
+
+export interface PassageQuery {
+  pkbId: string;
+  query: string;
+  /** Embedding of `query`, by the model that embedded the PKB's chunks. */
+  embedding: number[];
+  limit: number;
+  /** Answers only from the items in the scope. */
+  scope?: ContentScope;
+}
+
+/**
+ * Finds the passages of a PKB that best match a query, best first.
+ */
+export interface PassageSource {
+  findPassages(query: PassageQuery): Promise<ScoredPassage[]>;
+}
+
+/**
+ * Ranks passages by TF-IDF overlap with the query and returns the best
+ * `limit` passages with a positive score.
+ */
+export const rankPassages = (query: string, passages: Passage[], limit: number): ScoredPassage[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || passages.length === 0) {
+    return [];
+  }
+
+  const passageTerms = passages.map((passage) => tokenize(passage.text));
+  const documentFrequency = new Map<string, number>();
+  for (const terms of passageTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return passages
+    .map((passage, i) => {
+      const terms = passageTerms[i];
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = terms.filter((t) => t === term).length;
+        if (frequency === 0) {
+          continue;
+        }
+        const idf = Math.log(1 + passages.length / (documentFrequency.get(term) ?? 1));
+        score += (frequency / terms.length) * idf;
+      }
+      return { ...passage, score };
+    })
+    .filter((passage) => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Passages held in memory, ranked by {@link rankPassages}; for tests.
+ */
+export class InMemoryPassageSource implements PassageSource {
+  constructor(readonly passages: Passage[] = []) {}
+
+  async findPassages({ query, limit }: PassageQuery): Promise<ScoredPassage[]> {
+    return rankPassages(query, this.passages, limit);
+  }
+}
+
+/**
+ * Serves passages from the chunk index built by the ingestion worker,
+ * ranked as search ranks them. Only the chunks of content in scope are
+ * read, a page at a time.
+ */
+export class ChunkIndexPassageSource implements PassageSource {
+  constructor(
+    private readonly chunks: ChunkStore,
+    private readonly scopes: ScopeDependencies,
+  ) {}
+
+  async findPassages({ pkbId, query, embedding, limit, scope }: PassageQuery): Promise<ScoredPassage[]> {
+    const contentIds = await resolveScope(this.scopes, pkbId, scope)
+      ?? new Set((await this.scopes.content.list(pkbId)).map((item) => item.contentId));
+    if (contentIds.size === 0) {
+      return [];
+    }
+
+    const scored = await scoreChunks(this.chunks, { pkbId, contentIds, query, queryEmbedding: embedding, limit });
+    return scored.map(({ chunk: { contentId, fileName, text, start, end, startTime, endTime }, score }) => ({
+      contentId,
+      fileName,
+      text,
+      start,
+      end,
+      startTime,
+      endTime,
+      score,
+    }));
+  }
+}
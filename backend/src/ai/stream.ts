@@ -0,0 +1,114 @@
+import { APIGatewayProxyEventV2 } from 'aws-lambda';
+import { Writable } from 'stream';
+import { HttpError, errorBody } from '../shared/http';
+import { TokenVerifier, getBearerToken } from '../shared/jwt';
+import { requestBodySchema } from '../shared/openapi';
+import { validateSchema } from '../shared/schema';
+import { authorizePkb } from '../pkb/access';
+import { UsageTracker } from '../usage/metering';
+import { enforceQuota } from '../usage/quota';
+import { AiDependencies } from './index';
+import { AnswerRequest, streamAnswer } from './pipeline';
+import { QueryRequestBody, parseQueryRequest, prepareAnswerRequest } from './request';
+import { ActiveConversation, openConversation, recordExchange, toHistory } from './conversation';
+
+export interface StreamDependencies extends AiDependencies {
+  verifyToken: TokenVerifier;
+}
+
+const NDJSON_HEADERS = {
+  'Content-Type': 'application/x-ndjson',
+  'Cache-Control': 'no-cache',
+};
+
+/**
+ * Attaches the status code and headers to a streamed response. Outside the
+ * Lambda runtime (tests) the stream is used as-is.
+ */
+const openResponse = (responseStream: Writable, statusCode: number): Writable =>
+  typeof awslambda === 'undefined'
+    ? responseStream
+    : awslambda.HttpResponseStream.from(responseStream, { statusCode, headers: NDJSON_HEADERS });
+
+const writeEvent = (stream: Writable, payload: unknown) => {
+  stream.write(`${JSON.stringify(payload)}\n`);
+};
+
+/** The REST API's error envelope as an event. */
+const errorEvent = (error: unknown) => ({ type: 'error', ...errorBody(error) });
+
+/** The body of `POST /ai/query`, checked against the same schema. */
+const parseBody = (event: APIGatewayProxyEventV2): QueryRequestBody => {
+  if (!event.body) {
+    return {};
+  }
+  let body: QueryRequestBody;
+  try {
+    const raw = event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+    body = JSON.parse(raw) as QueryRequestBody;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+  validateSchema(requestBodySchema('queryPkb')!, body);
+  return body;
+};
+
+/**
+ * Function URL handler that streams an answer as newline-delimited JSON:
+ * `token` events while the model is generating, then a single `answer`
+ * event with the citations. Failures after streaming has started are sent
+ * as an `error` event. Generation stops early if the client disconnects,
+ * in which case nothing is added to the conversation.
+ */
+export const createStreamHandler = (deps: StreamDependencies) =>
+  async (event: APIGatewayProxyEventV2, responseStream: Writable): Promise<void> => {
+    let userId: string;
+    let request: AnswerRequest;
+    let active: ActiveConversation | undefined;
+    try {
+      const { sub } = await deps.verifyToken(getBearerToken(event.headers));
+      userId = sub;
+      const query = parseQueryRequest(parseBody(event));
+      const { pkb } = await authorizePkb(deps, sub, query.pkbId, 'viewer');
+      await enforceQuota(deps.usage, deps.quota, sub);
+      const prepared = await prepareAnswerRequest(deps.images, query, pkb);
+      const { conversationId } = prepared;
+      request = prepared.request;
+      if (conversationId) {
+        active = await openConversation(deps.conversations, sub, request.pkbId, conversationId);
+        request = { ...request, history: toHistory(active) };
+      }
+    } catch (error) {
+      const statusCode = error instanceof HttpError ? error.statusCode : 500;
+      const output = openResponse(responseStream, statusCode);
+      writeEvent(output, errorEvent(error));
+      output.end();
+      return;
+    }
+
+    const output = openResponse(responseStream, 200);
+    let cancelled = false;
+    output.on('close', () => {
+      cancelled = true;
+    });
+
+    const tracker = new UsageTracker(deps.usage);
+    const metered = { ...deps, model: tracker.model(deps.model), embedder: tracker.embedder(deps.embedder) };
+    try {
+      for await (const answerEvent of streamAnswer(metered, request)) {
+        if (cancelled) {
+          break;
+        }
+        if (answerEvent.type === 'answer' && active) {
+          await recordExchange(metered, active, request.query, answerEvent);
+          writeEvent(output, { ...answerEvent, conversationId: active.conversation.conversationId });
+        } else {
+          writeEvent(output, answerEvent);
+        }
+      }
+    } catch (error) {
+      writeEvent(output, errorEvent(error));
+    }
+    await tracker.flush({ userId, pkbId: request.pkbId });
+    output.end();
+  };
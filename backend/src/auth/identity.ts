@@ -0,0 +1,326 @@
+import { CognitoIdentityServiceProvider } from 'aws-sdk';
+import { createHash, randomBytes, randomInt } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError } from '../shared/http';
+
+export interface SignUpRequest {
+  username: string;
+  password: string;
+  email: string;
+  givenName: string;
+  familyName: string;
+}
+
+export interface SignUpResult {
+  userSub: string;
+  /** False until the e-mailed confirmation code has been entered. */
+  confirmed: boolean;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  idToken: string;
+  /** Only returned on sign-in; refreshing keeps the existing refresh token. */
+  refreshToken?: string;
+  expiresIn: number;
+  tokenType: string;
+}
+
+/** A further step Cognito requires before issuing tokens, e.g. a new password. */
+export interface AuthChallenge {
+  challengeName: string;
+  session: string;
+}
+
+export type SignInResult = AuthTokens | AuthChallenge;
+
+export interface CodeDelivery {
+  deliveryMedium?: string;
+  destination?: string;
+}
+
+/**
+ * The user directory behind `/auth`. Cognito in production;
+ * {@link InMemoryIdentityProvider} stands in for it offline. Failures the
+ * caller can act on are thrown as {@link HttpError}s.
+ */
+export interface IdentityProvider {
+  signUp(request: SignUpRequest): Promise<SignUpResult>;
+  confirmSignUp(username: string, code: string): Promise<void>;
+  resendConfirmationCode(username: string): Promise<CodeDelivery>;
+  signIn(username: string, password: string): Promise<SignInResult>;
+  refresh(refreshToken: string): Promise<AuthTokens>;
+  forgotPassword(username: string): Promise<CodeDelivery>;
+  resetPassword(username: string, code: string, newPassword: string): Promise<void>;
+}
+
+const INVALID_CREDENTIALS = 'Invalid credentials';
+const INVALID_CODE = 'Invalid verification code';
+const TOO_MANY_ATTEMPTS = 'Too many attempts, please try again later';
+
+/** Cognito exception codes and how they reach the client. */
+const COGNITO_ERRORS: Record<string, [number, string]> = {
+  UsernameExistsException: [409, 'An account with this username already exists'],
+  AliasExistsException: [409, 'An account with this email already exists'],
+  InvalidPasswordException: [400, 'Password does not meet requirements'],
+  NotAuthorizedException: [401, INVALID_CREDENTIALS],
+  UserNotFoundException: [401, INVALID_CREDENTIALS],
+  UserNotConfirmedException: [403, 'User is not confirmed'],
+  CodeMismatchException: [400, INVALID_CODE],
+  ExpiredCodeException: [400, 'Verification code has expired'],
+  LimitExceededException: [429, TOO_MANY_ATTEMPTS],
+  TooManyRequestsException: [429, TOO_MANY_ATTEMPTS],
+  TooManyFailedAttemptsException: [429, TOO_MANY_ATTEMPTS],
+};
+
+const translateCognitoError = (error: unknown): unknown => {
+  const code = (error as { code?: string })?.code;
+  if (code === 'InvalidParameterException') {
+    return new HttpError(400, (error as Error).message);
+  }
+  const mapped = code ? COGNITO_ERRORS[code] : undefined;
+  return mapped ? new HttpError(mapped[0], mapped[1]) : error;
+};
+
+const toCodeDelivery = (details?: CognitoIdentityServiceProvider.CodeDeliveryDetailsType): CodeDelivery => ({
+  deliveryMedium: details?.DeliveryMedium,
+  destination: details?.Destination,
+});
+
+/**
+ * Cognito user pool through its public app client (no client secret), using
+ * the `USER_PASSWORD_AUTH` and `REFRESH_TOKEN_AUTH` flows.
+ */
+export class CognitoIdentityProvider implements IdentityProvider {
+  constructor(
+    private readonly cognito: CognitoIdentityServiceProvider,
+    private readonly clientId: string,
+  ) {}
+
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      throw translateCognitoError(error);
+    }
+  }
+
+  async signUp(request: SignUpRequest): Promise<SignUpResult> {
+    const result = await this.call(() => this.cognito
+      .signUp({
+        ClientId: this.clientId,
+        Username: request.username,
+        Password: request.password,
+        UserAttributes: [
+          { Name: 'email', Value: request.email },
+          { Name: 'given_name', Value: request.givenName },
+          { Name: 'family_name', Value: request.familyName },
+        ],
+      })
+      .promise());
+    return { userSub: result.UserSub, confirmed: result.UserConfirmed };
+  }
+
+  async confirmSignUp(username: string, code: string): Promise<void> {
+    await this.call(() => this.cognito
+      .confirmSignUp({ ClientId: this.clientId, Username: username, ConfirmationCode: code })
+      .promise());
+  }
+
+  async resendConfirmationCode(username: string): Promise<CodeDelivery> {
+    const result = await this.call(() => this.cognito
+      .resendConfirmationCode({ ClientId: this.clientId, Username: username })
+      .promise());
+    return toCodeDelivery(result.CodeDeliveryDetails);
+  }
+
+  async signIn(username: string, password: string): Promise<SignInResult> {
+    const result = await this.call(() => this.cognito
+      .initiateAuth({
+        ClientId: this.clientId,
+        AuthFlow: 'USER_PASSWORD_AUTH',
+        AuthParameters: { USERNAME: username, PASSWORD: password },
+      })
+      .promise());
+    if (result.ChallengeName) {
+      return { challengeName: result.ChallengeName, session: result.Session ?? '' };
+    }
+    return this.toTokens(result.AuthenticationResult);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    try {
+      const result = await this.cognito
+        .initiateAuth({
+          ClientId: this.clientId,
+          AuthFlow: 'REFRESH_TOKEN_AUTH',
+          AuthParameters: { REFRESH_TOKEN: refreshToken },
+        })
+        .promise();
+      return this.toTokens(result.AuthenticationResult);
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'NotAuthorizedException') {
+        throw new HttpError(401, 'Invalid refresh token');
+      }
+      throw translateCognitoError(error);
+    }
+  }
+
+  async forgotPassword(username: string): Promise<CodeDelivery> {
+    const result = await this.call(() => this.cognito
+      .forgotPassword({ ClientId: this.clientId, Username: username })
+      .promise());
+    return toCodeDelivery(result.CodeDeliveryDetails);
+  }
+
+  async resetPassword(username: string, code: string, newPassword: string): Promise<void> {
+    await this.call(() => this.cognito
+      .confirmForgotPassword({
+        ClientId: this.clientId,
+        Username: username,
+        ConfirmationCode: code,
+        Password: newPassword,
+      })
+      .promise());
+  }
+
+  private toTokens(result?: CognitoIdentityServiceProvider.AuthenticationResultType): AuthTokens {
+    if (!result?.AccessToken || !result.IdToken) {
+      throw new Error('Cognito returned no tokens');
+    }
+    return {
+      accessToken: result.AccessToken,
+      idToken: result.IdToken,
+      refreshToken: result.RefreshToken,
+      expiresIn: result.ExpiresIn ?? 3600,
+      tokenType: result.TokenType ?? 'Bearer',
+    };
+  }
+}
+
+interface LocalUser {
+  sub: string;
+  username: string;
+  email: string;
+  givenName: string;
+  familyName: string;
+  passwordHash: string;
+  confirmed: boolean;
+}
+
+const hashPassword = (password: string) => createHash('sha256').update(password).digest('hex');
+const opaqueToken = () => randomBytes(24).toString('base64url');
+const LOCAL_TOKEN_LIFETIME = 3600;
+
+/**
+ * Offline stand-in for the user pool: users, codes and tokens live in
+ * memory and tokens are opaque strings, not JWTs. Codes that would be
+ * e-mailed are kept in `codes` by username. With `autoConfirm`, new users
+ * can sign in without entering a code.
+ */
+export class InMemoryIdentityProvider implements IdentityProvider {
+  readonly users = new Map<string, LocalUser>();
+  readonly codes = new Map<string, string>();
+  private readonly refreshTokens = new Map<string, string>();
+
+  constructor(private readonly options: { autoConfirm?: boolean } = {}) {}
+
+  private find(username: string): LocalUser | undefined {
+    const name = username.toLowerCase();
+    return this.users.get(name)
+      ?? Array.from(this.users.values()).find((user) => user.email === name);
+  }
+
+  private sendCode(user: LocalUser): CodeDelivery {
+    this.codes.set(user.username, String(randomInt(0, 1_000_000)).padStart(6, '0'));
+    return { deliveryMedium: 'EMAIL', destination: user.email };
+  }
+
+  private useCode(username: string, code: string): LocalUser {
+    const user = this.find(username);
+    if (!user || this.codes.get(user.username) !== code) {
+      throw new HttpError(400, INVALID_CODE);
+    }
+    this.codes.delete(user.username);
+    return user;
+  }
+
+  private issueTokens(): Omit<AuthTokens, 'refreshToken'> {
+    return {
+      accessToken: opaqueToken(),
+      idToken: opaqueToken(),
+      expiresIn: LOCAL_TOKEN_LIFETIME,
+      tokenType: 'Bearer',
+    };
+  }
+
+  async signUp(request: SignUpRequest): Promise<SignUpResult> {
+    const username = request.username.toLowerCase();
+    const email = request.email.toLowerCase();
+    if (this.users.has(username)) {
+      throw new HttpError(409, 'An account with this username already exists');
+    }
+    if (this.find(email)) {
+      throw new HttpError(409, 'An account with this email already exists');
+    }
+    const user: LocalUser = {
+      sub: uuidv4(),
+      username,
+      email,
+      givenName: request.givenName,
+      familyName: request.familyName,
+      passwordHash: hashPassword(request.password),
+      confirmed: this.options.autoConfirm ?? false,
+    };
+    this.users.set(username, user);
+    if (!user.confirmed) {
+      this.sendCode(user);
+    }
+    return { userSub: user.sub, confirmed: user.confirmed };
+  }
+
+  async confirmSignUp(username: string, code: string): Promise<void> {
+    this.useCode(username, code).confirmed = true;
+  }
+
+  async resendConfirmationCode(username: string): Promise<CodeDelivery> {
+    const user = this.find(username);
+    if (!user || user.confirmed) {
+      throw new HttpError(400, 'User is already confirmed or does not exist');
+    }
+    return this.sendCode(user);
+  }
+
+  async signIn(username: string, password: string): Promise<SignInResult> {
+    const user = this.find(username);
+    if (!user || user.passwordHash !== hashPassword(password)) {
+      throw new HttpError(401, INVALID_CREDENTIALS);
+    }
+    if (!user.confirmed) {
+      throw new HttpError(403, 'User is not confirmed');
+    }
+    const refreshToken = opaqueToken();
+    this.refreshTokens.set(refreshToken, user.username);
+    return { ...this.issueTokens(), refreshToken };
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const user = this.find(this.refreshTokens.get(refreshToken) ?? '');
+    if (!user) {
+      throw new HttpError(401, 'Invalid refresh token');
+    }
+    return this.issueTokens();
+  }
+
+  async forgotPassword(username: string): Promise<CodeDelivery> {
+    const user = this.find(username);
+    if (!user) {
+      throw new HttpError(401, INVALID_CREDENTIALS);
+    }
+    return this.sendCode(user);
+  }
+
+  async resetPassword(username: string, code: string, newPassword: string): Promise<void> {
+    this.useCode(username, code).passwordHash = hashPassword(newPassword);
+  }
+}
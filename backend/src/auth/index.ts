@@ -0,0 +1,145 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { CognitoIdentityServiceProvider } from 'aws-sdk';
+import { HttpError, jsonResponse, requireString } from '../shared/http';
+import { RouteRequest, createRouter } from '../shared/router';
+import { CognitoIdentityProvider, IdentityProvider, InMemoryIdentityProvider } from './identity';
+import { meetsPasswordPolicy } from './password-policy';
+
+const MAX_NAME_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface AuthRequestBody {
+  username?: unknown;
+  password?: unknown;
+  newPassword?: unknown;
+  email?: unknown;
+  givenName?: unknown;
+  familyName?: unknown;
+  code?: unknown;
+  refreshToken?: unknown;
+}
+
+export interface AuthDependencies {
+  identity: IdentityProvider;
+}
+
+const validatePassword = (value: unknown, field: string): string => {
+  // Not trimmed: leading and trailing spaces are part of the password.
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  if (!meetsPasswordPolicy(value)) {
+    throw new HttpError(400, 'Password does not meet requirements');
+  }
+  return value;
+};
+
+const validateEmail = (value: unknown): string => {
+  const email = requireString(value, 'email');
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new HttpError(400, 'email must be a valid e-mail address');
+  }
+  return email;
+};
+
+const validateName = (value: unknown, field: string): string => {
+  const name = requireString(value, field);
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `${field} must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+};
+
+/**
+ * Unauthenticated account flows, all `POST /auth/{action}`: `signup`,
+ * `confirm`, `resend-code`, `signin`, `refresh`, `forgot-password` and
+ * `reset-password`. `username` may also be the account's e-mail address
+ * everywhere except `signup`.
+ */
+export const createHandler = (deps: AuthDependencies) => createRouter({
+  signUp: async ({ body }: RouteRequest<AuthRequestBody>) => {
+    const username = requireString(body.username, 'username');
+    const email = validateEmail(body.email);
+    const password = validatePassword(body.password, 'password');
+    const result = await deps.identity.signUp({
+      username,
+      password,
+      email,
+      givenName: validateName(body.givenName, 'givenName'),
+      familyName: validateName(body.familyName, 'familyName'),
+    });
+    return jsonResponse(201, { message: 'User created successfully', ...result });
+  },
+
+  confirmSignUp: async ({ body }: RouteRequest<AuthRequestBody>) => {
+    await deps.identity.confirmSignUp(
+      requireString(body.username, 'username'),
+      requireString(body.code, 'code'),
+    );
+    return jsonResponse(200, { message: 'Account confirmed successfully' });
+  },
+
+  resendConfirmationCode: async ({ body }: RouteRequest<AuthRequestBody>) => {
+    const delivery = await deps.identity.resendConfirmationCode(requireString(body.username, 'username'));
+    return jsonResponse(200, { message: 'Confirmation code sent', ...delivery });
+  },
+
+  signIn: async ({ body }: RouteRequest<AuthRequestBody>) => {
+    const username = requireString(body.username, 'username');
+    if (typeof body.password !== 'string' || body.password.length === 0) {
+      throw new HttpError(400, 'password is required');
+    }
+    return jsonResponse(200, await deps.identity.signIn(username, body.password));
+  },
+
+  refreshSession: async ({ body }: RouteRequest<AuthRequestBody>) =>
+    jsonResponse(200, await deps.identity.refresh(requireString(body.refreshToken, 'refreshToken'))),
+
+  forgotPassword: async ({ body }: RouteRequest<AuthRequestBody>) => {
+    const username = requireString(body.username, 'username');
+    try {
+      const delivery = await deps.identity.forgotPassword(username);
+      return jsonResponse(200, { message: 'Password reset code sent', ...delivery });
+    } catch (error) {
+      // Answer unknown users the same way so accounts cannot be probed.
+      if (error instanceof HttpError && error.statusCode === 401) {
+        return jsonResponse(200, { message: 'Password reset code sent' });
+      }
+      throw error;
+    }
+  },
+
+  resetPassword: async ({ body }: RouteRequest<AuthRequestBody>) => {
+    await deps.identity.resetPassword(
+      requireString(body.username, 'username'),
+      requireString(body.code, 'code'),
+      validatePassword(body.newPassword, 'newPassword'),
+    );
+    return jsonResponse(200, { message: 'Password reset successfully' });
+  },
+});
+
+/**
+ * Cognito, through the stage's app client. Local runs without a user pool
+ * (`sam local`) opt into the in-memory provider, which confirms sign-ups
+ * without a code, with `IDENTITY_PROVIDER=in-memory`; a stage missing its
+ * client id fails its first request instead.
+ */
+const createIdentityProvider = (): IdentityProvider => {
+  if (process.env.IDENTITY_PROVIDER === 'in-memory') {
+    return new InMemoryIdentityProvider({ autoConfirm: true });
+  }
+  const clientId = process.env.USER_POOL_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('USER_POOL_CLIENT_ID is not set');
+  }
+  return new CognitoIdentityProvider(new CognitoIdentityServiceProvider(), clientId);
+};
+
+let router: ReturnType<typeof createHandler> | undefined;
+
+/** Resolves the identity provider on the first request, so tests can import `createHandler` without one. */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  router ??= createHandler({ identity: createIdentityProvider() });
+  return router(event);
+};
@@ -0,0 +1,38 @@
+/**
+ * Mirrors the `passwordPolicy` of the Cognito user pool in the stack, so
+ * weak passwords are rejected before calling Cognito. Keep the two in sync.
+ */
+export const PASSWORD_POLICY = {
+  minLength: 8,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigits: true,
+  requireSymbols: true,
+};
+
+/** The special characters Cognito accepts for `requireSymbols`. */
+const SYMBOLS = /[\^$*.[\]{}()?"!@#%&/\\,><':;|_~`=+\- ]/;
+
+/** Human-readable list of the rules a password breaks; empty if it is acceptable. */
+export const passwordPolicyViolations = (password: string): string[] => {
+  const violations: string[] = [];
+  if (password.length < PASSWORD_POLICY.minLength) {
+    violations.push(`at least ${PASSWORD_POLICY.minLength} characters`);
+  }
+  if (PASSWORD_POLICY.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('a lowercase letter');
+  }
+  if (PASSWORD_POLICY.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('an uppercase letter');
+  }
+  if (PASSWORD_POLICY.requireDigits && !/[0-9]/.test(password)) {
+    violations.push('a number');
+  }
+  if (PASSWORD_POLICY.requireSymbols && !SYMBOLS.test(password)) {
+    violations.push('a special character');
+  }
+  return violations;
+};
+
+export const meetsPasswordPolicy = (password: string): boolean =>
+  passwordPolicyViolations(password).length === 0;
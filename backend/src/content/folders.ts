@@ -0,0 +1,94 @@
+import { DynamoDB } from 'aws-sdk';
+import { queryAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+
+export interface Folder {
+  pkbId: string;
+  folderId: string;
+  name: string;
+  /** Absent for top-level folders. */
+  parentId?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Folders of a PKB in `projectkb-folders`, keyed by pkbId and folderId.
+ * The hierarchy is kept as parent links; PKBs hold few enough folders to
+ * load the whole tree at once.
+ */
+export interface FolderRepository {
+  list(pkbId: string): Promise<Folder[]>;
+  get(pkbId: string, folderId: string): Promise<Folder | undefined>;
+  put(folder: Folder): Promise<void>;
+  delete(pkbId: string, folderId: string): Promise<void>;
+}
+
+/** `folderId` and every folder below it. */
+export const subtreeOf = (folders: Folder[], folderId: string): Set<string> => {
+  const subtree = new Set([folderId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const folder of folders) {
+      if (folder.parentId && subtree.has(folder.parentId) && !subtree.has(folder.folderId)) {
+        subtree.add(folder.folderId);
+        grew = true;
+      }
+    }
+  }
+  return subtree;
+};
+
+export class DynamoFolderRepository implements FolderRepository {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  async list(pkbId: string): Promise<Folder[]> {
+    return queryAll<Folder>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'pkbId = :pkbId',
+      ExpressionAttributeValues: { ':pkbId': pkbId },
+    });
+  }
+
+  async get(pkbId: string, folderId: string): Promise<Folder | undefined> {
+    const result = await this.client
+      .get({ TableName: this.tableName, Key: { pkbId, folderId } })
+      .promise();
+    return result.Item as Folder | undefined;
+  }
+
+  async put(folder: Folder): Promise<void> {
+    await this.client.put({ TableName: this.tableName, Item: folder }).promise();
+  }
+
+  async delete(pkbId: string, folderId: string): Promise<void> {
+    await this.client.delete({ TableName: this.tableName, Key: { pkbId, folderId } }).promise();
+  }
+}
+
+export class InMemoryFolderRepository implements FolderRepository {
+  constructor(
+    readonly folders: MemoryTable<Folder> = new MemoryTable<Folder>('pkbId', 'folderId'),
+  ) {}
+
+  async list(pkbId: string): Promise<Folder[]> {
+    return this.folders.query(pkbId);
+  }
+
+  async get(pkbId: string, folderId: string): Promise<Folder | undefined> {
+    return this.folders.get(pkbId, folderId);
+  }
+
+  async put(folder: Folder): Promise<void> {
+    this.folders.put(folder);
+  }
+
+  async delete(pkbId: string, folderId: string): Promise<void> {
+    this.folders.delete(pkbId, folderId);
+  }
+}
@@ -0,0 +1,236 @@
+import { S3ObjectCreatedNotificationEvent } from 'aws-lambda';
+import { EventBridge, S3 } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError, jsonResponse, requireString } from '../shared/http';
+import { createDocumentClient } from '../shared/dynamo';
+import { RouteRequest, createRouter } from '../shared/router';
+import { getCreatedObject } from '../shared/events';
+import { DynamoPkbRepository, PkbRepository } from '../pkb/repository';
+import { DynamoMembershipRepository, MembershipRepository } from '../pkb/members';
+import { authorizePkb } from '../pkb/access';
+import { ChunkStore, DynamoChunkStore } from '../ingestion/chunk-store';
+import { ContentItem, ContentRepository, DynamoContentRepository } from './repository';
+import { FileStorage, PresignedUpload, S3FileStorage, deleteStoredFiles } from './storage';
+import { buildContentKey, parseContentKey, validateUploadRequest } from './upload-policy';
+import { multipartRoutes } from './multipart';
+import { ContentEvents, EventBridgeContentEvents, noteRoutes, withoutNoteBody } from './notes';
+import { versionRoutes } from './versions';
+import { DynamoFolderRepository, FolderRepository } from './folders';
+import { DynamoLabelIndex, LabelIndex } from './labels';
+import { organizeRoutes } from './organize';
+import { parseScopeParams, resolveScope } from './scope';
+
+interface UploadUrlRequestBody {
+  pkbId?: unknown;
+  /** Set to upload a new version of existing content instead of a new item. */
+  contentId?: unknown;
+  fileName?: unknown;
+  fileType?: unknown;
+  size?: unknown;
+  checksum?: unknown;
+}
+
+export interface ContentDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+  content: ContentRepository;
+  storage: FileStorage;
+  chunks: ChunkStore;
+  events: ContentEvents;
+  folders: FolderRepository;
+  labels: LabelIndex;
+}
+
+const uploadResponse = (contentId: string, upload: PresignedUpload, maxSize: number) =>
+  jsonResponse(200, {
+    fileId: contentId,
+    contentId,
+    uploadUrl: upload.url,
+    fields: upload.fields,
+    expiresIn: upload.expiresIn,
+    maxSize,
+  });
+
+const requestUpload = async (deps: ContentDependencies, userId: string, body: UploadUrlRequestBody) => {
+  const { pkbId, fileName, fileType, maxSize, checksum } = validateUploadRequest(body);
+
+  await authorizePkb(deps, userId, pkbId, 'editor');
+
+  if (body.contentId !== undefined) {
+    // Re-upload: the new object becomes another version of the same key.
+    // Until it lands the item keeps its status and current version, and
+    // ingestion replaces the item's chunks once it does.
+    const contentId = requireString(body.contentId, 'contentId');
+    const existing = await deps.content.get(pkbId, contentId);
+    if (!existing) {
+      throw new HttpError(404, 'Content not found');
+    }
+    if (existing.fileType !== fileType) {
+      throw new HttpError(400, 'A new version must keep the original file type');
+    }
+    const upload = await deps.storage.createUpload({
+      key: existing.s3Key,
+      contentType: fileType,
+      maxSize,
+      uploadedBy: userId,
+      checksum,
+    });
+    await deps.content.update(pkbId, contentId, {
+      pendingUpload: { fileName, uploadedBy: userId, requestedAt: new Date().toISOString() },
+    });
+    return uploadResponse(contentId, upload, maxSize);
+  }
+
+  const contentId = uuidv4();
+  const s3Key = buildContentKey(pkbId, contentId);
+  const now = new Date().toISOString();
+  const item: ContentItem = {
+    pkbId,
+    contentId,
+    fileName,
+    fileType,
+    s3Key,
+    status: 'uploading',
+    ingestionStatus: 'pending',
+    uploadedBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const upload = await deps.storage.createUpload({
+    key: s3Key,
+    contentType: fileType,
+    maxSize,
+    uploadedBy: userId,
+    checksum,
+  });
+  await deps.content.create(item);
+  return uploadResponse(contentId, upload, maxSize);
+};
+
+const getItem = async (deps: ContentDependencies, pkbId: string, contentId: string): Promise<ContentItem> => {
+  const item = await deps.content.get(pkbId, contentId);
+  if (!item) {
+    throw new HttpError(404, 'Content not found');
+  }
+  return item;
+};
+
+/**
+ * Uploads, notes, folders, properties and versions of a PKB's content;
+ * see the routes of each for their paths.
+ */
+export const createHandler = (deps: ContentDependencies) => createRouter({
+  requestUpload: ({ userId, body }: RouteRequest<UploadUrlRequestBody>) => requestUpload(deps, userId, body),
+
+  // Optional filters: folderId (with its subfolders), tag, meta.<key>
+  listContent: async ({ userId, params: { pkbId }, query }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    const [content, scoped] = await Promise.all([
+      deps.content.list(pkbId),
+      resolveScope(deps, pkbId, parseScopeParams(query)),
+    ]);
+    return jsonResponse(200, {
+      content: content
+        .filter((item) => !scoped || scoped.has(item.contentId))
+        .map(withoutNoteBody),
+    });
+  },
+
+  getContent: async ({ userId, params: { pkbId, contentId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    return jsonResponse(200, withoutNoteBody(await getItem(deps, pkbId, contentId)));
+  },
+
+  getDownloadUrl: async ({ userId, params: { pkbId, contentId }, query }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    const item = await getItem(deps, pkbId, contentId);
+    if (item.status !== 'uploaded') {
+      throw new HttpError(409, 'Content has not finished uploading');
+    }
+    const download = await deps.storage.createDownload({
+      key: item.s3Key,
+      fileName: item.fileName,
+      // Earlier versions open from the history.
+      versionId: query.versionId,
+    });
+    return jsonResponse(200, download);
+  },
+
+  deleteContent: async ({ userId, params: { pkbId, contentId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'editor');
+    const item = await getItem(deps, pkbId, contentId);
+    // Files first, so a failed delete leaves the record to retry from.
+    await deleteStoredFiles(deps.storage, item);
+    await deps.chunks.delete(pkbId, contentId);
+    await deps.labels.delete(pkbId, contentId);
+    await deps.content.delete(pkbId, contentId);
+    return jsonResponse(200, { message: 'Content deleted successfully' });
+  },
+
+  ...multipartRoutes(deps),
+  ...noteRoutes(deps),
+  ...organizeRoutes(deps),
+  ...versionRoutes(deps),
+});
+
+/**
+ * Handles S3 `Object Created` events for the file bucket, recording the
+ * stored size, checksum and MIME type against the reserved content row.
+ * A pending re-upload becomes the item's current version here, and only
+ * then is the version announced for ingestion.
+ */
+export const createUploadHandler = (deps: Pick<ContentDependencies, 'content' | 'storage' | 'events'>) =>
+  async (event: S3ObjectCreatedNotificationEvent): Promise<void> => {
+    const { key, versionId } = getCreatedObject(event);
+    const target = parseContentKey(key);
+    if (!target) {
+      console.warn(`Ignoring object outside the content layout: ${key}`);
+      return;
+    }
+
+    const existing = await deps.content.get(target.pkbId, target.contentId);
+    if (!existing) {
+      console.warn(`No content record for uploaded object ${key}`);
+      return;
+    }
+
+    const stored = await deps.storage.describe(key, versionId);
+    const { pendingUpload } = existing;
+    await deps.content.update(target.pkbId, target.contentId, {
+      ...stored,
+      // An earlier version's checksum must not stay behind when this one has none.
+      checksum: stored.checksum ?? null,
+      versionId,
+      status: 'uploaded',
+      uploadedAt: new Date().toISOString(),
+      ...(pendingUpload && {
+        fileName: pendingUpload.fileName,
+        uploadedBy: pendingUpload.uploadedBy,
+        ingestionStatus: 'pending',
+        pendingUpload: null,
+      }),
+    });
+    await deps.events.contentUploaded({ ...target, versionId });
+  };
+
+const s3 = new S3({ signatureVersion: 'v4' });
+const documentClient = createDocumentClient();
+const contentTable = process.env.CONTENT_TABLE || 'projectkb-content';
+
+const dependencies: ContentDependencies = {
+  pkbs: new DynamoPkbRepository(documentClient, {
+    pkbs: process.env.PKB_TABLE || 'projectkb-pkbs',
+    content: contentTable,
+  }),
+  members: new DynamoMembershipRepository(documentClient, process.env.MEMBER_TABLE || 'projectkb-members'),
+  content: new DynamoContentRepository(documentClient, contentTable),
+  storage: new S3FileStorage(s3, process.env.FILE_BUCKET || 'projectkb-files'),
+  chunks: new DynamoChunkStore(documentClient, process.env.CHUNK_TABLE || 'projectkb-chunks'),
+  events: new EventBridgeContentEvents(new EventBridge(), process.env.EVENT_BUS_NAME || 'default'),
+  folders: new DynamoFolderRepository(documentClient, process.env.FOLDER_TABLE || 'projectkb-folders'),
+  labels: new DynamoLabelIndex(documentClient, process.env.LABEL_TABLE || 'projectkb-content-labels'),
+};
+
+export const handler = createHandler(dependencies);
+export const onObjectCreated = createUploadHandler(dependencies);
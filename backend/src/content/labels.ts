@@ -0,0 +1,127 @@
+import { DynamoDB } from 'aws-sdk';
+import { batchDelete, batchPut, queryAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+import { ContentItem } from './repository';
+
+/** GSI of `projectkb-content-labels` that lists the items carrying a label. */
+export const LABEL_INDEX = 'pkbLabel-index';
+
+/**
+ * An item's tags and metadata values as labels, e.g. `tag#release` or
+ * `meta#status#draft`, so each can be looked up through one index.
+ */
+export const tagLabel = (tag: string) => `tag#${tag}`;
+export const metadataLabel = (key: string, value: string) => `meta#${key}#${value}`;
+
+export const labelsOf = (item: Pick<ContentItem, 'tags' | 'metadata'>): string[] => [
+  ...(item.tags ?? []).map(tagLabel),
+  ...Object.entries(item.metadata ?? {}).map(([key, value]) => metadataLabel(key, value)),
+];
+
+interface LabelRecord {
+  contentKey: string;
+  label: string;
+  pkbLabel: string;
+  pkbId: string;
+  contentId: string;
+}
+
+const contentKeyOf = (pkbId: string, contentId: string) => `${pkbId}#${contentId}`;
+
+const toRecord = (pkbId: string, contentId: string, label: string): LabelRecord => ({
+  contentKey: contentKeyOf(pkbId, contentId),
+  label,
+  pkbLabel: `${pkbId}#${label}`,
+  pkbId,
+  contentId,
+});
+
+/**
+ * Reverse index from labels to content items, in `projectkb-content-labels`.
+ * Rows are keyed by item and label; the GSI answers "which items in this
+ * PKB have this label" without reading the whole content table.
+ */
+export interface LabelIndex {
+  find(pkbId: string, label: string): Promise<string[]>;
+  /** Makes `labels` the item's labels, adding and removing rows as needed. */
+  replace(pkbId: string, contentId: string, labels: string[]): Promise<void>;
+  delete(pkbId: string, contentId: string): Promise<void>;
+}
+
+/** Re-indexes an item after its tags or metadata changed. */
+export const indexLabels = (labels: LabelIndex, item: ContentItem): Promise<void> =>
+  labels.replace(item.pkbId, item.contentId, labelsOf(item));
+
+export class DynamoLabelIndex implements LabelIndex {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  async find(pkbId: string, label: string): Promise<string[]> {
+    const records = await queryAll<LabelRecord>(this.client, {
+      TableName: this.tableName,
+      IndexName: LABEL_INDEX,
+      KeyConditionExpression: 'pkbLabel = :pkbLabel',
+      ExpressionAttributeValues: { ':pkbLabel': `${pkbId}#${label}` },
+    });
+    return records.map((record) => record.contentId);
+  }
+
+  async replace(pkbId: string, contentId: string, labels: string[]): Promise<void> {
+    const current = await this.labelsOf(pkbId, contentId);
+    const wanted = new Set(labels);
+    await batchDelete(
+      this.client,
+      this.tableName,
+      current
+        .filter((label) => !wanted.has(label))
+        .map((label) => ({ contentKey: contentKeyOf(pkbId, contentId), label })),
+    );
+    await batchPut(
+      this.client,
+      this.tableName,
+      Array.from(wanted)
+        .filter((label) => !current.includes(label))
+        .map((label) => toRecord(pkbId, contentId, label)),
+    );
+  }
+
+  async delete(pkbId: string, contentId: string): Promise<void> {
+    await this.replace(pkbId, contentId, []);
+  }
+
+  private async labelsOf(pkbId: string, contentId: string): Promise<string[]> {
+    const records = await queryAll<LabelRecord>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'contentKey = :contentKey',
+      ExpressionAttributeValues: { ':contentKey': contentKeyOf(pkbId, contentId) },
+      ProjectionExpression: '#label',
+      ExpressionAttributeNames: { '#label': 'label' },
+    });
+    return records.map((record) => record.label);
+  }
+}
+
+export class InMemoryLabelIndex implements LabelIndex {
+  constructor(
+    readonly records: MemoryTable<LabelRecord> = new MemoryTable<LabelRecord>('contentKey', 'label'),
+  ) {}
+
+  async find(pkbId: string, label: string): Promise<string[]> {
+    return this.records
+      .scan()
+      .filter((record) => record.pkbLabel === `${pkbId}#${label}`)
+      .map((record) => record.contentId);
+  }
+
+  async replace(pkbId: string, contentId: string, labels: string[]): Promise<void> {
+    await this.delete(pkbId, contentId);
+    new Set(labels).forEach((label) => this.records.put(toRecord(pkbId, contentId, label)));
+  }
+
+  async delete(pkbId: string, contentId: string): Promise<void> {
+    const contentKey = contentKeyOf(pkbId, contentId);
+    this.records.query(contentKey).forEach((record) => this.records.delete(contentKey, record.label));
+  }
+}
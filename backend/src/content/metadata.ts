@@ -0,0 +1,124 @@
+import { HttpError } from '../shared/http';
+
+export type MetadataFieldType = 'text' | 'number' | 'date' | 'select';
+
+/** A custom property a PKB defines for its content, such as "owner" or "due date". */
+export interface MetadataField {
+  /** Identifier values are stored under; lower-case letters, digits and dashes. */
+  key: string;
+  label: string;
+  type: MetadataFieldType;
+  /** Allowed values of a `select` field. */
+  options?: string[];
+}
+
+export const MAX_METADATA_FIELDS = 20;
+const MAX_LABEL_LENGTH = 50;
+const MAX_OPTIONS = 50;
+const MAX_VALUE_LENGTH = 200;
+const FIELD_TYPES: MetadataFieldType[] = ['text', 'number', 'date', 'select'];
+const KEY_PATTERN = /^[a-z][a-z0-9-]{0,39}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const MAX_TAGS_PER_ITEM = 20;
+const MAX_TAG_LENGTH = 40;
+
+const validateOptions = (value: unknown, key: string): string[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_OPTIONS) {
+    throw new HttpError(400, `options of ${key} must list 1 to ${MAX_OPTIONS} values`);
+  }
+  const options = value.map((option) => {
+    if (typeof option !== 'string' || !option.trim() || option.length > MAX_VALUE_LENGTH) {
+      throw new HttpError(400, `options of ${key} must be non-empty strings`);
+    }
+    return option.trim();
+  });
+  return Array.from(new Set(options));
+};
+
+/** Validates the field definitions of a PKB, as sent to `PUT /pkb/{pkbId}`. */
+export const validateMetadataFields = (value: unknown): MetadataField[] => {
+  if (!Array.isArray(value) || value.length > MAX_METADATA_FIELDS) {
+    throw new HttpError(400, `metadataFields must be a list of at most ${MAX_METADATA_FIELDS} fields`);
+  }
+  const fields = value.map((field): MetadataField => {
+    const { key, label, type, options } = (field ?? {}) as Record<string, unknown>;
+    if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+      throw new HttpError(400, 'Field keys must start with a letter and use lower-case letters, digits and dashes');
+    }
+    if (typeof label !== 'string' || !label.trim() || label.length > MAX_LABEL_LENGTH) {
+      throw new HttpError(400, `label of ${key} must be 1 to ${MAX_LABEL_LENGTH} characters`);
+    }
+    if (!FIELD_TYPES.includes(type as MetadataFieldType)) {
+      throw new HttpError(400, `type of ${key} must be one of ${FIELD_TYPES.join(', ')}`);
+    }
+    return {
+      key,
+      label: label.trim(),
+      type: type as MetadataFieldType,
+      ...(type === 'select' ? { options: validateOptions(options, key) } : {}),
+    };
+  });
+  if (new Set(fields.map((field) => field.key)).size !== fields.length) {
+    throw new HttpError(400, 'Field keys must be unique');
+  }
+  return fields;
+};
+
+const validateValue = (field: MetadataField, value: unknown): string => {
+  if (typeof value !== 'string' || value.length > MAX_VALUE_LENGTH) {
+    throw new HttpError(400, `${field.label} must be a string of at most ${MAX_VALUE_LENGTH} characters`);
+  }
+  const trimmed = value.trim();
+  if (field.type === 'number' && !Number.isFinite(Number(trimmed))) {
+    throw new HttpError(400, `${field.label} must be a number`);
+  }
+  if (field.type === 'date' && (!DATE_PATTERN.test(trimmed) || Number.isNaN(Date.parse(trimmed)))) {
+    throw new HttpError(400, `${field.label} must be a date (YYYY-MM-DD)`);
+  }
+  if (field.type === 'select' && !field.options?.includes(trimmed)) {
+    throw new HttpError(400, `${field.label} must be one of ${field.options?.join(', ')}`);
+  }
+  return trimmed;
+};
+
+/**
+ * Validates an item's metadata against the PKB's fields. Values are kept
+ * as strings, so they can be indexed alike; empty values are dropped.
+ */
+export const validateMetadataValues = (fields: MetadataField[], value: unknown): Record<string, string> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HttpError(400, 'metadata must be an object');
+  }
+  const byKey = new Map(fields.map((field) => [field.key, field]));
+  const metadata: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const field = byKey.get(key);
+    if (!field) {
+      throw new HttpError(400, `Unknown metadata field: ${key}`);
+    }
+    if (raw === null || raw === '') {
+      continue;
+    }
+    metadata[key] = validateValue(field, raw);
+  }
+  return metadata;
+};
+
+/** Trims, lower-cases and de-duplicates tags. */
+export const validateTags = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    throw new HttpError(400, 'tags must be a list');
+  }
+  const tags = value.map((tag) => {
+    if (typeof tag !== 'string' || !tag.trim() || tag.trim().length > MAX_TAG_LENGTH) {
+      throw new HttpError(400, `Tags must be 1 to ${MAX_TAG_LENGTH} characters`);
+    }
+    return tag.trim().toLowerCase();
+  });
+  const unique = Array.from(new Set(tags));
+  if (unique.length > MAX_TAGS_PER_ITEM) {
+    throw new HttpError(400, `An item can have at most ${MAX_TAGS_PER_ITEM} tags`);
+  }
+  return unique;
+};
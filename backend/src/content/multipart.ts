@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError, jsonResponse, requireString } from '../shared/http';
+import { RouteHandler, RouteRequest } from '../shared/router';
+import { authorizePkb } from '../pkb/access';
+import { ContentItem } from './repository';
+import { ContentDependencies } from './index';
+import { PartChecksum } from './storage';
+import {
+  buildContentKey,
+  getMaxUploadSize,
+  getPartCount,
+  getPartSize,
+  requireChecksum,
+  validateUploadRequest,
+} from './upload-policy';
+
+/** Part URLs handed out per request; the client asks again as it goes. */
+const MAX_PARTS_PER_REQUEST = 100;
+
+interface MultipartRequestBody {
+  pkbId?: unknown;
+  contentId?: unknown;
+  fileName?: unknown;
+  fileType?: unknown;
+  size?: unknown;
+  partNumbers?: unknown;
+  /** Base64 SHA-256 of each part in `partNumbers`, in the same order. */
+  checksums?: unknown;
+}
+
+const validatePartNumbers = (value: unknown, partCount: number): number[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'partNumbers is required');
+  }
+  if (value.length > MAX_PARTS_PER_REQUEST) {
+    throw new HttpError(400, `At most ${MAX_PARTS_PER_REQUEST} parts can be signed per request`);
+  }
+  if (!value.every((partNumber) => Number.isInteger(partNumber) && partNumber >= 1 && partNumber <= partCount)) {
+    throw new HttpError(400, `partNumbers must be whole numbers from 1 to ${partCount}`);
+  }
+  return value as number[];
+};
+
+const validatePartChecksums = (body: MultipartRequestBody, partCount: number): PartChecksum[] => {
+  const partNumbers = validatePartNumbers(body.partNumbers, partCount);
+  if (!Array.isArray(body.checksums) || body.checksums.length !== partNumbers.length) {
+    throw new HttpError(400, 'checksums must give one checksum per part number');
+  }
+  const checksums = body.checksums;
+  return partNumbers.map((partNumber, index) => ({
+    partNumber,
+    checksum: requireChecksum(checksums[index], `checksums[${index}]`),
+  }));
+};
+
+type OpenUpload = ContentItem & { multipartUploadId: string; partSize: number; size: number };
+
+/** The content item behind an in-progress multipart upload the caller may write to. */
+const getOpenUpload = async (
+  deps: ContentDependencies,
+  userId: string,
+  body: MultipartRequestBody,
+): Promise<OpenUpload> => {
+  const pkbId = requireString(body.pkbId, 'pkbId');
+  const contentId = requireString(body.contentId, 'contentId');
+  await authorizePkb(deps, userId, pkbId, 'editor');
+  const item = await deps.content.get(pkbId, contentId);
+  if (!item) {
+    throw new HttpError(404, 'Content not found');
+  }
+  if (item.status !== 'uploading' || !item.multipartUploadId || !item.partSize || !item.size) {
+    throw new HttpError(409, 'No multipart upload is in progress for this content');
+  }
+  return item as OpenUpload;
+};
+
+/**
+ * Multipart uploads for large files, on `POST /content/multipart/{action}`:
+ *
+ * - `initiate` reserves a content row and opens the S3 upload;
+ * - `parts` signs PUT URLs for up to 100 parts at a time, each bound to
+ *   the part's SHA-256 so S3 rejects anything else;
+ * - `status` lists the parts S3 already has, so a client can resume after
+ *   a reload or a dropped connection;
+ * - `complete` assembles the parts S3 holds, after which the usual
+ *   `Object Created` event marks the item uploaded, or aborts the upload
+ *   when the parts add up to more than the declared size;
+ * - `abort` discards the parts and the reserved row.
+ *
+ * Uploads nobody completes or aborts are removed by the bucket's lifecycle rule.
+ */
+export const multipartRoutes = (deps: ContentDependencies): Record<string, RouteHandler> => ({
+  initiateMultipartUpload: async ({ userId, body }: RouteRequest<MultipartRequestBody>) => {
+    const { pkbId, fileName, fileType, size } = validateUploadRequest(body);
+    if (size === undefined) {
+      throw new HttpError(400, 'size is required');
+    }
+    await authorizePkb(deps, userId, pkbId, 'editor');
+
+    const contentId = uuidv4();
+    const s3Key = buildContentKey(pkbId, contentId);
+    const partSize = getPartSize(size);
+    const multipartUploadId = await deps.storage.createMultipartUpload(s3Key, fileType, userId);
+    const now = new Date().toISOString();
+    await deps.content.create({
+      pkbId,
+      contentId,
+      fileName,
+      fileType,
+      s3Key,
+      status: 'uploading',
+      ingestionStatus: 'pending',
+      uploadedBy: userId,
+      createdAt: now,
+      updatedAt: now,
+      size,
+      multipartUploadId,
+      partSize,
+    });
+    return jsonResponse(200, {
+      contentId,
+      uploadId: multipartUploadId,
+      partSize,
+      partCount: getPartCount(size, partSize),
+    });
+  },
+
+  signUploadParts: async ({ userId, body }: RouteRequest<MultipartRequestBody>) => {
+    const upload = await getOpenUpload(deps, userId, body);
+    const partChecksums = validatePartChecksums(body, getPartCount(upload.size, upload.partSize));
+    const parts = await deps.storage.signUploadParts(upload.s3Key, upload.multipartUploadId, partChecksums);
+    return jsonResponse(200, { parts });
+  },
+
+  getMultipartStatus: async ({ userId, body }: RouteRequest<MultipartRequestBody>) => {
+    const upload = await getOpenUpload(deps, userId, body);
+    const parts = await deps.storage.listUploadedParts(upload.s3Key, upload.multipartUploadId);
+    return jsonResponse(200, {
+      contentId: upload.contentId,
+      uploadId: upload.multipartUploadId,
+      partSize: upload.partSize,
+      partCount: getPartCount(upload.size, upload.partSize),
+      parts,
+    });
+  },
+
+  completeMultipartUpload: async ({ userId, body }: RouteRequest<MultipartRequestBody>) => {
+    const upload = await getOpenUpload(deps, userId, body);
+    // Trust S3's record of the parts rather than the client's.
+    const parts = await deps.storage.listUploadedParts(upload.s3Key, upload.multipartUploadId);
+    const received = new Set(parts.map((part) => part.partNumber));
+    const missing = Array.from({ length: getPartCount(upload.size, upload.partSize) }, (_, index) => index + 1)
+      .filter((partNumber) => !received.has(partNumber));
+    if (missing.length > 0) {
+      throw new HttpError(409, `Parts not uploaded yet: ${missing.slice(0, 10).join(', ')}`);
+    }
+    // Part URLs cannot limit what is PUT to them, so the declared size is only enforced here.
+    const total = parts.reduce((sum, part) => sum + part.size, 0);
+    const limit = Math.min(upload.size, getMaxUploadSize(upload.fileType) ?? upload.size);
+    if (total > limit) {
+      await deps.storage.abortMultipartUpload(upload.s3Key, upload.multipartUploadId);
+      await deps.content.delete(upload.pkbId, upload.contentId);
+      throw new HttpError(413, `Uploaded parts total ${total} bytes, more than the ${limit} bytes allowed`);
+    }
+    await deps.storage.completeMultipartUpload(
+      upload.s3Key,
+      upload.multipartUploadId,
+      parts.map(({ size: _size, ...part }) => part),
+    );
+    return jsonResponse(200, { message: 'Upload completed successfully', contentId: upload.contentId });
+  },
+
+  abortMultipartUpload: async ({ userId, body }: RouteRequest<MultipartRequestBody>) => {
+    const upload = await getOpenUpload(deps, userId, body);
+    await deps.storage.abortMultipartUpload(upload.s3Key, upload.multipartUploadId);
+    await deps.content.delete(upload.pkbId, upload.contentId);
+    return jsonResponse(200, { message: 'Upload aborted successfully' });
+  },
+});
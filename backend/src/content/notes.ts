@@ -0,0 +1,237 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { EventBridge } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError, jsonResponse, requireString } from '../shared/http';
+import { RouteHandler, RouteRequest } from '../shared/router';
+import {
+  CONTENT_EVENT_SOURCE,
+  CONTENT_UPLOADED,
+  ContentUploadedDetail,
+  NOTE_SAVED,
+  NoteSavedDetail,
+} from '../shared/events';
+import { authorizePkb } from '../pkb/access';
+import { ContentItem } from './repository';
+import { ContentDependencies } from './index';
+import { buildContentKey } from './upload-policy';
+
+const KB = 1024;
+const NOTE_CONTENT_TYPE = 'text/markdown';
+const MAX_TITLE_LENGTH = 200;
+const DEFAULT_TITLE = 'Untitled note';
+
+/**
+ * Notes up to this size stay on the DynamoDB item, well clear of its
+ * 400 KB limit once the other attributes are counted.
+ */
+export const NOTE_INLINE_LIMIT = 100 * KB;
+
+/** Lambda's synchronous payload limit is 6 MB, and the JSON envelope needs some of it. */
+export const MAX_NOTE_SIZE = 5 * KB * KB;
+
+/** Tells ingestion about saved notes that did not go through S3, and about confirmed uploads. */
+export interface ContentEvents {
+  noteSaved(detail: NoteSavedDetail): Promise<void>;
+  contentUploaded(detail: ContentUploadedDetail): Promise<void>;
+}
+
+export class EventBridgeContentEvents implements ContentEvents {
+  constructor(
+    private readonly eventBridge: EventBridge,
+    private readonly busName = 'default',
+  ) {}
+
+  async noteSaved(detail: NoteSavedDetail): Promise<void> {
+    await this.publish(NOTE_SAVED, detail);
+  }
+
+  async contentUploaded(detail: ContentUploadedDetail): Promise<void> {
+    await this.publish(CONTENT_UPLOADED, detail);
+  }
+
+  private async publish(detailType: string, detail: object): Promise<void> {
+    const result = await this.eventBridge
+      .putEvents({
+        Entries: [{
+          EventBusName: this.busName,
+          Source: CONTENT_EVENT_SOURCE,
+          DetailType: detailType,
+          Detail: JSON.stringify(detail),
+        }],
+      })
+      .promise();
+    if (result.FailedEntryCount) {
+      throw new Error(`Could not publish ${detailType}: ${result.Entries?.[0]?.ErrorMessage}`);
+    }
+  }
+}
+
+interface NoteRequestBody {
+  pkbId?: unknown;
+  title?: unknown;
+  body?: unknown;
+}
+
+const validateTitle = (value: unknown): string => {
+  if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+    return DEFAULT_TITLE;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, 'title must be a string');
+  }
+  if (value.trim().length > MAX_TITLE_LENGTH) {
+    throw new HttpError(400, `title must be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  return value.trim();
+};
+
+const validateBody = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, 'body must be a string');
+  }
+  if (Buffer.byteLength(value, 'utf8') > MAX_NOTE_SIZE) {
+    throw new HttpError(413, `Notes are limited to ${MAX_NOTE_SIZE} bytes`);
+  }
+  return value;
+};
+
+/** Strips the Markdown from an item, e.g. for listings. */
+export const withoutNoteBody = ({ noteBody, ...item }: ContentItem): ContentItem => item;
+
+/**
+ * Stores the Markdown inline or in S3, depending on its size, and gets it
+ * indexed: inline saves publish `Note Saved`, S3 writes are confirmed and
+ * announced like any upload.
+ */
+const saveNoteBody = async (
+  deps: ContentDependencies,
+  item: ContentItem,
+  editorId: string,
+  title: string,
+  body: string,
+): Promise<ContentItem> => {
+  const size = Buffer.byteLength(body, 'utf8');
+  const noteStorage = size <= NOTE_INLINE_LIMIT ? 'inline' : 's3';
+  const revision = uuidv4();
+  const saved = await deps.content.update(item.pkbId, item.contentId, {
+    fileName: title,
+    noteStorage,
+    // Blank rather than removed, as updates only set attributes.
+    noteBody: noteStorage === 'inline' ? body : '',
+    noteRevision: revision,
+    size,
+    status: 'uploaded',
+    ingestionStatus: 'pending',
+    uploadedBy: editorId,
+    uploadedAt: new Date().toISOString(),
+  });
+  if (!saved) {
+    throw new HttpError(404, 'Content not found');
+  }
+
+  if (noteStorage === 's3') {
+    await deps.storage.write(saved.s3Key, Buffer.from(body, 'utf8'), NOTE_CONTENT_TYPE, editorId);
+  } else {
+    await deps.events.noteSaved({ pkbId: saved.pkbId, contentId: saved.contentId, revision });
+  }
+  return saved;
+};
+
+const createNote = async (
+  deps: ContentDependencies,
+  userId: string,
+  request: NoteRequestBody,
+): Promise<APIGatewayProxyResult> => {
+  const pkbId = requireString(request.pkbId, 'pkbId');
+  const title = validateTitle(request.title);
+  const body = validateBody(request.body);
+  await authorizePkb(deps, userId, pkbId, 'editor');
+
+  const contentId = uuidv4();
+  const now = new Date().toISOString();
+  const item: ContentItem = {
+    pkbId,
+    contentId,
+    kind: 'note',
+    fileName: title,
+    fileType: NOTE_CONTENT_TYPE,
+    s3Key: buildContentKey(pkbId, contentId),
+    status: 'uploading',
+    ingestionStatus: 'pending',
+    uploadedBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await deps.content.create(item);
+  const saved = await saveNoteBody(deps, item, userId, title, body);
+  return jsonResponse(201, withoutNoteBody(saved));
+};
+
+const getNote = async (deps: ContentDependencies, pkbId: string, contentId: string): Promise<ContentItem> => {
+  const item = await deps.content.get(pkbId, contentId);
+  if (!item) {
+    throw new HttpError(404, 'Content not found');
+  }
+  if (item.kind !== 'note') {
+    throw new HttpError(400, 'Content is not a note');
+  }
+  return item;
+};
+
+/** Omitted fields keep their saved value. */
+const updateNote = async (
+  deps: ContentDependencies,
+  userId: string,
+  pkbId: string,
+  contentId: string,
+  request: NoteRequestBody,
+): Promise<APIGatewayProxyResult> => {
+  await authorizePkb(deps, userId, pkbId, 'editor');
+  const item = await getNote(deps, pkbId, contentId);
+  const title = request.title === undefined ? item.fileName : validateTitle(request.title);
+  const body = request.body === undefined ? await readNoteBody(deps, item) : validateBody(request.body);
+
+  const saved = await saveNoteBody(deps, item, userId, title, body);
+  return jsonResponse(200, { message: 'Note saved successfully', item: withoutNoteBody(saved) });
+};
+
+export const readNoteBody = async (deps: Pick<ContentDependencies, 'storage'>, item: ContentItem): Promise<string> => {
+  if (item.noteStorage !== 's3') {
+    return item.noteBody ?? '';
+  }
+  return (await deps.storage.read(item.s3Key)).toString('utf8');
+};
+
+const readNote = async (
+  deps: ContentDependencies,
+  pkbId: string,
+  contentId: string,
+): Promise<APIGatewayProxyResult> => {
+  const item = await getNote(deps, pkbId, contentId);
+  return jsonResponse(200, {
+    contentId,
+    title: item.fileName,
+    body: await readNoteBody(deps, item),
+    updatedAt: item.updatedAt,
+  });
+};
+
+/**
+ * - `POST /content/notes`
+ * - `PUT /content/{pkbId}/{contentId}` saves a note
+ * - `GET /content/{pkbId}/{contentId}/note`
+ */
+export const noteRoutes = (deps: ContentDependencies): Record<string, RouteHandler> => ({
+  createNote: ({ userId, body }: RouteRequest<NoteRequestBody>) => createNote(deps, userId, body),
+
+  saveNote: ({ userId, params: { pkbId, contentId }, body }: RouteRequest<NoteRequestBody>) =>
+    updateNote(deps, userId, pkbId, contentId, body),
+
+  getNote: async ({ userId, params: { pkbId, contentId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    return readNote(deps, pkbId, contentId);
+  },
+});
@@ -0,0 +1,288 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError, jsonResponse, requireString } from '../shared/http';
+import { RouteHandler, RouteRequest } from '../shared/router';
+import { authorizePkb } from '../pkb/access';
+import { ContentChanges, ContentItem } from './repository';
+import { Folder, subtreeOf } from './folders';
+import { indexLabels } from './labels';
+import { MAX_TAGS_PER_ITEM, validateMetadataValues, validateTags } from './metadata';
+import { ContentDependencies } from './index';
+
+const MAX_FOLDER_NAME_LENGTH = 100;
+const MAX_FOLDERS = 500;
+const MAX_BULK_ITEMS = 100;
+const BULK_ACTIONS = ['move', 'tag', 'untag'] as const;
+
+type BulkAction = typeof BULK_ACTIONS[number];
+
+interface FolderRequestBody {
+  name?: unknown;
+  /** `null` makes the folder top-level. */
+  parentId?: unknown;
+}
+
+interface PropertiesRequestBody {
+  folderId?: unknown;
+  tags?: unknown;
+  metadata?: unknown;
+}
+
+interface BulkRequestBody {
+  pkbId?: unknown;
+  contentIds?: unknown;
+  action?: unknown;
+  folderId?: unknown;
+  tags?: unknown;
+}
+
+const validateFolderName = (value: unknown): string => {
+  const name = requireString(value, 'name');
+  if (name.length > MAX_FOLDER_NAME_LENGTH) {
+    throw new HttpError(400, `name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`);
+  }
+  if (name.includes('/')) {
+    throw new HttpError(400, 'Folder names cannot contain "/"');
+  }
+  return name;
+};
+
+/** A target folder from a request: `null` is the top level, otherwise the folder must exist. */
+const validateFolderId = (folders: Folder[], value: unknown, field = 'folderId'): string | null => {
+  if (value === null) {
+    return null;
+  }
+  const folderId = requireString(value, field);
+  if (!folders.some((folder) => folder.folderId === folderId)) {
+    throw new HttpError(404, 'Folder not found');
+  }
+  return folderId;
+};
+
+const requireUniqueName = (folders: Folder[], name: string, parentId: string | undefined, folderId?: string) => {
+  const taken = folders.some((folder) => folder.folderId !== folderId
+    && folder.parentId === parentId
+    && folder.name.toLowerCase() === name.toLowerCase());
+  if (taken) {
+    throw new HttpError(409, `A folder named "${name}" already exists here`);
+  }
+};
+
+const createFolder = async (
+  deps: ContentDependencies,
+  userId: string,
+  pkbId: string,
+  body: FolderRequestBody,
+): Promise<APIGatewayProxyResult> => {
+  const folders = await deps.folders.list(pkbId);
+  if (folders.length >= MAX_FOLDERS) {
+    throw new HttpError(409, `A PKB can have at most ${MAX_FOLDERS} folders`);
+  }
+  const name = validateFolderName(body.name);
+  const parentId = body.parentId === undefined
+    ? undefined
+    : validateFolderId(folders, body.parentId, 'parentId') ?? undefined;
+  requireUniqueName(folders, name, parentId);
+
+  const now = new Date().toISOString();
+  const folder: Folder = {
+    pkbId,
+    folderId: uuidv4(),
+    name,
+    ...(parentId ? { parentId } : {}),
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await deps.folders.put(folder);
+  return jsonResponse(201, folder);
+};
+
+/** Renames a folder or moves it under another one, which must not be inside it. */
+const updateFolder = async (
+  deps: ContentDependencies,
+  pkbId: string,
+  folderId: string,
+  body: FolderRequestBody,
+): Promise<APIGatewayProxyResult> => {
+  const folders = await deps.folders.list(pkbId);
+  const folder = folders.find((candidate) => candidate.folderId === folderId);
+  if (!folder) {
+    throw new HttpError(404, 'Folder not found');
+  }
+
+  const name = body.name === undefined ? folder.name : validateFolderName(body.name);
+  let { parentId } = folder;
+  if (body.parentId !== undefined) {
+    parentId = validateFolderId(folders, body.parentId, 'parentId') ?? undefined;
+    if (parentId && subtreeOf(folders, folderId).has(parentId)) {
+      throw new HttpError(400, 'A folder cannot be moved into itself or one of its subfolders');
+    }
+  }
+  requireUniqueName(folders, name, parentId, folderId);
+
+  const { parentId: _previous, ...rest } = folder;
+  const updated: Folder = {
+    ...rest,
+    name,
+    ...(parentId ? { parentId } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+  await deps.folders.put(updated);
+  return jsonResponse(200, updated);
+};
+
+/** Only empty folders are deleted, so nothing is lost or re-filed by surprise. */
+const deleteFolder = async (deps: ContentDependencies, pkbId: string, folderId: string) => {
+  const folders = await deps.folders.list(pkbId);
+  if (!folders.some((folder) => folder.folderId === folderId)) {
+    throw new HttpError(404, 'Folder not found');
+  }
+  const hasSubfolders = folders.some((folder) => folder.parentId === folderId);
+  if (hasSubfolders || (await deps.content.listByFolder(pkbId, folderId)).length > 0) {
+    throw new HttpError(409, 'Only empty folders can be deleted');
+  }
+  await deps.folders.delete(pkbId, folderId);
+  return jsonResponse(200, { message: 'Folder deleted successfully' });
+};
+
+/** Saves changes to an item's folder, tags or metadata and re-indexes its labels. */
+const applyChanges = async (
+  deps: ContentDependencies,
+  item: ContentItem,
+  changes: ContentChanges,
+): Promise<ContentItem> => {
+  const updated = await deps.content.update(item.pkbId, item.contentId, changes);
+  if (!updated) {
+    throw new HttpError(404, 'Content not found');
+  }
+  if (changes.tags !== undefined || changes.metadata !== undefined) {
+    await indexLabels(deps.labels, updated);
+  }
+  return updated;
+};
+
+/**
+ * Files an item in a folder and sets its tags and metadata; fields left
+ * out are unchanged.
+ */
+const updateProperties = async (
+  deps: ContentDependencies,
+  userId: string,
+  pkbId: string,
+  contentId: string,
+  body: PropertiesRequestBody,
+): Promise<APIGatewayProxyResult> => {
+  const { pkb } = await authorizePkb(deps, userId, pkbId, 'editor');
+  const item = await deps.content.get(pkbId, contentId);
+  if (!item) {
+    throw new HttpError(404, 'Content not found');
+  }
+
+  const changes: ContentChanges = {};
+  if (body.folderId !== undefined) {
+    changes.folderId = validateFolderId(await deps.folders.list(pkbId), body.folderId);
+  }
+  if (body.tags !== undefined) {
+    changes.tags = validateTags(body.tags);
+  }
+  if (body.metadata !== undefined) {
+    changes.metadata = validateMetadataValues(pkb.metadataFields ?? [], body.metadata);
+  }
+  return jsonResponse(200, await applyChanges(deps, item, changes));
+};
+
+const bulkChanges = (
+  item: ContentItem,
+  action: BulkAction,
+  folderId: string | null,
+  tags: string[],
+): ContentChanges => {
+  if (action === 'move') {
+    return { folderId };
+  }
+  const current = item.tags ?? [];
+  const next = action === 'tag'
+    ? Array.from(new Set([...current, ...tags]))
+    : current.filter((tag) => !tags.includes(tag));
+  if (next.length > MAX_TAGS_PER_ITEM) {
+    throw new HttpError(400, `${item.fileName} would have more than ${MAX_TAGS_PER_ITEM} tags`);
+  }
+  return { tags: next };
+};
+
+/**
+ * Moves many items to a folder, or adds or removes tags on them.
+ * Everything is validated before the first item changes.
+ */
+const bulkUpdate = async (
+  deps: ContentDependencies,
+  userId: string,
+  body: BulkRequestBody,
+): Promise<APIGatewayProxyResult> => {
+  const pkbId = requireString(body.pkbId, 'pkbId');
+  if (!BULK_ACTIONS.includes(body.action as BulkAction)) {
+    throw new HttpError(400, `action must be one of ${BULK_ACTIONS.join(', ')}`);
+  }
+  const action = body.action as BulkAction;
+  if (!Array.isArray(body.contentIds) || body.contentIds.length === 0 || body.contentIds.length > MAX_BULK_ITEMS) {
+    throw new HttpError(400, `contentIds must list 1 to ${MAX_BULK_ITEMS} items`);
+  }
+  const contentIds = Array.from(new Set(body.contentIds.map((id) => requireString(id, 'contentIds'))));
+
+  await authorizePkb(deps, userId, pkbId, 'editor');
+  const folderId = action === 'move'
+    ? validateFolderId(await deps.folders.list(pkbId), body.folderId === undefined ? null : body.folderId)
+    : null;
+  const tags = action === 'move' ? [] : validateTags(body.tags);
+  if (action !== 'move' && tags.length === 0) {
+    throw new HttpError(400, 'tags is required');
+  }
+
+  const items = await Promise.all(contentIds.map((contentId) => deps.content.get(pkbId, contentId)));
+  const missing = contentIds.filter((_, index) => !items[index]);
+  if (missing.length > 0) {
+    throw new HttpError(404, `Content not found: ${missing.join(', ')}`);
+  }
+  const planned = (items as ContentItem[])
+    .map((item) => ({ item, changes: bulkChanges(item, action, folderId, tags) }));
+
+  const updated: ContentItem[] = [];
+  for (const { item, changes } of planned) {
+    updated.push(await applyChanges(deps, item, changes));
+  }
+  return jsonResponse(200, { updated: updated.length, items: updated });
+};
+
+/**
+ * - `GET|POST /content/folders/{pkbId}`
+ * - `PUT|DELETE /content/folders/{pkbId}/{folderId}`
+ * - `PUT /content/{pkbId}/{contentId}/properties`
+ * - `POST /content/bulk`
+ */
+export const organizeRoutes = (deps: ContentDependencies): Record<string, RouteHandler> => ({
+  listFolders: async ({ userId, params: { pkbId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    return jsonResponse(200, { folders: await deps.folders.list(pkbId) });
+  },
+
+  createFolder: async ({ userId, params: { pkbId }, body }: RouteRequest<FolderRequestBody>) => {
+    await authorizePkb(deps, userId, pkbId, 'editor');
+    return createFolder(deps, userId, pkbId, body);
+  },
+
+  updateFolder: async ({ userId, params: { pkbId, folderId }, body }: RouteRequest<FolderRequestBody>) => {
+    await authorizePkb(deps, userId, pkbId, 'editor');
+    return updateFolder(deps, pkbId, folderId, body);
+  },
+
+  deleteFolder: async ({ userId, params: { pkbId, folderId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'editor');
+    return deleteFolder(deps, pkbId, folderId);
+  },
+
+  updateProperties: ({ userId, params: { pkbId, contentId }, body }: RouteRequest<PropertiesRequestBody>) =>
+    updateProperties(deps, userId, pkbId, contentId, body),
+
+  bulkUpdateContent: ({ userId, body }: RouteRequest<BulkRequestBody>) => bulkUpdate(deps, userId, body),
+});
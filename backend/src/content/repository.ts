@@ -0,0 +1,217 @@
+import { DynamoDB } from 'aws-sdk';
+import { buildUpdateExpression, isConditionalCheckFailed, queryAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+
+export type ContentStatus = 'uploading' | 'uploaded';
+
+/** Uploaded files, or Markdown notes written in the app. */
+export type ContentKind = 'file' | 'note';
+
+/** Where a note's Markdown lives: on the item itself while small, in S3 once it grows. */
+export type NoteStorage = 'inline' | 's3';
+
+/** Progress of text extraction, chunking and embedding for an item. */
+export type IngestionStatus = 'pending' | 'processing' | 'transcribing' | 'ready' | 'failed';
+
+/** A new version requested for existing content, applied once S3 confirms it. */
+export interface PendingUpload {
+  fileName: string;
+  uploadedBy: string;
+  requestedAt: string;
+}
+
+export interface ContentItem {
+  pkbId: string;
+  contentId: string;
+  fileName: string;
+  fileType: string;
+  s3Key: string;
+  status: ContentStatus;
+  ingestionStatus: IngestionStatus;
+  uploadedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Set once S3 confirms the upload. */
+  size?: number;
+  checksum?: string;
+  mimeType?: string;
+  versionId?: string;
+  uploadedAt?: string;
+  /** Absent on items created before notes existed, which are all files. */
+  kind?: ContentKind;
+  noteStorage?: NoteStorage;
+  /** Markdown of an inline note; stale once the note has moved to S3. */
+  noteBody?: string;
+  /** Changes on every save, so ingestion can skip saves that were superseded. */
+  noteRevision?: string;
+  /** Set while a new version is on its way; the item keeps serving the current one. */
+  pendingUpload?: PendingUpload;
+  /** S3 multipart upload a large file arrives through, and its part size. */
+  multipartUploadId?: string;
+  partSize?: number;
+  /** Set by the ingestion worker. */
+  chunkCount?: number;
+  ingestionError?: string;
+  ingestedAt?: string;
+  /** Generated caption, for images. */
+  caption?: string;
+  /** Transcription job of audio and video; only its result is indexed. */
+  transcriptionJob?: string;
+  durationSeconds?: number;
+  /** Set when a user accepts a generated summary and its tags. */
+  summary?: string;
+  tags?: string[];
+  /** When a user last confirmed the item is still accurate. */
+  reviewedAt?: string;
+  /** Folder the item is filed in; absent at the top level of the PKB. */
+  folderId?: string;
+  /** Values of the PKB's custom metadata fields, by field key. */
+  metadata?: Record<string, string>;
+}
+
+/** `folderId: null` moves the item back to the top level; `null` clears `pendingUpload` and `checksum`. */
+export type ContentChanges = Partial<Omit<ContentItem, 'pkbId' | 'contentId' | 'createdAt' | 'folderId' | 'pendingUpload' | 'checksum'>> & {
+  folderId?: string | null;
+  pendingUpload?: PendingUpload | null;
+  checksum?: string | null;
+};
+
+/** GSI of the content table that lists a folder's items. */
+export const FOLDER_INDEX = 'folderKey-index';
+
+/** The content table keeps `folderKey` (`pkbId#folderId`) alongside `folderId` for {@link FOLDER_INDEX}. */
+const folderKeyOf = (pkbId: string, folderId: string | null | undefined) =>
+  (folderId ? `${pkbId}#${folderId}` : folderId);
+
+/**
+ * Metadata records for uploaded content, stored in `projectkb-content`
+ * under the pkbId/contentId keys.
+ */
+export interface ContentRepository {
+  list(pkbId: string): Promise<ContentItem[]>;
+  /** Items filed directly in a folder. */
+  listByFolder(pkbId: string, folderId: string): Promise<ContentItem[]>;
+  get(pkbId: string, contentId: string): Promise<ContentItem | undefined>;
+  create(item: ContentItem): Promise<void>;
+  /** Applies `changes` to an existing item; resolves undefined if it does not exist. */
+  update(pkbId: string, contentId: string, changes: ContentChanges): Promise<ContentItem | undefined>;
+  delete(pkbId: string, contentId: string): Promise<void>;
+}
+
+export class DynamoContentRepository implements ContentRepository {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  async list(pkbId: string): Promise<ContentItem[]> {
+    return queryAll<ContentItem>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'pkbId = :pkbId',
+      ExpressionAttributeValues: { ':pkbId': pkbId },
+    });
+  }
+
+  async listByFolder(pkbId: string, folderId: string): Promise<ContentItem[]> {
+    return queryAll<ContentItem>(this.client, {
+      TableName: this.tableName,
+      IndexName: FOLDER_INDEX,
+      KeyConditionExpression: 'folderKey = :folderKey',
+      ExpressionAttributeValues: { ':folderKey': folderKeyOf(pkbId, folderId) },
+    });
+  }
+
+  async get(pkbId: string, contentId: string): Promise<ContentItem | undefined> {
+    const result = await this.client
+      .get({ TableName: this.tableName, Key: { pkbId, contentId } })
+      .promise();
+    return result.Item as ContentItem | undefined;
+  }
+
+  async create(item: ContentItem): Promise<void> {
+    await this.client
+      .put({
+        TableName: this.tableName,
+        Item: item.folderId ? { ...item, folderKey: folderKeyOf(item.pkbId, item.folderId) } : item,
+        ConditionExpression: 'attribute_not_exists(contentId)',
+      })
+      .promise();
+  }
+
+  async update(pkbId: string, contentId: string, changes: ContentChanges): Promise<ContentItem | undefined> {
+    try {
+      const result = await this.client
+        .update({
+          TableName: this.tableName,
+          Key: { pkbId, contentId },
+          ...buildUpdateExpression({
+            ...changes,
+            folderKey: folderKeyOf(pkbId, changes.folderId),
+            updatedAt: new Date().toISOString(),
+          }),
+          ConditionExpression: 'attribute_exists(contentId)',
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+      return result.Attributes as ContentItem;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(pkbId: string, contentId: string): Promise<void> {
+    await this.client
+      .delete({ TableName: this.tableName, Key: { pkbId, contentId } })
+      .promise();
+  }
+}
+
+export class InMemoryContentRepository implements ContentRepository {
+  constructor(
+    readonly items: MemoryTable<ContentItem> = new MemoryTable<ContentItem>('pkbId', 'contentId'),
+  ) {}
+
+  async list(pkbId: string): Promise<ContentItem[]> {
+    return this.items.query(pkbId);
+  }
+
+  async listByFolder(pkbId: string, folderId: string): Promise<ContentItem[]> {
+    return this.items.query(pkbId).filter((item) => item.folderId === folderId);
+  }
+
+  async get(pkbId: string, contentId: string): Promise<ContentItem | undefined> {
+    return this.items.get(pkbId, contentId);
+  }
+
+  async create(item: ContentItem): Promise<void> {
+    if (this.items.get(item.pkbId, item.contentId)) {
+      throw new Error(`Content ${item.contentId} already exists`);
+    }
+    this.items.put(item);
+  }
+
+  async update(pkbId: string, contentId: string, changes: ContentChanges): Promise<ContentItem | undefined> {
+    const existing = this.items.get(pkbId, contentId);
+    if (!existing) {
+      return undefined;
+    }
+    const fields: Record<string, unknown> = { ...existing, updatedAt: new Date().toISOString() };
+    Object.entries(changes).forEach(([field, value]) => {
+      if (value === null) {
+        delete fields[field];
+      } else if (value !== undefined) {
+        fields[field] = value;
+      }
+    });
+    const updated = fields as unknown as ContentItem;
+    this.items.put(updated);
+    return updated;
+  }
+
+  async delete(pkbId: string, contentId: string): Promise<void> {
+    this.items.delete(pkbId, contentId);
+  }
+}
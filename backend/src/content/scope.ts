@@ -0,0 +1,92 @@
+import { HttpError, requireString } from '../shared/http';
+import { ContentRepository } from './repository';
+import { FolderRepository, subtreeOf } from './folders';
+import { LabelIndex, metadataLabel, tagLabel } from './labels';
+
+/**
+ * Narrows listing, search or AI answers to part of a PKB: a folder with
+ * its subfolders, a tag, and custom metadata values. All given parts must
+ * match.
+ */
+export interface ContentScope {
+  folderId?: string;
+  tag?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ScopeDependencies {
+  content: ContentRepository;
+  folders: FolderRepository;
+  labels: LabelIndex;
+}
+
+const METADATA_PARAM_PREFIX = 'meta.';
+
+const intersect = (a: Set<string> | undefined, b: Iterable<string>): Set<string> => {
+  const next = new Set(b);
+  return a ? new Set(Array.from(a).filter((id) => next.has(id))) : next;
+};
+
+/** Reads `folderId`, `tag` and `meta.<key>` query parameters. */
+export const parseScopeParams = (params: Record<string, string | undefined>): ContentScope | undefined => {
+  const metadata = Object.fromEntries(
+    Object.entries(params)
+      .filter(([name, value]) => name.startsWith(METADATA_PARAM_PREFIX) && value)
+      .map(([name, value]) => [name.slice(METADATA_PARAM_PREFIX.length), value!.trim()]),
+  );
+  const scope: ContentScope = {
+    folderId: params.folderId || undefined,
+    tag: params.tag?.trim().toLowerCase() || undefined,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+  return scope.folderId || scope.tag || scope.metadata ? scope : undefined;
+};
+
+/** Validates a `scope` object from a request body. */
+export const parseScope = (value: unknown): ContentScope | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, 'scope must be an object');
+  }
+  const { folderId, tag } = value as Record<string, unknown>;
+  const scope: ContentScope = {
+    folderId: folderId === undefined ? undefined : requireString(folderId, 'scope.folderId'),
+    tag: tag === undefined ? undefined : requireString(tag, 'scope.tag').toLowerCase(),
+  };
+  return scope.folderId || scope.tag ? scope : undefined;
+};
+
+/**
+ * The ids of the items in `scope`, found through the folder and label
+ * indexes; undefined when there is no scope, meaning the whole PKB.
+ */
+export const resolveScope = async (
+  deps: ScopeDependencies,
+  pkbId: string,
+  scope: ContentScope | undefined,
+): Promise<Set<string> | undefined> => {
+  if (!scope) {
+    return undefined;
+  }
+  let ids: Set<string> | undefined;
+  if (scope.folderId) {
+    const folders = await deps.folders.list(pkbId);
+    if (!folders.some((folder) => folder.folderId === scope.folderId)) {
+      throw new HttpError(404, 'Folder not found');
+    }
+    const listed = await Promise.all(
+      Array.from(subtreeOf(folders, scope.folderId)).map((folderId) => deps.content.listByFolder(pkbId, folderId)),
+    );
+    ids = intersect(ids, listed.flat().map((item) => item.contentId));
+  }
+  const labels = [
+    ...(scope.tag ? [tagLabel(scope.tag)] : []),
+    ...Object.entries(scope.metadata ?? {}).map(([key, value]) => metadataLabel(key, value)),
+  ];
+  for (const label of labels) {
+    ids = intersect(ids, await deps.labels.find(pkbId, label));
+  }
+  return ids;
+};
@@ -0,0 +1,382 @@
+import { createHash } from 'crypto';
+import { S3 } from 'aws-sdk';
+import { transcriptKey } from '../ingestion/transcription';
+import { ContentItem } from './repository';
+
+// DeleteObjects accepts at most 1000 keys per call.
+const DELETE_OBJECTS_LIMIT = 1000;
+const UPLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+const DOWNLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+// Parts of a large file can take a while on a slow link.
+const PART_URL_EXPIRY_SECONDS = 60 * 60;
+// User metadata on each object version, so history can show who stored it.
+const UPLOADED_BY_METADATA = 'uploaded-by';
+const RESTORED_FROM_METADATA = 'restored-from';
+// S3 checks uploads against this algorithm's checksum and keeps it with the version.
+const CHECKSUM_ALGORITHM = 'SHA256';
+
+export interface UploadTarget {
+  key: string;
+  contentType: string;
+  maxSize: number;
+  /** Recorded on the object version. */
+  uploadedBy: string;
+  /** Base64 SHA-256 of the file, which S3 checks the upload against. */
+  checksum?: string;
+}
+
+export interface PresignedUpload {
+  url: string;
+  /** Form fields that must be posted along with the file. */
+  fields: Record<string, string>;
+  expiresIn: number;
+}
+
+export interface DownloadTarget {
+  key: string;
+  /** Name the browser saves the file under. */
+  fileName: string;
+  versionId?: string;
+}
+
+export interface PresignedDownload {
+  url: string;
+  expiresIn: number;
+}
+
+export interface SignedPart {
+  partNumber: number;
+  url: string;
+}
+
+export interface PartChecksum {
+  partNumber: number;
+  /** Base64 SHA-256 of the part. */
+  checksum: string;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+  checksum?: string;
+}
+
+export interface ObjectVersion {
+  versionId: string;
+  size: number;
+  lastModified: string;
+  isLatest: boolean;
+}
+
+export interface VersionMetadata {
+  /** Missing on versions stored before uploaders were recorded. */
+  uploadedBy?: string;
+  /** Set on versions created by restoring an earlier one. */
+  restoredFrom?: string;
+}
+
+export interface StoredObject {
+  size: number;
+  mimeType: string;
+  /**
+   * Hex SHA-256 that S3 recorded on upload. For multipart uploads it is the
+   * SHA-256 of the part checksums, suffixed with the part count. Missing on
+   * objects uploaded without a checksum.
+   */
+  checksum?: string;
+}
+
+/**
+ * Object storage for uploaded files. The S3 implementation signs browser
+ * uploads and is the only place that talks to the file bucket.
+ */
+export interface FileStorage {
+  createUpload(target: UploadTarget): Promise<PresignedUpload>;
+  createDownload(target: DownloadTarget): Promise<PresignedDownload>;
+  /** Starts a multipart upload whose parts carry SHA-256 checksums, and returns its upload id. */
+  createMultipartUpload(key: string, contentType: string, uploadedBy: string): Promise<string>;
+  /** Presigned PUT URLs for the given parts, valid for an hour and only for content matching the checksum. */
+  signUploadParts(key: string, uploadId: string, parts: PartChecksum[]): Promise<SignedPart[]>;
+  /** Parts S3 already holds, so an interrupted upload can pick up where it stopped. */
+  listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  completeMultipartUpload(key: string, uploadId: string, parts: Omit<UploadedPart, 'size'>[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+  describe(key: string, versionId?: string): Promise<StoredObject>;
+  read(key: string, versionId?: string): Promise<Buffer>;
+  /** Stores content written by the API itself, such as large notes. */
+  write(key: string, body: Buffer, contentType: string, uploadedBy: string): Promise<void>;
+  /** Versions of the object, newest first, up to `limit` of them. */
+  listVersions(key: string, limit: number): Promise<ObjectVersion[]>;
+  getVersionMetadata(key: string, versionId: string): Promise<VersionMetadata>;
+  /** Copies an earlier version over the object, which makes it the latest again. */
+  restoreVersion(key: string, versionId: string, restoredBy: string): Promise<void>;
+  deleteAllVersions(key: string): Promise<void>;
+}
+
+/**
+ * Removes every version of an item's file and of its transcript. The bucket
+ * is versioned, so a plain delete would only add a delete marker.
+ */
+export const deleteStoredFiles = async (
+  storage: FileStorage,
+  item: Pick<ContentItem, 's3Key' | 'transcriptionJob'>,
+): Promise<void> => {
+  await storage.deleteAllVersions(item.s3Key);
+  if (item.transcriptionJob) {
+    await storage.deleteAllVersions(transcriptKey(item.transcriptionJob));
+  }
+};
+
+/** S3 reports checksums in base64; items have always stored them as hex. */
+const toHexChecksum = (checksum: string): string => {
+  const [digest, partCount] = checksum.split('-');
+  const hex = Buffer.from(digest, 'base64').toString('hex');
+  return partCount ? `${hex}-${partCount}` : hex;
+};
+
+export class S3FileStorage implements FileStorage {
+  constructor(
+    private readonly s3: S3,
+    private readonly bucket: string,
+  ) {}
+
+  createUpload({ key, contentType, maxSize, uploadedBy, checksum }: UploadTarget): Promise<PresignedUpload> {
+    // A presigned POST lets S3 itself enforce the content type and size,
+    // which a presigned PUT URL cannot do.
+    return new Promise((resolve, reject) => {
+      this.s3.createPresignedPost(
+        {
+          Bucket: this.bucket,
+          // Fields are signed into the policy, so the browser cannot alter them.
+          Fields: {
+            key,
+            'Content-Type': contentType,
+            [`x-amz-meta-${UPLOADED_BY_METADATA}`]: uploadedBy,
+            ...(checksum && {
+              'x-amz-checksum-algorithm': CHECKSUM_ALGORITHM,
+              'x-amz-checksum-sha256': checksum,
+            }),
+          },
+          Conditions: [
+            ['content-length-range', 1, maxSize],
+            ['eq', '$Content-Type', contentType],
+          ],
+          Expires: UPLOAD_URL_EXPIRY_SECONDS,
+        },
+        (error, data) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          resolve({ url: data.url, fields: data.fields, expiresIn: UPLOAD_URL_EXPIRY_SECONDS });
+        },
+      );
+    });
+  }
+
+  async createDownload({ key, fileName, versionId }: DownloadTarget): Promise<PresignedDownload> {
+    const url = await this.s3.getSignedUrlPromise('getObject', {
+      Bucket: this.bucket,
+      Key: key,
+      VersionId: versionId,
+      // Inline, so previews render in the page instead of downloading.
+      ResponseContentDisposition: `inline; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      Expires: DOWNLOAD_URL_EXPIRY_SECONDS,
+    });
+    return { url, expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS };
+  }
+
+  async createMultipartUpload(key: string, contentType: string, uploadedBy: string): Promise<string> {
+    const result = await this.s3
+      .createMultipartUpload({
+        Bucket: this.bucket,
+        Key: key,
+        ContentType: contentType,
+        Metadata: { [UPLOADED_BY_METADATA]: uploadedBy },
+        ChecksumAlgorithm: CHECKSUM_ALGORITHM,
+      })
+      .promise();
+    return result.UploadId as string;
+  }
+
+  signUploadParts(key: string, uploadId: string, parts: PartChecksum[]): Promise<SignedPart[]> {
+    // The checksum is a signed header, so the client must send it with the part.
+    return Promise.all(parts.map(async ({ partNumber, checksum }) => ({
+      partNumber,
+      url: await this.s3.getSignedUrlPromise('uploadPart', {
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        ChecksumSHA256: checksum,
+        Expires: PART_URL_EXPIRY_SECONDS,
+      }),
+    })));
+  }
+
+  async listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = [];
+    let marker: number | undefined;
+    do {
+      const page = await this.s3
+        .listParts({ Bucket: this.bucket, Key: key, UploadId: uploadId, PartNumberMarker: marker })
+        .promise();
+      parts.push(...(page.Parts ?? []).map((part) => ({
+        partNumber: part.PartNumber as number,
+        etag: part.ETag as string,
+        size: part.Size ?? 0,
+        checksum: part.ChecksumSHA256,
+      })));
+      marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+    } while (marker);
+    return parts;
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: Omit<UploadedPart, 'size'>[],
+  ): Promise<void> {
+    await this.s3
+      .completeMultipartUpload({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag, ChecksumSHA256: part.checksum })),
+        },
+      })
+      .promise();
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.s3.abortMultipartUpload({ Bucket: this.bucket, Key: key, UploadId: uploadId }).promise();
+  }
+
+  async describe(key: string, versionId?: string): Promise<StoredObject> {
+    const head = await this.s3
+      .headObject({ Bucket: this.bucket, Key: key, VersionId: versionId, ChecksumMode: 'ENABLED' })
+      .promise();
+
+    return {
+      size: head.ContentLength ?? 0,
+      mimeType: head.ContentType ?? 'application/octet-stream',
+      checksum: head.ChecksumSHA256 && toHexChecksum(head.ChecksumSHA256),
+    };
+  }
+
+  async read(key: string, versionId?: string): Promise<Buffer> {
+    const object = await this.s3
+      .getObject({ Bucket: this.bucket, Key: key, VersionId: versionId })
+      .promise();
+    return Buffer.from(object.Body as Uint8Array);
+  }
+
+  async write(key: string, body: Buffer, contentType: string, uploadedBy: string): Promise<void> {
+    await this.s3
+      .putObject({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        Metadata: { [UPLOADED_BY_METADATA]: uploadedBy },
+        ChecksumSHA256: createHash('sha256').update(body).digest('base64'),
+      })
+      .promise();
+  }
+
+  async listVersions(key: string, limit: number): Promise<ObjectVersion[]> {
+    const versions: ObjectVersion[] = [];
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+
+    do {
+      const page = await this.s3
+        .listObjectVersions({
+          Bucket: this.bucket,
+          Prefix: key,
+          KeyMarker: keyMarker,
+          VersionIdMarker: versionIdMarker,
+        })
+        .promise();
+      // Prefix matching could pick up sibling keys, so only keep exact matches.
+      versions.push(...(page.Versions ?? [])
+        .filter((version) => version.Key === key)
+        .map((version) => ({
+          versionId: version.VersionId as string,
+          size: version.Size ?? 0,
+          lastModified: (version.LastModified ?? new Date(0)).toISOString(),
+          isLatest: version.IsLatest ?? false,
+        })));
+      keyMarker = page.IsTruncated ? page.NextKeyMarker : undefined;
+      versionIdMarker = page.IsTruncated ? page.NextVersionIdMarker : undefined;
+    } while (keyMarker && versions.length < limit);
+
+    return versions.slice(0, limit);
+  }
+
+  async getVersionMetadata(key: string, versionId: string): Promise<VersionMetadata> {
+    const head = await this.s3.headObject({ Bucket: this.bucket, Key: key, VersionId: versionId }).promise();
+    return {
+      uploadedBy: head.Metadata?.[UPLOADED_BY_METADATA],
+      restoredFrom: head.Metadata?.[RESTORED_FROM_METADATA],
+    };
+  }
+
+  async restoreVersion(key: string, versionId: string, restoredBy: string): Promise<void> {
+    const head = await this.s3.headObject({ Bucket: this.bucket, Key: key, VersionId: versionId }).promise();
+    await this.s3
+      .copyObject({
+        Bucket: this.bucket,
+        Key: key,
+        CopySource: `${this.bucket}/${encodeURIComponent(key)}?versionId=${encodeURIComponent(versionId)}`,
+        ContentType: head.ContentType,
+        MetadataDirective: 'REPLACE',
+        Metadata: { [UPLOADED_BY_METADATA]: restoredBy, [RESTORED_FROM_METADATA]: versionId },
+        // S3 computes a whole-object checksum for the copy.
+        ChecksumAlgorithm: CHECKSUM_ALGORITHM,
+      })
+      .promise();
+  }
+
+  async deleteAllVersions(key: string): Promise<void> {
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+
+    do {
+      const page = await this.s3
+        .listObjectVersions({
+          Bucket: this.bucket,
+          Prefix: key,
+          KeyMarker: keyMarker,
+          VersionIdMarker: versionIdMarker,
+        })
+        .promise();
+
+      // Prefix matching could pick up sibling keys, so only keep exact matches.
+      const objects = [...(page.Versions ?? []), ...(page.DeleteMarkers ?? [])]
+        .filter((version) => version.Key === key)
+        .map((version) => ({ Key: key, VersionId: version.VersionId }));
+
+      for (let i = 0; i < objects.length; i += DELETE_OBJECTS_LIMIT) {
+        const result = await this.s3
+          .deleteObjects({
+            Bucket: this.bucket,
+            Delete: { Objects: objects.slice(i, i + DELETE_OBJECTS_LIMIT), Quiet: true },
+          })
+          .promise();
+        // DeleteObjects succeeds as a whole even when single keys fail.
+        const [first, ...others] = result.Errors ?? [];
+        if (first) {
+          throw new Error(`Could not delete ${others.length + 1} versions of ${key}: ${first.Code} ${first.Message}`);
+        }
+      }
+
+      keyMarker = page.IsTruncated ? page.NextKeyMarker : undefined;
+      versionIdMarker = page.IsTruncated ? page.NextVersionIdMarker : undefined;
+    } while (keyMarker);
+  }
+}
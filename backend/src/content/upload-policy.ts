@@ -0,0 +1,122 @@
+import { HttpError, requireString } from '../shared/http';
+
+const MB = 1024 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Maximum upload size per accepted MIME type. Anything not listed here is
+ * rejected when an upload URL is requested.
+ */
+export const MAX_UPLOAD_SIZE_BY_TYPE: Record<string, number> = {
+  'text/plain': 10 * MB,
+  'text/markdown': 10 * MB,
+  'text/html': 10 * MB,
+  'text/csv': 25 * MB,
+  'application/json': 10 * MB,
+  'application/pdf': 100 * MB,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 50 * MB,
+  'image/jpeg': 20 * MB,
+  'image/png': 20 * MB,
+  'image/gif': 20 * MB,
+  'image/webp': 20 * MB,
+  'audio/mpeg': 500 * MB,
+  'audio/wav': 500 * MB,
+  'audio/mp4': 500 * MB,
+  'video/mp4': 2048 * MB,
+  'video/quicktime': 2048 * MB,
+  'video/webm': 2048 * MB,
+};
+
+export const getMaxUploadSize = (fileType: string): number | undefined =>
+  MAX_UPLOAD_SIZE_BY_TYPE[fileType.toLowerCase()];
+
+export interface UploadRequest {
+  pkbId: string;
+  fileName: string;
+  fileType: string;
+  maxSize: number;
+  size?: number;
+  /** Base64 SHA-256 of the file. */
+  checksum?: string;
+}
+
+const SHA256_BASE64 = /^[A-Za-z0-9+/]{43}=$/;
+
+/** A base64 SHA-256 digest, the form S3 takes checksums in. */
+export const requireChecksum = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !SHA256_BASE64.test(value)) {
+    throw new HttpError(400, `${field} must be a base64 SHA-256 digest`);
+  }
+  return value;
+};
+
+/**
+ * Checks the file name, type, declared size and checksum of an upload request, for
+ * both single and multipart uploads.
+ */
+export const validateUploadRequest = (body: {
+  pkbId?: unknown;
+  fileName?: unknown;
+  fileType?: unknown;
+  size?: unknown;
+  checksum?: unknown;
+}): UploadRequest => {
+  const pkbId = requireString(body.pkbId, 'pkbId');
+  const fileName = requireString(body.fileName, 'fileName');
+  const fileType = requireString(body.fileType, 'fileType').toLowerCase();
+
+  if (fileName.length > MAX_FILE_NAME_LENGTH) {
+    throw new HttpError(400, `fileName must be at most ${MAX_FILE_NAME_LENGTH} characters`);
+  }
+
+  const maxSize = getMaxUploadSize(fileType);
+  if (maxSize === undefined) {
+    throw new HttpError(415, `Unsupported file type: ${fileType}`);
+  }
+  if (body.size !== undefined) {
+    if (typeof body.size !== 'number' || body.size <= 0) {
+      throw new HttpError(400, 'size must be a positive number');
+    }
+    if (body.size > maxSize) {
+      throw new HttpError(413, `File exceeds the ${maxSize} byte limit for ${fileType}`);
+    }
+  }
+  const checksum = body.checksum === undefined ? undefined : requireChecksum(body.checksum, 'checksum');
+  return { pkbId, fileName, fileType, maxSize, size: body.size, checksum };
+};
+
+/** S3 rejects parts below 5 MB (except the last) and uploads of more than 10,000 parts. */
+const MIN_PART_SIZE = 5 * MB;
+const MAX_PART_COUNT = 10000;
+const DEFAULT_PART_SIZE = 16 * MB;
+
+/**
+ * Part size for a multipart upload of `size` bytes: 16 MB, or more when
+ * that would need over 10,000 parts. Whole megabytes keep it readable.
+ */
+export const getPartSize = (size: number): number => {
+  const needed = Math.ceil(size / MAX_PART_COUNT / MB) * MB;
+  return Math.max(DEFAULT_PART_SIZE, MIN_PART_SIZE, needed);
+};
+
+export const getPartCount = (size: number, partSize: number): number => Math.ceil(size / partSize);
+
+export const CONTENT_KEY_PREFIX = 'pkbs/';
+
+export const buildContentKey = (pkbId: string, contentId: string): string =>
+  `${CONTENT_KEY_PREFIX}${pkbId}/${contentId}`;
+
+/**
+ * Reverses {@link buildContentKey}; returns undefined for keys outside the
+ * content layout.
+ */
+export const parseContentKey = (key: string): { pkbId: string; contentId: string } | undefined => {
+  if (!key.startsWith(CONTENT_KEY_PREFIX)) {
+    return undefined;
+  }
+  const [pkbId, contentId, ...rest] = key.slice(CONTENT_KEY_PREFIX.length).split('/');
+  if (!pkbId || !contentId || rest.length > 0) {
+    return undefined;
+  }
+  return { pkbId, contentId };
+};
@@ -0,0 +1,156 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError, jsonResponse } from '../shared/http';
+import { RouteHandler, RouteRequest } from '../shared/router';
+import { diffLines } from '../shared/diff';
+import { authorizePkb } from '../pkb/access';
+import { ContentChanges, ContentItem } from './repository';
+import { ObjectVersion } from './storage';
+import { ContentDependencies } from './index';
+
+/** Versions listed per item; older ones stay in S3 but are not shown. */
+const MAX_VERSIONS = 50;
+/** Both sides of a diff are read into memory, so keep them small. */
+const MAX_DIFF_SIZE = 1024 * 1024;
+
+/** Whether versions of the item can be compared as text. */
+export const isDiffable = (item: ContentItem): boolean =>
+  item.fileType.startsWith('text/') || item.fileType === 'application/json';
+
+/**
+ * Whether the item's history is in the bucket. Inline notes are saved on
+ * the DynamoDB item, so their object versions, if any, are out of date.
+ */
+export const hasVersionHistory = (item: ContentItem): boolean =>
+  !(item.kind === 'note' && item.noteStorage === 'inline');
+
+const getItem = async (deps: ContentDependencies, pkbId: string, contentId: string): Promise<ContentItem> => {
+  const item = await deps.content.get(pkbId, contentId);
+  if (!item) {
+    throw new HttpError(404, 'Content not found');
+  }
+  if (!hasVersionHistory(item)) {
+    throw new HttpError(400, 'Notes saved inline have no version history');
+  }
+  return item;
+};
+
+const findVersion = (versions: ObjectVersion[], versionId: string): number => {
+  const index = versions.findIndex((version) => version.versionId === versionId);
+  if (index < 0) {
+    throw new HttpError(404, 'Version not found');
+  }
+  return index;
+};
+
+/** Lists stored versions with who uploaded each one, newest first. */
+const listVersions = async (deps: ContentDependencies, item: ContentItem): Promise<APIGatewayProxyResult> => {
+  const [versions, members] = await Promise.all([
+    deps.storage.listVersions(item.s3Key, MAX_VERSIONS),
+    deps.members.listMembers(item.pkbId),
+  ]);
+  const emails = new Map(members.map((member) => [member.userId, member.email]));
+
+  const described = await Promise.all(versions.map(async (version) => {
+    const metadata = await deps.storage.getVersionMetadata(item.s3Key, version.versionId);
+    // Versions from before uploaders were recorded: the item knows the latest one.
+    const uploadedBy = metadata.uploadedBy ?? (version.isLatest ? item.uploadedBy : undefined);
+    return {
+      ...version,
+      ...metadata,
+      uploadedBy,
+      uploadedByEmail: uploadedBy && emails.get(uploadedBy),
+    };
+  }));
+  return jsonResponse(200, { versions: described, diffable: isDiffable(item) });
+};
+
+/**
+ * Diffs a version against `against`, or by default against the version
+ * before it; the first version is diffed against an empty file.
+ */
+const diffVersion = async (
+  deps: ContentDependencies,
+  item: ContentItem,
+  versionId: string,
+  againstId: string | undefined,
+): Promise<APIGatewayProxyResult> => {
+  if (!isDiffable(item)) {
+    throw new HttpError(415, 'Changes can only be shown for text formats');
+  }
+  const versions = await deps.storage.listVersions(item.s3Key, MAX_VERSIONS);
+  const target = versions[findVersion(versions, versionId)];
+  const base = againstId
+    ? versions[findVersion(versions, againstId)]
+    : versions[findVersion(versions, versionId) + 1];
+
+  if (target.size > MAX_DIFF_SIZE || (base && base.size > MAX_DIFF_SIZE)) {
+    throw new HttpError(413, `Changes can only be shown for versions up to ${MAX_DIFF_SIZE} bytes`);
+  }
+
+  const [before, after] = await Promise.all([
+    base ? deps.storage.read(item.s3Key, base.versionId) : Buffer.alloc(0),
+    deps.storage.read(item.s3Key, target.versionId),
+  ]);
+  const lines = diffLines(before.toString('utf8'), after.toString('utf8'));
+  return jsonResponse(200, {
+    versionId: target.versionId,
+    againstVersionId: base?.versionId,
+    added: lines.filter((line) => line.op === 'added').length,
+    removed: lines.filter((line) => line.op === 'removed').length,
+    lines,
+  });
+};
+
+/**
+ * Copies an earlier version over the item. The copy raises `Object Created`
+ * like an upload, so the item is confirmed and re-indexed the usual way.
+ */
+const restoreVersion = async (
+  deps: ContentDependencies,
+  userId: string,
+  item: ContentItem,
+  versionId: string,
+): Promise<APIGatewayProxyResult> => {
+  if (item.status !== 'uploaded') {
+    throw new HttpError(409, 'Content has not finished uploading');
+  }
+  const versions = await deps.storage.listVersions(item.s3Key, MAX_VERSIONS);
+  if (versions[findVersion(versions, versionId)].isLatest) {
+    throw new HttpError(409, 'This version is already the current one');
+  }
+
+  await deps.storage.restoreVersion(item.s3Key, versionId, userId);
+  const changes: ContentChanges = { status: 'uploading', ingestionStatus: 'pending', uploadedBy: userId };
+  if (item.kind === 'note') {
+    // The restored text is in S3, whatever size it is; a new revision also
+    // stops ingestion of any inline save still queued.
+    Object.assign(changes, { noteStorage: 's3', noteBody: '', noteRevision: uuidv4() });
+  }
+  const updated = await deps.content.update(item.pkbId, item.contentId, changes);
+  return jsonResponse(200, { message: 'Version restored successfully', item: updated });
+};
+
+/**
+ * Version history from the bucket's object versions:
+ *
+ * - `GET /content/{pkbId}/{contentId}/versions`
+ * - `GET /content/{pkbId}/{contentId}/versions/{versionId}/diff[?against=versionId]`
+ * - `POST /content/{pkbId}/{contentId}/versions/{versionId}/restore`
+ */
+export const versionRoutes = (deps: ContentDependencies): Record<string, RouteHandler> => ({
+  listVersions: async ({ userId, params: { pkbId, contentId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    return listVersions(deps, await getItem(deps, pkbId, contentId));
+  },
+
+  getVersionDiff: async ({ userId, params: { pkbId, contentId, versionId }, query }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    return diffVersion(deps, await getItem(deps, pkbId, contentId), versionId, query.against);
+  },
+
+  restoreVersion: async ({ userId, params: { pkbId, contentId, versionId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'editor');
+    return restoreVersion(deps, userId, await getItem(deps, pkbId, contentId), versionId);
+  },
+});
@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError, jsonResponse, requireString } from '../shared/http';
+import { createDocumentClient } from '../shared/dynamo';
+import { RouteHandler, RouteRequest, createRouter } from '../shared/router';
+import { DynamoPkbRepository, PkbRepository } from '../pkb/repository';
+import { DynamoMembershipRepository, MembershipRepository } from '../pkb/members';
+import { authorizePkb } from '../pkb/access';
+import {
+  Conversation,
+  ConversationRepository,
+  DEFAULT_CONVERSATION_TITLE,
+  DynamoConversationRepository,
+} from './repository';
+
+const MAX_TITLE_LENGTH = 100;
+
+export interface ConversationHandlerDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+  conversations: ConversationRepository;
+}
+
+interface ConversationRequestBody {
+  title?: unknown;
+}
+
+const validateTitle = (value: unknown): string => {
+  const title = requireString(value, 'title');
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new HttpError(400, `title must be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  return title;
+};
+
+/**
+ * Conversation threads of the caller in one PKB:
+ * `GET|POST /conversations/{pkbId}` and
+ * `GET|PUT|DELETE /conversations/{pkbId}/{conversationId}`.
+ */
+export const createHandler = (deps: ConversationHandlerDependencies) => {
+  /** Any member of the PKB may keep conversations in it; they are private to them. */
+  const authorized = (handler: RouteHandler): RouteHandler => async (request) => {
+    await authorizePkb(deps, request.userId, request.params.pkbId, 'viewer');
+    return handler(request);
+  };
+
+  return createRouter({
+    listConversations: authorized(async ({ userId, params: { pkbId } }: RouteRequest) => {
+      const conversations = await deps.conversations.list(userId, pkbId);
+      conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      return jsonResponse(200, { conversations });
+    }),
+
+    createConversation: authorized(async ({ userId, params: { pkbId }, body }: RouteRequest<ConversationRequestBody>) => {
+      const now = new Date().toISOString();
+      const conversation: Conversation = {
+        userId,
+        pkbId,
+        conversationId: uuidv4(),
+        title: body.title === undefined ? DEFAULT_CONVERSATION_TITLE : validateTitle(body.title),
+        createdAt: now,
+        updatedAt: now,
+        messageCount: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        summarizedThrough: 0,
+      };
+      await deps.conversations.create(conversation);
+      return jsonResponse(201, conversation);
+    }),
+
+    getConversation: authorized(async ({ userId, params: { pkbId, conversationId } }: RouteRequest) => {
+      const conversation = await deps.conversations.get(userId, pkbId, conversationId);
+      if (!conversation) {
+        throw new HttpError(404, 'Conversation not found');
+      }
+      const messages = await deps.conversations.listMessages(userId, pkbId, conversationId);
+      return jsonResponse(200, { conversation, messages });
+    }),
+
+    renameConversation: authorized(async ({ userId, params: { pkbId, conversationId }, body }: RouteRequest<ConversationRequestBody>) => {
+      const conversation = await deps.conversations.update(userId, pkbId, conversationId, {
+        title: validateTitle(body.title),
+      });
+      if (!conversation) {
+        throw new HttpError(404, 'Conversation not found');
+      }
+      return jsonResponse(200, { message: 'Conversation updated successfully', conversation });
+    }),
+
+    deleteConversation: authorized(async ({ userId, params: { pkbId, conversationId } }: RouteRequest) => {
+      if (!(await deps.conversations.delete(userId, pkbId, conversationId))) {
+        throw new HttpError(404, 'Conversation not found');
+      }
+      return jsonResponse(200, { message: 'Conversation deleted successfully' });
+    }),
+  });
+};
+
+const documentClient = createDocumentClient();
+
+export const handler = createHandler({
+  pkbs: new DynamoPkbRepository(documentClient, {
+    pkbs: process.env.PKB_TABLE || 'projectkb-pkbs',
+    content: process.env.CONTENT_TABLE || 'projectkb-content',
+  }),
+  members: new DynamoMembershipRepository(documentClient, process.env.MEMBER_TABLE || 'projectkb-members'),
+  conversations: new DynamoConversationRepository(
+    documentClient,
+    process.env.CONVERSATION_TABLE || 'projectkb-conversations',
+  ),
+});
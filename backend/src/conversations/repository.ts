@@ -0,0 +1,296 @@
+import { DynamoDB } from 'aws-sdk';
+import { batchDelete, buildUpdateExpression, isConditionalCheckFailed, queryAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+
+export interface MessageCitation {
+  marker: number;
+  contentId: string;
+  fileName: string;
+  start: number;
+  end: number;
+  excerpt: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface ConversationMessage {
+  messageId: string;
+  /** Position in the thread, starting at 0. */
+  index: number;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  /** Assistant messages only. */
+  modelId?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  citations?: MessageCitation[];
+}
+
+export interface Conversation {
+  userId: string;
+  pkbId: string;
+  conversationId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Model that produced the latest answer. */
+  modelId?: string;
+  /** Rolling summary of the messages before `summarizedThrough`. */
+  summary?: string;
+  summarizedThrough: number;
+}
+
+export type ConversationChanges = Partial<Pick<
+  Conversation,
+  'title' | 'messageCount' | 'inputTokens' | 'outputTokens' | 'modelId' | 'summary' | 'summarizedThrough'
+>>;
+
+/**
+ * Named conversation threads per user and PKB, with their message history.
+ */
+export interface ConversationRepository {
+  list(userId: string, pkbId: string): Promise<Conversation[]>;
+  get(userId: string, pkbId: string, conversationId: string): Promise<Conversation | undefined>;
+  create(conversation: Conversation): Promise<void>;
+  update(
+    userId: string,
+    pkbId: string,
+    conversationId: string,
+    changes: ConversationChanges,
+  ): Promise<Conversation | undefined>;
+  delete(userId: string, pkbId: string, conversationId: string): Promise<boolean>;
+  listMessages(userId: string, pkbId: string, conversationId: string): Promise<ConversationMessage[]>;
+  appendMessages(
+    userId: string,
+    pkbId: string,
+    conversationId: string,
+    messages: ConversationMessage[],
+  ): Promise<void>;
+}
+
+/** Title given to new threads until their first question names them. */
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const THREAD_PREFIX = 'thread#';
+const MESSAGE_PREFIX = 'msg#';
+
+/** Partition holding a user's threads (and their messages) for one PKB. */
+export const conversationPartition = (userId: string, pkbId: string) => `${userId}#${pkbId}`;
+const threadKey = (conversationId: string) => `${THREAD_PREFIX}${conversationId}`;
+const messagePrefix = (conversationId: string) => `${MESSAGE_PREFIX}${conversationId}#`;
+const messageKey = (conversationId: string, message: ConversationMessage) =>
+  `${messagePrefix(conversationId)}${String(message.index).padStart(6, '0')}`;
+
+interface ThreadRecord extends Conversation {
+  ownerPkb: string;
+  itemKey: string;
+}
+
+interface MessageRecord extends ConversationMessage {
+  ownerPkb: string;
+  itemKey: string;
+}
+
+type ConversationRecord = ThreadRecord | MessageRecord;
+
+const toConversation = ({ ownerPkb: _owner, itemKey: _key, ...conversation }: ThreadRecord): Conversation =>
+  conversation;
+
+const toMessage = ({ ownerPkb: _owner, itemKey: _key, ...message }: MessageRecord): ConversationMessage =>
+  message;
+
+/**
+ * Single-table layout in `projectkb-conversations`: the partition key is
+ * `userId#pkbId`, thread items sort under `thread#<id>` and their messages
+ * under `msg#<id>#<index>` so they read back in order.
+ */
+export class DynamoConversationRepository implements ConversationRepository {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  async list(userId: string, pkbId: string): Promise<Conversation[]> {
+    const records = await queryAll<ThreadRecord>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'ownerPkb = :ownerPkb AND begins_with(itemKey, :prefix)',
+      ExpressionAttributeValues: { ':ownerPkb': conversationPartition(userId, pkbId), ':prefix': THREAD_PREFIX },
+    });
+    return records.map(toConversation);
+  }
+
+  async get(userId: string, pkbId: string, conversationId: string): Promise<Conversation | undefined> {
+    const result = await this.client
+      .get({
+        TableName: this.tableName,
+        Key: { ownerPkb: conversationPartition(userId, pkbId), itemKey: threadKey(conversationId) },
+      })
+      .promise();
+    return result.Item ? toConversation(result.Item as ThreadRecord) : undefined;
+  }
+
+  async create(conversation: Conversation): Promise<void> {
+    const record: ThreadRecord = {
+      ...conversation,
+      ownerPkb: conversationPartition(conversation.userId, conversation.pkbId),
+      itemKey: threadKey(conversation.conversationId),
+    };
+    await this.client
+      .put({ TableName: this.tableName, Item: record, ConditionExpression: 'attribute_not_exists(itemKey)' })
+      .promise();
+  }
+
+  async update(
+    userId: string,
+    pkbId: string,
+    conversationId: string,
+    changes: ConversationChanges,
+  ): Promise<Conversation | undefined> {
+    try {
+      const result = await this.client
+        .update({
+          TableName: this.tableName,
+          Key: { ownerPkb: conversationPartition(userId, pkbId), itemKey: threadKey(conversationId) },
+          ...buildUpdateExpression({ ...changes, updatedAt: new Date().toISOString() }),
+          ConditionExpression: 'attribute_exists(itemKey)',
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+      return toConversation(result.Attributes as ThreadRecord);
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(userId: string, pkbId: string, conversationId: string): Promise<boolean> {
+    const ownerPkb = conversationPartition(userId, pkbId);
+    if (!(await this.get(userId, pkbId, conversationId))) {
+      return false;
+    }
+
+    const messages = await queryAll<{ ownerPkb: string; itemKey: string }>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'ownerPkb = :ownerPkb AND begins_with(itemKey, :prefix)',
+      ExpressionAttributeValues: { ':ownerPkb': ownerPkb, ':prefix': messagePrefix(conversationId) },
+      ProjectionExpression: 'ownerPkb, itemKey',
+    });
+    await batchDelete(this.client, this.tableName, [
+      ...messages,
+      { ownerPkb, itemKey: threadKey(conversationId) },
+    ]);
+    return true;
+  }
+
+  async listMessages(userId: string, pkbId: string, conversationId: string): Promise<ConversationMessage[]> {
+    const records = await queryAll<MessageRecord>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'ownerPkb = :ownerPkb AND begins_with(itemKey, :prefix)',
+      ExpressionAttributeValues: {
+        ':ownerPkb': conversationPartition(userId, pkbId),
+        ':prefix': messagePrefix(conversationId),
+      },
+    });
+    return records.map(toMessage);
+  }
+
+  async appendMessages(
+    userId: string,
+    pkbId: string,
+    conversationId: string,
+    messages: ConversationMessage[],
+  ): Promise<void> {
+    const ownerPkb = conversationPartition(userId, pkbId);
+    for (const message of messages) {
+      const record: MessageRecord = {
+        ...message,
+        ownerPkb,
+        itemKey: messageKey(conversationId, message),
+      };
+      // Two answers racing for the same position must not overwrite each other.
+      await this.client
+        .put({ TableName: this.tableName, Item: record, ConditionExpression: 'attribute_not_exists(itemKey)' })
+        .promise();
+    }
+  }
+}
+
+export class InMemoryConversationRepository implements ConversationRepository {
+  constructor(
+    readonly items: MemoryTable<ConversationRecord> = new MemoryTable<ConversationRecord>('ownerPkb', 'itemKey'),
+  ) {}
+
+  private queryPrefix<T extends ConversationRecord>(userId: string, pkbId: string, prefix: string): T[] {
+    return this.items
+      .query(conversationPartition(userId, pkbId))
+      .filter((item) => item.itemKey.startsWith(prefix)) as T[];
+  }
+
+  async list(userId: string, pkbId: string): Promise<Conversation[]> {
+    return this.queryPrefix<ThreadRecord>(userId, pkbId, THREAD_PREFIX).map(toConversation);
+  }
+
+  async get(userId: string, pkbId: string, conversationId: string): Promise<Conversation | undefined> {
+    const record = this.items.get(conversationPartition(userId, pkbId), threadKey(conversationId));
+    return record ? toConversation(record as ThreadRecord) : undefined;
+  }
+
+  async create(conversation: Conversation): Promise<void> {
+    const ownerPkb = conversationPartition(conversation.userId, conversation.pkbId);
+    const itemKey = threadKey(conversation.conversationId);
+    if (this.items.get(ownerPkb, itemKey)) {
+      throw new Error(`Conversation ${conversation.conversationId} already exists`);
+    }
+    this.items.put({ ...conversation, ownerPkb, itemKey });
+  }
+
+  async update(
+    userId: string,
+    pkbId: string,
+    conversationId: string,
+    changes: ConversationChanges,
+  ): Promise<Conversation | undefined> {
+    const existing = this.items.get(conversationPartition(userId, pkbId), threadKey(conversationId)) as ThreadRecord | undefined;
+    if (!existing) {
+      return undefined;
+    }
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    const updated: ThreadRecord = { ...existing, ...defined, updatedAt: new Date().toISOString() };
+    this.items.put(updated);
+    return toConversation(updated);
+  }
+
+  async delete(userId: string, pkbId: string, conversationId: string): Promise<boolean> {
+    const ownerPkb = conversationPartition(userId, pkbId);
+    for (const { itemKey } of this.queryPrefix(userId, pkbId, messagePrefix(conversationId))) {
+      this.items.delete(ownerPkb, itemKey);
+    }
+    return this.items.delete(ownerPkb, threadKey(conversationId));
+  }
+
+  async listMessages(userId: string, pkbId: string, conversationId: string): Promise<ConversationMessage[]> {
+    return this.queryPrefix<MessageRecord>(userId, pkbId, messagePrefix(conversationId)).map(toMessage);
+  }
+
+  async appendMessages(
+    userId: string,
+    pkbId: string,
+    conversationId: string,
+    messages: ConversationMessage[],
+  ): Promise<void> {
+    const ownerPkb = conversationPartition(userId, pkbId);
+    for (const message of messages) {
+      const itemKey = messageKey(conversationId, message);
+      if (this.items.get(ownerPkb, itemKey)) {
+        throw new Error(`Message ${message.index} already exists`);
+      }
+      this.items.put({ ...message, ownerPkb, itemKey });
+    }
+  }
+}
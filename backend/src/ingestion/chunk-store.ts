@@ -0,0 +1,226 @@
+import { DynamoDB } from 'aws-sdk';
+import { batchDelete, batchPut, queryAll, queryPages } from '../shared/dynamo';
+
+export interface IndexedChunk {
+  pkbId: string;
+  contentId: string;
+  index: number;
+  text: string;
+  /** Character offsets of the chunk within the extracted text. */
+  start: number;
+  end: number;
+  embedding: number[];
+  fileName: string;
+  fileType: string;
+  /** Media time covered by the chunk, in seconds, for transcripts. */
+  startTime?: number;
+  endTime?: number;
+}
+
+/**
+ * Chunk text and embeddings per PKB. `replace` swaps the chunks of a content
+ * item in one step: readers see either the old set or the new set, never a
+ * mix of the two.
+ */
+export interface ChunkStore {
+  replace(pkbId: string, contentId: string, chunks: IndexedChunk[]): Promise<void>;
+  list(pkbId: string): Promise<IndexedChunk[]>;
+  /**
+   * The same chunks as `list`, a page at a time, so callers can score them
+   * without holding the whole index. `contentIds` limits them to those items.
+   */
+  pages(pkbId: string, contentIds?: ReadonlySet<string>): AsyncIterable<IndexedChunk[]>;
+  delete(pkbId: string, contentId: string): Promise<void>;
+}
+
+const ACTIVE_SUFFIX = '#active';
+/** Up to this many items are read by key prefix; more are filtered out of a partition read. */
+const MAX_PREFIX_QUERIES = 25;
+
+interface ChunkRecord extends Omit<IndexedChunk, 'embedding'> {
+  chunkKey: string;
+  generation: string;
+  /** Float32 vector, stored as binary to stay well below the item size limit. */
+  embedding: Buffer | Uint8Array;
+}
+
+interface ManifestRecord {
+  pkbId: string;
+  chunkKey: string;
+  contentId: string;
+  generation: string;
+}
+
+const chunkKey = (contentId: string, generation: string, index: number) =>
+  `${contentId}#${generation}#${String(index).padStart(6, '0')}`;
+
+const manifestKey = (contentId: string) => `${contentId}${ACTIVE_SUFFIX}`;
+
+const encodeEmbedding = (embedding: number[]): Buffer =>
+  Buffer.from(new Float32Array(embedding).buffer);
+
+const decodeEmbedding = (data: Buffer | Uint8Array): number[] => {
+  const bytes = Buffer.from(data);
+  const floats = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+  return Array.from(floats);
+};
+
+/**
+ * Stores chunks in `projectkb-chunks` (pkbId / chunkKey). Each ingestion run
+ * writes a new generation of chunks, then flips a per-content manifest item
+ * to point at it and finally removes the previous generation.
+ */
+export class DynamoChunkStore implements ChunkStore {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  async replace(pkbId: string, contentId: string, chunks: IndexedChunk[]): Promise<void> {
+    const generation = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const records: ChunkRecord[] = chunks.map((chunk) => ({
+      ...chunk,
+      pkbId,
+      contentId,
+      generation,
+      chunkKey: chunkKey(contentId, generation, chunk.index),
+      embedding: encodeEmbedding(chunk.embedding),
+    }));
+
+    await batchPut(this.client, this.tableName, records);
+
+    const manifest: ManifestRecord = { pkbId, chunkKey: manifestKey(contentId), contentId, generation };
+    await this.client.put({ TableName: this.tableName, Item: manifest }).promise();
+
+    await this.deleteGenerations(pkbId, contentId, (candidate) => candidate !== generation);
+  }
+
+  async list(pkbId: string): Promise<IndexedChunk[]> {
+    const chunks: IndexedChunk[] = [];
+    for await (const page of this.pages(pkbId)) {
+      chunks.push(...page);
+    }
+    return chunks;
+  }
+
+  async *pages(pkbId: string, contentIds?: ReadonlySet<string>): AsyncGenerator<IndexedChunk[]> {
+    if (contentIds && contentIds.size <= MAX_PREFIX_QUERIES) {
+      for (const contentId of contentIds) {
+        yield* this.activePages(pkbId, contentId);
+      }
+      return;
+    }
+    yield* this.activePages(pkbId, undefined, contentIds);
+  }
+
+  /**
+   * Pages of active chunks of one content item, or of the whole partition
+   * narrowed to `contentIds`. A chunk read before its item's manifest waits
+   * until the manifest shows whether its generation is the active one.
+   */
+  private async *activePages(
+    pkbId: string,
+    contentId?: string,
+    contentIds?: ReadonlySet<string>,
+  ): AsyncGenerator<IndexedChunk[]> {
+    const active = new Map<string, string>();
+    const waiting = new Map<string, ChunkRecord[]>();
+    const toChunk = ({ chunkKey: _key, generation: _generation, embedding, ...chunk }: ChunkRecord): IndexedChunk => ({
+      ...chunk,
+      embedding: decodeEmbedding(embedding),
+    });
+
+    const pages = queryPages<ChunkRecord | ManifestRecord>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: contentId
+        ? 'pkbId = :pkbId AND begins_with(chunkKey, :prefix)'
+        : 'pkbId = :pkbId',
+      ExpressionAttributeValues: contentId
+        ? { ':pkbId': pkbId, ':prefix': `${contentId}#` }
+        : { ':pkbId': pkbId },
+    });
+
+    for await (const records of pages) {
+      const chunks: IndexedChunk[] = [];
+      for (const record of records) {
+        if (contentIds && !contentIds.has(record.contentId)) {
+          continue;
+        }
+        if (record.chunkKey.endsWith(ACTIVE_SUFFIX)) {
+          active.set(record.contentId, record.generation);
+          const released = waiting.get(record.contentId) ?? [];
+          waiting.delete(record.contentId);
+          chunks.push(...released.filter((chunk) => chunk.generation === record.generation).map(toChunk));
+          continue;
+        }
+        const chunk = record as ChunkRecord;
+        const generation = active.get(chunk.contentId);
+        if (generation === undefined) {
+          const queued = waiting.get(chunk.contentId) ?? [];
+          queued.push(chunk);
+          waiting.set(chunk.contentId, queued);
+        } else if (generation === chunk.generation) {
+          chunks.push(toChunk(chunk));
+        }
+      }
+      if (chunks.length > 0) {
+        yield chunks;
+      }
+    }
+  }
+
+  async delete(pkbId: string, contentId: string): Promise<void> {
+    await this.client
+      .delete({ TableName: this.tableName, Key: { pkbId, chunkKey: manifestKey(contentId) } })
+      .promise();
+    await this.deleteGenerations(pkbId, contentId, () => true);
+  }
+
+  private async deleteGenerations(
+    pkbId: string,
+    contentId: string,
+    shouldDelete: (generation: string) => boolean,
+  ): Promise<void> {
+    const records = await queryAll<ChunkRecord>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'pkbId = :pkbId AND begins_with(chunkKey, :prefix)',
+      ExpressionAttributeValues: { ':pkbId': pkbId, ':prefix': `${contentId}#` },
+      ProjectionExpression: 'pkbId, chunkKey, generation',
+    });
+
+    const stale = records.filter((record) =>
+      !record.chunkKey.endsWith(ACTIVE_SUFFIX) && shouldDelete(record.generation));
+    await batchDelete(
+      this.client,
+      this.tableName,
+      stale.map((record) => ({ pkbId, chunkKey: record.chunkKey })),
+    );
+  }
+}
+
+export class InMemoryChunkStore implements ChunkStore {
+  private readonly chunks = new Map<string, Map<string, IndexedChunk[]>>();
+
+  async replace(pkbId: string, contentId: string, chunks: IndexedChunk[]): Promise<void> {
+    if (!this.chunks.has(pkbId)) {
+      this.chunks.set(pkbId, new Map());
+    }
+    this.chunks.get(pkbId)!.set(contentId, chunks.map((chunk) => ({ ...chunk })));
+  }
+
+  async list(pkbId: string): Promise<IndexedChunk[]> {
+    return Array.from(this.chunks.get(pkbId)?.values() ?? []).flat();
+  }
+
+  async *pages(pkbId: string, contentIds?: ReadonlySet<string>): AsyncGenerator<IndexedChunk[]> {
+    for (const [contentId, chunks] of this.chunks.get(pkbId) ?? []) {
+      if (!contentIds || contentIds.has(contentId)) {
+        yield chunks;
+      }
+    }
+  }
+
+  async delete(pkbId: string, contentId: string): Promise<void> {
+    this.chunks.get(pkbId)?.delete(contentId);
+  }
+}
@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { BedrockRuntime } from 'aws-sdk';
+import { invocationError } from '../ai/model';
+
+/**
+ * Turns text into fixed-length vectors for similarity search. Bedrock Titan
+ * in production; {@link HashingEmbedder} offline.
+ */
+export interface Embedder {
+  readonly modelId: string;
+  readonly dimensions: number;
+  /** `onUsage` is told how many input tokens the texts took, for usage metering. */
+  embed(texts: string[], onUsage?: (inputTokens: number) => void): Promise<number[][]>;
+}
+
+// Titan limits input to roughly 8k tokens; chunks are far below that, but
+// guard against pathological inputs.
+const MAX_EMBEDDING_INPUT_CHARS = 20000;
+
+export class BedrockEmbedder implements Embedder {
+  constructor(
+    private readonly runtime: BedrockRuntime,
+    readonly modelId = 'amazon.titan-embed-text-v2:0',
+    readonly dimensions = 1024,
+  ) {}
+
+  async embed(texts: string[], onUsage?: (inputTokens: number) => void): Promise<number[][]> {
+    // Titan embeds one input per request.
+    const responses = await Promise.all(texts.map(async (text) => {
+      const response = await this.runtime
+        .invokeModel({
+          modelId: this.modelId,
+          contentType: 'application/json',
+          accept: 'application/json',
+          body: JSON.stringify({
+            inputText: text.slice(0, MAX_EMBEDDING_INPUT_CHARS),
+            dimensions: this.dimensions,
+            normalize: true,
+          }),
+        })
+        .promise()
+        .catch((error) => {
+          throw invocationError(this.modelId, error);
+        });
+      return JSON.parse(response.body.toString()) as { embedding: number[]; inputTextTokenCount?: number };
+    }));
+    onUsage?.(responses.reduce((sum, response) => sum + (response.inputTextTokenCount ?? 0), 0));
+    return responses.map((response) => response.embedding);
+  }
+}
+
+/**
+ * Deterministic bag-of-words embedder using feature hashing. Texts that
+ * share words get similar vectors, which is enough for tests and local runs.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly modelId = 'local-hashing';
+
+  constructor(readonly dimensions = 256) {}
+
+  async embed(texts: string[], onUsage?: (inputTokens: number) => void): Promise<number[][]> {
+    const tokenized = texts.map((text) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+    onUsage?.(tokenized.reduce((sum, tokens) => sum + tokens.length, 0));
+    return tokenized.map((tokens) => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      for (const token of tokens) {
+        const digest = createHash('md5').update(token).digest();
+        const bucket = digest.readUInt32BE(0) % this.dimensions;
+        vector[bucket] += digest[4] & 1 ? 1 : -1;
+      }
+      return normalize(vector);
+    });
+  }
+}
+
+export const normalize = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map((value) => value / length);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
@@ -0,0 +1,85 @@
+import mammoth from 'mammoth';
+import pdfParse from 'pdf-parse';
+
+export type Extractor = (body: Buffer) => Promise<string>;
+
+/** Raised for content types the ingestion worker cannot read text from. */
+export class UnsupportedContentError extends Error {
+  constructor(contentType: string) {
+    super(`Unsupported content type: ${contentType}`);
+    this.name = 'UnsupportedContentError';
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// Unicode ends at U+10FFFF; U+D800 to U+DFFF are surrogates, not characters.
+const isCharacter = (codePoint: number): boolean =>
+  codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+
+/** Decodes character references; ones naming no character stay as written. */
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint = /^#x/i.test(name) ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return isCharacter(codePoint) ? String.fromCodePoint(codePoint) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+export const extractPlainText: Extractor = async (body) => body.toString('utf8');
+
+export const extractMarkdown: Extractor = async (body) =>
+  body
+    .toString('utf8')
+    .replace(/```[^\n]*\n/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2');
+
+export const extractHtml: Extractor = async (body) =>
+  decodeEntities(
+    body
+      .toString('utf8')
+      .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<(br|\/p|\/div|\/h[1-6]|\/li|\/tr)[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim();
+
+export const extractPdf: Extractor = async (body) => (await pdfParse(body)).text;
+
+export const extractDocx: Extractor = async (body) =>
+  (await mammoth.extractRawText({ buffer: body })).value;
+
+const EXTRACTORS: Record<string, Extractor> = {
+  'text/plain': extractPlainText,
+  'text/csv': extractPlainText,
+  'application/json': extractPlainText,
+  'text/markdown': extractMarkdown,
+  'text/html': extractHtml,
+  'application/pdf': extractPdf,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': extractDocx,
+};
+
+export const isExtractable = (contentType: string): boolean =>
+  contentType.toLowerCase() in EXTRACTORS;
+
+export const extractText = async (body: Buffer, contentType: string): Promise<string> => {
+  const extractor = EXTRACTORS[contentType.toLowerCase()];
+  if (!extractor) {
+    throw new UnsupportedContentError(contentType);
+  }
+  return extractor(body);
+};
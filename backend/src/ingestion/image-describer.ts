@@ -0,0 +1,52 @@
+import { MAX_IMAGE_BYTES, ModelClient } from '../ai/model';
+
+export interface ImageDescription {
+  caption: string;
+  /** Text legible in the image, empty when there is none. */
+  text: string;
+}
+
+/**
+ * Turns an image into text the index can hold: a caption for what it shows
+ * and an OCR transcription of any text in it.
+ */
+export interface ImageDescriber {
+  describe(image: Buffer, mediaType: string): Promise<ImageDescription>;
+}
+
+const DESCRIBE_PROMPT = [
+  'Describe this image for a search index. Reply in exactly this format:',
+  'CAPTION: one or two sentences on what the image shows.',
+  'TEXT: every piece of legible text in the image, verbatim, or NONE if there is none.',
+].join('\n');
+
+/** Splits a `CAPTION: … TEXT: …` reply; a reply without the markers is taken as the caption. */
+export const parseDescription = (reply: string): ImageDescription => {
+  const match = reply.match(/CAPTION:\s*([\s\S]*?)(?:\n\s*TEXT:\s*([\s\S]*))?$/i);
+  if (!match) {
+    return { caption: reply.trim(), text: '' };
+  }
+  const text = (match[2] ?? '').trim();
+  return { caption: match[1].trim(), text: /^none\.?$/i.test(text) ? '' : text };
+};
+
+/** Captions and transcribes images with a multimodal chat model. */
+export class ModelImageDescriber implements ImageDescriber {
+  constructor(private readonly model: ModelClient) {}
+
+  async describe(image: Buffer, mediaType: string): Promise<ImageDescription> {
+    if (image.length > MAX_IMAGE_BYTES) {
+      throw new Error(`Image is larger than the ${MAX_IMAGE_BYTES / (1024 * 1024)} MB the model accepts`);
+    }
+    const result = await this.model.generate({
+      messages: [{ role: 'user', content: DESCRIBE_PROMPT, images: [{ mediaType, data: image }] }],
+      maxTokens: 1024,
+      temperature: 0,
+    });
+    return parseDescription(result.text);
+  }
+}
+
+/** The text indexed for an image: its caption, then any text found in it. */
+export const describedImageText = ({ caption, text }: ImageDescription): string =>
+  text ? `${caption}\n\nText in image:\n${text}` : caption;
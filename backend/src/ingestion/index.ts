@@ -0,0 +1,66 @@
+import { EventBridgeEvent } from 'aws-lambda';
+import { BedrockRuntime, S3, TranscribeService } from 'aws-sdk';
+import { createDocumentClient } from '../shared/dynamo';
+import { ContentUploadedEvent, NOTE_SAVED, NoteSavedEvent } from '../shared/events';
+import { DynamoContentRepository } from '../content/repository';
+import { S3FileStorage } from '../content/storage';
+import { BedrockModelClient } from '../ai/model';
+import { DynamoChunkStore } from './chunk-store';
+import { BedrockEmbedder } from './embedder';
+import { ModelImageDescriber } from './image-describer';
+import { AwsTranscriptionProvider } from './transcription';
+import { ModelContentSummarizer } from './summarizer';
+import { DynamoSuggestionRepository } from '../suggestions/repository';
+import { DynamoUsageRepository } from '../usage/repository';
+import { UsageTracker } from '../usage/metering';
+import { IngestionDependencies, completeTranscription, ingestContent, ingestNote } from './pipeline';
+
+type TranscriptionStateChangeEvent = EventBridgeEvent<
+  'Transcribe Job State Change',
+  { TranscriptionJobName: string; TranscriptionJobStatus: string }
+>;
+
+/**
+ * Indexes uploads once the upload handler has confirmed them, and notes
+ * saved inline on their content item.
+ */
+export const createHandler = (deps: IngestionDependencies) =>
+  async (event: ContentUploadedEvent | NoteSavedEvent): Promise<void> => {
+    if (event['detail-type'] === NOTE_SAVED) {
+      await ingestNote(deps, (event as NoteSavedEvent).detail);
+      return;
+    }
+    await ingestContent(deps, (event as ContentUploadedEvent).detail);
+  };
+
+/** Indexes the transcript once Transcribe reports a job as completed or failed. */
+export const createTranscriptionHandler = (deps: IngestionDependencies) =>
+  async (event: TranscriptionStateChangeEvent): Promise<void> => {
+    await completeTranscription(deps, event.detail.TranscriptionJobName);
+  };
+
+const documentClient = createDocumentClient();
+const bedrock = new BedrockRuntime();
+const s3 = new S3({ signatureVersion: 'v4' });
+const fileBucket = process.env.FILE_BUCKET || 'projectkb-files';
+// Items are ingested one at a time, so one tracker serves every invocation.
+const usage = new UsageTracker(new DynamoUsageRepository(documentClient, process.env.USAGE_TABLE || 'projectkb-usage'));
+
+const dependencies: IngestionDependencies = {
+  content: new DynamoContentRepository(documentClient, process.env.CONTENT_TABLE || 'projectkb-content'),
+  storage: new S3FileStorage(s3, fileBucket),
+  chunks: new DynamoChunkStore(documentClient, process.env.CHUNK_TABLE || 'projectkb-chunks'),
+  embedder: usage.embedder(new BedrockEmbedder(bedrock, process.env.EMBEDDING_MODEL_ID)),
+  images: new ModelImageDescriber(usage.model(
+    new BedrockModelClient(bedrock, process.env.VISION_MODEL_ID || 'anthropic.claude-3-haiku-20240307-v1:0'),
+  )),
+  transcriber: new AwsTranscriptionProvider(new TranscribeService(), s3, fileBucket),
+  summarizer: new ModelContentSummarizer(usage.model(
+    new BedrockModelClient(bedrock, process.env.SUMMARY_MODEL_ID || 'anthropic.claude-3-haiku-20240307-v1:0'),
+  )),
+  suggestions: new DynamoSuggestionRepository(documentClient, process.env.SUGGESTION_TABLE || 'projectkb-suggestions'),
+  usage,
+};
+
+export const handler = createHandler(dependencies);
+export const onTranscriptionComplete = createTranscriptionHandler(dependencies);
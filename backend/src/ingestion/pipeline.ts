@@ -0,0 +1,237 @@
+import { ChunkOptions, DEFAULT_CHUNK_OPTIONS, chunkText } from '../shared/chunking';
+import { ContentChanges, ContentItem, ContentRepository } from '../content/repository';
+import { FileStorage } from '../content/storage';
+import { NoteSavedDetail } from '../shared/events';
+import { SuggestionRepository } from '../suggestions/repository';
+import { suggestSummary } from '../suggestions/analysis';
+import { isVisionMediaType } from '../ai/model';
+import { UsageTracker } from '../usage/metering';
+import { ChunkStore, IndexedChunk } from './chunk-store';
+import { Embedder } from './embedder';
+import { UnsupportedContentError, extractText } from './extractors';
+import { ImageDescriber, ImageDescription, describedImageText } from './image-describer';
+import { ContentSummarizer } from './summarizer';
+import { TimelineSpan, renderTranscript, timeRangeOf } from './transcript';
+import {
+  TranscriptionProvider,
+  buildTranscriptionJobName,
+  getMediaFormat,
+  parseTranscriptionJobName,
+} from './transcription';
+
+const EMBEDDING_BATCH_SIZE = 16;
+
+export interface IngestionDependencies {
+  content: ContentRepository;
+  storage: FileStorage;
+  chunks: ChunkStore;
+  embedder: Embedder;
+  /** Captions and transcribes images; without it images are not indexed. */
+  images?: ImageDescriber;
+  /** Transcribes audio and video; without it media is not indexed. */
+  transcriber?: TranscriptionProvider;
+  /** Suggests a summary and tags for indexed items; needs `suggestions` to record them. */
+  summarizer?: ContentSummarizer;
+  suggestions?: SuggestionRepository;
+  chunkOptions?: ChunkOptions;
+  /**
+   * Wraps the embedder and the models behind `images` and `summarizer`;
+   * their usage, and that of transcription, is billed to the uploader of
+   * each item.
+   */
+  usage?: UsageTracker;
+}
+
+export interface IngestionTarget {
+  pkbId: string;
+  contentId: string;
+  versionId?: string;
+}
+
+/**
+ * The text to index for an item: extracted from documents, or a generated
+ * caption plus OCR text for images.
+ */
+const readText = async (
+  deps: IngestionDependencies,
+  body: Buffer,
+  fileType: string,
+): Promise<{ text: string; description?: ImageDescription }> => {
+  if (!isVisionMediaType(fileType)) {
+    return { text: await extractText(body, fileType) };
+  }
+  if (!deps.images) {
+    throw new UnsupportedContentError(fileType);
+  }
+  const description = await deps.images.describe(body, fileType);
+  return { text: describedImageText(description), description };
+};
+
+/**
+ * Chunks and embeds `text`, swaps the chunks into the index and marks the
+ * item ready. With a transcript timeline, each chunk also records the media
+ * time it covers.
+ */
+const indexText = async (
+  deps: IngestionDependencies,
+  item: ContentItem,
+  text: string,
+  changes: ContentChanges = {},
+  timeline?: TimelineSpan[],
+): Promise<void> => {
+  const { pkbId, contentId } = item;
+  const textChunks = chunkText(text, deps.chunkOptions ?? DEFAULT_CHUNK_OPTIONS);
+
+  const chunks: IndexedChunk[] = [];
+  for (let i = 0; i < textChunks.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = textChunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const embeddings = await deps.embedder.embed(batch.map((chunk) => chunk.text));
+    batch.forEach((chunk, j) => {
+      chunks.push({
+        pkbId,
+        contentId,
+        index: chunk.index,
+        text: chunk.text,
+        start: chunk.start,
+        end: chunk.end,
+        embedding: embeddings[j],
+        fileName: item.fileName,
+        fileType: item.fileType,
+        ...(timeline && timeRangeOf(timeline, chunk.start, chunk.end)),
+      });
+    });
+  }
+
+  await deps.chunks.replace(pkbId, contentId, chunks);
+  await deps.content.update(pkbId, contentId, {
+    ...changes,
+    ingestionStatus: 'ready',
+    chunkCount: chunks.length,
+    ingestedAt: new Date().toISOString(),
+  });
+  await summarize(deps, item, text);
+};
+
+/** A summary is a nice-to-have, so failing to write one leaves the item ready. */
+const summarize = async (deps: IngestionDependencies, item: ContentItem, text: string): Promise<void> => {
+  if (!deps.summarizer || !deps.suggestions || !text.trim()) {
+    return;
+  }
+  try {
+    await suggestSummary({ suggestions: deps.suggestions }, item, await deps.summarizer.summarize(item.fileName, text));
+  } catch (error) {
+    console.warn(`Could not summarize ${item.pkbId}/${item.contentId}`, error);
+  }
+};
+
+const recordFailure = async (deps: IngestionDependencies, item: ContentItem, error: unknown): Promise<void> => {
+  console.error(`Ingestion failed for ${item.pkbId}/${item.contentId}`, error);
+  await deps.content.update(item.pkbId, item.contentId, {
+    ingestionStatus: 'failed',
+    ingestionError: error instanceof Error ? error.message : String(error),
+  });
+};
+
+/**
+ * Extracts, chunks and embeds one content item and swaps its chunks into
+ * the index. The item's `ingestionStatus` moves from processing to ready,
+ * or to failed with the error message so the UI can show what went wrong.
+ * Audio and video instead start a transcription job and wait in
+ * `transcribing` until {@link completeTranscription} picks up the result.
+ * A version the item no longer points at is skipped, since the upload that
+ * replaced it is ingested in turn.
+ */
+export const ingestContent = async (deps: IngestionDependencies, target: IngestionTarget): Promise<void> => {
+  const { pkbId, contentId } = target;
+  const current = await deps.content.get(pkbId, contentId);
+  if (!current) {
+    console.warn(`No content record for ${pkbId}/${contentId}; skipping ingestion`);
+    return;
+  }
+  if (target.versionId !== undefined && target.versionId !== current.versionId) {
+    console.warn(`Skipping version ${target.versionId} of ${pkbId}/${contentId}; the item is at ${current.versionId}`);
+    return;
+  }
+  const item = await deps.content.update(pkbId, contentId, {
+    ingestionStatus: 'processing',
+    ingestionError: '',
+  });
+  if (!item) {
+    console.warn(`No content record for ${pkbId}/${contentId}; skipping ingestion`);
+    return;
+  }
+
+  try {
+    const mediaFormat = getMediaFormat(item.fileType);
+    if (mediaFormat) {
+      if (!deps.transcriber) {
+        throw new UnsupportedContentError(item.fileType);
+      }
+      const jobName = buildTranscriptionJobName(pkbId, contentId);
+      await deps.transcriber.start({ jobName, key: item.s3Key, mediaFormat });
+      await deps.content.update(pkbId, contentId, { ingestionStatus: 'transcribing', transcriptionJob: jobName });
+      return;
+    }
+
+    // Small notes live on the item itself rather than in S3.
+    const body = item.noteStorage === 'inline'
+      ? Buffer.from(item.noteBody ?? '', 'utf8')
+      : await deps.storage.read(item.s3Key, target.versionId);
+    const { text, description } = await readText(deps, body, item.fileType);
+    await indexText(deps, item, text, { caption: description?.caption });
+  } catch (error) {
+    await recordFailure(deps, item, error);
+  } finally {
+    await deps.usage?.flush({ userId: item.uploadedBy, pkbId });
+  }
+};
+
+/**
+ * Indexes an inline note after a save. Events for revisions that have
+ * since been saved over are ignored, as the newer save sends its own.
+ */
+export const ingestNote = async (deps: IngestionDependencies, detail: NoteSavedDetail): Promise<void> => {
+  const item = await deps.content.get(detail.pkbId, detail.contentId);
+  if (!item || item.noteRevision !== detail.revision) {
+    console.warn(`Ignoring stale note event for ${detail.pkbId}/${detail.contentId}`);
+    return;
+  }
+  await ingestContent(deps, detail);
+};
+
+/**
+ * Indexes the transcript of a finished transcription job. Results of jobs
+ * superseded by a newer upload of the same item are ignored.
+ */
+export const completeTranscription = async (deps: IngestionDependencies, jobName: string): Promise<void> => {
+  const target = parseTranscriptionJobName(jobName);
+  const item = target && await deps.content.get(target.pkbId, target.contentId);
+  if (!item || item.transcriptionJob !== jobName) {
+    console.warn(`Ignoring transcription job ${jobName}: no content item is waiting for it`);
+    return;
+  }
+
+  try {
+    if (!deps.transcriber) {
+      throw new UnsupportedContentError(item.fileType);
+    }
+    const result = await deps.transcriber.fetch(jobName);
+    if (result.status === 'in_progress') {
+      console.warn(`Transcription job ${jobName} has not finished yet`);
+      return;
+    }
+    if (result.status === 'failed') {
+      throw new Error(`Transcription failed: ${result.failureReason}`);
+    }
+
+    await deps.content.update(item.pkbId, item.contentId, { ingestionStatus: 'processing' });
+    const transcript = renderTranscript(result.segments);
+    const duration = result.segments.length > 0 ? result.segments[result.segments.length - 1].end : 0;
+    deps.usage?.recordTranscription(duration);
+    await indexText(deps, item, transcript.text, { durationSeconds: duration }, transcript.timeline);
+  } catch (error) {
+    await recordFailure(deps, item, error);
+  } finally {
+    await deps.usage?.flush({ userId: item.uploadedBy, pkbId: item.pkbId });
+  }
+};
@@ -0,0 +1,52 @@
+import { ModelClient } from '../ai/model';
+
+export interface ContentSummary {
+  summary: string;
+  /** Lower-case topic tags, at most {@link MAX_TAGS}. */
+  tags: string[];
+}
+
+/** Writes a short summary and topic tags for an indexed item. */
+export interface ContentSummarizer {
+  summarize(fileName: string, text: string): Promise<ContentSummary>;
+}
+
+export const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 40;
+/** Long documents are summarized from their opening, which keeps the cost per item bounded. */
+const MAX_INPUT_CHARS = 20000;
+
+const SUMMARIZE_PROMPT = [
+  'Summarize the document below for a knowledge base. Reply in exactly this format:',
+  'SUMMARY: two or three sentences on what the document covers.',
+  `TAGS: up to ${MAX_TAGS} short topic tags, comma-separated.`,
+].join('\n');
+
+/** Splits a `SUMMARY: … TAGS: …` reply; a reply without the markers is taken as the summary. */
+export const parseSummary = (reply: string): ContentSummary => {
+  const match = reply.match(/SUMMARY:\s*([\s\S]*?)(?:\n\s*TAGS:\s*([\s\S]*))?$/i);
+  if (!match) {
+    return { summary: reply.trim(), tags: [] };
+  }
+  const tags = (match[2] ?? '')
+    .split(/[,\n]/)
+    .map((tag) => tag.trim().replace(/^#/, '').toLowerCase())
+    .filter((tag) => tag && tag.length <= MAX_TAG_LENGTH);
+  return { summary: match[1].trim(), tags: Array.from(new Set(tags)).slice(0, MAX_TAGS) };
+};
+
+export class ModelContentSummarizer implements ContentSummarizer {
+  constructor(private readonly model: ModelClient) {}
+
+  async summarize(fileName: string, text: string): Promise<ContentSummary> {
+    const result = await this.model.generate({
+      messages: [{
+        role: 'user',
+        content: `${SUMMARIZE_PROMPT}\n\nDocument: ${fileName}\n\n${text.slice(0, MAX_INPUT_CHARS)}`,
+      }],
+      maxTokens: 400,
+      temperature: 0,
+    });
+    return parseSummary(result.text);
+  }
+}
@@ -0,0 +1,46 @@
+import { formatTimestamp } from '../shared/timestamps';
+import { TranscriptSegment } from './transcription';
+
+/** Where a transcript segment landed in the rendered text. */
+export interface TimelineSpan {
+  start: number;
+  end: number;
+  startTime: number;
+  endTime: number;
+}
+
+export interface RenderedTranscript {
+  text: string;
+  timeline: TimelineSpan[];
+}
+
+/**
+ * Renders segments as `[m:ss] Speaker 1: …` paragraphs, so the speaker and
+ * time survive chunking, and records each paragraph's character range.
+ */
+export const renderTranscript = (segments: TranscriptSegment[]): RenderedTranscript => {
+  let text = '';
+  const timeline: TimelineSpan[] = [];
+  for (const segment of segments) {
+    if (text) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    text += `[${formatTimestamp(segment.start)}] ${segment.speaker}: ${segment.text}`;
+    timeline.push({ start, end: text.length, startTime: segment.start, endTime: segment.end });
+  }
+  return { text, timeline };
+};
+
+/** The media time covered by the characters `start`..`end` of a rendered transcript. */
+export const timeRangeOf = (
+  timeline: TimelineSpan[],
+  start: number,
+  end: number,
+): { startTime: number; endTime: number } | undefined => {
+  const spans = timeline.filter((span) => span.end > start && span.start < end);
+  if (spans.length === 0) {
+    return undefined;
+  }
+  return { startTime: spans[0].startTime, endTime: spans[spans.length - 1].endTime };
+};
@@ -0,0 +1,206 @@
+import { S3, TranscribeService } from 'aws-sdk';
+
+/** One speaker turn of a transcript; times are seconds from the start of the media. */
+export interface TranscriptSegment {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionRequest {
+  /** Unique job name; see {@link buildTranscriptionJobName}. */
+  jobName: string;
+  /** Key of the media object in the file bucket. */
+  key: string;
+  mediaFormat: string;
+}
+
+export type TranscriptionResult =
+  | { status: 'in_progress' }
+  | { status: 'completed'; segments: TranscriptSegment[] }
+  | { status: 'failed'; failureReason: string };
+
+/**
+ * Speech-to-text for uploaded audio and video. Jobs run asynchronously:
+ * `start` submits one and `fetch` collects the result once the provider
+ * reports it finished. Amazon Transcribe in production;
+ * {@link FakeTranscriptionProvider} stands in for it in tests.
+ */
+export interface TranscriptionProvider {
+  start(request: TranscriptionRequest): Promise<void>;
+  fetch(jobName: string): Promise<TranscriptionResult>;
+}
+
+/** Transcribe media formats by upload MIME type. QuickTime is not supported by Transcribe. */
+const MEDIA_FORMATS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/mp4': 'm4a',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+};
+
+export const getMediaFormat = (contentType: string): string | undefined =>
+  MEDIA_FORMATS[contentType.toLowerCase()];
+
+export const isTranscribable = (contentType: string): boolean =>
+  getMediaFormat(contentType) !== undefined;
+
+// Job names allow [0-9a-zA-Z._-]; the IDs are UUIDs, so `_` is a safe separator.
+// Job names are unique per account, so each stage prefixes its own.
+const JOB_PREFIX = process.env.TRANSCRIPTION_JOB_PREFIX || 'projectkb';
+export const TRANSCRIPT_KEY_PREFIX = 'transcripts/';
+
+export const buildTranscriptionJobName = (pkbId: string, contentId: string): string =>
+  `${JOB_PREFIX}_${pkbId}_${contentId}_${Date.now()}`;
+
+/** Reverses {@link buildTranscriptionJobName}; undefined for jobs this app did not start. */
+export const parseTranscriptionJobName = (jobName: string): { pkbId: string; contentId: string } | undefined => {
+  const [prefix, pkbId, contentId, startedAt, ...rest] = jobName.split('_');
+  if (prefix !== JOB_PREFIX || !pkbId || !contentId || !startedAt || rest.length > 0) {
+    return undefined;
+  }
+  return { pkbId, contentId };
+};
+
+/** Where the transcript JSON of a job is written, outside the `pkbs/` content prefix. */
+export const transcriptKey = (jobName: string): string => `${TRANSCRIPT_KEY_PREFIX}${jobName}.json`;
+
+interface TranscribeItem {
+  type: 'pronunciation' | 'punctuation';
+  start_time?: string;
+  end_time?: string;
+  speaker_label?: string;
+  alternatives: { content: string }[];
+}
+
+interface TranscribeOutput {
+  results: {
+    items: TranscribeItem[];
+    speaker_labels?: {
+      segments: { items: { start_time: string; speaker_label: string }[] }[];
+    };
+  };
+}
+
+/** Long monologues are split at the next sentence end after this many seconds. */
+const MAX_SEGMENT_SECONDS = 30;
+
+const speakerName = (label: string): string => {
+  const match = label.match(/^spk_(\d+)$/);
+  return match ? `Speaker ${Number(match[1]) + 1}` : label;
+};
+
+/**
+ * Groups the word-level items of a Transcribe result into speaker turns.
+ * Older results only carry speakers in `speaker_labels`, newer ones on each
+ * item; both are handled.
+ */
+export const parseTranscribeOutput = (output: TranscribeOutput): TranscriptSegment[] => {
+  const speakerAt = new Map<string, string>();
+  for (const segment of output.results.speaker_labels?.segments ?? []) {
+    for (const item of segment.items) {
+      speakerAt.set(item.start_time, item.speaker_label);
+    }
+  }
+
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | undefined;
+  let endsSentence = false;
+
+  for (const item of output.results.items) {
+    const content = item.alternatives[0]?.content ?? '';
+    if (item.type === 'punctuation') {
+      if (current) {
+        current.text += content;
+        endsSentence = /[.?!]/.test(content);
+      }
+      continue;
+    }
+
+    const start = Number(item.start_time ?? 0);
+    const end = Number(item.end_time ?? start);
+    const label = item.speaker_label ?? (item.start_time && speakerAt.get(item.start_time));
+    const speaker = label ? speakerName(label) : current?.speaker ?? 'Speaker 1';
+
+    const tooLong = current !== undefined && endsSentence && start - current.start >= MAX_SEGMENT_SECONDS;
+    if (!current || current.speaker !== speaker || tooLong) {
+      current = { speaker, start, end, text: content };
+      segments.push(current);
+    } else {
+      current.text += ` ${content}`;
+      current.end = end;
+    }
+    endsSentence = false;
+  }
+  return segments;
+};
+
+const MAX_SPEAKERS = 10;
+
+/**
+ * Amazon Transcribe with speaker diarization. Transcripts are written to
+ * the file bucket under `transcripts/`, so the media never leaves it.
+ */
+export class AwsTranscriptionProvider implements TranscriptionProvider {
+  constructor(
+    private readonly transcribe: TranscribeService,
+    private readonly s3: S3,
+    private readonly bucket: string,
+  ) {}
+
+  async start(request: TranscriptionRequest): Promise<void> {
+    await this.transcribe
+      .startTranscriptionJob({
+        TranscriptionJobName: request.jobName,
+        Media: { MediaFileUri: `s3://${this.bucket}/${request.key}` },
+        MediaFormat: request.mediaFormat,
+        IdentifyLanguage: true,
+        OutputBucketName: this.bucket,
+        OutputKey: transcriptKey(request.jobName),
+        Settings: { ShowSpeakerLabels: true, MaxSpeakerLabels: MAX_SPEAKERS },
+      })
+      .promise();
+  }
+
+  async fetch(jobName: string): Promise<TranscriptionResult> {
+    const { TranscriptionJob: job } = await this.transcribe
+      .getTranscriptionJob({ TranscriptionJobName: jobName })
+      .promise();
+
+    switch (job?.TranscriptionJobStatus) {
+      case 'COMPLETED': {
+        const object = await this.s3
+          .getObject({ Bucket: this.bucket, Key: transcriptKey(jobName) })
+          .promise();
+        const output = JSON.parse((object.Body as Buffer).toString('utf8')) as TranscribeOutput;
+        return { status: 'completed', segments: parseTranscribeOutput(output) };
+      }
+      case 'FAILED':
+        return { status: 'failed', failureReason: job.FailureReason ?? 'Transcription failed' };
+      default:
+        return { status: 'in_progress' };
+    }
+  }
+}
+
+/**
+ * Local stand-in that "transcribes" every job to the same segments as soon
+ * as it is started.
+ */
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly jobs = new Map<string, TranscriptionRequest>();
+
+  constructor(private readonly segments: TranscriptSegment[]) {}
+
+  async start(request: TranscriptionRequest): Promise<void> {
+    this.jobs.set(request.jobName, request);
+  }
+
+  async fetch(jobName: string): Promise<TranscriptionResult> {
+    return this.jobs.has(jobName)
+      ? { status: 'completed', segments: this.segments.map((segment) => ({ ...segment })) }
+      : { status: 'failed', failureReason: `Unknown transcription job ${jobName}` };
+  }
+}
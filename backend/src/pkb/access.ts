@@ -0,0 +1,58 @@
+import { HttpError } from '../shared/http';
+import { Pkb, PkbRepository } from './repository';
+import { MemberRole, MembershipRepository } from './members';
+
+const ROLE_RANK: Record<MemberRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export interface AccessDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+}
+
+export interface PkbAccess {
+  pkb: Pkb;
+  role: MemberRole;
+}
+
+/**
+ * The caller's role in a PKB, or undefined if they are not a member.
+ * PKBs created before sharing existed have no membership records; their
+ * creator is still recognised as the owner.
+ */
+export const resolveAccess = async (
+  deps: AccessDependencies,
+  userId: string,
+  pkbId: string,
+): Promise<PkbAccess | undefined> => {
+  const membership = await deps.members.getMember(pkbId, userId);
+  if (membership) {
+    const pkb = await deps.pkbs.get(membership.ownerId, pkbId);
+    return pkb && { pkb, role: membership.role };
+  }
+  const owned = await deps.pkbs.get(userId, pkbId);
+  return owned && { pkb: owned, role: 'owner' };
+};
+
+export const hasRole = (role: MemberRole, required: MemberRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[required];
+
+/**
+ * Resolves the caller's access to a PKB and requires at least the given
+ * role. Non-members get a 404 so PKB ids cannot be probed; members with too
+ * little access get a 403.
+ */
+export const authorizePkb = async (
+  deps: AccessDependencies,
+  userId: string,
+  pkbId: string,
+  required: MemberRole,
+): Promise<PkbAccess> => {
+  const access = await resolveAccess(deps, userId, pkbId);
+  if (!access) {
+    throw new HttpError(404, 'PKB not found');
+  }
+  if (!hasRole(access.role, required)) {
+    throw new HttpError(403, `This action requires ${required} access to the PKB`);
+  }
+  return access;
+};
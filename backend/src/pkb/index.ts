@@ -0,0 +1,209 @@
+import { S3 } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpError, getVerifiedEmail, jsonResponse, requireString } from '../shared/http';
+import { createDocumentClient } from '../shared/dynamo';
+import { RouteRequest, createRouter } from '../shared/router';
+import { ContentItem, ContentRepository, DynamoContentRepository } from '../content/repository';
+import { FileStorage, S3FileStorage, deleteStoredFiles } from '../content/storage';
+import { validateMetadataFields } from '../content/metadata';
+import { parseChatModelId } from '../ai/request';
+import { DynamoPkbRepository, Pkb, PkbChanges, PkbRepository } from './repository';
+import { DynamoMembershipRepository, MemberRole, MembershipRepository } from './members';
+import { authorizePkb } from './access';
+import { SharingDependencies, invitationRoutes, memberRoutes } from './sharing';
+import { mailerFromEnvironment } from './invitation-mailer';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+interface PkbRequestBody {
+  name?: unknown;
+  description?: unknown;
+  metadataFields?: unknown;
+  chatModelId?: unknown;
+}
+
+const validateName = (value: unknown): string => {
+  const name = requireString(value, 'name');
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+};
+
+const validateDescription = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, 'description must be a string');
+  }
+  if (value.length > MAX_DESCRIPTION_LENGTH) {
+    throw new HttpError(400, `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return value.trim();
+};
+
+export interface PkbDependencies extends SharingDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+  contents: ContentRepository;
+  storage: FileStorage;
+}
+
+/** Uploaded content of a PKB by ingestion progress, for the dashboard cards. */
+export interface ContentStats {
+  total: number;
+  ready: number;
+  /** Pending, processing or transcribing. */
+  processing: number;
+  failed: number;
+  /** Most recent change to any item. */
+  lastUpdatedAt?: string;
+}
+
+const summarizeContent = (items: ContentItem[]): ContentStats => {
+  const stats: ContentStats = { total: 0, ready: 0, processing: 0, failed: 0 };
+  for (const item of items) {
+    // Items whose upload never finished are not content yet.
+    if (item.status !== 'uploaded') {
+      continue;
+    }
+    stats.total += 1;
+    if (item.ingestionStatus === 'ready') {
+      stats.ready += 1;
+    } else if (item.ingestionStatus === 'failed') {
+      stats.failed += 1;
+    } else {
+      stats.processing += 1;
+    }
+    if (!stats.lastUpdatedAt || item.updatedAt > stats.lastUpdatedAt) {
+      stats.lastUpdatedAt = item.updatedAt;
+    }
+  }
+  return stats;
+};
+
+const withContentStats = async <T extends Pkb>(deps: PkbDependencies, pkb: T) => ({
+  ...pkb,
+  contentStats: summarizeContent(await deps.contents.list(pkb.pkbId)),
+});
+
+/**
+ * PKBs the user owns, including ones created before sharing existed, plus
+ * the ones shared with them, each with the caller's role and content stats.
+ */
+const listAccessible = async (deps: PkbDependencies, userId: string) => {
+  const owned = await deps.pkbs.list(userId);
+  const ownedIds = new Set(owned.map((pkb) => pkb.pkbId));
+  const shared = await Promise.all(
+    (await deps.members.listMemberships(userId))
+      .filter((membership) => !ownedIds.has(membership.pkbId))
+      .map(async (membership) => {
+        const pkb = await deps.pkbs.get(membership.ownerId, membership.pkbId);
+        return pkb && { ...pkb, role: membership.role };
+      }),
+  );
+  const accessible = [
+    ...owned.map((pkb) => ({ ...pkb, role: 'owner' as MemberRole })),
+    ...shared.filter((pkb): pkb is Pkb & { role: MemberRole } => pkb !== undefined),
+  ];
+  return Promise.all(accessible.map((pkb) => withContentStats(deps, pkb)));
+};
+
+/**
+ * PKB CRUD on `/pkb` and `/pkb/{pkbId}`, plus sharing: see
+ * {@link memberRoutes} and {@link invitationRoutes}. Viewers can read a
+ * PKB, editors can also rename it, and only the owner can delete it.
+ */
+export const createHandler = (deps: PkbDependencies) => createRouter({
+  listPkbs: async ({ userId }: RouteRequest) =>
+    jsonResponse(200, { pkbs: await listAccessible(deps, userId) }),
+
+  getPkb: async ({ userId, params }: RouteRequest) => {
+    const { pkb, role } = await authorizePkb(deps, userId, params.pkbId, 'viewer');
+    return jsonResponse(200, await withContentStats(deps, { ...pkb, role }));
+  },
+
+  createPkb: async ({ event, userId, body }: RouteRequest<PkbRequestBody>) => {
+    const now = new Date().toISOString();
+    const pkb: Pkb = {
+      userId,
+      pkbId: uuidv4(),
+      name: validateName(body.name),
+      description: validateDescription(body.description),
+      createdAt: now,
+      updatedAt: now,
+      ...(body.chatModelId === undefined || body.chatModelId === null
+        ? {}
+        : { chatModelId: parseChatModelId(body.chatModelId, 'chatModelId') }),
+    };
+    await deps.pkbs.create(pkb);
+    await deps.members.putMember({
+      pkbId: pkb.pkbId,
+      userId,
+      role: 'owner',
+      ownerId: userId,
+      email: getVerifiedEmail(event),
+      addedAt: now,
+      addedBy: userId,
+    });
+    return jsonResponse(201, pkb);
+  },
+
+  updatePkb: async ({ userId, params: { pkbId }, body }: RouteRequest<PkbRequestBody>) => {
+    const access = await authorizePkb(deps, userId, pkbId, 'editor');
+    const changes: PkbChanges = {};
+    if (body.name !== undefined) {
+      changes.name = validateName(body.name);
+    }
+    if (body.description !== undefined) {
+      changes.description = validateDescription(body.description);
+    }
+    if (body.metadataFields !== undefined) {
+      changes.metadataFields = validateMetadataFields(body.metadataFields);
+    }
+    if (body.chatModelId !== undefined) {
+      changes.chatModelId = body.chatModelId === null ? null : parseChatModelId(body.chatModelId, 'chatModelId');
+    }
+    const pkb = await deps.pkbs.update(access.pkb.userId, pkbId, changes);
+    if (!pkb) {
+      throw new HttpError(404, 'PKB not found');
+    }
+    return jsonResponse(200, { message: 'PKB updated successfully', pkb });
+  },
+
+  deletePkb: async ({ userId, params: { pkbId } }: RouteRequest) => {
+    const { pkb } = await authorizePkb(deps, userId, pkbId, 'owner');
+    // Files first, while the content rows still say where they are.
+    for (const item of await deps.contents.list(pkbId)) {
+      await deleteStoredFiles(deps.storage, item);
+    }
+    if (!(await deps.pkbs.delete(pkb.userId, pkbId))) {
+      throw new HttpError(404, 'PKB not found');
+    }
+    await deps.members.deleteAll(pkbId);
+    return jsonResponse(200, { message: 'PKB deleted successfully' });
+  },
+
+  ...memberRoutes(deps),
+  ...invitationRoutes(deps),
+});
+
+const documentClient = createDocumentClient();
+
+export const handler = createHandler({
+  pkbs: new DynamoPkbRepository(documentClient, {
+    pkbs: process.env.PKB_TABLE || 'projectkb-pkbs',
+    content: process.env.CONTENT_TABLE || 'projectkb-content',
+    chunks: process.env.CHUNK_TABLE || 'projectkb-chunks',
+    conversations: process.env.CONVERSATION_TABLE || 'projectkb-conversations',
+    suggestions: process.env.SUGGESTION_TABLE || 'projectkb-suggestions',
+    folders: process.env.FOLDER_TABLE || 'projectkb-folders',
+    labels: process.env.LABEL_TABLE || 'projectkb-content-labels',
+  }),
+  members: new DynamoMembershipRepository(documentClient, process.env.MEMBER_TABLE || 'projectkb-members'),
+  contents: new DynamoContentRepository(documentClient, process.env.CONTENT_TABLE || 'projectkb-content'),
+  storage: new S3FileStorage(new S3({ signatureVersion: 'v4' }), process.env.FILE_BUCKET || 'projectkb-files'),
+  mailer: mailerFromEnvironment(),
+});
@@ -0,0 +1,50 @@
+import { SES } from 'aws-sdk';
+import { Invitation } from './members';
+
+/** Tells invitees about a new invitation. */
+export interface InvitationMailer {
+  send(invitation: Invitation): Promise<void>;
+}
+
+/**
+ * E-mails invitations through SES from a verified sender address, with a
+ * link to the app where the invitee signs in with that address to accept.
+ */
+export class SesInvitationMailer implements InvitationMailer {
+  constructor(
+    private readonly ses: SES,
+    private readonly sender: string,
+    private readonly appOrigin: string,
+  ) {}
+
+  async send(invitation: Invitation): Promise<void> {
+    const role = invitation.role === 'editor' ? 'an editor' : 'a viewer';
+    await this.ses.sendEmail({
+      Source: this.sender,
+      Destination: { ToAddresses: [invitation.email] },
+      Message: {
+        Subject: { Data: `You're invited to "${invitation.pkbName}" on ProjectKB` },
+        Body: {
+          Text: {
+            Data: [
+              `You have been invited to join the knowledge base "${invitation.pkbName}" as ${role}.`,
+              '',
+              `Sign in or create an account with ${invitation.email} to accept or decline it:`,
+              this.appOrigin,
+            ].join('\n'),
+          },
+        },
+      },
+    }).promise();
+  }
+}
+
+/**
+ * The SES mailer when `INVITATION_SENDER` is set. Without one, invitees only
+ * find their invitations in the app once they sign in.
+ */
+export const mailerFromEnvironment = (): InvitationMailer | undefined => (
+  process.env.INVITATION_SENDER
+    ? new SesInvitationMailer(new SES(), process.env.INVITATION_SENDER, process.env.APP_ORIGIN || 'http://localhost:3000')
+    : undefined
+);
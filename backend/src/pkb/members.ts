@@ -0,0 +1,238 @@
+import { DynamoDB } from 'aws-sdk';
+import { batchDelete, queryAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+
+/** Owners manage the PKB and its members, editors change content, viewers read and ask. */
+export type MemberRole = 'owner' | 'editor' | 'viewer';
+
+/** Roles that can be granted by invitation; each PKB has exactly one owner. */
+export const INVITABLE_ROLES: MemberRole[] = ['editor', 'viewer'];
+
+export interface Membership {
+  pkbId: string;
+  userId: string;
+  role: MemberRole;
+  /** Owner's `sub`, which keys the PKB record itself. */
+  ownerId: string;
+  email?: string;
+  addedAt: string;
+  addedBy: string;
+}
+
+export interface Invitation {
+  pkbId: string;
+  /** Lower-cased address the invitation was sent to. */
+  email: string;
+  role: MemberRole;
+  ownerId: string;
+  pkbName: string;
+  invitedBy: string;
+  invitedAt: string;
+}
+
+/**
+ * Members and pending invitations of shared PKBs. Members are keyed by
+ * Cognito `sub`; invitations by e-mail address until the invitee, signed in
+ * with that verified address, accepts them.
+ */
+export interface MembershipRepository {
+  getMember(pkbId: string, userId: string): Promise<Membership | undefined>;
+  listMembers(pkbId: string): Promise<Membership[]>;
+  /** Every PKB the user is a member of, including the ones they own. */
+  listMemberships(userId: string): Promise<Membership[]>;
+  putMember(membership: Membership): Promise<void>;
+  removeMember(pkbId: string, userId: string): Promise<boolean>;
+  getInvitation(pkbId: string, email: string): Promise<Invitation | undefined>;
+  listInvitations(pkbId: string): Promise<Invitation[]>;
+  listInvitationsFor(email: string): Promise<Invitation[]>;
+  putInvitation(invitation: Invitation): Promise<void>;
+  deleteInvitation(pkbId: string, email: string): Promise<boolean>;
+  /** Removes every member and invitation of a PKB. */
+  deleteAll(pkbId: string): Promise<void>;
+}
+
+const USER_PREFIX = 'user#';
+const INVITE_PREFIX = 'invite#';
+
+const userKey = (userId: string) => `${USER_PREFIX}${userId}`;
+const inviteKey = (email: string) => `${INVITE_PREFIX}${email.toLowerCase()}`;
+
+interface MemberRecord extends Membership {
+  memberKey: string;
+}
+
+interface InvitationRecord extends Invitation {
+  memberKey: string;
+}
+
+type MembershipRecord = MemberRecord | InvitationRecord;
+
+const toMembership = ({ memberKey: _key, ...membership }: MemberRecord): Membership => membership;
+const toInvitation = ({ memberKey: _key, ...invitation }: InvitationRecord): Invitation => invitation;
+
+/**
+ * `projectkb-members` (pkbId / memberKey), where memberKey is `user#<sub>`
+ * or `invite#<email>`. The `memberKey-index` GSI (memberKey / pkbId) lists
+ * a user's PKBs and the invitations sent to an address.
+ */
+export class DynamoMembershipRepository implements MembershipRepository {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+    private readonly indexName = 'memberKey-index',
+  ) {}
+
+  private async getRecord<T extends MembershipRecord>(pkbId: string, memberKey: string): Promise<T | undefined> {
+    const result = await this.client
+      .get({ TableName: this.tableName, Key: { pkbId, memberKey } })
+      .promise();
+    return result.Item as T | undefined;
+  }
+
+  private queryPkb<T extends MembershipRecord>(pkbId: string, prefix: string): Promise<T[]> {
+    return queryAll<T>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'pkbId = :pkbId AND begins_with(memberKey, :prefix)',
+      ExpressionAttributeValues: { ':pkbId': pkbId, ':prefix': prefix },
+    });
+  }
+
+  private queryIndex<T extends MembershipRecord>(memberKey: string): Promise<T[]> {
+    return queryAll<T>(this.client, {
+      TableName: this.tableName,
+      IndexName: this.indexName,
+      KeyConditionExpression: 'memberKey = :memberKey',
+      ExpressionAttributeValues: { ':memberKey': memberKey },
+    });
+  }
+
+  private async deleteRecord(pkbId: string, memberKey: string): Promise<boolean> {
+    const result = await this.client
+      .delete({ TableName: this.tableName, Key: { pkbId, memberKey }, ReturnValues: 'ALL_OLD' })
+      .promise();
+    return result.Attributes !== undefined;
+  }
+
+  async getMember(pkbId: string, userId: string): Promise<Membership | undefined> {
+    const record = await this.getRecord<MemberRecord>(pkbId, userKey(userId));
+    return record && toMembership(record);
+  }
+
+  async listMembers(pkbId: string): Promise<Membership[]> {
+    return (await this.queryPkb<MemberRecord>(pkbId, USER_PREFIX)).map(toMembership);
+  }
+
+  async listMemberships(userId: string): Promise<Membership[]> {
+    return (await this.queryIndex<MemberRecord>(userKey(userId))).map(toMembership);
+  }
+
+  async putMember(membership: Membership): Promise<void> {
+    const record: MemberRecord = { ...membership, memberKey: userKey(membership.userId) };
+    await this.client.put({ TableName: this.tableName, Item: record }).promise();
+  }
+
+  removeMember(pkbId: string, userId: string): Promise<boolean> {
+    return this.deleteRecord(pkbId, userKey(userId));
+  }
+
+  async getInvitation(pkbId: string, email: string): Promise<Invitation | undefined> {
+    const record = await this.getRecord<InvitationRecord>(pkbId, inviteKey(email));
+    return record && toInvitation(record);
+  }
+
+  async listInvitations(pkbId: string): Promise<Invitation[]> {
+    return (await this.queryPkb<InvitationRecord>(pkbId, INVITE_PREFIX)).map(toInvitation);
+  }
+
+  async listInvitationsFor(email: string): Promise<Invitation[]> {
+    return (await this.queryIndex<InvitationRecord>(inviteKey(email))).map(toInvitation);
+  }
+
+  async putInvitation(invitation: Invitation): Promise<void> {
+    const record: InvitationRecord = {
+      ...invitation,
+      email: invitation.email.toLowerCase(),
+      memberKey: inviteKey(invitation.email),
+    };
+    await this.client.put({ TableName: this.tableName, Item: record }).promise();
+  }
+
+  deleteInvitation(pkbId: string, email: string): Promise<boolean> {
+    return this.deleteRecord(pkbId, inviteKey(email));
+  }
+
+  async deleteAll(pkbId: string): Promise<void> {
+    const keys = await queryAll<{ pkbId: string; memberKey: string }>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'pkbId = :pkbId',
+      ExpressionAttributeValues: { ':pkbId': pkbId },
+      ProjectionExpression: 'pkbId, memberKey',
+    });
+    await batchDelete(this.client, this.tableName, keys);
+  }
+}
+
+export class InMemoryMembershipRepository implements MembershipRepository {
+  constructor(
+    readonly items: MemoryTable<MembershipRecord> = new MemoryTable<MembershipRecord>('pkbId', 'memberKey'),
+  ) {}
+
+  private queryPkb<T extends MembershipRecord>(pkbId: string, prefix: string): T[] {
+    return this.items.query(pkbId).filter((item) => item.memberKey.startsWith(prefix)) as T[];
+  }
+
+  private queryIndex<T extends MembershipRecord>(memberKey: string): T[] {
+    return this.items
+      .scan()
+      .filter((item) => item.memberKey === memberKey)
+      .sort((a, b) => a.pkbId.localeCompare(b.pkbId)) as T[];
+  }
+
+  async getMember(pkbId: string, userId: string): Promise<Membership | undefined> {
+    const record = this.items.get(pkbId, userKey(userId)) as MemberRecord | undefined;
+    return record && toMembership(record);
+  }
+
+  async listMembers(pkbId: string): Promise<Membership[]> {
+    return this.queryPkb<MemberRecord>(pkbId, USER_PREFIX).map(toMembership);
+  }
+
+  async listMemberships(userId: string): Promise<Membership[]> {
+    return this.queryIndex<MemberRecord>(userKey(userId)).map(toMembership);
+  }
+
+  async putMember(membership: Membership): Promise<void> {
+    this.items.put({ ...membership, memberKey: userKey(membership.userId) });
+  }
+
+  async removeMember(pkbId: string, userId: string): Promise<boolean> {
+    return this.items.delete(pkbId, userKey(userId));
+  }
+
+  async getInvitation(pkbId: string, email: string): Promise<Invitation | undefined> {
+    const record = this.items.get(pkbId, inviteKey(email)) as InvitationRecord | undefined;
+    return record && toInvitation(record);
+  }
+
+  async listInvitations(pkbId: string): Promise<Invitation[]> {
+    return this.queryPkb<InvitationRecord>(pkbId, INVITE_PREFIX).map(toInvitation);
+  }
+
+  async listInvitationsFor(email: string): Promise<Invitation[]> {
+    return this.queryIndex<InvitationRecord>(inviteKey(email)).map(toInvitation);
+  }
+
+  async putInvitation(invitation: Invitation): Promise<void> {
+    this.items.put({ ...invitation, email: invitation.email.toLowerCase(), memberKey: inviteKey(invitation.email) });
+  }
+
+  async deleteInvitation(pkbId: string, email: string): Promise<boolean> {
+    return this.items.delete(pkbId, inviteKey(email));
+  }
+
+  async deleteAll(pkbId: string): Promise<void> {
+    for (const { memberKey } of this.items.query(pkbId)) {
+      this.items.delete(pkbId, memberKey);
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { DynamoDB } from 'aws-sdk';
+import { batchDelete, buildUpdateExpression, isConditionalCheckFailed, queryAll, scanAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+import { MetadataField } from '../content/metadata';
+import { ChunkStore } from '../ingestion/chunk-store';
+
+export interface Pkb {
+  userId: string;
+  pkbId: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Custom metadata the PKB's content can carry. */
+  metadataFields?: MetadataField[];
+  /** Registry chat model that answers questions, unless a query asks for another. */
+  chatModelId?: string;
+}
+
+export interface PkbChanges {
+  name?: string;
+  description?: string;
+  metadataFields?: MetadataField[];
+  /** `null` goes back to the stage default. */
+  chatModelId?: string | null;
+}
+
+/**
+ * Storage for project knowledge bases. PKBs are keyed by the owning user's
+ * Cognito `sub` and the PKB id; deleting a PKB also removes its content rows
+ * and whatever else the repository was given the tables of.
+ * Who else can use a PKB is recorded separately, in the membership table.
+ */
+export interface PkbRepository {
+  list(userId: string): Promise<Pkb[]>;
+  /** Every PKB of every user, for background jobs that visit each one. */
+  listAll(): Promise<Pkb[]>;
+  get(userId: string, pkbId: string): Promise<Pkb | undefined>;
+  create(pkb: Pkb): Promise<void>;
+  update(userId: string, pkbId: string, changes: PkbChanges): Promise<Pkb | undefined>;
+  delete(userId: string, pkbId: string): Promise<boolean>;
+}
+
+interface ContentKey {
+  pkbId: string;
+  contentId: string;
+}
+
+/**
+ * Tables of {@link DynamoPkbRepository}. Deleting a PKB clears its rows from
+ * whichever optional tables are given, so only the Lambda that deletes PKBs
+ * needs to name them.
+ */
+export interface DynamoPkbTables {
+  pkbs: string;
+  content: string;
+  chunks?: string;
+  conversations?: string;
+  suggestions?: string;
+  folders?: string;
+  labels?: string;
+}
+
+export class DynamoPkbRepository implements PkbRepository {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tables: DynamoPkbTables,
+  ) {}
+
+  async list(userId: string): Promise<Pkb[]> {
+    return queryAll<Pkb>(this.client, {
+      TableName: this.tables.pkbs,
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: { ':userId': userId },
+    });
+  }
+
+  async listAll(): Promise<Pkb[]> {
+    return scanAll<Pkb>(this.client, { TableName: this.tables.pkbs });
+  }
+
+  async get(userId: string, pkbId: string): Promise<Pkb | undefined> {
+    const result = await this.client
+      .get({ TableName: this.tables.pkbs, Key: { userId, pkbId } })
+      .promise();
+    return result.Item as Pkb | undefined;
+  }
+
+  async create(pkb: Pkb): Promise<void> {
+    await this.client
+      .put({
+        TableName: this.tables.pkbs,
+        Item: pkb,
+        ConditionExpression: 'attribute_not_exists(pkbId)',
+      })
+      .promise();
+  }
+
+  async update(userId: string, pkbId: string, changes: PkbChanges): Promise<Pkb | undefined> {
+    try {
+      const result = await this.client
+        .update({
+          TableName: this.tables.pkbs,
+          Key: { userId, pkbId },
+          ...buildUpdateExpression({ ...changes, updatedAt: new Date().toISOString() }),
+          ConditionExpression: 'attribute_exists(pkbId)',
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+      return result.Attributes as Pkb;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(userId: string, pkbId: string): Promise<boolean> {
+    const existing = await this.get(userId, pkbId);
+    if (!existing) {
+      return false;
+    }
+
+    // Remove the PKB's content and chunk rows first so a failure part-way
+    // through leaves the PKB in place and the delete can simply be retried.
+    const contentKeys = await queryAll<ContentKey>(this.client, {
+      TableName: this.tables.content,
+      KeyConditionExpression: 'pkbId = :pkbId',
+      ExpressionAttributeValues: { ':pkbId': pkbId },
+      ProjectionExpression: 'pkbId, contentId',
+    });
+    if (this.tables.labels) {
+      for (const { contentId } of contentKeys) {
+        const labelKeys = await queryAll<{ contentKey: string; label: string }>(this.client, {
+          TableName: this.tables.labels,
+          KeyConditionExpression: 'contentKey = :contentKey',
+          ExpressionAttributeValues: { ':contentKey': `${pkbId}#${contentId}` },
+          ProjectionExpression: 'contentKey, #label',
+          ExpressionAttributeNames: { '#label': 'label' },
+        });
+        await batchDelete(this.client, this.tables.labels, labelKeys);
+      }
+    }
+    await batchDelete(
+      this.client,
+      this.tables.content,
+      contentKeys.map(({ contentId }) => ({ pkbId, contentId })),
+    );
+
+    if (this.tables.chunks) {
+      const chunkKeys = await queryAll<{ pkbId: string; chunkKey: string }>(this.client, {
+        TableName: this.tables.chunks,
+        KeyConditionExpression: 'pkbId = :pkbId',
+        ExpressionAttributeValues: { ':pkbId': pkbId },
+        ProjectionExpression: 'pkbId, chunkKey',
+      });
+      await batchDelete(this.client, this.tables.chunks, chunkKeys);
+    }
+
+    if (this.tables.conversations) {
+      // Threads carry their pkbId, so the index finds the partition of everyone
+      // who talked to the PKB, former members included.
+      const threads = await queryAll<{ ownerPkb: string }>(this.client, {
+        TableName: this.tables.conversations,
+        IndexName: 'pkbId-index',
+        KeyConditionExpression: 'pkbId = :pkbId',
+        ExpressionAttributeValues: { ':pkbId': pkbId },
+        ProjectionExpression: 'ownerPkb',
+      });
+      for (const ownerPkb of new Set(threads.map((thread) => thread.ownerPkb))) {
+        const conversationKeys = await queryAll<{ ownerPkb: string; itemKey: string }>(this.client, {
+          TableName: this.tables.conversations,
+          KeyConditionExpression: 'ownerPkb = :ownerPkb',
+          ExpressionAttributeValues: { ':ownerPkb': ownerPkb },
+          ProjectionExpression: 'ownerPkb, itemKey',
+        });
+        await batchDelete(this.client, this.tables.conversations, conversationKeys);
+      }
+    }
+
+    if (this.tables.folders) {
+      const folderKeys = await queryAll<{ pkbId: string; folderId: string }>(this.client, {
+        TableName: this.tables.folders,
+        KeyConditionExpression: 'pkbId = :pkbId',
+        ExpressionAttributeValues: { ':pkbId': pkbId },
+        ProjectionExpression: 'pkbId, folderId',
+      });
+      await batchDelete(this.client, this.tables.folders, folderKeys);
+    }
+
+    if (this.tables.suggestions) {
+      const suggestionKeys = await queryAll<{ pkbId: string; suggestionId: string }>(this.client, {
+        TableName: this.tables.suggestions,
+        KeyConditionExpression: 'pkbId = :pkbId',
+        ExpressionAttributeValues: { ':pkbId': pkbId },
+        ProjectionExpression: 'pkbId, suggestionId',
+      });
+      await batchDelete(this.client, this.tables.suggestions, suggestionKeys);
+    }
+
+    await this.client
+      .delete({ TableName: this.tables.pkbs, Key: { userId, pkbId } })
+      .promise();
+    return true;
+  }
+}
+
+/** The part of a {@link MemoryTable} that deleting a PKB clears. */
+type RowStore<T extends object> = Pick<MemoryTable<T>, 'query' | 'scan' | 'delete'>;
+
+/**
+ * Stores of {@link InMemoryPkbRepository}, mirroring {@link DynamoPkbTables}:
+ * tests hand it the tables of the other in-memory repositories to see a
+ * PKB's rows removed from them.
+ */
+export interface InMemoryPkbStores {
+  pkbs?: MemoryTable<Pkb>;
+  content?: MemoryTable<ContentKey>;
+  chunks?: ChunkStore;
+  conversations?: RowStore<{ ownerPkb: string; itemKey: string; pkbId?: string }>;
+  suggestions?: RowStore<{ pkbId: string; suggestionId: string }>;
+  folders?: RowStore<{ pkbId: string; folderId: string }>;
+  labels?: RowStore<{ contentKey: string; label: string }>;
+}
+
+export class InMemoryPkbRepository implements PkbRepository {
+  readonly pkbs: MemoryTable<Pkb>;
+  readonly content: MemoryTable<ContentKey>;
+
+  constructor(private readonly stores: InMemoryPkbStores = {}) {
+    this.pkbs = stores.pkbs ?? new MemoryTable<Pkb>('userId', 'pkbId');
+    this.content = stores.content ?? new MemoryTable<ContentKey>('pkbId', 'contentId');
+  }
+
+  async list(userId: string): Promise<Pkb[]> {
+    return this.pkbs.query(userId);
+  }
+
+  async listAll(): Promise<Pkb[]> {
+    return this.pkbs.scan();
+  }
+
+  async get(userId: string, pkbId: string): Promise<Pkb | undefined> {
+    return this.pkbs.get(userId, pkbId);
+  }
+
+  async create(pkb: Pkb): Promise<void> {
+    if (this.pkbs.get(pkb.userId, pkb.pkbId)) {
+      throw new Error(`PKB ${pkb.pkbId} already exists`);
+    }
+    this.pkbs.put(pkb);
+  }
+
+  async update(userId: string, pkbId: string, changes: PkbChanges): Promise<Pkb | undefined> {
+    const existing = this.pkbs.get(userId, pkbId);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: Pkb = { ...existing, updatedAt: new Date().toISOString() };
+    if (changes.name !== undefined) {
+      updated.name = changes.name;
+    }
+    if (changes.description !== undefined) {
+      updated.description = changes.description;
+    }
+    if (changes.metadataFields !== undefined) {
+      updated.metadataFields = changes.metadataFields;
+    }
+    if (changes.chatModelId === null) {
+      delete updated.chatModelId;
+    } else if (changes.chatModelId !== undefined) {
+      updated.chatModelId = changes.chatModelId;
+    }
+    this.pkbs.put(updated);
+    return updated;
+  }
+
+  async delete(userId: string, pkbId: string): Promise<boolean> {
+    if (!this.pkbs.get(userId, pkbId)) {
+      return false;
+    }
+
+    const { chunks, conversations, suggestions, folders, labels } = this.stores;
+    for (const { contentId } of this.content.query(pkbId)) {
+      if (labels) {
+        for (const { contentKey, label } of labels.query(`${pkbId}#${contentId}`)) {
+          labels.delete(contentKey, label);
+        }
+      }
+      this.content.delete(pkbId, contentId);
+    }
+
+    if (chunks) {
+      for (const contentId of new Set((await chunks.list(pkbId)).map((chunk) => chunk.contentId))) {
+        await chunks.delete(pkbId, contentId);
+      }
+    }
+
+    if (conversations) {
+      const threads = conversations.scan().filter((item) => item.pkbId === pkbId);
+      for (const ownerPkb of new Set(threads.map((thread) => thread.ownerPkb))) {
+        for (const { itemKey } of conversations.query(ownerPkb)) {
+          conversations.delete(ownerPkb, itemKey);
+        }
+      }
+    }
+
+    if (folders) {
+      for (const { folderId } of folders.query(pkbId)) {
+        folders.delete(pkbId, folderId);
+      }
+    }
+
+    if (suggestions) {
+      for (const { suggestionId } of suggestions.query(pkbId)) {
+        suggestions.delete(pkbId, suggestionId);
+      }
+    }
+
+    return this.pkbs.delete(userId, pkbId);
+  }
+}
@@ -0,0 +1,183 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { HttpError, getVerifiedEmail, jsonResponse, requireString } from '../shared/http';
+import { RouteHandler, RouteRequest } from '../shared/router';
+import { AccessDependencies, authorizePkb } from './access';
+import { InvitationMailer } from './invitation-mailer';
+import { INVITABLE_ROLES, Invitation, MemberRole } from './members';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface MemberRequestBody {
+  email?: unknown;
+  role?: unknown;
+}
+
+const validateRole = (value: unknown): MemberRole => {
+  if (typeof value !== 'string' || !INVITABLE_ROLES.includes(value as MemberRole)) {
+    throw new HttpError(400, `role must be one of: ${INVITABLE_ROLES.join(', ')}`);
+  }
+  return value as MemberRole;
+};
+
+const validateEmail = (value: unknown): string => {
+  const email = requireString(value, 'email').toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new HttpError(400, 'email must be a valid e-mail address');
+  }
+  return email;
+};
+
+const requireVerifiedEmail = (event: APIGatewayProxyEvent): string => {
+  const email = getVerifiedEmail(event);
+  if (!email) {
+    throw new HttpError(403, 'A verified e-mail address is required to use invitations');
+  }
+  return email;
+};
+
+export interface SharingDependencies extends AccessDependencies {
+  /** E-mails new invitations; without it invitees only see them in the app. */
+  mailer?: InvitationMailer;
+}
+
+/**
+ * Whether the invitee was e-mailed. A failed e-mail does not undo the
+ * invitation, which is waiting in the app either way.
+ */
+const notifyInvitee = async (deps: SharingDependencies, invitation: Invitation): Promise<boolean> => {
+  if (!deps.mailer) {
+    return false;
+  }
+  try {
+    await deps.mailer.send(invitation);
+    return true;
+  } catch (error) {
+    console.error(`Could not e-mail the invitation to ${invitation.pkbId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Members and invitations of one PKB:
+ * `GET|POST /pkb/{pkbId}/members`, `PUT|DELETE /pkb/{pkbId}/members/{memberId}`
+ * and `DELETE /pkb/{pkbId}/invitations/{email}`. Everyone in the PKB can see
+ * who else is in it; only the owner sees pending invitations and changes
+ * membership, although any member may leave.
+ */
+export const memberRoutes = (deps: SharingDependencies): Record<string, RouteHandler> => ({
+  listMembers: async ({ userId, params: { pkbId } }: RouteRequest) => {
+    const { role } = await authorizePkb(deps, userId, pkbId, 'viewer');
+    const members = await deps.members.listMembers(pkbId);
+    const invitations = role === 'owner' ? await deps.members.listInvitations(pkbId) : [];
+    return jsonResponse(200, { members, invitations });
+  },
+
+  inviteMember: async ({ userId, params: { pkbId }, body }: RouteRequest<MemberRequestBody>) => {
+    const { pkb } = await authorizePkb(deps, userId, pkbId, 'owner');
+    const email = validateEmail(body.email);
+    const role = validateRole(body.role);
+    const members = await deps.members.listMembers(pkbId);
+    if (members.some((member) => member.email === email)) {
+      throw new HttpError(409, `${email} is already a member of this PKB`);
+    }
+    const invitation: Invitation = {
+      pkbId,
+      email,
+      role,
+      ownerId: pkb.userId,
+      pkbName: pkb.name,
+      invitedBy: userId,
+      invitedAt: new Date().toISOString(),
+    };
+    await deps.members.putInvitation(invitation);
+    const emailed = await notifyInvitee(deps, invitation);
+    return jsonResponse(201, {
+      message: emailed
+        ? 'Invitation sent successfully'
+        : `Invitation created; ${email} will see it after signing in with that address`,
+      invitation,
+      emailed,
+    });
+  },
+
+  updateMember: async ({ userId, params: { pkbId, memberId }, body }: RouteRequest<MemberRequestBody>) => {
+    await authorizePkb(deps, userId, pkbId, 'owner');
+    const role = validateRole(body.role);
+    const member = await deps.members.getMember(pkbId, memberId);
+    if (!member) {
+      throw new HttpError(404, 'Member not found');
+    }
+    if (member.role === 'owner') {
+      throw new HttpError(400, 'The owner\'s role cannot be changed');
+    }
+    const updated = { ...member, role };
+    await deps.members.putMember(updated);
+    return jsonResponse(200, { message: 'Member updated successfully', member: updated });
+  },
+
+  removeMember: async ({ userId, params: { pkbId, memberId } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, memberId === userId ? 'viewer' : 'owner');
+    const member = await deps.members.getMember(pkbId, memberId);
+    if (!member) {
+      throw new HttpError(404, 'Member not found');
+    }
+    if (member.role === 'owner') {
+      throw new HttpError(400, 'The owner cannot be removed from a PKB');
+    }
+    await deps.members.removeMember(pkbId, memberId);
+    return jsonResponse(200, { message: 'Member removed successfully' });
+  },
+
+  revokeInvitation: async ({ userId, params: { pkbId, email } }: RouteRequest) => {
+    await authorizePkb(deps, userId, pkbId, 'owner');
+    if (!(await deps.members.deleteInvitation(pkbId, email))) {
+      throw new HttpError(404, 'Invitation not found');
+    }
+    return jsonResponse(200, { message: 'Invitation revoked successfully' });
+  },
+});
+
+/** The invitation to `pkbId` addressed to the caller's verified e-mail address. */
+const getOwnInvitation = async (deps: AccessDependencies, event: APIGatewayProxyEvent, pkbId: string) => {
+  const email = requireVerifiedEmail(event);
+  const invitation = await deps.members.getInvitation(pkbId, email);
+  if (!invitation) {
+    throw new HttpError(404, 'Invitation not found');
+  }
+  return invitation;
+};
+
+/**
+ * Invitations addressed to the caller's verified e-mail address:
+ * `GET /pkb/invitations` lists them, `POST /pkb/invitations/{pkbId}`
+ * accepts one and `DELETE /pkb/invitations/{pkbId}` declines it.
+ */
+export const invitationRoutes = (deps: AccessDependencies): Record<string, RouteHandler> => ({
+  listMyInvitations: async ({ event }: RouteRequest) =>
+    jsonResponse(200, { invitations: await deps.members.listInvitationsFor(requireVerifiedEmail(event)) }),
+
+  acceptInvitation: async ({ event, userId, params: { pkbId } }: RouteRequest) => {
+    const invitation = await getOwnInvitation(deps, event, pkbId);
+    const existing = await deps.members.getMember(pkbId, userId);
+    // Accepting never downgrades someone who is already in the PKB.
+    if (!existing) {
+      await deps.members.putMember({
+        pkbId,
+        userId,
+        role: invitation.role,
+        ownerId: invitation.ownerId,
+        email: invitation.email,
+        addedAt: new Date().toISOString(),
+        addedBy: invitation.invitedBy,
+      });
+    }
+    await deps.members.deleteInvitation(pkbId, invitation.email);
+    return jsonResponse(200, { message: 'Invitation accepted successfully', pkbId, role: existing?.role ?? invitation.role });
+  },
+
+  declineInvitation: async ({ event, params: { pkbId } }: RouteRequest) => {
+    const invitation = await getOwnInvitation(deps, event, pkbId);
+    await deps.members.deleteInvitation(pkbId, invitation.email);
+    return jsonResponse(200, { message: 'Invitation declined successfully' });
+  },
+});
@@ -0,0 +1,67 @@
+import { tokenize } from '../shared/text';
+
+const K1 = 1.2;
+const B = 0.75;
+
+/** How often each query term occurs in a document, and the document's length in tokens. */
+export interface TermStats {
+  counts: Map<string, number>;
+  length: number;
+}
+
+/** Size of the collection being scored, including documents without any query term. */
+export interface CorpusStats {
+  documents: number;
+  averageLength: number;
+}
+
+export const queryTerms = (query: string): string[] => Array.from(new Set(tokenize(query)));
+
+export const termStats = (terms: string[], document: string): TermStats => {
+  const wanted = new Set(terms);
+  const counts = new Map<string, number>();
+  const tokens = tokenize(document);
+  for (const token of tokens) {
+    if (wanted.has(token)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+  }
+  return { counts, length: tokens.length };
+};
+
+/**
+ * Okapi BM25 scores from precomputed term statistics. Documents of the corpus
+ * that contain no query term score 0 and may be left out of `documents`.
+ */
+export const bm25FromStats = (terms: string[], documents: TermStats[], corpus: CorpusStats): number[] => {
+  const documentFrequency = new Map<string, number>();
+  for (const term of terms) {
+    documentFrequency.set(term, documents.filter((doc) => doc.counts.has(term)).length);
+  }
+
+  return documents.map(({ counts, length }) =>
+    terms.reduce((score, term) => {
+      const frequency = counts.get(term) ?? 0;
+      if (frequency === 0) {
+        return score;
+      }
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (corpus.documents - df + 0.5) / (df + 0.5));
+      const norm = frequency + K1 * (1 - B + (B * length) / corpus.averageLength);
+      return score + idf * ((frequency * (K1 + 1)) / norm);
+    }, 0));
+};
+
+/**
+ * Okapi BM25 scores of each document against the query, in input order.
+ */
+export const bm25Scores = (query: string, documents: string[]): number[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const stats = documents.map((document) => termStats(terms, document));
+  const averageLength = stats.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  return bm25FromStats(terms, stats, { documents: documents.length, averageLength });
+};
@@ -0,0 +1,49 @@
+import { tokenSpans, tokenize } from '../shared/text';
+
+export interface Highlight {
+  /** Offsets within the snippet text. */
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  highlights: Highlight[];
+}
+
+const DEFAULT_SNIPPET_LENGTH = 240;
+
+/**
+ * Picks the window of `text` with the most query-term matches and reports
+ * where the matches fall inside it. Highlights are returned as offsets
+ * rather than markup so clients can render them without parsing HTML.
+ */
+export const buildSnippet = (text: string, query: string, length = DEFAULT_SNIPPET_LENGTH): Snippet => {
+  const terms = new Set(tokenize(query));
+  const matches = tokenSpans(text).filter((span) => terms.has(span.token));
+
+  let windowStart = 0;
+  let bestCount = 0;
+  for (const match of matches) {
+    const start = Math.max(0, match.start - Math.floor(length / 4));
+    const count = matches.filter((m) => m.start >= start && m.end <= start + length).length;
+    if (count > bestCount) {
+      bestCount = count;
+      windowStart = start;
+    }
+  }
+
+  // Snap to a word boundary so the snippet does not start mid-word.
+  if (windowStart > 0) {
+    const space = text.lastIndexOf(' ', windowStart);
+    windowStart = space === -1 ? 0 : space + 1;
+  }
+  const windowEnd = Math.min(text.length, windowStart + length);
+
+  return {
+    text: text.slice(windowStart, windowEnd),
+    highlights: matches
+      .filter((match) => match.start >= windowStart && match.end <= windowEnd)
+      .map((match) => ({ start: match.start - windowStart, end: match.end - windowStart })),
+  };
+};
@@ -0,0 +1,228 @@
+import { ContentItem } from '../content/repository';
+import { ContentScope, ScopeDependencies, resolveScope } from '../content/scope';
+import { ChunkStore, IndexedChunk } from '../ingestion/chunk-store';
+import { Embedder, cosineSimilarity } from '../ingestion/embedder';
+import { TermStats, bm25FromStats, queryTerms, termStats } from './bm25';
+import { Snippet, buildSnippet } from './highlight';
+
+/** Weight of the keyword score; the vector score gets the remainder. */
+const KEYWORD_WEIGHT = 0.5;
+/** Chunks below this similarity only match if they also match a keyword. */
+const MIN_VECTOR_SIMILARITY = 0.25;
+
+export interface SearchFilters {
+  /** Exact MIME types, or type families such as `image/`. */
+  fileTypes?: string[];
+  uploadedBy?: string;
+  /** Inclusive ISO-8601 bounds on the upload date. */
+  from?: string;
+  to?: string;
+}
+
+export interface SearchRequest {
+  pkbId: string;
+  query: string;
+  filters?: SearchFilters;
+  /** A folder (with its subfolders), tag or metadata values to search within. */
+  scope?: ContentScope;
+  page: number;
+  pageSize: number;
+}
+
+export interface SearchHit {
+  contentId: string;
+  fileName: string;
+  fileType: string;
+  uploadedBy: string;
+  uploadedAt: string;
+  score: number;
+  keywordScore: number;
+  vectorScore: number;
+  snippet: Snippet;
+  /** Offsets of the best-matching chunk within the extracted text. */
+  start: number;
+  end: number;
+  /** Media time of the best-matching chunk, in seconds, for transcripts. */
+  startTime?: number;
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface SearchDependencies extends ScopeDependencies {
+  chunks: ChunkStore;
+  embedder: Embedder;
+}
+
+const uploadDate = (item: ContentItem) => item.uploadedAt ?? item.createdAt;
+
+const matchesFilters = (item: ContentItem, filters: SearchFilters = {}): boolean => {
+  if (filters.fileTypes?.length) {
+    const type = item.fileType.toLowerCase();
+    const matchesType = filters.fileTypes.some((filter) =>
+      (filter.endsWith('/') ? type.startsWith(filter) : type === filter));
+    if (!matchesType) {
+      return false;
+    }
+  }
+  if (filters.uploadedBy && item.uploadedBy !== filters.uploadedBy) {
+    return false;
+  }
+  const date = uploadDate(item);
+  if (filters.from && date < filters.from) {
+    return false;
+  }
+  if (filters.to && date > filters.to) {
+    return false;
+  }
+  return true;
+};
+
+/** A chunk scored against a query, without its embedding. */
+export interface ScoredChunk {
+  chunk: Omit<IndexedChunk, 'embedding'>;
+  /** Blend of the two scores below. */
+  score: number;
+  keyword: number;
+  vector: number;
+}
+
+export interface ChunkQuery {
+  pkbId: string;
+  /** Content whose chunks are scored. */
+  contentIds: ReadonlySet<string>;
+  query: string;
+  /** Embedding of `query`, by the model that embedded the chunks. */
+  queryEmbedding: number[];
+  /** Keeps only the best `limit` chunks. */
+  limit?: number;
+}
+
+/** Inserts `entry` into `entries`, kept sorted best first and at most `limit` long. */
+const keepBest = <T extends { score: number }>(entries: T[], entry: T, limit: number) => {
+  const position = entries.findIndex((existing) => entry.score > existing.score);
+  if (position === -1) {
+    if (entries.length < limit) {
+      entries.push(entry);
+    }
+    return;
+  }
+  entries.splice(position, 0, entry);
+  if (entries.length > limit) {
+    entries.pop();
+  }
+};
+
+/**
+ * Scores chunks against a query: BM25 keyword scores and embedding
+ * similarity are normalised to [0, 1] and blended.
+ *
+ * Chunks are read a page at a time and their embeddings dropped once
+ * scored. Chunks that can match neither way only count towards the BM25
+ * corpus statistics. With a `limit`, chunks that match by similarity alone
+ * are kept to that many as they are read, since the rest of the corpus
+ * cannot change their score.
+ */
+export const scoreChunks = async (chunks: ChunkStore, request: ChunkQuery): Promise<ScoredChunk[]> => {
+  const terms = queryTerms(request.query);
+  const limit = request.limit ?? Infinity;
+  const keywordCandidates: { chunk: Omit<IndexedChunk, 'embedding'>; stats: TermStats; vector: number }[] = [];
+  const vectorOnly: ScoredChunk[] = [];
+  let documents = 0;
+  let totalLength = 0;
+
+  for await (const page of chunks.pages(request.pkbId, request.contentIds)) {
+    for (const { embedding, ...chunk } of page) {
+      const stats = termStats(terms, chunk.text);
+      documents += 1;
+      totalLength += stats.length;
+      const vector = Math.max(0, cosineSimilarity(request.queryEmbedding, embedding));
+      if (stats.counts.size > 0) {
+        keywordCandidates.push({ chunk, stats, vector });
+      } else if (vector >= MIN_VECTOR_SIMILARITY) {
+        keepBest(vectorOnly, { chunk, score: (1 - KEYWORD_WEIGHT) * vector, keyword: 0, vector }, limit);
+      }
+    }
+  }
+
+  const keywordScores = bm25FromStats(terms, keywordCandidates.map(({ stats }) => stats), {
+    documents,
+    averageLength: totalLength / documents || 1,
+  });
+  const maxKeywordScore = keywordScores.reduce((max, score) => Math.max(max, score), 0);
+
+  const scored = [...vectorOnly];
+  keywordCandidates.forEach(({ chunk, vector }, i) => {
+    const keyword = maxKeywordScore > 0 ? keywordScores[i] / maxKeywordScore : 0;
+    scored.push({ chunk, score: KEYWORD_WEIGHT * keyword + (1 - KEYWORD_WEIGHT) * vector, keyword, vector });
+  });
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * Hybrid search over a PKB's chunk index: chunks are scored by
+ * {@link scoreChunks} and the best chunk of each content item decides that
+ * item's rank. Only chunks of content that passes the scope and filters are
+ * read.
+ */
+export const hybridSearch = async (deps: SearchDependencies, request: SearchRequest): Promise<SearchResults> => {
+  const [items, scoped] = await Promise.all([
+    deps.content.list(request.pkbId),
+    resolveScope(deps, request.pkbId, request.scope),
+  ]);
+
+  const eligible = new Map(
+    items
+      .filter((item) => !scoped || scoped.has(item.contentId))
+      .filter((item) => matchesFilters(item, request.filters))
+      .map((item) => [item.contentId, item]),
+  );
+  if (eligible.size === 0) {
+    return { hits: [], total: 0, page: request.page, pageSize: request.pageSize };
+  }
+
+  const [queryEmbedding] = await deps.embedder.embed([request.query]);
+  const scored = await scoreChunks(deps.chunks, {
+    pkbId: request.pkbId,
+    contentIds: new Set(eligible.keys()),
+    query: request.query,
+    queryEmbedding,
+  });
+
+  const best = new Map<string, ScoredChunk>();
+  for (const candidate of scored) {
+    if (!best.has(candidate.chunk.contentId)) {
+      best.set(candidate.chunk.contentId, candidate);
+    }
+  }
+
+  const ranked = Array.from(best.values());
+  const offset = (request.page - 1) * request.pageSize;
+
+  return {
+    hits: ranked.slice(offset, offset + request.pageSize).map(({ chunk, score, keyword, vector }) => {
+      const item = eligible.get(chunk.contentId)!;
+      return {
+        contentId: item.contentId,
+        fileName: item.fileName,
+        fileType: item.fileType,
+        uploadedBy: item.uploadedBy,
+        uploadedAt: uploadDate(item),
+        score,
+        keywordScore: keyword,
+        vectorScore: vector,
+        snippet: buildSnippet(chunk.text, request.query),
+        start: chunk.start,
+        end: chunk.end,
+        startTime: chunk.startTime,
+      };
+    }),
+    total: ranked.length,
+    page: request.page,
+    pageSize: request.pageSize,
+  };
+};
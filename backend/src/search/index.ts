@@ -0,0 +1,112 @@
+import { BedrockRuntime } from 'aws-sdk';
+import { HttpError, jsonResponse, requireString } from '../shared/http';
+import { createDocumentClient } from '../shared/dynamo';
+import { RouteRequest, createRouter } from '../shared/router';
+import { DynamoPkbRepository, PkbRepository } from '../pkb/repository';
+import { DynamoMembershipRepository, MembershipRepository } from '../pkb/members';
+import { authorizePkb } from '../pkb/access';
+import { DynamoContentRepository } from '../content/repository';
+import { DynamoFolderRepository } from '../content/folders';
+import { DynamoLabelIndex } from '../content/labels';
+import { parseScopeParams } from '../content/scope';
+import { DynamoChunkStore } from '../ingestion/chunk-store';
+import { BedrockEmbedder } from '../ingestion/embedder';
+import { DynamoUsageRepository, UsageRepository } from '../usage/repository';
+import { UsageTracker } from '../usage/metering';
+import { SearchDependencies, SearchFilters, hybridSearch } from './hybrid';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+const MAX_QUERY_LENGTH = 500;
+
+export interface SearchHandlerDependencies extends SearchDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+  /** Records the tokens of every query embedding; unmetered without it. */
+  usage?: UsageRepository;
+}
+
+const parsePositiveInt = (value: string | undefined, field: string, fallback: number, max?: number): number => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new HttpError(400, `${field} must be a positive integer`);
+  }
+  if (max !== undefined && parsed > max) {
+    throw new HttpError(400, `${field} must be at most ${max}`);
+  }
+  return parsed;
+};
+
+const parseDate = (value: string | undefined, field: string): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `${field} must be an ISO-8601 date`);
+  }
+  return date.toISOString();
+};
+
+const parseFilters = (params: Record<string, string | undefined>): SearchFilters => ({
+  fileTypes: params.type
+    ?.split(',')
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean),
+  uploadedBy: params.uploadedBy || undefined,
+  from: parseDate(params.from, 'from'),
+  to: parseDate(params.to, 'to'),
+});
+
+/**
+ * `GET /search?pkbId=&q=` - hybrid keyword and semantic search that never
+ * calls the LLM. Optional filters: `type`, `uploadedBy`, `from`, `to`;
+ * scoping through `folderId`, `tag` and `meta.<key>`; paging through
+ * `page` and `pageSize`.
+ */
+export const createHandler = (deps: SearchHandlerDependencies) => createRouter({
+  searchPkb: async ({ userId, query: params }: RouteRequest) => {
+    const pkbId = requireString(params.pkbId, 'pkbId');
+    const query = requireString(params.q, 'q');
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new HttpError(400, `q must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    await authorizePkb(deps, userId, pkbId, 'viewer');
+    const filters = parseFilters(params);
+    const scope = parseScopeParams(params);
+    const page = parsePositiveInt(params.page, 'page', 1);
+    const pageSize = parsePositiveInt(params.pageSize, 'pageSize', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const tracker = new UsageTracker(deps.usage);
+    try {
+      const results = await hybridSearch(
+        { ...deps, embedder: tracker.embedder(deps.embedder) },
+        { pkbId, query, filters, scope, page, pageSize },
+      );
+      return jsonResponse(200, results);
+    } finally {
+      await tracker.flush({ userId, pkbId });
+    }
+  },
+});
+
+const documentClient = createDocumentClient();
+const contentTable = process.env.CONTENT_TABLE || 'projectkb-content';
+
+export const handler = createHandler({
+  pkbs: new DynamoPkbRepository(documentClient, {
+    pkbs: process.env.PKB_TABLE || 'projectkb-pkbs',
+    content: contentTable,
+  }),
+  members: new DynamoMembershipRepository(documentClient, process.env.MEMBER_TABLE || 'projectkb-members'),
+  content: new DynamoContentRepository(documentClient, contentTable),
+  chunks: new DynamoChunkStore(documentClient, process.env.CHUNK_TABLE || 'projectkb-chunks'),
+  folders: new DynamoFolderRepository(documentClient, process.env.FOLDER_TABLE || 'projectkb-folders'),
+  labels: new DynamoLabelIndex(documentClient, process.env.LABEL_TABLE || 'projectkb-content-labels'),
+  embedder: new BedrockEmbedder(new BedrockRuntime(), process.env.EMBEDDING_MODEL_ID),
+  usage: new DynamoUsageRepository(documentClient, process.env.USAGE_TABLE || 'projectkb-usage'),
+});
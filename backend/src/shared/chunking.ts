@@ -0,0 +1,63 @@
+export interface TextChunk {
+  index: number;
+  text: string;
+  /** Character offset of the chunk within the source text (inclusive). */
+  start: number;
+  /** Character offset of the chunk within the source text (exclusive). */
+  end: number;
+}
+
+export interface ChunkOptions {
+  /** Target chunk length in characters. */
+  size: number;
+  /** Characters shared between consecutive chunks. */
+  overlap: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { size: 1200, overlap: 200 };
+
+/**
+ * Splits text into overlapping windows, preferring to break at paragraph,
+ * sentence or word boundaries near the target size. Offsets always refer to
+ * the original text so citations can point back into the source.
+ */
+export const chunkText = (text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): TextChunk[] => {
+  const { size, overlap } = options;
+  if (overlap >= size) {
+    throw new Error('Chunk overlap must be smaller than the chunk size');
+  }
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      end = findBreak(text, start + Math.floor(size / 2), end);
+    }
+
+    const slice = text.slice(start, end);
+    if (slice.trim().length > 0) {
+      chunks.push({ index: chunks.length, text: slice, start, end });
+    }
+    if (end >= text.length) {
+      break;
+    }
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+};
+
+const BREAK_PATTERNS = ['\n\n', '. ', '\n', ' '];
+
+const findBreak = (text: string, min: number, max: number): number => {
+  const window = text.slice(min, max);
+  for (const pattern of BREAK_PATTERNS) {
+    const position = window.lastIndexOf(pattern);
+    if (position !== -1) {
+      return min + position + pattern.length;
+    }
+  }
+  return max;
+};
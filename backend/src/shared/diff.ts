@@ -0,0 +1,79 @@
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+/**
+ * Cap on the line pairs compared after trimming the common start and end.
+ * Past it the changed section is reported as removed and re-added, which is
+ * still correct, just not minimal.
+ */
+const MAX_COMPARISONS = 4_000_000;
+
+const splitLines = (text: string): string[] => (text ? text.split(/\r?\n/) : []);
+
+const line = (op: DiffOp) => (text: string): DiffLine => ({ op, text });
+
+/** Longest-common-subsequence diff of the section that differs. */
+const diffSection = (before: string[], after: string[]): DiffLine[] => {
+  if (before.length * after.length > MAX_COMPARISONS) {
+    return [...before.map(line('removed')), ...after.map(line('added'))];
+  }
+
+  // common[i * width + j]: length of the LCS of before[i..] and after[j..].
+  const width = after.length + 1;
+  const common = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      common[i * width + j] = before[i] === after[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push(line('equal')(before[i]));
+      i += 1;
+      j += 1;
+    } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+      lines.push(line('removed')(before[i]));
+      i += 1;
+    } else {
+      lines.push(line('added')(after[j]));
+      j += 1;
+    }
+  }
+  return [...lines, ...before.slice(i).map(line('removed')), ...after.slice(j).map(line('added'))];
+};
+
+/**
+ * Line-by-line diff of two texts. Every line of both appears once, in
+ * order, marked as kept, removed from `before` or added in `after`.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start += 1;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  return [
+    ...a.slice(0, start).map(line('equal')),
+    ...diffSection(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(line('equal')),
+  ];
+};
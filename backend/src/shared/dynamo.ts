@@ -0,0 +1,147 @@
+import { DynamoDB } from 'aws-sdk';
+
+// DynamoDB BatchWriteItem accepts at most 25 requests per call.
+const BATCH_WRITE_LIMIT = 25;
+// Unprocessed items mean the table is throttling; back off before retrying,
+// for at most 13 seconds in all, then give up.
+const BATCH_WRITE_MAX_ATTEMPTS = 8;
+const BATCH_WRITE_BASE_DELAY_MS = 50;
+
+export const createDocumentClient = (): DynamoDB.DocumentClient => new DynamoDB.DocumentClient();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends write requests in batches, retrying unprocessed items with
+ * exponential backoff and jitter. Throws once a batch still has unprocessed
+ * items after the last attempt.
+ */
+const batchWrite = async (
+  client: DynamoDB.DocumentClient,
+  tableName: string,
+  writes: DynamoDB.DocumentClient.WriteRequests,
+): Promise<void> => {
+  for (let i = 0; i < writes.length; i += BATCH_WRITE_LIMIT) {
+    let requests = writes.slice(i, i + BATCH_WRITE_LIMIT);
+
+    for (let attempt = 0; requests.length > 0; attempt += 1) {
+      if (attempt === BATCH_WRITE_MAX_ATTEMPTS) {
+        throw new Error(`${tableName} left ${requests.length} writes unprocessed after ${attempt} attempts`);
+      }
+      if (attempt > 0) {
+        await sleep(Math.random() * BATCH_WRITE_BASE_DELAY_MS * 2 ** attempt);
+      }
+      const result = await client
+        .batchWrite({ RequestItems: { [tableName]: requests } })
+        .promise();
+      requests = result.UnprocessedItems?.[tableName] ?? [];
+    }
+  }
+};
+
+export const batchDelete = (
+  client: DynamoDB.DocumentClient,
+  tableName: string,
+  keys: DynamoDB.DocumentClient.Key[],
+): Promise<void> => batchWrite(client, tableName, keys.map((Key) => ({ DeleteRequest: { Key } })));
+
+export const batchPut = (
+  client: DynamoDB.DocumentClient,
+  tableName: string,
+  items: DynamoDB.DocumentClient.PutItemInputAttributeMap[],
+): Promise<void> => batchWrite(client, tableName, items.map((Item) => ({ PutRequest: { Item } })));
+
+/**
+ * Yields the items of a query one page at a time, following `LastEvaluatedKey`.
+ */
+export async function* queryPages<T>(
+  client: DynamoDB.DocumentClient,
+  params: DynamoDB.DocumentClient.QueryInput,
+): AsyncGenerator<T[]> {
+  let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+  do {
+    const result = await client
+      .query({ ...params, ExclusiveStartKey: exclusiveStartKey })
+      .promise();
+    yield (result.Items ?? []) as T[];
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+}
+
+/**
+ * Runs a query to completion, following `LastEvaluatedKey` across pages.
+ */
+export const queryAll = async <T>(
+  client: DynamoDB.DocumentClient,
+  params: DynamoDB.DocumentClient.QueryInput,
+): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const page of queryPages<T>(client, params)) {
+    items.push(...page);
+  }
+  return items;
+};
+
+/**
+ * Runs a scan to completion, following `LastEvaluatedKey` across pages.
+ */
+export const scanAll = async <T>(
+  client: DynamoDB.DocumentClient,
+  params: DynamoDB.DocumentClient.ScanInput,
+): Promise<T[]> => {
+  const items: T[] = [];
+  let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+  do {
+    const result = await client
+      .scan({ ...params, ExclusiveStartKey: exclusiveStartKey })
+      .promise();
+    items.push(...((result.Items ?? []) as T[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+};
+
+export interface UpdateExpressionParts {
+  UpdateExpression: string;
+  ExpressionAttributeNames: DynamoDB.DocumentClient.ExpressionAttributeNameMap;
+  ExpressionAttributeValues: DynamoDB.DocumentClient.ExpressionAttributeValueMap;
+}
+
+/**
+ * Builds an update expression that sets the defined fields of `changes`
+ * and removes the ones set to `null`. Undefined fields are left untouched.
+ */
+export const buildUpdateExpression = (changes: object): UpdateExpressionParts => {
+  const names: DynamoDB.DocumentClient.ExpressionAttributeNameMap = {};
+  const values: DynamoDB.DocumentClient.ExpressionAttributeValueMap = {};
+  const assignments: string[] = [];
+  const removals: string[] = [];
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === undefined) {
+      continue;
+    }
+    names[`#${field}`] = field;
+    if (value === null) {
+      removals.push(`#${field}`);
+      continue;
+    }
+    values[`:${field}`] = value;
+    assignments.push(`#${field} = :${field}`);
+  }
+
+  return {
+    UpdateExpression: [
+      `SET ${assignments.join(', ')}`,
+      ...(removals.length > 0 ? [`REMOVE ${removals.join(', ')}`] : []),
+    ].join(' '),
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+  };
+};
+
+export const isConditionalCheckFailed = (error: unknown): boolean =>
+  (error as { code?: string }).code === 'ConditionalCheckFailedException';
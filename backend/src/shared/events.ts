@@ -0,0 +1,54 @@
+import { EventBridgeEvent, S3ObjectCreatedNotificationEvent } from 'aws-lambda';
+
+/**
+ * Source of the events the API publishes to the default EventBridge bus.
+ * Each stage has its own, so stages sharing an account ignore each other's.
+ */
+export const CONTENT_EVENT_SOURCE = process.env.CONTENT_EVENT_SOURCE || 'projectkb.content';
+export const NOTE_SAVED = 'Note Saved';
+export const CONTENT_UPLOADED = 'Content Uploaded';
+
+export interface NoteSavedDetail {
+  pkbId: string;
+  contentId: string;
+  revision: string;
+}
+
+/**
+ * Published when an inline note is saved. Notes kept in S3 need no event
+ * of their own, since writing the object raises `Object Created`.
+ */
+export type NoteSavedEvent = EventBridgeEvent<typeof NOTE_SAVED, NoteSavedDetail>;
+
+export interface ContentUploadedDetail {
+  pkbId: string;
+  contentId: string;
+  versionId?: string;
+}
+
+/**
+ * Published once an upload is confirmed and recorded as the item's current
+ * version, so ingestion only ever sees versions the item already points at.
+ */
+export type ContentUploadedEvent = EventBridgeEvent<typeof CONTENT_UPLOADED, ContentUploadedDetail>;
+
+export interface CreatedObject {
+  key: string;
+  versionId?: string;
+  size: number;
+}
+
+/**
+ * Reads the object out of an S3 `Object Created` event delivered through
+ * EventBridge. The bucket publishes to EventBridge so that several
+ * consumers (upload confirmation, ingestion) can react to the same upload.
+ */
+export const getCreatedObject = (event: S3ObjectCreatedNotificationEvent): CreatedObject => {
+  const { object } = event.detail;
+  return {
+    // Keys are URL-encoded with '+' for spaces, as in classic S3 notifications.
+    key: decodeURIComponent(object.key.replace(/\+/g, ' ')),
+    versionId: object['version-id'] || undefined,
+    size: object.size,
+  };
+};
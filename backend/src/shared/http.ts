@@ -0,0 +1,114 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+const CORS_HEADERS = {
+  'Content-Type': 'application/json',
+  // The stage's frontend origin; any origin when run outside a deployed stack.
+  'Access-Control-Allow-Origin': process.env.ALLOWED_ORIGIN || '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+};
+
+/**
+ * Error carrying an HTTP status code. Handlers throw it for anything that
+ * should reach the client as a 4xx; everything else is reported as a 500.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    /** Extra fields of the error body, next to `error`. */
+    public readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const jsonResponse = (statusCode: number, body: unknown): APIGatewayProxyResult => ({
+  statusCode,
+  headers: CORS_HEADERS,
+  body: JSON.stringify(body),
+});
+
+/** Machine-readable `code` of an error body, by status. */
+const ERROR_CODES: Record<number, string> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  405: 'method_not_allowed',
+  409: 'conflict',
+  413: 'payload_too_large',
+  415: 'unsupported_media_type',
+  429: 'too_many_requests',
+  500: 'internal_error',
+};
+
+export const errorCode = (statusCode: number): string => ERROR_CODES[statusCode] ?? 'error';
+
+/**
+ * Every error reaches the client as `{ error, code, ...details }`: a
+ * message to show, a code to branch on and any fields the error carries.
+ * Anything but an `HttpError` is logged and reported as a bare 500, since
+ * its message may name tables, buckets or other internals.
+ */
+export const errorBody = (error: unknown): Record<string, unknown> => {
+  if (error instanceof HttpError) {
+    return { error: error.message, code: errorCode(error.statusCode), ...error.details };
+  }
+
+  console.error('Unhandled error', error);
+  return { error: 'Internal server error', code: errorCode(500) };
+};
+
+export const errorResponse = (error: unknown): APIGatewayProxyResult =>
+  jsonResponse(error instanceof HttpError ? error.statusCode : 500, errorBody(error));
+
+export const parseBody = <T = Record<string, unknown>>(event: APIGatewayProxyEvent): T => {
+  if (!event.body) {
+    return {} as T;
+  }
+
+  try {
+    const raw = event.isBase64Encoded
+      ? Buffer.from(event.body, 'base64').toString('utf8')
+      : event.body;
+    return JSON.parse(raw) as T;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+/**
+ * Returns the Cognito `sub` of the caller as resolved by the API Gateway
+ * Cognito authorizer.
+ */
+export const getUserId = (event: APIGatewayProxyEvent): string => {
+  const sub = event.requestContext?.authorizer?.claims?.sub;
+  if (typeof sub !== 'string' || sub.length === 0) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+  return sub;
+};
+
+/**
+ * Returns the caller's e-mail address, lower-cased, if Cognito has verified
+ * it. Invitations are matched on this, so unverified addresses are ignored.
+ */
+export const getVerifiedEmail = (event: APIGatewayProxyEvent): string | undefined => {
+  const claims = event.requestContext?.authorizer?.claims;
+  const verified = claims?.email_verified === true || claims?.email_verified === 'true';
+  return verified && typeof claims?.email === 'string' ? claims.email.toLowerCase() : undefined;
+};
+
+/**
+ * Splits the request path into segments, e.g. `/pkb/pkb-1` -> `['pkb', 'pkb-1']`.
+ */
+export const getPathSegments = (event: APIGatewayProxyEvent): string[] =>
+  (event.path || '').split('/').filter(Boolean).map(decodeURIComponent);
+
+export const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  return value.trim();
+};
@@ -0,0 +1,77 @@
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { HttpError } from './http';
+
+export interface VerifiedUser {
+  sub: string;
+  email?: string;
+}
+
+/**
+ * Verifies a Cognito ID token and returns its subject. Used where requests
+ * bypass the API Gateway Cognito authorizer, such as Lambda Function URLs.
+ */
+export type TokenVerifier = (token: string) => Promise<VerifiedUser>;
+
+interface Jwk extends JsonWebKey {
+  kid: string;
+}
+
+/**
+ * Builds a verifier for ID tokens issued by the given user pool to the given
+ * app client. Signing keys are fetched from the pool's JWKS endpoint once
+ * and cached for the lifetime of the Lambda container.
+ */
+export const createCognitoVerifier = (region: string, userPoolId: string, clientId: string): TokenVerifier => {
+  const issuer = `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+  let keys: Promise<Map<string, KeyObject>> | undefined;
+
+  const loadKeys = async (): Promise<Map<string, KeyObject>> => {
+    const response = await fetch(`${issuer}/.well-known/jwks.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to load JWKS: ${response.status}`);
+    }
+    const { keys: jwks } = (await response.json()) as { keys: Jwk[] };
+    return new Map(jwks.map((key) => [key.kid, createPublicKey({ key, format: 'jwk' })]));
+  };
+
+  return async (token: string) => {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    keys = keys ?? loadKeys().catch((error) => {
+      keys = undefined;
+      throw error;
+    });
+    const key = (await keys).get(kid);
+    if (!key) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    try {
+      const claims = jwt.verify(token, key, {
+        algorithms: ['RS256'],
+        issuer,
+        audience: clientId,
+      }) as jwt.JwtPayload;
+      if (claims.token_use !== 'id' || typeof claims.sub !== 'string') {
+        throw new Error('Not an ID token');
+      }
+      return { sub: claims.sub, email: claims.email as string | undefined };
+    } catch {
+      throw new HttpError(401, 'Unauthorized');
+    }
+  };
+};
+
+export const getBearerToken = (headers: Record<string, string | undefined> = {}): string => {
+  const header = headers.authorization ?? headers.Authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+  return match[1];
+};
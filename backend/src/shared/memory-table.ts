@@ -0,0 +1,53 @@
+/**
+ * Minimal in-memory stand-in for a DynamoDB table with a partition and sort
+ * key. Repositories use it to run offline (tests, local development) behind
+ * the same interfaces as their DynamoDB implementations.
+ */
+export class MemoryTable<T extends object> {
+  private readonly partitions = new Map<string, Map<string, T>>();
+
+  constructor(
+    private readonly partitionKey: keyof T,
+    private readonly sortKey: keyof T,
+  ) {}
+
+  get(partition: string, sort: string): T | undefined {
+    const item = this.partitions.get(partition)?.get(sort);
+    return item ? { ...item } : undefined;
+  }
+
+  put(item: T): void {
+    const partition = String(item[this.partitionKey]);
+    const sort = String(item[this.sortKey]);
+    if (!this.partitions.has(partition)) {
+      this.partitions.set(partition, new Map());
+    }
+    this.partitions.get(partition)!.set(sort, { ...item });
+  }
+
+  delete(partition: string, sort: string): boolean {
+    const items = this.partitions.get(partition);
+    if (!items) {
+      return false;
+    }
+    const deleted = items.delete(sort);
+    if (items.size === 0) {
+      this.partitions.delete(partition);
+    }
+    return deleted;
+  }
+
+  query(partition: string): T[] {
+    const items = this.partitions.get(partition);
+    if (!items) {
+      return [];
+    }
+    return Array.from(items.keys())
+      .sort()
+      .map((key) => ({ ...items.get(key)! }));
+  }
+
+  scan(): T[] {
+    return Array.from(this.partitions.keys()).flatMap((partition) => this.query(partition));
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * The Bedrock models ProjectKB may call. The Lambdas are only granted
+ * access to the models listed here, so adding one is a deploy, not just a
+ * setting.
+ */
+
+export type ModelCapability = 'chat' | 'vision' | 'embedding';
+
+/** On-demand Bedrock prices in US dollars per 1,000 tokens. */
+export interface ModelPricing {
+  inputPer1kTokens: number;
+  outputPer1kTokens: number;
+}
+
+export interface ModelDefinition {
+  modelId: string;
+  /** Shown in the model picker and next to answers. */
+  name: string;
+  capabilities: ModelCapability[];
+  /** Largest prompt, history included, the model accepts in tokens. */
+  contextTokens: number;
+  /** Longest completion it produces; 0 for embedding models. */
+  maxOutputTokens: number;
+  pricing: ModelPricing;
+  /**
+   * Models to answer with, in order, while this one is throttled. Only those
+   * that cost no more than this one are used, so a throttled model never
+   * makes a question pricier than the user chose.
+   */
+  fallbacks: string[];
+}
+
+export const MODEL_REGISTRY: ModelDefinition[] = [
+  {
+    modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
+    name: 'Claude 3 Haiku',
+    capabilities: ['chat', 'vision'],
+    contextTokens: 200000,
+    maxOutputTokens: 4096,
+    pricing: { inputPer1kTokens: 0.00025, outputPer1kTokens: 0.00125 },
+    // The cheapest chat model, so nothing to fall back to.
+    fallbacks: [],
+  },
+  {
+    modelId: 'anthropic.claude-3-5-haiku-20241022-v1:0',
+    name: 'Claude 3.5 Haiku',
+    capabilities: ['chat'],
+    contextTokens: 200000,
+    maxOutputTokens: 8192,
+    pricing: { inputPer1kTokens: 0.0008, outputPer1kTokens: 0.004 },
+    fallbacks: ['anthropic.claude-3-haiku-20240307-v1:0'],
+  },
+  {
+    modelId: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
+    name: 'Claude 3.5 Sonnet',
+    capabilities: ['chat', 'vision'],
+    contextTokens: 200000,
+    maxOutputTokens: 4096,
+    pricing: { inputPer1kTokens: 0.003, outputPer1kTokens: 0.015 },
+    fallbacks: ['anthropic.claude-3-haiku-20240307-v1:0'],
+  },
+  {
+    modelId: 'amazon.titan-embed-text-v2:0',
+    name: 'Titan Text Embeddings V2',
+    capabilities: ['embedding'],
+    contextTokens: 8192,
+    maxOutputTokens: 0,
+    pricing: { inputPer1kTokens: 0.00002, outputPer1kTokens: 0 },
+    fallbacks: [],
+  },
+];
+
+export const findModel = (modelId: string): ModelDefinition | undefined =>
+  MODEL_REGISTRY.find((model) => model.modelId === modelId);
+
+export const modelsWith = (capability: ModelCapability): ModelDefinition[] =>
+  MODEL_REGISTRY.filter((model) => model.capabilities.includes(capability));
+
+export const hasCapability = (modelId: string, capability: ModelCapability): boolean =>
+  findModel(modelId)?.capabilities.includes(capability) ?? false;
+
+const costsNoMoreThan = (candidate: string, modelId: string): boolean => {
+  const a = findModel(candidate)?.pricing;
+  const b = findModel(modelId)?.pricing;
+  return a !== undefined && b !== undefined
+    && a.inputPer1kTokens <= b.inputPer1kTokens
+    && a.outputPer1kTokens <= b.outputPer1kTokens;
+};
+
+/**
+ * The models to try for a request, starting with `modelId` and followed by
+ * its fallbacks that cost no more. Image questions skip fallbacks that cannot
+ * read images. Models outside the registry (the test fake) have no fallbacks.
+ */
+export const fallbackChain = (modelId: string, needsVision = false): string[] => [
+  modelId,
+  ...(findModel(modelId)?.fallbacks ?? [])
+    .filter((fallback) => costsNoMoreThan(fallback, modelId))
+    .filter((fallback) => !needsVision || hasCapability(fallback, 'vision')),
+];
+
+/**
+ * Rough token count for budgeting prompts. Claude averages about four
+ * characters per token in English; three leaves room for code and other
+ * languages.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 3);
+
+/** The completion length to ask `modelId` for: `requested`, capped at what the model produces. */
+export const outputTokenLimit = (modelId: string, requested: number): number =>
+  Math.min(requested, findModel(modelId)?.maxOutputTokens || requested);
+
+/**
+ * Prompt tokens, history included, that every one of `modelIds` accepts
+ * next to a completion of `outputTokens`. Unlimited for models outside the
+ * registry.
+ */
+export const promptTokenBudget = (modelIds: string[], outputTokens: number): number =>
+  Math.min(...modelIds.map((modelId) => {
+    const model = findModel(modelId);
+    return model ? model.contextTokens - outputTokenLimit(modelId, outputTokens) : Infinity;
+  }));
@@ -0,0 +1,117 @@
+import { OpenApiDocument, OperationObject, SpecOperation, listOperations } from './openapi';
+import { JsonSchema } from './schema';
+
+/** Where the frontend keeps the client, relative to the repository root. */
+export const CLIENT_PATH = 'frontend/src/services/generated/apiClient.ts';
+
+const pascalCase = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const needsParentheses = (type: string) => type.includes('|');
+
+const renderType = (schema: JsonSchema, indent: string): string => {
+  if (schema.enum) {
+    return schema.enum.map((value) => `'${value}'`).join(' | ');
+  }
+  const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type);
+  if (types.length === 0) {
+    return 'unknown';
+  }
+  return types.map((type) => {
+    switch (type) {
+      case 'integer':
+        return 'number';
+      case 'array': {
+        const item = schema.items ? renderType(schema.items, indent) : 'unknown';
+        return needsParentheses(item) ? `(${item})[]` : `${item}[]`;
+      }
+      case 'object':
+        if (schema.properties) {
+          return renderObject(schema, indent);
+        }
+        return `Record<string, ${schema.additionalProperties ? renderType(schema.additionalProperties, indent) : 'unknown'}>`;
+      default:
+        return type;
+    }
+  }).join(' | ');
+};
+
+function renderObject(schema: JsonSchema, indent: string): string {
+  const required = new Set(schema.required ?? []);
+  const fields = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const doc = property.description ? `${indent}  /** ${property.description} */\n` : '';
+    const optional = required.has(name) ? '' : '?';
+    return `${doc}${indent}  ${name}${optional}: ${renderType(property, `${indent}  `)};\n`;
+  });
+  return `{\n${fields.join('')}${indent}}`;
+}
+
+const bodySchema = (operation: OperationObject) => operation.requestBody?.content['application/json'].schema;
+
+const queryParameters = (operation: OperationObject) =>
+  (operation.parameters ?? []).filter((parameter) => parameter.in === 'query');
+
+/** `/pkb/{pkbId}` -> `` `/pkb/${encodeURIComponent(pkbId)}` `` */
+const renderPath = (path: string) => (path.includes('{')
+  ? `\`${path.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(${name})}`)}\``
+  : `'${path}'`);
+
+const renderTypes = ({ operation }: SpecOperation): string[] => {
+  const name = pascalCase(operation.operationId);
+  const declarations: string[] = [];
+  const body = bodySchema(operation);
+  if (body) {
+    declarations.push(`export type ${name}Body = ${renderType(body, '')};\n`);
+  }
+  const query = queryParameters(operation);
+  if (query.length > 0) {
+    declarations.push(`export type ${name}Query = ${renderObject({
+      properties: Object.fromEntries(query.map((parameter) => [
+        parameter.name,
+        { ...parameter.schema, description: parameter.description ?? parameter.schema.description },
+      ])),
+      required: query.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+    }, '')};\n`);
+  }
+  return declarations;
+};
+
+const renderFunction = ({ path, method, operation }: SpecOperation): string => {
+  const name = pascalCase(operation.operationId);
+  const pathParameters = (operation.parameters ?? []).filter((parameter) => parameter.in === 'path');
+  const query = queryParameters(operation);
+  const body = bodySchema(operation);
+  const args = [
+    ...pathParameters.map((parameter) => `${parameter.name}: string`),
+    ...(query.length > 0 ? [`query${query.some((parameter) => parameter.required) ? '' : '?'}: ${name}Query`] : []),
+    ...(body ? [`body${operation.requestBody?.required ? '' : '?'}: ${name}Body`] : []),
+  ];
+  const url = query.length > 0 ? `withQuery(${renderPath(path)}, query)` : renderPath(path);
+  const init = [`method: '${method.toUpperCase()}'`, ...(body ? ['body'] : [])].join(', ');
+  return [
+    `/** ${operation.summary}: \`${method.toUpperCase()} ${path}\`. */\n`,
+    `export const ${operation.operationId} = <T>(${args.join(', ')}) =>\n`,
+    `  apiRequest<T>(${url}, { ${init} });\n`,
+  ].join('');
+};
+
+/**
+ * The frontend's API client: a function per operation taking its path
+ * parameters, query and typed body. Responses are typed by the caller,
+ * which knows what it reads from them.
+ */
+export const renderClient = (spec: OpenApiDocument): string => {
+  const operations = listOperations(spec);
+  return [
+    '// Generated from backend/src/shared/openapi.ts; do not edit. Regenerate with\n',
+    '// `UPDATE_API_CLIENT=1` when running tests/backend/openapi.test.js.\n',
+    'import { apiRequest } from \'../api\';\n',
+    '\n',
+    'const withQuery = (path: string, query: Record<string, string | number | undefined> = {}) => {\n',
+    '  const params = Object.entries(query)\n',
+    '    .filter(([, value]) => value !== undefined && value !== \'\')\n',
+    '    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);\n',
+    '  return params.length > 0 ? `${path}?${params.join(\'&\')}` : path;\n',
+    '};\n',
+    ...operations.flatMap((operation) => ['\n', ...renderTypes(operation).flatMap((type) => [type, '\n']), renderFunction(operation)]),
+  ].join('');
+};
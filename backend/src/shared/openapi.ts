@@ -0,0 +1,439 @@
+/**
+ * The REST API contract. API Gateway's resources and methods, the Lambda
+ * routers and the frontend's generated client are all built from this
+ * document, so a route is added here first.
+ */
+import { JsonSchema } from './schema';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'delete'];
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OperationObject {
+  operationId: string;
+  summary: string;
+  /** The first path segment, which is also the Lambda that serves it. */
+  tags: [string];
+  parameters?: ParameterObject[];
+  requestBody?: {
+    required: boolean;
+    content: { 'application/json': { schema: JsonSchema } };
+  };
+  /** `[]` for operations anyone may call; everything else needs a Cognito token. */
+  security?: Record<string, string[]>[];
+  responses: Record<string, { description: string } | { $ref: string }>;
+}
+
+export type PathItemObject = Partial<Record<HttpMethod, OperationObject>>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  security: Record<string, string[]>[];
+  paths: Record<string, PathItemObject>;
+  components: {
+    securitySchemes: Record<string, Record<string, unknown>>;
+    schemas: Record<string, JsonSchema>;
+    responses: Record<string, Record<string, unknown>>;
+  };
+}
+
+type QueryParameter = Omit<JsonSchema, 'required'> & { required?: boolean };
+
+interface OperationOptions {
+  /** Shape of the JSON body; bodies without required fields may be left out. */
+  body?: JsonSchema;
+  query?: Record<string, QueryParameter>;
+  isPublic?: boolean;
+}
+
+const STRING: JsonSchema = { type: 'string' };
+const NULLABLE_STRING: JsonSchema = { type: ['string', 'null'] };
+const STRINGS: JsonSchema = { type: 'array', items: STRING };
+
+const object = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema => ({
+  type: 'object',
+  properties,
+  ...(required.length > 0 ? { required } : {}),
+});
+
+/** The `{name}` parameters of a path template, in order. */
+export const pathParameterNames = (path: string): string[] =>
+  Array.from(path.matchAll(/\{(\w+)\}/g), (match) => match[1]);
+
+const operation = (
+  path: string,
+  operationId: string,
+  summary: string,
+  { body, query = {}, isPublic }: OperationOptions = {},
+): OperationObject => {
+  const parameters: ParameterObject[] = [
+    ...pathParameterNames(path).map((name) => ({ name, in: 'path' as const, required: true, schema: STRING })),
+    ...Object.entries(query).map(([name, { required = false, ...schema }]) => ({
+      name,
+      in: 'query' as const,
+      required,
+      schema,
+    })),
+  ];
+  return {
+    operationId,
+    summary,
+    tags: [path.split('/')[1]],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body
+      ? { requestBody: { required: (body.required ?? []).length > 0, content: { 'application/json': { schema: body } } } }
+      : {}),
+    ...(isPublic ? { security: [] } : {}),
+    responses: {
+      200: { description: 'Success' },
+      default: { $ref: '#/components/responses/Error' },
+    },
+  };
+};
+
+type Operations = Partial<Record<HttpMethod, [string, string, OperationOptions?]>>;
+
+const paths = (routes: Record<string, Operations>): Record<string, PathItemObject> =>
+  Object.fromEntries(Object.entries(routes).map(([path, operations]) => [
+    path,
+    Object.fromEntries(Object.entries(operations).map(([method, [operationId, summary, options]]) => [
+      method,
+      operation(path, operationId, summary, options),
+    ])),
+  ]));
+
+const METADATA_FIELD = object({
+  key: STRING,
+  label: STRING,
+  type: { type: 'string', enum: ['text', 'number', 'date', 'select'] },
+  options: STRINGS,
+}, ['key', 'label', 'type']);
+
+const CONTENT_REFERENCE = object({ pkbId: STRING, contentId: STRING }, ['pkbId', 'contentId']);
+
+const DAY_RANGE = {
+  from: { type: 'string', description: 'First day, `YYYY-MM-DD`; 30 days before `to` by default.' },
+  to: { type: 'string', description: 'Last day, `YYYY-MM-DD`; today by default.' },
+} as const;
+
+const SCOPE_QUERY = {
+  folderId: { type: 'string', description: 'Only items in this folder or its subfolders.' },
+  tag: { type: 'string', description: 'Only items with this tag. `meta.<key>` filters on custom metadata.' },
+} as const;
+
+export const API_SPEC: OpenApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'ProjectKB API',
+    version: '1.0.0',
+    description: 'Errors are returned as `{ error, code }` plus any details, e.g. `field` or `resetsAt`.',
+  },
+  security: [{ cognito: [] }],
+  components: {
+    securitySchemes: {
+      cognito: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'Authorization',
+        description: 'A Cognito ID token of the user pool.',
+      },
+    },
+    schemas: {
+      Error: object({
+        error: { type: 'string', description: 'Message to show.' },
+        code: { type: 'string', description: 'E.g. `bad_request`, `not_found` or `too_many_requests`.' },
+        field: { type: 'string', description: 'The request body field that failed validation.' },
+      }, ['error', 'code']),
+    },
+    responses: {
+      Error: {
+        description: 'Error',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      },
+    },
+  },
+  paths: paths({
+    '/auth/signup': {
+      post: ['signUp', 'Create an account', {
+        isPublic: true,
+        // The names are required too, but checked after the password as they always were.
+        body: object({ username: STRING, email: STRING, password: STRING, givenName: STRING, familyName: STRING },
+          ['username', 'email', 'password']),
+      }],
+    },
+    '/auth/confirm': {
+      post: ['confirmSignUp', 'Confirm an account with the e-mailed code', {
+        isPublic: true,
+        body: object({ username: STRING, code: STRING }, ['username', 'code']),
+      }],
+    },
+    '/auth/resend-code': {
+      post: ['resendConfirmationCode', 'Send the confirmation code again', {
+        isPublic: true,
+        body: object({ username: STRING }, ['username']),
+      }],
+    },
+    '/auth/signin': {
+      post: ['signIn', 'Sign in with a username or e-mail address', {
+        isPublic: true,
+        body: object({ username: STRING, password: STRING }, ['username', 'password']),
+      }],
+    },
+    '/auth/refresh': {
+      post: ['refreshSession', 'Exchange a refresh token for new tokens', {
+        isPublic: true,
+        body: object({ refreshToken: STRING }, ['refreshToken']),
+      }],
+    },
+    '/auth/forgot-password': {
+      post: ['forgotPassword', 'Send a password reset code', {
+        isPublic: true,
+        body: object({ username: STRING }, ['username']),
+      }],
+    },
+    '/auth/reset-password': {
+      post: ['resetPassword', 'Set a new password with a reset code', {
+        isPublic: true,
+        body: object({ username: STRING, code: STRING, newPassword: STRING }, ['username', 'code', 'newPassword']),
+      }],
+    },
+
+    '/pkb': {
+      get: ['listPkbs', 'PKBs the caller owns or is a member of'],
+      post: ['createPkb', 'Create a PKB', {
+        body: object({ name: STRING, description: NULLABLE_STRING, chatModelId: NULLABLE_STRING }, ['name']),
+      }],
+    },
+    '/pkb/invitations': {
+      get: ['listMyInvitations', 'Invitations to the caller\'s verified e-mail address'],
+    },
+    '/pkb/invitations/{pkbId}': {
+      post: ['acceptInvitation', 'Join a PKB'],
+      delete: ['declineInvitation', 'Decline an invitation'],
+    },
+    '/pkb/{pkbId}': {
+      get: ['getPkb', 'A PKB with the caller\'s role and content stats'],
+      put: ['updatePkb', 'Rename a PKB or change its settings; editors and owners', {
+        body: object({
+          name: STRING,
+          description: NULLABLE_STRING,
+          metadataFields: { type: 'array', items: METADATA_FIELD },
+          chatModelId: NULLABLE_STRING,
+        }),
+      }],
+      delete: ['deletePkb', 'Delete a PKB and everything in it; owners only'],
+    },
+    '/pkb/{pkbId}/members': {
+      get: ['listMembers', 'Members, and for the owner pending invitations'],
+      post: ['inviteMember', 'Invite someone by e-mail address; owners only', {
+        body: object({ email: STRING, role: { type: 'string', enum: ['editor', 'viewer'] } }, ['email', 'role']),
+      }],
+    },
+    '/pkb/{pkbId}/members/{memberId}': {
+      put: ['updateMember', 'Change a member\'s role; owners only', {
+        body: object({ role: { type: 'string', enum: ['editor', 'viewer'] } }, ['role']),
+      }],
+      delete: ['removeMember', 'Remove a member, or leave the PKB'],
+    },
+    '/pkb/{pkbId}/invitations/{email}': {
+      delete: ['revokeInvitation', 'Revoke a pending invitation; owners only'],
+    },
+
+    '/content/upload-url': {
+      post: ['requestUpload', 'Reserve an item, or a new version of one, and sign its S3 upload', {
+        body: object({
+          pkbId: STRING,
+          contentId: STRING,
+          fileName: STRING,
+          fileType: STRING,
+          size: { type: 'number' },
+          checksum: STRING,
+        }, ['pkbId', 'fileName', 'fileType']),
+      }],
+    },
+    '/content/multipart/initiate': {
+      post: ['initiateMultipartUpload', 'Reserve an item and open a multipart upload', {
+        body: object({ pkbId: STRING, fileName: STRING, fileType: STRING, size: { type: 'number' } },
+          ['pkbId', 'fileName', 'fileType', 'size']),
+      }],
+    },
+    '/content/multipart/parts': {
+      post: ['signUploadParts', 'Sign upload URLs for up to 100 parts', {
+        body: object({
+          ...CONTENT_REFERENCE.properties,
+          partNumbers: { type: 'array', items: { type: 'integer' } },
+          checksums: { type: 'array', items: STRING },
+        }, ['pkbId', 'contentId', 'partNumbers', 'checksums']),
+      }],
+    },
+    '/content/multipart/status': {
+      post: ['getMultipartStatus', 'Parts S3 already has, to resume an upload', { body: CONTENT_REFERENCE }],
+    },
+    '/content/multipart/complete': {
+      post: ['completeMultipartUpload', 'Assemble the uploaded parts', { body: CONTENT_REFERENCE }],
+    },
+    '/content/multipart/abort': {
+      post: ['abortMultipartUpload', 'Discard the parts and the reserved item', { body: CONTENT_REFERENCE }],
+    },
+    '/content/notes': {
+      post: ['createNote', 'Write a Markdown note', {
+        body: object({ pkbId: STRING, title: NULLABLE_STRING, body: NULLABLE_STRING }, ['pkbId']),
+      }],
+    },
+    '/content/bulk': {
+      post: ['bulkUpdateContent', 'Move or tag up to 100 items at once', {
+        body: object({
+          pkbId: STRING,
+          contentIds: STRINGS,
+          action: { type: 'string', enum: ['move', 'tag', 'untag'] },
+          folderId: NULLABLE_STRING,
+          tags: STRINGS,
+        }, ['pkbId', 'contentIds', 'action']),
+      }],
+    },
+    '/content/folders/{pkbId}': {
+      get: ['listFolders', 'Folders of a PKB'],
+      post: ['createFolder', 'Create a folder', {
+        body: object({ name: STRING, parentId: NULLABLE_STRING }, ['name']),
+      }],
+    },
+    '/content/folders/{pkbId}/{folderId}': {
+      put: ['updateFolder', 'Rename or move a folder', {
+        body: object({ name: STRING, parentId: NULLABLE_STRING }),
+      }],
+      delete: ['deleteFolder', 'Delete an empty folder'],
+    },
+    '/content/{pkbId}': {
+      get: ['listContent', 'Items of a PKB', { query: SCOPE_QUERY }],
+    },
+    '/content/{pkbId}/{contentId}': {
+      get: ['getContent', 'One item'],
+      put: ['saveNote', 'Save a note\'s title or text', {
+        body: object({ title: NULLABLE_STRING, body: NULLABLE_STRING }),
+      }],
+      delete: ['deleteContent', 'Delete an item, every stored version and its index'],
+    },
+    '/content/{pkbId}/{contentId}/note': {
+      get: ['getNote', 'A note\'s title and Markdown'],
+    },
+    '/content/{pkbId}/{contentId}/download-url': {
+      get: ['getDownloadUrl', 'A short-lived link to the stored file', {
+        query: { versionId: { type: 'string', description: 'An earlier version; the current one by default.' } },
+      }],
+    },
+    '/content/{pkbId}/{contentId}/properties': {
+      put: ['updateProperties', 'File an item in a folder and set its tags and metadata', {
+        body: object({
+          folderId: NULLABLE_STRING,
+          tags: STRINGS,
+          metadata: { type: 'object', additionalProperties: NULLABLE_STRING },
+        }),
+      }],
+    },
+    '/content/{pkbId}/{contentId}/versions': {
+      get: ['listVersions', 'Stored versions, newest first'],
+    },
+    '/content/{pkbId}/{contentId}/versions/{versionId}/diff': {
+      get: ['getVersionDiff', 'Line changes of a text version', {
+        query: { against: { type: 'string', description: 'Version to compare with; the one before by default.' } },
+      }],
+    },
+    '/content/{pkbId}/{contentId}/versions/{versionId}/restore': {
+      post: ['restoreVersion', 'Make an earlier version current again'],
+    },
+
+    '/conversations/{pkbId}': {
+      get: ['listConversations', 'The caller\'s conversations in a PKB, latest first'],
+      post: ['createConversation', 'Start a conversation', { body: object({ title: STRING }) }],
+    },
+    '/conversations/{pkbId}/{conversationId}': {
+      get: ['getConversation', 'A conversation with its messages'],
+      put: ['renameConversation', 'Rename a conversation', { body: object({ title: STRING }, ['title']) }],
+      delete: ['deleteConversation', 'Delete a conversation'],
+    },
+
+    '/ai/models': {
+      get: ['listAiModels', 'Chat models a PKB or question can use'],
+    },
+    '/ai/query': {
+      post: ['queryPkb', 'Answer a question from a PKB\'s content', {
+        body: object({
+          pkbId: STRING,
+          query: STRING,
+          topK: { type: 'integer' },
+          conversationId: STRING,
+          context: { type: 'string', enum: ['text', 'image'] },
+          imageContentId: STRING,
+          imageUrl: STRING,
+          scope: { type: ['object', 'null'], properties: { folderId: STRING, tag: STRING } },
+          modelId: STRING,
+        }, ['pkbId', 'query']),
+      }],
+    },
+
+    '/search': {
+      get: ['searchPkb', 'Keyword and semantic search without the LLM', {
+        query: {
+          pkbId: { type: 'string', required: true },
+          q: { type: 'string', required: true },
+          type: { type: 'string', description: 'Comma-separated file types.' },
+          uploadedBy: { type: 'string' },
+          from: { type: 'string', description: 'ISO-8601 date.' },
+          to: { type: 'string', description: 'ISO-8601 date.' },
+          ...SCOPE_QUERY,
+          page: { type: 'integer' },
+          pageSize: { type: 'integer' },
+        },
+      }],
+    },
+
+    '/suggestions/{pkbId}': {
+      get: ['listSuggestions', 'Open suggestions first, then resolved ones'],
+    },
+    '/suggestions/{pkbId}/refresh': {
+      post: ['refreshSuggestions', 'Analyze the PKB now'],
+    },
+    '/suggestions/{pkbId}/{suggestionId}/accept': {
+      post: ['acceptSuggestion', 'Apply a suggestion'],
+    },
+    '/suggestions/{pkbId}/{suggestionId}/dismiss': {
+      post: ['dismissSuggestion', 'Dismiss a suggestion'],
+    },
+
+    '/usage': {
+      get: ['getMyUsage', 'The caller\'s AI usage and quota', { query: DAY_RANGE }],
+    },
+    '/usage/{pkbId}': {
+      get: ['getPkbUsage', 'Everyone\'s AI usage of a PKB; owners only', { query: DAY_RANGE }],
+    },
+  }),
+};
+
+export interface SpecOperation {
+  path: string;
+  method: HttpMethod;
+  operation: OperationObject;
+}
+
+/** Every operation of `spec`, in document order. */
+export const listOperations = (spec: OpenApiDocument = API_SPEC): SpecOperation[] =>
+  Object.entries(spec.paths).flatMap(([path, item]) => HTTP_METHODS
+    .filter((method) => item[method])
+    .map((method) => ({ path, method, operation: item[method]! })));
+
+export const isPublicOperation = (operation: OperationObject): boolean =>
+  operation.security !== undefined && operation.security.length === 0;
+
+/** The body schema of an operation, for callers outside the REST API such as the streaming endpoint. */
+export const requestBodySchema = (operationId: string): JsonSchema | undefined =>
+  listOperations().find(({ operation }) => operation.operationId === operationId)
+    ?.operation.requestBody?.content['application/json'].schema;
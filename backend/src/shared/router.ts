@@ -0,0 +1,129 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { HttpError, errorResponse, getUserId, parseBody } from './http';
+import { API_SPEC, OpenApiDocument, OperationObject, SpecOperation, isPublicOperation, listOperations } from './openapi';
+import { validateSchema } from './schema';
+
+export interface RouteRequest<TBody = Record<string, unknown>> {
+  event: APIGatewayProxyEvent;
+  /** The caller's Cognito `sub`; empty for public operations. */
+  userId: string;
+  /** Path parameters by the names in the spec, e.g. `pkbId`. */
+  params: Record<string, string>;
+  query: Record<string, string | undefined>;
+  /** Already checked against the operation's schema. */
+  body: TBody;
+}
+
+/**
+ * Handles one operation. Handlers name the body type they read; `never`
+ * lets any of them be registered, as the router has checked the body
+ * against the operation's schema.
+ */
+export type RouteHandler = (request: RouteRequest<never>) => Promise<APIGatewayProxyResult>;
+
+interface CompiledRoute extends SpecOperation {
+  segments: string[];
+}
+
+const isParameter = (segment: string) => segment.startsWith('{') && segment.endsWith('}');
+
+/**
+ * API Gateway's precedence: at the first segment where two templates
+ * differ, a fixed segment wins over a parameter, so `/pkb/invitations`
+ * is never read as the PKB `invitations`.
+ */
+const byPrecedence = (a: CompiledRoute, b: CompiledRoute): number => {
+  for (let index = 0; index < Math.min(a.segments.length, b.segments.length); index += 1) {
+    const difference = Number(isParameter(a.segments[index])) - Number(isParameter(b.segments[index]));
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+};
+
+const matchTemplate = (segments: string[], path: string[]): Record<string, string> | undefined => {
+  if (segments.length !== path.length) {
+    return undefined;
+  }
+  const params: Record<string, string> = {};
+  for (let index = 0; index < segments.length; index += 1) {
+    if (isParameter(segments[index])) {
+      params[segments[index].slice(1, -1)] = path[index];
+    } else if (segments[index] !== path[index]) {
+      return undefined;
+    }
+  }
+  return params;
+};
+
+const splitPath = (path: string | undefined) =>
+  (path || '').split('/').filter(Boolean).map(decodeURIComponent);
+
+/**
+ * A Lambda handler for the spec's operations named in `routes`, which must
+ * all share the first path segment the Lambda is mounted on. The router
+ * matches the request against the spec's paths, resolves the caller unless
+ * the operation is public, checks the JSON body against its schema and
+ * reports every failure through {@link errorResponse}: unknown paths are
+ * 404s and known paths with another method 405s.
+ */
+export const createRouter = (routes: Record<string, RouteHandler>, spec: OpenApiDocument = API_SPEC) => {
+  const operations = listOperations(spec);
+  const compiled: CompiledRoute[] = Object.keys(routes).map((operationId) => {
+    const found = operations.find(({ operation }) => operation.operationId === operationId);
+    if (!found) {
+      throw new Error(`${operationId} is not an operation of the API spec`);
+    }
+    return { ...found, segments: splitPath(found.path) };
+  });
+  const services = new Set(compiled.map(({ segments }) => segments[0]));
+  if (services.size > 1) {
+    throw new Error(`A router serves one top-level resource, not ${Array.from(services).join(', ')}`);
+  }
+  // Other operations under the same resource, so their paths answer 405 rather than 404.
+  const known = operations
+    .filter(({ path }) => services.has(splitPath(path)[0]))
+    .map((operation) => ({ ...operation, segments: splitPath(operation.path) }))
+    .sort(byPrecedence);
+
+  const resolve = (event: APIGatewayProxyEvent): { route: CompiledRoute; params: Record<string, string> } => {
+    const path = splitPath(event.path);
+    const template = known.find(({ segments }) => matchTemplate(segments, path));
+    if (!template) {
+      throw new HttpError(404, 'Not found');
+    }
+    const route = compiled.find((candidate) => candidate.path === template.path
+      && candidate.method === event.httpMethod?.toLowerCase());
+    if (!route) {
+      throw new HttpError(405, `Method ${event.httpMethod} not allowed`);
+    }
+    return { route, params: matchTemplate(route.segments, path)! };
+  };
+
+  const readBody = (operation: OperationObject, event: APIGatewayProxyEvent) => {
+    const body = parseBody(event);
+    const schema = operation.requestBody?.content['application/json'].schema;
+    if (schema) {
+      validateSchema(schema, body);
+    }
+    return body;
+  };
+
+  return async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    try {
+      const { route, params } = resolve(event);
+      const userId = isPublicOperation(route.operation) ? '' : getUserId(event);
+      const request: RouteRequest = {
+        event,
+        userId,
+        params,
+        query: event.queryStringParameters ?? {},
+        body: readBody(route.operation, event),
+      };
+      return await routes[route.operation.operationId](request as RouteRequest<never>);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+};
@@ -0,0 +1,81 @@
+import { HttpError } from './http';
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema the API spec describes request bodies with.
+ * Bodies are checked for shape only; handlers still apply the rules that
+ * need trimming or data, such as name lengths and known model ids.
+ */
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Schema of the values of an object without fixed `properties`. */
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+const typeOf = (value: unknown): JsonType => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonType;
+};
+
+const matchesType = (actual: JsonType, expected: JsonType) =>
+  actual === expected || (expected === 'number' && actual === 'integer');
+
+const describeType = (type: JsonType) => {
+  if (type === 'null') {
+    return 'null';
+  }
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+};
+
+const fieldOf = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const invalid = (path: string, problem: string) =>
+  new HttpError(400, `${path || 'The request body'} ${problem}`, path ? { field: path } : undefined);
+
+/**
+ * Throws a 400 naming the first field of `value` that does not match
+ * `schema`, e.g. `name is required` or `tags[2] must be a string`. `path`
+ * is the field `value` sits in; empty for the body itself.
+ */
+export const validateSchema = (schema: JsonSchema, value: unknown, path = ''): void => {
+  const types = schema.type === undefined ? undefined : ([] as JsonType[]).concat(schema.type);
+  if (types && !types.some((type) => matchesType(typeOf(value), type))) {
+    throw invalid(path, `must be ${types.map(describeType).join(' or ')}`);
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    throw invalid(path, `must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateSchema(schema.items!, item, fieldOf(path, index)));
+  }
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? []).forEach((key) => {
+      if (record[key] === undefined) {
+        throw invalid(fieldOf(path, key), 'is required');
+      }
+    });
+    Object.entries(record).forEach(([key, item]) => {
+      const property = schema.properties?.[key] ?? schema.additionalProperties;
+      if (property && item !== undefined) {
+        validateSchema(property, item, fieldOf(path, key));
+      }
+    });
+  }
+};
@@ -0,0 +1,32 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lower-cased word tokens with common English stop words removed.
+ */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(WORD_PATTERN) ?? []).filter((token) => !STOP_WORDS.has(token));
+
+export interface TokenSpan {
+  token: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Like {@link tokenize}, but keeps each token's character offsets so matches
+ * can be highlighted in the original text.
+ */
+export const tokenSpans = (text: string): TokenSpan[] =>
+  Array.from(text.matchAll(WORD_PATTERN))
+    .map((match) => ({
+      token: match[0].toLowerCase(),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }))
+    .filter((span) => !STOP_WORDS.has(span.token));
@@ -0,0 +1,305 @@
+import { createHash } from 'crypto';
+import { ContentItem, ContentRepository } from '../content/repository';
+import { ChunkStore, IndexedChunk } from '../ingestion/chunk-store';
+import { cosineSimilarity } from '../ingestion/embedder';
+import { ContentSummary } from '../ingestion/summarizer';
+import { ModelClient } from '../ai/model';
+import { Suggestion, SuggestionRepository, SuggestionType } from './repository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Items nobody has updated or reviewed for this long are flagged as stale. */
+export const STALE_AFTER_DAYS = 180;
+/** Mean-embedding similarity from which two items count as near-duplicates. */
+const DUPLICATE_SIMILARITY = 0.97;
+/** Similar enough to be about the same thing, so worth checking for contradictions. */
+const RELATED_SIMILARITY = 0.85;
+/** Pairwise comparison is quadratic, so only the most recent items are compared. */
+const MAX_ITEMS_COMPARED = 500;
+/** Model calls per analysis, to keep the cost of a run bounded. */
+const MAX_CONFLICT_CHECKS = 5;
+const MAX_COVERAGE_GAPS = 3;
+const MIN_ITEMS_FOR_COVERAGE = 3;
+const MAX_ITEMS_IN_COVERAGE_PROMPT = 50;
+const MAX_CONFLICT_EXCERPT_CHARS = 6000;
+
+export interface AnalysisDependencies {
+  content: ContentRepository;
+  chunks: ChunkStore;
+  suggestions: SuggestionRepository;
+  model: ModelClient;
+}
+
+type Candidate = Omit<Suggestion, 'pkbId' | 'status' | 'createdAt' | 'updatedAt'>;
+
+const pairId = (type: SuggestionType, contentIds: string[]) => [type, ...[...contentIds].sort()].join('#');
+
+const slug = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+
+/**
+ * Saves `candidate` unless the same suggestion was already accepted or
+ * dismissed; an open one is refreshed in place.
+ */
+const upsert = async (deps: Pick<AnalysisDependencies, 'suggestions'>, pkbId: string, candidate: Candidate) => {
+  const existing = await deps.suggestions.get(pkbId, candidate.suggestionId);
+  if (existing && existing.status !== 'open') {
+    return;
+  }
+  const now = new Date().toISOString();
+  await deps.suggestions.put({
+    ...candidate,
+    pkbId,
+    status: 'open',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Records the summary and tags generated for a freshly indexed item. A new
+ * upload of the item replaces its earlier summary suggestion, whatever
+ * became of it, as the content has changed.
+ */
+export const suggestSummary = async (
+  deps: Pick<AnalysisDependencies, 'suggestions'>,
+  item: ContentItem,
+  { summary, tags }: ContentSummary,
+): Promise<void> => {
+  const now = new Date().toISOString();
+  await deps.suggestions.put({
+    pkbId: item.pkbId,
+    suggestionId: `summary#${item.contentId}`,
+    type: 'summary',
+    status: 'open',
+    title: `Summary and tags for ${item.fileName}`,
+    detail: summary,
+    contentIds: [item.contentId],
+    summary,
+    tags,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+const meanEmbeddings = (chunks: IndexedChunk[]): Map<string, number[]> => {
+  const sums = new Map<string, { total: number[]; count: number }>();
+  chunks.forEach((chunk) => {
+    const entry = sums.get(chunk.contentId) ?? { total: new Array(chunk.embedding.length).fill(0), count: 0 };
+    chunk.embedding.forEach((value, index) => {
+      entry.total[index] += value;
+    });
+    entry.count += 1;
+    sums.set(chunk.contentId, entry);
+  });
+  return new Map(Array.from(sums, ([contentId, { total, count }]) => [contentId, total.map((v) => v / count)]));
+};
+
+const textOf = (chunks: IndexedChunk[], contentId: string): string =>
+  chunks
+    .filter((chunk) => chunk.contentId === contentId)
+    .sort((a, b) => a.index - b.index)
+    .map((chunk) => chunk.text)
+    .join('\n')
+    .slice(0, MAX_CONFLICT_EXCERPT_CHARS);
+
+interface RelatedPair {
+  a: ContentItem;
+  b: ContentItem;
+  similarity: number;
+}
+
+/** Exact copies by checksum, near-copies by embedding, and related pairs worth a conflict check. */
+const compareItems = (items: ContentItem[], chunks: IndexedChunk[]) => {
+  const duplicates: Candidate[] = [];
+  const related: RelatedPair[] = [];
+
+  const byChecksum = new Map<string, ContentItem[]>();
+  items.filter((item) => item.checksum).forEach((item) => {
+    byChecksum.set(item.checksum!, [...(byChecksum.get(item.checksum!) ?? []), item]);
+  });
+  const exactIds = new Set<string>();
+  byChecksum.forEach((group) => {
+    if (group.length < 2) {
+      return;
+    }
+    const contentIds = group.map((item) => item.contentId);
+    contentIds.forEach((contentId) => exactIds.add(contentId));
+    duplicates.push({
+      suggestionId: pairId('duplicate', contentIds),
+      type: 'duplicate',
+      title: `${group.length} identical copies of ${group[0].fileName}`,
+      detail: `${group.map((item) => item.fileName).join(', ')} have exactly the same contents. Consider keeping one.`,
+      contentIds,
+    });
+  });
+
+  const embeddings = meanEmbeddings(chunks);
+  const compared = [...items]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_ITEMS_COMPARED)
+    .filter((item) => embeddings.has(item.contentId));
+  compared.forEach((a, i) => {
+    compared.slice(i + 1).forEach((b) => {
+      if (exactIds.has(a.contentId) && exactIds.has(b.contentId) && a.checksum === b.checksum) {
+        return;
+      }
+      const similarity = cosineSimilarity(embeddings.get(a.contentId)!, embeddings.get(b.contentId)!);
+      if (similarity >= DUPLICATE_SIMILARITY) {
+        duplicates.push({
+          suggestionId: pairId('duplicate', [a.contentId, b.contentId]),
+          type: 'duplicate',
+          title: `${a.fileName} and ${b.fileName} are nearly identical`,
+          detail: 'These items say almost the same thing. Consider merging them or removing one.',
+          contentIds: [a.contentId, b.contentId],
+        });
+      } else if (similarity >= RELATED_SIMILARITY) {
+        related.push({ a, b, similarity });
+      }
+    });
+  });
+
+  related.sort((x, y) => y.similarity - x.similarity);
+  return { duplicates, related };
+};
+
+const findStale = (items: ContentItem[], now: Date): Candidate[] =>
+  items.flatMap((item) => {
+    const lastTouched = [item.uploadedAt ?? item.updatedAt, item.reviewedAt]
+      .filter((date): date is string => Boolean(date))
+      .sort()
+      .pop() as string;
+    const ageDays = Math.floor((now.getTime() - new Date(lastTouched).getTime()) / DAY_MS);
+    if (ageDays < STALE_AFTER_DAYS) {
+      return [];
+    }
+    return [{
+      // Keyed by the date too, so a reviewed item can be flagged again later.
+      suggestionId: `stale#${item.contentId}#${lastTouched.slice(0, 10)}`,
+      type: 'stale' as const,
+      title: `${item.fileName} may be out of date`,
+      detail: `Not updated or reviewed for ${ageDays} days. Check it is still accurate, then accept to mark it reviewed.`,
+      contentIds: [item.contentId],
+    }];
+  });
+
+/** Parses `CONFLICT: yes|no` and `EXPLANATION: …`; anything unclear counts as no conflict. */
+export const parseConflict = (reply: string): string | undefined => {
+  if (!/CONFLICT:\s*yes/i.test(reply)) {
+    return undefined;
+  }
+  const explanation = reply.match(/EXPLANATION:\s*([\s\S]*)$/i)?.[1].trim();
+  return explanation || 'These items appear to contradict each other.';
+};
+
+const checkConflict = async (deps: AnalysisDependencies, pair: RelatedPair, chunks: IndexedChunk[]) => {
+  const result = await deps.model.generate({
+    messages: [{
+      role: 'user',
+      content: [
+        'Do these two documents contradict each other on any fact, figure, date or instruction?',
+        'Reply in exactly this format:',
+        'CONFLICT: yes or no',
+        'EXPLANATION: one sentence naming the contradiction, if any.',
+        '',
+        `Document A: ${pair.a.fileName}`,
+        textOf(chunks, pair.a.contentId),
+        '',
+        `Document B: ${pair.b.fileName}`,
+        textOf(chunks, pair.b.contentId),
+      ].join('\n'),
+    }],
+    maxTokens: 200,
+    temperature: 0,
+  });
+  return parseConflict(result.text);
+};
+
+/** Parses `TOPIC: … | REASON: …` lines. */
+export const parseCoverageGaps = (reply: string): { topic: string; reason: string }[] =>
+  Array.from(reply.matchAll(/^\s*TOPIC:\s*(.+?)\s*\|\s*REASON:\s*(.+)$/gim))
+    .map((match) => ({ topic: match[1].trim(), reason: match[2].trim() }))
+    .filter((gap) => gap.topic)
+    .slice(0, MAX_COVERAGE_GAPS);
+
+const findCoverageGaps = async (deps: AnalysisDependencies, items: ContentItem[], chunks: IndexedChunk[]) => {
+  const outline = items
+    .slice(0, MAX_ITEMS_IN_COVERAGE_PROMPT)
+    .map((item) => `- ${item.fileName}: ${item.summary ?? textOf(chunks, item.contentId).slice(0, 300)}`)
+    .join('\n');
+  const result = await deps.model.generate({
+    messages: [{
+      role: 'user',
+      content: [
+        'These are the documents in a knowledge base:',
+        outline,
+        '',
+        `Name up to ${MAX_COVERAGE_GAPS} topics the documents refer to or depend on but explain only briefly or`,
+        'not at all. One per line, in exactly this format, or reply NONE:',
+        'TOPIC: the topic | REASON: why the knowledge base needs more on it',
+      ].join('\n'),
+    }],
+    maxTokens: 400,
+    temperature: 0,
+  });
+  return parseCoverageGaps(result.text).map((gap): Candidate => ({
+    suggestionId: `coverage#${slug(gap.topic)}`,
+    type: 'coverage',
+    title: `Thin coverage: ${gap.topic}`,
+    detail: gap.reason,
+    contentIds: [],
+  }));
+};
+
+const fingerprintOf = (items: ContentItem[]) =>
+  createHash('sha256')
+    .update(items.map((item) => `${item.contentId}:${item.updatedAt}`).sort().join('\n'))
+    .digest('hex');
+
+/**
+ * Looks for duplicates, stale items, conflicts and coverage gaps in one
+ * PKB and brings its open suggestions up to date: new findings are added
+ * and open ones that no longer apply are removed. The model is only asked
+ * about conflicts and coverage when the PKB's content has changed since
+ * the last run.
+ */
+export const analyzePkb = async (deps: AnalysisDependencies, pkbId: string, now = new Date()): Promise<void> => {
+  const items = (await deps.content.list(pkbId)).filter((item) => item.ingestionStatus === 'ready');
+  const chunks = await deps.chunks.list(pkbId);
+  const { duplicates, related } = compareItems(items, chunks);
+  const candidates: Candidate[] = [...duplicates, ...findStale(items, now)];
+  const reconciled = new Set<SuggestionType>(['duplicate', 'stale']);
+
+  const fingerprint = fingerprintOf(items);
+  const previous = await deps.suggestions.getAnalysis(pkbId);
+  if (previous?.fingerprint !== fingerprint) {
+    for (const pair of related.slice(0, MAX_CONFLICT_CHECKS)) {
+      const explanation = await checkConflict(deps, pair, chunks);
+      if (explanation) {
+        candidates.push({
+          suggestionId: pairId('conflict', [pair.a.contentId, pair.b.contentId]),
+          type: 'conflict',
+          title: `${pair.a.fileName} and ${pair.b.fileName} may conflict`,
+          detail: explanation,
+          contentIds: [pair.a.contentId, pair.b.contentId],
+        });
+      }
+    }
+    if (items.length >= MIN_ITEMS_FOR_COVERAGE) {
+      candidates.push(...await findCoverageGaps(deps, items, chunks));
+    }
+    reconciled.add('conflict');
+    reconciled.add('coverage');
+  }
+
+  const candidateIds = new Set(candidates.map((candidate) => candidate.suggestionId));
+  const obsolete = (await deps.suggestions.list(pkbId))
+    .filter((suggestion) => suggestion.status === 'open' && reconciled.has(suggestion.type))
+    .filter((suggestion) => !candidateIds.has(suggestion.suggestionId));
+  for (const suggestion of obsolete) {
+    await deps.suggestions.delete(pkbId, suggestion.suggestionId);
+  }
+  for (const candidate of candidates) {
+    await upsert(deps, pkbId, candidate);
+  }
+  await deps.suggestions.putAnalysis({ pkbId, fingerprint, analyzedAt: now.toISOString() });
+};
@@ -0,0 +1,173 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { BedrockRuntime } from 'aws-sdk';
+import { HttpError, jsonResponse } from '../shared/http';
+import { createDocumentClient } from '../shared/dynamo';
+import { RouteHandler, RouteRequest, createRouter } from '../shared/router';
+import { DynamoPkbRepository, PkbRepository } from '../pkb/repository';
+import { DynamoMembershipRepository, MembershipRepository } from '../pkb/members';
+import { authorizePkb } from '../pkb/access';
+import { ContentChanges, ContentItem, DynamoContentRepository } from '../content/repository';
+import { DynamoLabelIndex, LabelIndex, indexLabels } from '../content/labels';
+import { MAX_TAGS_PER_ITEM } from '../content/metadata';
+import { DynamoChunkStore } from '../ingestion/chunk-store';
+import { BedrockModelClient } from '../ai/model';
+import { DynamoUsageRepository, UsageRepository } from '../usage/repository';
+import { SYSTEM_USER_ID, UsageAttribution, UsageTracker } from '../usage/metering';
+import { AnalysisDependencies, analyzePkb } from './analysis';
+import { DynamoSuggestionRepository, Suggestion } from './repository';
+
+export interface SuggestionHandlerDependencies extends AnalysisDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+  /** Kept in step with the tags that accepted summaries add. */
+  labels: LabelIndex;
+  usage?: UsageRepository;
+}
+
+/** Analyzes a PKB, billing its model calls to `attribution`. */
+const meteredAnalysis = async (deps: SuggestionHandlerDependencies, attribution: UsageAttribution): Promise<void> => {
+  const tracker = new UsageTracker(deps.usage);
+  try {
+    await analyzePkb({ ...deps, model: tracker.model(deps.model) }, attribution.pkbId);
+  } finally {
+    await tracker.flush(attribution);
+  }
+};
+
+const RESOLUTIONS = { accept: 'accepted', dismiss: 'dismissed' } as const;
+
+/**
+ * Suggestions whose items all still exist, open ones first and newest
+ * first within each group.
+ */
+const listSuggestions = async (deps: SuggestionHandlerDependencies, pkbId: string): Promise<Suggestion[]> => {
+  const [suggestions, items] = await Promise.all([deps.suggestions.list(pkbId), deps.content.list(pkbId)]);
+  const contentIds = new Set(items.map((item) => item.contentId));
+  return suggestions
+    .filter((suggestion) => suggestion.contentIds.every((contentId) => contentIds.has(contentId)))
+    .sort((a, b) => Number(b.status === 'open') - Number(a.status === 'open')
+      || b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * What accepting a suggestion changes on its item: a summary and its tags
+ * are applied, and a stale item is marked as reviewed. Other suggestions
+ * are advice the user acts on themselves.
+ */
+const changesOnAccept = (suggestion: Suggestion, item: ContentItem, now: string): ContentChanges | undefined => {
+  if (suggestion.type === 'summary') {
+    return {
+      summary: suggestion.summary,
+      tags: Array.from(new Set([...(item.tags ?? []), ...(suggestion.tags ?? [])])).slice(0, MAX_TAGS_PER_ITEM),
+    };
+  }
+  if (suggestion.type === 'stale') {
+    return { reviewedAt: now };
+  }
+  return undefined;
+};
+
+const resolveSuggestion = async (
+  deps: SuggestionHandlerDependencies,
+  userId: string,
+  pkbId: string,
+  suggestionId: string,
+  action: keyof typeof RESOLUTIONS,
+): Promise<APIGatewayProxyResult> => {
+  const suggestion = await deps.suggestions.get(pkbId, suggestionId);
+  if (!suggestion) {
+    throw new HttpError(404, 'Suggestion not found');
+  }
+  if (suggestion.status !== 'open') {
+    throw new HttpError(409, `Suggestion has already been ${suggestion.status}`);
+  }
+
+  const now = new Date().toISOString();
+  if (action === 'accept') {
+    for (const contentId of suggestion.contentIds) {
+      const item = await deps.content.get(pkbId, contentId);
+      if (!item) {
+        throw new HttpError(409, 'The content this suggestion is about no longer exists');
+      }
+      const changes = changesOnAccept(suggestion, item, now);
+      const updated = changes && await deps.content.update(pkbId, contentId, changes);
+      if (updated && changes?.tags) {
+        await indexLabels(deps.labels, updated);
+      }
+    }
+  }
+
+  const updated = await deps.suggestions.update(pkbId, suggestionId, {
+    status: RESOLUTIONS[action],
+    resolvedBy: userId,
+    resolvedAt: now,
+  });
+  return jsonResponse(200, { suggestion: updated });
+};
+
+/**
+ * - `GET /suggestions/{pkbId}` - the PKB's suggestions
+ * - `POST /suggestions/{pkbId}/refresh` - re-runs the analysis now
+ * - `POST /suggestions/{pkbId}/{suggestionId}/accept|dismiss`
+ */
+export const createHandler = (deps: SuggestionHandlerDependencies) => {
+  const resolve = (action: keyof typeof RESOLUTIONS): RouteHandler =>
+    async ({ userId, params: { pkbId, suggestionId } }: RouteRequest) => {
+      await authorizePkb(deps, userId, pkbId, 'editor');
+      return resolveSuggestion(deps, userId, pkbId, suggestionId, action);
+    };
+
+  return createRouter({
+    listSuggestions: async ({ userId, params: { pkbId } }: RouteRequest) => {
+      await authorizePkb(deps, userId, pkbId, 'viewer');
+      return jsonResponse(200, { suggestions: await listSuggestions(deps, pkbId) });
+    },
+
+    refreshSuggestions: async ({ userId, params: { pkbId } }: RouteRequest) => {
+      await authorizePkb(deps, userId, pkbId, 'editor');
+      await meteredAnalysis(deps, { userId, pkbId });
+      return jsonResponse(200, { suggestions: await listSuggestions(deps, pkbId) });
+    },
+
+    acceptSuggestion: resolve('accept'),
+    dismissSuggestion: resolve('dismiss'),
+  });
+};
+
+/**
+ * Scheduled analysis of every PKB, billed to no user. One PKB failing is
+ * logged and does not stop the others.
+ */
+export const createScheduledHandler = (deps: SuggestionHandlerDependencies) =>
+  async (): Promise<void> => {
+    for (const pkb of await deps.pkbs.listAll()) {
+      try {
+        await meteredAnalysis(deps, { userId: SYSTEM_USER_ID, pkbId: pkb.pkbId });
+      } catch (error) {
+        console.error(`Could not analyze PKB ${pkb.pkbId}`, error);
+      }
+    }
+  };
+
+const documentClient = createDocumentClient();
+const contentTable = process.env.CONTENT_TABLE || 'projectkb-content';
+
+const dependencies: SuggestionHandlerDependencies = {
+  pkbs: new DynamoPkbRepository(documentClient, {
+    pkbs: process.env.PKB_TABLE || 'projectkb-pkbs',
+    content: contentTable,
+  }),
+  members: new DynamoMembershipRepository(documentClient, process.env.MEMBER_TABLE || 'projectkb-members'),
+  content: new DynamoContentRepository(documentClient, contentTable),
+  chunks: new DynamoChunkStore(documentClient, process.env.CHUNK_TABLE || 'projectkb-chunks'),
+  suggestions: new DynamoSuggestionRepository(documentClient, process.env.SUGGESTION_TABLE || 'projectkb-suggestions'),
+  labels: new DynamoLabelIndex(documentClient, process.env.LABEL_TABLE || 'projectkb-content-labels'),
+  model: new BedrockModelClient(
+    new BedrockRuntime(),
+    process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-haiku-20240307-v1:0',
+  ),
+  usage: new DynamoUsageRepository(documentClient, process.env.USAGE_TABLE || 'projectkb-usage'),
+};
+
+export const handler = createHandler(dependencies);
+export const onSchedule = createScheduledHandler(dependencies);
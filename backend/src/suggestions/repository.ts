@@ -0,0 +1,173 @@
+import { DynamoDB } from 'aws-sdk';
+import { buildUpdateExpression, isConditionalCheckFailed, queryAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+
+/**
+ * - `summary`: a generated summary and tags for one item;
+ * - `duplicate`: items with the same or nearly the same text;
+ * - `conflict`: closely related items that contradict each other;
+ * - `stale`: an item nobody has updated or reviewed in a long time;
+ * - `coverage`: a topic the PKB mentions but barely covers.
+ */
+export type SuggestionType = 'summary' | 'duplicate' | 'conflict' | 'stale' | 'coverage';
+
+export type SuggestionStatus = 'open' | 'accepted' | 'dismissed';
+
+export interface Suggestion {
+  pkbId: string;
+  /**
+   * Derived from the type and the items involved, so re-running the
+   * analysis updates a suggestion instead of repeating it.
+   */
+  suggestionId: string;
+  type: SuggestionType;
+  status: SuggestionStatus;
+  title: string;
+  detail: string;
+  /** Items the suggestion is about; empty for coverage gaps. */
+  contentIds: string[];
+  /** For `summary` suggestions, applied to the item when accepted. */
+  summary?: string;
+  tags?: string[];
+  createdAt: string;
+  updatedAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+export type SuggestionChanges = Partial<Pick<Suggestion, 'status' | 'resolvedBy' | 'resolvedAt'>>;
+
+/** What the last analysis of a PKB looked at, so unchanged PKBs skip the model calls. */
+export interface AnalysisRecord {
+  pkbId: string;
+  fingerprint: string;
+  analyzedAt: string;
+}
+
+/**
+ * Suggestions per PKB in `projectkb-suggestions`, keyed by pkbId and
+ * suggestionId. Accepted and dismissed suggestions are kept, so the
+ * analysis does not raise them again.
+ */
+export interface SuggestionRepository {
+  list(pkbId: string): Promise<Suggestion[]>;
+  get(pkbId: string, suggestionId: string): Promise<Suggestion | undefined>;
+  put(suggestion: Suggestion): Promise<void>;
+  update(pkbId: string, suggestionId: string, changes: SuggestionChanges): Promise<Suggestion | undefined>;
+  delete(pkbId: string, suggestionId: string): Promise<void>;
+  getAnalysis(pkbId: string): Promise<AnalysisRecord | undefined>;
+  putAnalysis(record: AnalysisRecord): Promise<void>;
+}
+
+/** Sort key of the analysis record, which shares the partition with the suggestions. */
+const ANALYSIS_KEY = '#analysis';
+
+export class DynamoSuggestionRepository implements SuggestionRepository {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  async list(pkbId: string): Promise<Suggestion[]> {
+    const records = await queryAll<Suggestion>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'pkbId = :pkbId',
+      ExpressionAttributeValues: { ':pkbId': pkbId },
+    });
+    return records.filter((record) => record.suggestionId !== ANALYSIS_KEY);
+  }
+
+  async get(pkbId: string, suggestionId: string): Promise<Suggestion | undefined> {
+    const result = await this.client
+      .get({ TableName: this.tableName, Key: { pkbId, suggestionId } })
+      .promise();
+    return result.Item as Suggestion | undefined;
+  }
+
+  async put(suggestion: Suggestion): Promise<void> {
+    await this.client.put({ TableName: this.tableName, Item: suggestion }).promise();
+  }
+
+  async update(pkbId: string, suggestionId: string, changes: SuggestionChanges): Promise<Suggestion | undefined> {
+    try {
+      const result = await this.client
+        .update({
+          TableName: this.tableName,
+          Key: { pkbId, suggestionId },
+          ...buildUpdateExpression({ ...changes, updatedAt: new Date().toISOString() }),
+          ConditionExpression: 'attribute_exists(suggestionId)',
+          ReturnValues: 'ALL_NEW',
+        })
+        .promise();
+      return result.Attributes as Suggestion;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(pkbId: string, suggestionId: string): Promise<void> {
+    await this.client.delete({ TableName: this.tableName, Key: { pkbId, suggestionId } }).promise();
+  }
+
+  async getAnalysis(pkbId: string): Promise<AnalysisRecord | undefined> {
+    const result = await this.client
+      .get({ TableName: this.tableName, Key: { pkbId, suggestionId: ANALYSIS_KEY } })
+      .promise();
+    if (!result.Item) {
+      return undefined;
+    }
+    const { suggestionId: _key, ...record } = result.Item;
+    return record as AnalysisRecord;
+  }
+
+  async putAnalysis(record: AnalysisRecord): Promise<void> {
+    await this.client
+      .put({ TableName: this.tableName, Item: { ...record, suggestionId: ANALYSIS_KEY } })
+      .promise();
+  }
+}
+
+export class InMemorySuggestionRepository implements SuggestionRepository {
+  private readonly analyses = new Map<string, AnalysisRecord>();
+
+  constructor(
+    readonly suggestions: MemoryTable<Suggestion> = new MemoryTable<Suggestion>('pkbId', 'suggestionId'),
+  ) {}
+
+  async list(pkbId: string): Promise<Suggestion[]> {
+    return this.suggestions.query(pkbId);
+  }
+
+  async get(pkbId: string, suggestionId: string): Promise<Suggestion | undefined> {
+    return this.suggestions.get(pkbId, suggestionId);
+  }
+
+  async put(suggestion: Suggestion): Promise<void> {
+    this.suggestions.put(suggestion);
+  }
+
+  async update(pkbId: string, suggestionId: string, changes: SuggestionChanges): Promise<Suggestion | undefined> {
+    const existing = this.suggestions.get(pkbId, suggestionId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+    this.suggestions.put(updated);
+    return updated;
+  }
+
+  async delete(pkbId: string, suggestionId: string): Promise<void> {
+    this.suggestions.delete(pkbId, suggestionId);
+  }
+
+  async getAnalysis(pkbId: string): Promise<AnalysisRecord | undefined> {
+    return this.analyses.get(pkbId);
+  }
+
+  async putAnalysis(record: AnalysisRecord): Promise<void> {
+    this.analyses.set(record.pkbId, record);
+  }
+}
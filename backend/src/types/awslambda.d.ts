@@ -0,0 +1,28 @@
+import { Writable } from 'stream';
+
+/**
+ * Globals the Node.js Lambda runtime provides for response streaming
+ * (Function URLs with `InvokeMode.RESPONSE_STREAM`).
+ */
+declare global {
+  namespace awslambda {
+    interface ResponseMetadata {
+      statusCode?: number;
+      headers?: Record<string, string>;
+    }
+
+    type StreamifyHandler<TEvent> = (
+      event: TEvent,
+      responseStream: Writable,
+      context: unknown,
+    ) => Promise<void>;
+
+    function streamifyResponse<TEvent>(handler: StreamifyHandler<TEvent>): StreamifyHandler<TEvent>;
+
+    const HttpResponseStream: {
+      from(responseStream: Writable, metadata: ResponseMetadata): Writable;
+    };
+  }
+}
+
+export {};
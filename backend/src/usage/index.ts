@@ -0,0 +1,86 @@
+import { HttpError, jsonResponse } from '../shared/http';
+import { createDocumentClient } from '../shared/dynamo';
+import { RouteRequest, createRouter } from '../shared/router';
+import { DynamoPkbRepository, PkbRepository } from '../pkb/repository';
+import { DynamoMembershipRepository, MembershipRepository } from '../pkb/members';
+import { authorizePkb } from '../pkb/access';
+import { MODEL_REGISTRY } from '../shared/models';
+import { TRANSCRIPTION_MODEL_ID } from './metering';
+import { DayRange, DynamoUsageRepository, UsageRepository, toDay } from './repository';
+import { UsageQuota, quotaFromEnvironment, quotaStatus } from './quota';
+
+export interface UsageHandlerDependencies {
+  pkbs: PkbRepository;
+  members: MembershipRepository;
+  usage: UsageRepository;
+  quota?: UsageQuota;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Display names of everything usage is recorded for, so reports can label their rows. */
+const MODEL_NAMES: Record<string, string> = {
+  ...Object.fromEntries(MODEL_REGISTRY.map((model) => [model.modelId, model.name])),
+  [TRANSCRIPTION_MODEL_ID]: 'Amazon Transcribe',
+};
+
+const parseDay = (value: string | undefined, field: string): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new HttpError(400, `${field} must be a date as YYYY-MM-DD`);
+  }
+  return value;
+};
+
+/** `from` and `to` default to the 30 days up to today. */
+export const parseDayRange = (params: Record<string, string | undefined>, now = new Date()): DayRange => {
+  const to = parseDay(params.to, 'to') ?? toDay(now);
+  const from = parseDay(params.from, 'from')
+    ?? toDay(new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS));
+  if (from > to) {
+    throw new HttpError(400, 'from must not be after to');
+  }
+  if ((Date.parse(to) - Date.parse(from)) / DAY_MS >= MAX_RANGE_DAYS) {
+    throw new HttpError(400, `The range may span at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from, to };
+};
+
+/**
+ * - `GET /usage?from=&to=` - the caller's own usage per day, PKB and model,
+ *   plus where they stand against their quota
+ * - `GET /usage/{pkbId}?from=&to=` - everyone's usage of a PKB; owners only
+ */
+export const createHandler = (deps: UsageHandlerDependencies) => createRouter({
+  getMyUsage: async ({ userId, query }: RouteRequest) => {
+    const range = parseDayRange(query);
+    const [records, quota] = await Promise.all([
+      deps.usage.listForUser(userId, range),
+      deps.quota && quotaStatus(deps.usage, deps.quota, userId),
+    ]);
+    return jsonResponse(200, { range, records, quota: quota ?? null, modelNames: MODEL_NAMES });
+  },
+
+  getPkbUsage: async ({ userId, params: { pkbId }, query }: RouteRequest) => {
+    const range = parseDayRange(query);
+    await authorizePkb(deps, userId, pkbId, 'owner');
+    const records = await deps.usage.listForPkb(pkbId, range);
+    return jsonResponse(200, { range, records, modelNames: MODEL_NAMES });
+  },
+});
+
+const documentClient = createDocumentClient();
+
+export const handler = createHandler({
+  pkbs: new DynamoPkbRepository(documentClient, {
+    pkbs: process.env.PKB_TABLE || 'projectkb-pkbs',
+    content: process.env.CONTENT_TABLE || 'projectkb-content',
+  }),
+  members: new DynamoMembershipRepository(documentClient, process.env.MEMBER_TABLE || 'projectkb-members'),
+  usage: new DynamoUsageRepository(documentClient, process.env.USAGE_TABLE || 'projectkb-usage'),
+  quota: quotaFromEnvironment(),
+});
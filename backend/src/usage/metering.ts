@@ -0,0 +1,118 @@
+import { GenerateRequest, GenerateResult, ModelClient, ModelStreamEvent } from '../ai/model';
+import { Embedder } from '../ingestion/embedder';
+import { findModel } from '../shared/models';
+import { UsageRepository } from './repository';
+
+/** Amazon Transcribe standard batch pricing, billed per second of media. */
+export const TRANSCRIPTION_MODEL_ID = 'amazon.transcribe';
+export const TRANSCRIPTION_USD_PER_MINUTE = 0.024;
+
+/** Who a call is billed to. Scheduled work with no user behind it uses {@link SYSTEM_USER_ID}. */
+export interface UsageAttribution {
+  userId: string;
+  pkbId: string;
+}
+
+export const SYSTEM_USER_ID = 'system';
+
+interface MeteredCall {
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** Estimated cost in US dollars; models outside the registry (test fakes) are free. */
+export const estimateCost = (modelId: string, inputTokens: number, outputTokens: number): number => {
+  const pricing = findModel(modelId)?.pricing;
+  return pricing
+    ? (inputTokens / 1000) * pricing.inputPer1kTokens + (outputTokens / 1000) * pricing.outputPer1kTokens
+    : 0;
+};
+
+/**
+ * Collects the usage of the calls made through the clients it wraps until
+ * `flush` records it against a user and PKB. Without a repository nothing
+ * is recorded, so callers need no separate path for unmetered setups.
+ */
+export class UsageTracker {
+  private calls: MeteredCall[] = [];
+
+  constructor(private readonly usage?: UsageRepository) {}
+
+  record(modelId: string, inputTokens: number, outputTokens: number): void {
+    this.calls.push({ modelId, inputTokens, outputTokens, costUsd: estimateCost(modelId, inputTokens, outputTokens) });
+  }
+
+  recordTranscription(seconds: number): void {
+    this.calls.push({
+      modelId: TRANSCRIPTION_MODEL_ID,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: (seconds / 60) * TRANSCRIPTION_USD_PER_MINUTE,
+    });
+  }
+
+  /** `client`, with every completed generation recorded. */
+  model(client: ModelClient): ModelClient {
+    const track = (result: GenerateResult) => this.record(result.modelId, result.inputTokens, result.outputTokens);
+    return {
+      defaultModelId: client.defaultModelId,
+      async generate(request: GenerateRequest) {
+        const result = await client.generate(request);
+        track(result);
+        return result;
+      },
+      async *stream(request: GenerateRequest): AsyncIterable<ModelStreamEvent> {
+        for await (const event of client.stream(request)) {
+          if (event.type === 'done') {
+            track(event.result);
+          }
+          yield event;
+        }
+      },
+    };
+  }
+
+  /** `embedder`, with the input tokens of every batch recorded. */
+  embedder(embedder: Embedder): Embedder {
+    return {
+      modelId: embedder.modelId,
+      dimensions: embedder.dimensions,
+      embed: (texts, onUsage) => embedder.embed(texts, (inputTokens) => {
+        this.record(embedder.modelId, inputTokens, 0);
+        onUsage?.(inputTokens);
+      }),
+    };
+  }
+
+  /**
+   * Adds the calls since the last flush to the attribution's daily usage,
+   * one record per model. Failing to record is logged rather than thrown:
+   * the work it describes has already been done.
+   */
+  async flush(attribution: UsageAttribution, at = new Date()): Promise<void> {
+    const calls = this.calls;
+    this.calls = [];
+    if (!this.usage || calls.length === 0) {
+      return;
+    }
+
+    const byModel = new Map<string, MeteredCall & { requests: number }>();
+    for (const call of calls) {
+      const total = byModel.get(call.modelId) ?? { modelId: call.modelId, inputTokens: 0, outputTokens: 0, costUsd: 0, requests: 0 };
+      total.inputTokens += call.inputTokens;
+      total.outputTokens += call.outputTokens;
+      total.costUsd += call.costUsd;
+      total.requests += 1;
+      byModel.set(call.modelId, total);
+    }
+    try {
+      for (const total of byModel.values()) {
+        await this.usage.add({ ...attribution, ...total, at });
+      }
+    } catch (error) {
+      console.error(`Could not record usage of ${attribution.userId} in ${attribution.pkbId}`, error);
+    }
+  }
+}
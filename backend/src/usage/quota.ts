@@ -0,0 +1,110 @@
+import { HttpError } from '../shared/http';
+import { DayRange, UsageRepository, toDay } from './repository';
+
+export type QuotaPeriod = 'day' | 'month';
+
+/** How much AI each user may use per period; limits left out do not apply. */
+export interface UsageQuota {
+  period: QuotaPeriod;
+  maxCostUsd?: number;
+  /** Input and output tokens together, across models. */
+  maxTokens?: number;
+}
+
+export interface QuotaStatus extends UsageQuota {
+  costUsd: number;
+  tokens: number;
+  /** When the current period ends, as an ISO timestamp. */
+  resetsAt: string;
+  exceeded: boolean;
+}
+
+const parseLimit = (value: string | undefined, name: string): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return limit;
+};
+
+/**
+ * The quota set through `USAGE_QUOTA_PERIOD` (`day` or `month`),
+ * `USAGE_QUOTA_USD` and `USAGE_QUOTA_TOKENS`; undefined when no limit is set.
+ */
+export const quotaFromEnvironment = (env: NodeJS.ProcessEnv = process.env): UsageQuota | undefined => {
+  const maxCostUsd = parseLimit(env.USAGE_QUOTA_USD, 'USAGE_QUOTA_USD');
+  const maxTokens = parseLimit(env.USAGE_QUOTA_TOKENS, 'USAGE_QUOTA_TOKENS');
+  if (maxCostUsd === undefined && maxTokens === undefined) {
+    return undefined;
+  }
+  const period = env.USAGE_QUOTA_PERIOD || 'month';
+  if (period !== 'day' && period !== 'month') {
+    throw new Error('USAGE_QUOTA_PERIOD must be day or month');
+  }
+  return { period, maxCostUsd, maxTokens };
+};
+
+/** The days of the (UTC) period containing `now`, and when the next one starts. */
+export const currentPeriod = (period: QuotaPeriod, now: Date): { range: DayRange; resetsAt: Date } => {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  if (period === 'day') {
+    return { range: { from: toDay(now), to: toDay(now) }, resetsAt: new Date(Date.UTC(year, month, now.getUTCDate() + 1)) };
+  }
+  const resetsAt = new Date(Date.UTC(year, month + 1, 1));
+  return {
+    range: { from: toDay(new Date(Date.UTC(year, month, 1))), to: toDay(new Date(resetsAt.getTime() - 1)) },
+    resetsAt,
+  };
+};
+
+export const quotaStatus = async (
+  usage: UsageRepository,
+  quota: UsageQuota,
+  userId: string,
+  now = new Date(),
+): Promise<QuotaStatus> => {
+  const { range, resetsAt } = currentPeriod(quota.period, now);
+  const records = await usage.listForUser(userId, range);
+  const costUsd = records.reduce((sum, record) => sum + record.costUsd, 0);
+  const tokens = records.reduce((sum, record) => sum + record.inputTokens + record.outputTokens, 0);
+  return {
+    ...quota,
+    costUsd,
+    tokens,
+    resetsAt: resetsAt.toISOString(),
+    exceeded: (quota.maxCostUsd !== undefined && costUsd >= quota.maxCostUsd)
+      || (quota.maxTokens !== undefined && tokens >= quota.maxTokens),
+  };
+};
+
+/** The caller has used up their AI quota; reaches the client as a 429 with `resetsAt`. */
+export class QuotaExceededError extends HttpError {
+  constructor(readonly status: QuotaStatus) {
+    super(
+      429,
+      `You have used your ${status.period === 'day' ? 'daily' : 'monthly'} AI quota; it resets at ${status.resetsAt}`,
+      { resetsAt: status.resetsAt, period: status.period },
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** Throws {@link QuotaExceededError} once the user is at their quota. Without a quota nothing is checked. */
+export const enforceQuota = async (
+  usage: UsageRepository | undefined,
+  quota: UsageQuota | undefined,
+  userId: string,
+  now = new Date(),
+): Promise<void> => {
+  if (!usage || !quota) {
+    return;
+  }
+  const status = await quotaStatus(usage, quota, userId, now);
+  if (status.exceeded) {
+    throw new QuotaExceededError(status);
+  }
+};
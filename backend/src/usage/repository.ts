@@ -0,0 +1,135 @@
+import { DynamoDB } from 'aws-sdk';
+import { queryAll } from '../shared/dynamo';
+import { MemoryTable } from '../shared/memory-table';
+
+/** Usage of one model by one user in one PKB on one (UTC) day. */
+export interface UsageRecord {
+  userId: string;
+  pkbId: string;
+  /** `YYYY-MM-DD`, UTC. */
+  day: string;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from the model registry's on-demand prices. */
+  costUsd: number;
+  requests: number;
+}
+
+/** What one or more calls add to a user's record for the day. */
+export type UsageIncrement = Omit<UsageRecord, 'day'> & { at: Date };
+
+/** A day range, both ends included, as `YYYY-MM-DD`. */
+export interface DayRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Daily model usage per user, PKB and model. Records are counters, so
+ * concurrent calls add to them rather than overwrite each other.
+ */
+export interface UsageRepository {
+  add(increment: UsageIncrement): Promise<void>;
+  listForUser(userId: string, range: DayRange): Promise<UsageRecord[]>;
+  listForPkb(pkbId: string, range: DayRange): Promise<UsageRecord[]>;
+}
+
+export const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/** Sort key of a record: day first, so a day range is a key range. */
+const usageKey = ({ day, pkbId, modelId }: Pick<UsageRecord, 'day' | 'pkbId' | 'modelId'>) =>
+  `${day}#${pkbId}#${modelId}`;
+
+interface StoredUsageRecord extends UsageRecord {
+  usageKey: string;
+}
+
+const toRecord = ({ usageKey: _key, ...record }: StoredUsageRecord): UsageRecord => record;
+
+const inRange = (day: string, { from, to }: DayRange) => day >= from && day <= to;
+
+/**
+ * `projectkb-usage` is keyed by `userId` and `day#pkbId#modelId`; the
+ * `pkbId-index` GSI reads a PKB's usage across its members by day.
+ */
+export class DynamoUsageRepository implements UsageRepository {
+  constructor(
+    private readonly client: DynamoDB.DocumentClient,
+    private readonly tableName: string,
+  ) {}
+
+  async add({ at, inputTokens, outputTokens, costUsd, requests, ...key }: UsageIncrement): Promise<void> {
+    const day = toDay(at);
+    await this.client
+      .update({
+        TableName: this.tableName,
+        Key: { userId: key.userId, usageKey: usageKey({ ...key, day }) },
+        UpdateExpression: 'SET pkbId = :pkbId, modelId = :modelId, #day = :day '
+          + 'ADD inputTokens :inputTokens, outputTokens :outputTokens, costUsd :costUsd, requests :requests',
+        ExpressionAttributeNames: { '#day': 'day' },
+        ExpressionAttributeValues: {
+          ':pkbId': key.pkbId,
+          ':modelId': key.modelId,
+          ':day': day,
+          ':inputTokens': inputTokens,
+          ':outputTokens': outputTokens,
+          ':costUsd': costUsd,
+          ':requests': requests,
+        },
+      })
+      .promise();
+  }
+
+  async listForUser(userId: string, { from, to }: DayRange): Promise<UsageRecord[]> {
+    const records = await queryAll<StoredUsageRecord>(this.client, {
+      TableName: this.tableName,
+      KeyConditionExpression: 'userId = :userId AND usageKey BETWEEN :from AND :to',
+      // `~` sorts after `#`, so the last day's records are included.
+      ExpressionAttributeValues: { ':userId': userId, ':from': from, ':to': `${to}~` },
+    });
+    return records.map(toRecord);
+  }
+
+  async listForPkb(pkbId: string, { from, to }: DayRange): Promise<UsageRecord[]> {
+    const records = await queryAll<StoredUsageRecord>(this.client, {
+      TableName: this.tableName,
+      IndexName: 'pkbId-index',
+      KeyConditionExpression: 'pkbId = :pkbId AND #day BETWEEN :from AND :to',
+      ExpressionAttributeNames: { '#day': 'day' },
+      ExpressionAttributeValues: { ':pkbId': pkbId, ':from': from, ':to': to },
+    });
+    return records.map(toRecord);
+  }
+}
+
+export class InMemoryUsageRepository implements UsageRepository {
+  constructor(
+    readonly items: MemoryTable<StoredUsageRecord> = new MemoryTable<StoredUsageRecord>('userId', 'usageKey'),
+  ) {}
+
+  async add({ at, ...increment }: UsageIncrement): Promise<void> {
+    const record = { ...increment, day: toDay(at) };
+    const key = usageKey(record);
+    const existing = this.items.get(record.userId, key);
+    this.items.put({
+      ...record,
+      usageKey: key,
+      inputTokens: (existing?.inputTokens ?? 0) + record.inputTokens,
+      outputTokens: (existing?.outputTokens ?? 0) + record.outputTokens,
+      costUsd: (existing?.costUsd ?? 0) + record.costUsd,
+      requests: (existing?.requests ?? 0) + record.requests,
+    });
+  }
+
+  async listForUser(userId: string, range: DayRange): Promise<UsageRecord[]> {
+    return this.items.query(userId).filter((record) => inRange(record.day, range)).map(toRecord);
+  }
+
+  async listForPkb(pkbId: string, range: DayRange): Promise<UsageRecord[]> {
+    return this.items
+      .scan()
+      .filter((record) => record.pkbId === pkbId && inRange(record.day, range))
+      .map(toRecord);
+  }
+}
@@ -4,8 +4,13 @@ import { Box, Flex, Spinner, Center } from '@chakra-ui/react';
 import { useAuth } from './hooks/useAuth';
 import { Layout } from './components/Layout';
 import { LoginPage } from './pages/LoginPage';
+import { SignupPage } from './pages/SignupPage';
+import { ConfirmSignUpPage } from './pages/ConfirmSignUpPage';
+import { AuthCallbackPage } from './pages/AuthCallbackPage';
 import { DashboardPage } from './pages/DashboardPage';
 import { PkbPage } from './pages/PkbPage';
+import { SettingsPage } from './pages/SettingsPage';
+import { UsagePage } from './pages/UsagePage';
 import { VersionTooltip } from './components/VersionTooltip';
 
 function App() {
@@ -32,6 +37,40 @@ function App() {
             )
           }
         />
+        <Route
+          path="/signup"
+          element={
+            isAuthenticated ? (
+              <Navigate to="/dashboard" replace />
+            ) : (
+              <SignupPage />
+            )
+          }
+        />
+        <Route
+          path="/confirm"
+          element={
+            isAuthenticated ? (
+              <Navigate to="/dashboard" replace />
+            ) : (
+              <ConfirmSignUpPage />
+            )
+          }
+        />
+        <Route
+          path="/auth/callback"
+          element={
+            isAuthenticated ? (
+              <Navigate to="/dashboard" replace />
+            ) : (
+              <AuthCallbackPage />
+            )
+          }
+        />
+        <Route
+          path="/auth/logout"
+          element={<Navigate to="/login" replace />}
+        />
         <Route
           path="/dashboard"
           element={
@@ -56,6 +95,30 @@ function App() {
             )
           }
         />
+        <Route
+          path="/settings"
+          element={
+            isAuthenticated ? (
+              <Layout>
+                <SettingsPage />
+              </Layout>
+            ) : (
+              <Navigate to="/login" replace />
+            )
+          }
+        />
+        <Route
+          path="/usage"
+          element={
+            isAuthenticated ? (
+              <Layout>
+                <UsagePage />
+              </Layout>
+            ) : (
+              <Navigate to="/login" replace />
+            )
+          }
+        />
         <Route
           path="/"
           element={
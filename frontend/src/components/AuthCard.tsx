@@ -0,0 +1,34 @@
+import React from 'react';
+import { Box, Heading, Text, VStack } from '@chakra-ui/react';
+
+interface AuthCardProps {
+  title: string;
+  subtitle?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/** Centered card shared by the sign-in, sign-up and confirmation screens. */
+export const AuthCard: React.FC<AuthCardProps> = ({ title, subtitle, children }) => (
+  <Box minH="100vh" bg="gray.50" display="flex" alignItems="center" justifyContent="center">
+    <Box
+      bg="white"
+      p={8}
+      borderRadius="xl"
+      boxShadow="lg"
+      w="full"
+      maxW="md"
+    >
+      <VStack spacing={6}>
+        <Heading size="lg" color="gray.800">
+          {title}
+        </Heading>
+        {subtitle && (
+          <Text color="gray.600" textAlign="center">
+            {subtitle}
+          </Text>
+        )}
+        {children}
+      </VStack>
+    </Box>
+  </Box>
+);
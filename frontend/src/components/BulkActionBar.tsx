@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  HStack,
+  Input,
+  Select,
+  Text,
+} from '@chakra-ui/react';
+import { BulkAction, Folder } from '../services/content';
+import { folderPath } from '../utils/folders';
+
+interface BulkActionBarProps {
+  count: number;
+  folders: Folder[];
+  isWorking: boolean;
+  onApply: (change: BulkAction) => void;
+  onClear: () => void;
+}
+
+/** The top level in the move target list; folder ids are uuids, so this never clashes. */
+const TOP_LEVEL = 'top-level';
+
+/** Moves or tags the items selected in the content table. */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, folders, isWorking, onApply, onClear }) => {
+  const [target, setTarget] = useState('');
+  const [tags, setTags] = useState('');
+
+  const parsedTags = tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+  const folderOptions = folders
+    .map((folder) => ({ folderId: folder.folderId, path: folderPath(folders, folder.folderId) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return (
+    <HStack
+      data-testid="bulk-action-bar"
+      bg="brand.50"
+      px={4}
+      py={2}
+      borderRadius="xl"
+      spacing={3}
+      flexWrap="wrap"
+    >
+      <Text fontSize="sm" fontWeight="medium" color="gray.700">
+        {count} selected
+      </Text>
+      <HStack spacing={1}>
+        <Select
+          aria-label="Move to folder"
+          size="sm"
+          bg="white"
+          w="200px"
+          placeholder="Move to…"
+          value={target}
+          onChange={(event) => setTarget(event.target.value)}
+        >
+          <option value={TOP_LEVEL}>No folder</option>
+          {folderOptions.map((option) => (
+            <option key={option.folderId} value={option.folderId}>{option.path}</option>
+          ))}
+        </Select>
+        <Button
+          data-testid="bulk-move-button"
+          size="sm"
+          isDisabled={!target}
+          isLoading={isWorking}
+          onClick={() => onApply({ action: 'move', folderId: target === TOP_LEVEL ? null : target })}
+        >
+          Move
+        </Button>
+      </HStack>
+      <HStack spacing={1}>
+        <Input
+          data-testid="bulk-tags-input"
+          aria-label="Tags"
+          size="sm"
+          bg="white"
+          w="200px"
+          placeholder="Tags, comma-separated"
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+        />
+        <Button
+          data-testid="bulk-tag-button"
+          size="sm"
+          isDisabled={parsedTags.length === 0}
+          isLoading={isWorking}
+          onClick={() => onApply({ action: 'tag', tags: parsedTags })}
+        >
+          Add tags
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          isDisabled={parsedTags.length === 0}
+          isLoading={isWorking}
+          onClick={() => onApply({ action: 'untag', tags: parsedTags })}
+        >
+          Remove tags
+        </Button>
+      </HStack>
+      <Button size="sm" variant="ghost" onClick={onClear}>
+        Clear selection
+      </Button>
+    </HStack>
+  );
+};
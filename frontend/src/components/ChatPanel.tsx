@@ -0,0 +1,308 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  Heading,
+  Select,
+  Text,
+  Textarea,
+  VStack,
+  Badge,
+  Alert,
+  AlertIcon,
+} from '@chakra-ui/react';
+import { AiAnswer, AiScope, Citation, streamAiAnswer } from '../services/aiStream';
+import { ConversationMessage, createConversation, getConversation } from '../services/conversations';
+import { AiModel, listAiModels, modelName } from '../services/models';
+import { formatTimestamp } from '../utils/time';
+
+interface ChatPanelProps {
+  pkbId: string;
+  /** Saved thread to show and continue; a new one is started on the first question otherwise. */
+  conversationId?: string;
+  onConversationStarted?: (conversationId: string) => void;
+  /** Called after each completed answer, e.g. to refresh thread titles. */
+  onAnswered?: () => void;
+  /** Opens a cited source; recordings should seek to `citation.startTime`. */
+  onCitationSelect?: (citation: Citation) => void;
+  /** Limits answers to part of the PKB; `scopeLabel` describes it to the user. */
+  scope?: AiScope;
+  scopeLabel?: string;
+}
+
+interface ChatTurn {
+  question: string;
+  answer: string;
+  citations: Citation[];
+  /** The model that answered, and the busy one it stood in for. */
+  modelId?: string;
+  fallbackFrom?: string;
+  status: 'streaming' | 'done' | 'cancelled' | 'error';
+  error?: string;
+}
+
+const toTurns = (messages: ConversationMessage[]): ChatTurn[] =>
+  messages.reduce<ChatTurn[]>((turns, message) => {
+    if (message.role === 'user') {
+      return [...turns, { question: message.content, answer: '', citations: [], status: 'done' }];
+    }
+    const last = turns[turns.length - 1];
+    return last
+      ? [
+        ...turns.slice(0, -1),
+        { ...last, answer: message.content, citations: message.citations ?? [], modelId: message.modelId },
+      ]
+      : turns;
+  }, []);
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  pkbId,
+  conversationId,
+  onConversationStarted,
+  onAnswered,
+  onCitationSelect,
+  scope,
+  scopeLabel,
+}) => {
+  const [query, setQuery] = useState('');
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [models, setModels] = useState<AiModel[]>([]);
+  // Empty for the PKB's own model.
+  const [modelId, setModelId] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  // The thread whose turns are on screen; one started here needs no reload.
+  const shownConversationRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (conversationId === shownConversationRef.current) {
+      return;
+    }
+    abortRef.current?.abort();
+    shownConversationRef.current = conversationId;
+    setTurns([]);
+    setLoadError(null);
+    if (!conversationId) {
+      return;
+    }
+
+    let ignore = false;
+    getConversation(pkbId, conversationId)
+      .then(({ messages }) => {
+        if (!ignore) {
+          setTurns(toTurns(messages));
+        }
+      })
+      .catch((error: Error) => {
+        if (!ignore) {
+          setLoadError(error.message);
+        }
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [pkbId, conversationId]);
+
+  useEffect(() => {
+    // The picker is optional; questions still go to the PKB's model without it.
+    listAiModels().then(({ models: available }) => setModels(available)).catch(() => undefined);
+  }, []);
+
+  const isStreaming = turns.some((turn) => turn.status === 'streaming');
+
+  const updateLastTurn = (update: (turn: ChatTurn) => ChatTurn) => {
+    setTurns((current) => [...current.slice(0, -1), update(current[current.length - 1])]);
+  };
+
+  const handleSubmit = async () => {
+    const question = query.trim();
+    if (!question || isStreaming) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setQuery('');
+    setTurns((current) => [...current, { question, answer: '', citations: [], status: 'streaming' }]);
+
+    try {
+      let threadId = shownConversationRef.current;
+      if (!threadId) {
+        threadId = (await createConversation(pkbId)).conversationId;
+        shownConversationRef.current = threadId;
+        onConversationStarted?.(threadId);
+      }
+
+      const answer: AiAnswer = await streamAiAnswer(
+        { pkbId, query: question, conversationId: threadId, scope, modelId: modelId || undefined },
+        (text) => updateLastTurn((turn) => ({ ...turn, answer: turn.answer + text })),
+        controller.signal,
+      );
+      updateLastTurn((turn) => ({
+        ...turn,
+        answer: answer.response,
+        citations: answer.citations,
+        modelId: answer.modelId,
+        fallbackFrom: answer.fallbackFrom,
+        status: 'done',
+      }));
+      onAnswered?.();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateLastTurn((turn) => ({ ...turn, status: 'cancelled' }));
+      } else {
+        updateLastTurn((turn) => ({ ...turn, status: 'error', error: (error as Error).message }));
+      }
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <Box
+      bg="white"
+      p={6}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor="gray.200"
+    >
+      <VStack spacing={4} align="stretch">
+        <HStack justify="space-between">
+          <Heading size="md" color="gray.800">
+            Ask AI
+          </Heading>
+          {scopeLabel && (
+            <Badge data-testid="ai-scope" colorScheme="brand" variant="subtle">
+              Only {scopeLabel}
+            </Badge>
+          )}
+        </HStack>
+
+        {loadError && (
+          <Alert status="error" borderRadius="md">
+            <AlertIcon />
+            {loadError}
+          </Alert>
+        )}
+
+        {turns.map((turn, index) => (
+          <Box key={index}>
+            <Text fontWeight="medium" color="gray.700" mb={2}>
+              {turn.question}
+            </Text>
+            <Box bg="gray.50" p={4} borderRadius="lg">
+              <Text fontSize="sm" color="gray.500" mb={1}>
+                AI Response
+              </Text>
+              <Text data-testid="ai-response" whiteSpace="pre-wrap" aria-live="polite">
+                {turn.answer}
+                {turn.status === 'streaming' && '▍'}
+              </Text>
+              {turn.modelId && turn.status === 'done' && (
+                <Text data-testid="ai-model" fontSize="xs" color="gray.500" mt={2}>
+                  Answered by {modelName(models, turn.modelId)}
+                  {turn.fallbackFrom && ` because ${modelName(models, turn.fallbackFrom)} was busy`}
+                </Text>
+              )}
+              {turn.status === 'cancelled' && (
+                <Text fontSize="sm" color="gray.500" mt={2}>
+                  Cancelled
+                </Text>
+              )}
+              {turn.status === 'error' && (
+                <Alert status="error" mt={2} borderRadius="md">
+                  <AlertIcon />
+                  {turn.error}
+                </Alert>
+              )}
+              {turn.citations.length > 0 && (
+                <VStack align="stretch" spacing={1} mt={3}>
+                  {turn.citations.map((citation) => (
+                    <HStack
+                      key={citation.marker}
+                      spacing={2}
+                      data-testid="ai-citation"
+                      cursor={onCitationSelect ? 'pointer' : undefined}
+                      onClick={() => onCitationSelect?.(citation)}
+                    >
+                      <Badge colorScheme="blue">{citation.marker}</Badge>
+                      <Text fontSize="sm" color="gray.700">
+                        {citation.fileName}
+                      </Text>
+                      {citation.startTime !== undefined ? (
+                        <Badge data-testid="ai-citation-timestamp" colorScheme="purple" variant="subtle">
+                          at {formatTimestamp(citation.startTime)}
+                        </Badge>
+                      ) : (
+                        <Text fontSize="xs" color="gray.500">
+                          chars {citation.start}–{citation.end}
+                        </Text>
+                      )}
+                    </HStack>
+                  ))}
+                </VStack>
+              )}
+            </Box>
+          </Box>
+        ))}
+
+        <Textarea
+          data-testid="ai-query-input"
+          aria-label="Ask a question about this knowledge base"
+          placeholder="Ask a question about this knowledge base"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          resize="vertical"
+        />
+        <HStack justify="flex-end">
+          {models.length > 0 && (
+            <Select
+              data-testid="ai-model-select"
+              aria-label="AI model"
+              size="sm"
+              w="220px"
+              mr="auto"
+              value={modelId}
+              onChange={(event) => setModelId(event.target.value)}
+            >
+              <option value="">PKB default model</option>
+              {models.map((model) => (
+                <option key={model.modelId} value={model.modelId}>{model.name}</option>
+              ))}
+            </Select>
+          )}
+          {isStreaming && (
+            <Button data-testid="cancel-query-button" variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            data-testid="submit-query-button"
+            bg="brand.500"
+            color="white"
+            _hover={{ bg: 'brand.600' }}
+            onClick={handleSubmit}
+            isLoading={isStreaming}
+            isDisabled={!query.trim()}
+          >
+            Ask
+          </Button>
+        </HStack>
+      </VStack>
+    </Box>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import {
+  Button,
+  HStack,
+  Input,
+  Select,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { SettingsIcon } from '@chakra-ui/icons';
+import { MetadataField } from '../services/pkbs';
+import { ContentFilter } from '../utils/folders';
+
+interface ContentFilterBarProps {
+  filter: ContentFilter;
+  /** Tags in use in the PKB. */
+  tags: string[];
+  fields: MetadataField[];
+  canEdit: boolean;
+  onChange: (filter: ContentFilter) => void;
+  onEditFields: () => void;
+}
+
+export const ContentFilterBar: React.FC<ContentFilterBarProps> = ({
+  filter,
+  tags,
+  fields,
+  canEdit,
+  onChange,
+  onEditFields,
+}) => {
+  const setMetadata = (key: string, value: string) => {
+    const { [key]: _previous, ...rest } = filter.metadata;
+    onChange({ ...filter, metadata: value ? { ...rest, [key]: value } : rest });
+  };
+
+  return (
+    <HStack data-testid="content-filter-bar" justify="space-between" align="flex-start">
+      <Wrap spacing={2}>
+        <WrapItem>
+          <Select
+            data-testid="tag-filter"
+            aria-label="Filter by tag"
+            size="sm"
+            bg="white"
+            w="180px"
+            placeholder="Any tag"
+            value={filter.tag ?? ''}
+            onChange={(event) => onChange({ ...filter, tag: event.target.value || undefined })}
+          >
+            {tags.map((tag) => <option key={tag} value={tag}>{tag}</option>)}
+          </Select>
+        </WrapItem>
+        {fields.map((field) => (
+          <WrapItem key={field.key}>
+            {field.type === 'select' ? (
+              <Select
+                aria-label={`Filter by ${field.label}`}
+                size="sm"
+                bg="white"
+                w="180px"
+                placeholder={`Any ${field.label.toLowerCase()}`}
+                value={filter.metadata[field.key] ?? ''}
+                onChange={(event) => setMetadata(field.key, event.target.value)}
+              >
+                {(field.options ?? []).map((option) => <option key={option} value={option}>{option}</option>)}
+              </Select>
+            ) : (
+              <Input
+                aria-label={`Filter by ${field.label}`}
+                size="sm"
+                bg="white"
+                w="180px"
+                type={field.type}
+                placeholder={field.label}
+                value={filter.metadata[field.key] ?? ''}
+                onChange={(event) => setMetadata(field.key, event.target.value)}
+              />
+            )}
+          </WrapItem>
+        ))}
+        {(filter.tag || Object.keys(filter.metadata).length > 0) && (
+          <WrapItem>
+            <Button
+              data-testid="clear-filters-button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange({ folderId: filter.folderId, metadata: {} })}
+            >
+              Clear filters
+            </Button>
+          </WrapItem>
+        )}
+      </Wrap>
+      {canEdit && (
+        <Button
+          data-testid="metadata-fields-button"
+          size="sm"
+          variant="outline"
+          leftIcon={<SettingsIcon />}
+          onClick={onEditFields}
+          flexShrink={0}
+        >
+          Metadata fields
+        </Button>
+      )}
+    </HStack>
+  );
+};
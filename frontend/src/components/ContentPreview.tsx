@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Center,
+  Image,
+  Link,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Spinner,
+  Text,
+} from '@chakra-ui/react';
+import { ExternalLinkIcon } from '@chakra-ui/icons';
+import { ContentItem, getDownloadUrl } from '../services/content';
+import { previewKind } from '../utils/files';
+
+/** Larger text files are cut off; the full file is a download away. */
+const MAX_TEXT_PREVIEW_CHARS = 100_000;
+
+interface ContentPreviewProps {
+  pkbId: string;
+  /** The item to show; the modal is closed when undefined. */
+  item?: ContentItem;
+  /** Where recordings start playing, in seconds, e.g. from a citation. */
+  startTime?: number;
+  onClose: () => void;
+}
+
+interface LoadedPreview {
+  url: string;
+  text?: string;
+}
+
+export const ContentPreview: React.FC<ContentPreviewProps> = ({ pkbId, item, startTime, onClose }) => {
+  const [preview, setPreview] = useState<LoadedPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const kind = item ? previewKind(item.fileType) : 'none';
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    if (!item) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    (async () => {
+      const { url } = await getDownloadUrl(pkbId, item.contentId);
+      let text: string | undefined;
+      if (previewKind(item.fileType) === 'text') {
+        const response = await fetch(url);
+        text = (await response.text()).slice(0, MAX_TEXT_PREVIEW_CHARS);
+      }
+      if (!cancelled) {
+        setPreview({ url, text });
+      }
+    })().catch((loadError: Error) => {
+      if (!cancelled) {
+        setError(loadError.message);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pkbId, item]);
+
+  const seekToStart = () => {
+    if (mediaRef.current && startTime !== undefined) {
+      mediaRef.current.currentTime = startTime;
+    }
+  };
+
+  const renderBody = () => {
+    if (error) {
+      return (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          {error}
+        </Alert>
+      );
+    }
+    if (!preview || !item) {
+      return (
+        <Center py={12}>
+          <Spinner color="brand.500" />
+        </Center>
+      );
+    }
+    switch (kind) {
+      case 'image':
+        return (
+          <>
+            <Image src={preview.url} alt={item.fileName} maxH="70vh" mx="auto" />
+            {item.caption && (
+              <Text mt={3} fontSize="sm" color="gray.600">
+                {item.caption}
+              </Text>
+            )}
+          </>
+        );
+      case 'pdf':
+        return <Box as="iframe" src={preview.url} title={item.fileName} w="full" h="70vh" border={0} />;
+      case 'text':
+        // Shown as plain text, HTML included, so uploaded markup never runs.
+        return (
+          <Box
+            as="pre"
+            maxH="70vh"
+            overflow="auto"
+            p={4}
+            bg="gray.50"
+            borderRadius="md"
+            fontSize="sm"
+            whiteSpace="pre-wrap"
+          >
+            {preview.text}
+          </Box>
+        );
+      case 'audio':
+        return (
+          <audio
+            ref={(element) => { mediaRef.current = element; }}
+            src={preview.url}
+            controls
+            autoPlay={startTime !== undefined}
+            onLoadedMetadata={seekToStart}
+            style={{ width: '100%' }}
+          />
+        );
+      case 'video':
+        return (
+          <video
+            ref={(element) => { mediaRef.current = element; }}
+            src={preview.url}
+            controls
+            autoPlay={startTime !== undefined}
+            onLoadedMetadata={seekToStart}
+            style={{ width: '100%', maxHeight: '70vh' }}
+          />
+        );
+      default:
+        return <Text color="gray.600">No preview is available for this file type.</Text>;
+    }
+  };
+
+  return (
+    <Modal isOpen={item !== undefined} onClose={onClose} size="4xl">
+      <ModalOverlay />
+      <ModalContent data-testid="content-preview">
+        <ModalHeader pr={12} noOfLines={1}>{item?.fileName}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>{renderBody()}</ModalBody>
+        <ModalFooter>
+          {preview && (
+            <Link href={preview.url} isExternal mr="auto" color="brand.500" fontSize="sm">
+              Open original <ExternalLinkIcon mx="2px" />
+            </Link>
+          )}
+          <Button onClick={onClose}>Close</Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  VStack,
+} from '@chakra-ui/react';
+import { ContentItem, ContentProperties, Folder } from '../services/content';
+import { MetadataField } from '../services/pkbs';
+import { folderPath } from '../utils/folders';
+
+interface ContentPropertiesModalProps {
+  item?: ContentItem;
+  folders: Folder[];
+  fields: MetadataField[];
+  onClose: () => void;
+  onSubmit: (item: ContentItem, properties: ContentProperties) => Promise<void>;
+}
+
+/** Splits comma-separated tags; the content Lambda lower-cases and de-duplicates them. */
+const parseTags = (value: string) => value.split(',').map((tag) => tag.trim()).filter(Boolean);
+
+/** Files an item in a folder and edits its tags and custom metadata. */
+export const ContentPropertiesModal: React.FC<ContentPropertiesModalProps> = ({
+  item,
+  folders,
+  fields,
+  onClose,
+  onSubmit,
+}) => {
+  const [folderId, setFolderId] = useState('');
+  const [tags, setTags] = useState('');
+  const [metadata, setMetadata] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (item) {
+      setFolderId(item.folderId ?? '');
+      setTags((item.tags ?? []).join(', '));
+      setMetadata(item.metadata ?? {});
+    }
+  }, [item]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!item) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      // Values of fields the PKB no longer defines would be rejected, so they are dropped.
+      const values = Object.fromEntries(fields.map((field) => [field.key, metadata[field.key] ?? '']));
+      await onSubmit(item, { folderId: folderId || null, tags: parseTags(tags), metadata: values });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const folderOptions = folders
+    .map((folder) => ({ folderId: folder.folderId, path: folderPath(folders, folder.folderId) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return (
+    <Modal isOpen={item !== undefined} onClose={onClose}>
+      <ModalOverlay />
+      <ModalContent as="form" onSubmit={handleSubmit}>
+        <ModalHeader>Properties of {item?.fileName}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4}>
+            <FormControl>
+              <FormLabel fontSize="sm" color="gray.700">Folder</FormLabel>
+              <Select
+                data-testid="properties-folder-select"
+                value={folderId}
+                onChange={(event) => setFolderId(event.target.value)}
+              >
+                <option value="">No folder</option>
+                {folderOptions.map((option) => (
+                  <option key={option.folderId} value={option.folderId}>{option.path}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl>
+              <FormLabel fontSize="sm" color="gray.700">Tags</FormLabel>
+              <Input
+                data-testid="properties-tags-input"
+                value={tags}
+                placeholder="release, ops"
+                onChange={(event) => setTags(event.target.value)}
+              />
+              <FormHelperText>Separate tags with commas.</FormHelperText>
+            </FormControl>
+            {fields.map((field) => (
+              <FormControl key={field.key}>
+                <FormLabel fontSize="sm" color="gray.700">{field.label}</FormLabel>
+                {field.type === 'select' ? (
+                  <Select
+                    placeholder="Not set"
+                    value={metadata[field.key] ?? ''}
+                    onChange={(event) => setMetadata((current) => ({ ...current, [field.key]: event.target.value }))}
+                  >
+                    {(field.options ?? []).map((option) => <option key={option} value={option}>{option}</option>)}
+                  </Select>
+                ) : (
+                  <Input
+                    type={field.type}
+                    value={metadata[field.key] ?? ''}
+                    onChange={(event) => setMetadata((current) => ({ ...current, [field.key]: event.target.value }))}
+                  />
+                )}
+              </FormControl>
+            ))}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            data-testid="save-properties-button"
+            type="submit"
+            bg="brand.500"
+            color="white"
+            _hover={{ bg: 'brand.600' }}
+            isLoading={isSubmitting}
+          >
+            Save
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,232 @@
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Checkbox,
+  HStack,
+  IconButton,
+  Link,
+  Table,
+  Tag,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tooltip,
+  Tr,
+  Wrap,
+} from '@chakra-ui/react';
+import { DeleteIcon, EditIcon, InfoOutlineIcon, TimeIcon, ViewIcon } from '@chakra-ui/icons';
+import { ContentItem, hasVersionHistory } from '../services/content';
+import { MetadataField } from '../services/pkbs';
+import { formatBytes } from '../utils/files';
+import { formatTimestamp } from '../utils/time';
+
+interface ContentTableProps {
+  items: ContentItem[];
+  canEdit: boolean;
+  /** The PKB's metadata fields, whose values are shown under each name. */
+  fields: MetadataField[];
+  /** Shown when there are no items, e.g. because of a filter. */
+  emptyMessage?: string;
+  /** Items picked for bulk actions; editors only. */
+  selectedIds: Set<string>;
+  onSelectionChange: (selectedIds: Set<string>) => void;
+  onPreview: (item: ContentItem) => void;
+  onHistory: (item: ContentItem) => void;
+  onProperties: (item: ContentItem) => void;
+  onDelete: (item: ContentItem) => void;
+}
+
+const STATUS_BADGES: Record<string, { label: string; colorScheme: string }> = {
+  uploading: { label: 'Uploading', colorScheme: 'gray' },
+  pending: { label: 'Queued', colorScheme: 'gray' },
+  processing: { label: 'Processing', colorScheme: 'yellow' },
+  transcribing: { label: 'Transcribing', colorScheme: 'yellow' },
+  ready: { label: 'Ready', colorScheme: 'green' },
+  failed: { label: 'Failed', colorScheme: 'red' },
+};
+
+const StatusBadge: React.FC<{ item: ContentItem }> = ({ item }) => {
+  const badge = STATUS_BADGES[item.status === 'uploading' ? 'uploading' : item.ingestionStatus];
+  return (
+    <Tooltip label={item.ingestionError} isDisabled={!item.ingestionError}>
+      <Badge data-testid="content-status" colorScheme={badge.colorScheme}>
+        {badge.label}
+      </Badge>
+    </Tooltip>
+  );
+};
+
+const describeType = (item: ContentItem) => {
+  if (item.kind === 'note') {
+    return 'note';
+  }
+  const subtype = item.fileType.split('/').pop() ?? item.fileType;
+  // Word's MIME subtype is unreadable.
+  return subtype.includes('wordprocessingml') ? 'docx' : subtype;
+};
+
+export const ContentTable: React.FC<ContentTableProps> = ({
+  items,
+  canEdit,
+  fields,
+  emptyMessage = 'No content yet',
+  selectedIds,
+  onSelectionChange,
+  onPreview,
+  onHistory,
+  onProperties,
+  onDelete,
+}) => {
+  if (items.length === 0) {
+    return (
+      <Box bg="white" p={6} borderRadius="xl" border="1px solid" borderColor="gray.200" textAlign="center">
+        <Text color="gray.500">{emptyMessage}</Text>
+      </Box>
+    );
+  }
+
+  const selectedCount = items.filter((item) => selectedIds.has(item.contentId)).length;
+  const toggle = (contentId: string) => {
+    const next = new Set(selectedIds);
+    if (!next.delete(contentId)) {
+      next.add(contentId);
+    }
+    onSelectionChange(next);
+  };
+
+  return (
+    <TableContainer bg="white" borderRadius="xl" border="1px solid" borderColor="gray.200">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            {canEdit && (
+              <Th w="1%">
+                <Checkbox
+                  aria-label="Select all"
+                  isChecked={selectedCount === items.length}
+                  isIndeterminate={selectedCount > 0 && selectedCount < items.length}
+                  onChange={() => onSelectionChange(new Set(
+                    selectedCount === items.length ? [] : items.map((item) => item.contentId),
+                  ))}
+                />
+              </Th>
+            )}
+            <Th>Name</Th>
+            <Th>Type</Th>
+            <Th isNumeric>Size</Th>
+            <Th>Status</Th>
+            <Th>Updated</Th>
+            <Th />
+          </Tr>
+        </Thead>
+        <Tbody>
+          {items.map((item) => (
+            <Tr key={item.contentId} data-testid="content-item">
+              {canEdit && (
+                <Td>
+                  <Checkbox
+                    data-testid="select-content-checkbox"
+                    aria-label={`Select ${item.fileName}`}
+                    isChecked={selectedIds.has(item.contentId)}
+                    onChange={() => toggle(item.contentId)}
+                  />
+                </Td>
+              )}
+              <Td maxW="xs">
+                <Link
+                  as="button"
+                  onClick={() => onPreview(item)}
+                  disabled={item.status !== 'uploaded'}
+                  color="gray.800"
+                  fontWeight="medium"
+                  noOfLines={1}
+                >
+                  {item.fileName}
+                </Link>
+                {item.summary && (
+                  <Tooltip label={item.summary} placement="bottom-start" openDelay={300}>
+                    <Text fontSize="xs" color="gray.500" noOfLines={1}>{item.summary}</Text>
+                  </Tooltip>
+                )}
+                {item.tags && item.tags.length > 0 && (
+                  <Wrap spacing={1} mt={1}>
+                    {item.tags.map((tag) => <Tag key={tag} size="sm">{tag}</Tag>)}
+                  </Wrap>
+                )}
+                {fields.some((field) => item.metadata?.[field.key]) && (
+                  <Text fontSize="xs" color="gray.600" mt={1} noOfLines={1}>
+                    {fields
+                      .filter((field) => item.metadata?.[field.key])
+                      .map((field) => `${field.label}: ${item.metadata?.[field.key]}`)
+                      .join(' · ')}
+                  </Text>
+                )}
+              </Td>
+              <Td>
+                <Text fontSize="xs" color="gray.600">
+                  {describeType(item)}
+                  {item.durationSeconds !== undefined && ` · ${formatTimestamp(item.durationSeconds)}`}
+                </Text>
+              </Td>
+              <Td isNumeric>{item.size !== undefined ? formatBytes(item.size) : '—'}</Td>
+              <Td><StatusBadge item={item} /></Td>
+              <Td>
+                <Text fontSize="xs" color="gray.600">
+                  {new Date(item.updatedAt).toLocaleString()}
+                </Text>
+              </Td>
+              <Td>
+                <HStack spacing={1} justify="flex-end">
+                  <IconButton
+                    data-testid="preview-content-button"
+                    aria-label={`${item.kind === 'note' && canEdit ? 'Edit' : 'Preview'} ${item.fileName}`}
+                    icon={item.kind === 'note' && canEdit ? <EditIcon /> : <ViewIcon />}
+                    size="sm"
+                    variant="ghost"
+                    isDisabled={item.status !== 'uploaded'}
+                    onClick={() => onPreview(item)}
+                  />
+                  {hasVersionHistory(item) && (
+                    <IconButton
+                      data-testid="history-content-button"
+                      aria-label={`Version history of ${item.fileName}`}
+                      icon={<TimeIcon />}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onHistory(item)}
+                    />
+                  )}
+                  {canEdit && (
+                    <IconButton
+                      data-testid="content-properties-button"
+                      aria-label={`Properties of ${item.fileName}`}
+                      icon={<InfoOutlineIcon />}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onProperties(item)}
+                    />
+                  )}
+                  {canEdit && (
+                    <IconButton
+                      data-testid="delete-content-button"
+                      aria-label={`Delete ${item.fileName}`}
+                      icon={<DeleteIcon />}
+                      size="sm"
+                      variant="ghost"
+                      colorScheme="red"
+                      onClick={() => onDelete(item)}
+                    />
+                  )}
+                </HStack>
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { AddIcon, CheckIcon, DeleteIcon, EditIcon } from '@chakra-ui/icons';
+import { Conversation } from '../services/conversations';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId?: string;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.conversationId);
+    setTitle(conversation.title);
+  };
+
+  const saveTitle = () => {
+    if (editingId && title.trim()) {
+      onRename(editingId, title.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <Box
+      bg="white"
+      p={4}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor="gray.200"
+      minW="260px"
+      data-testid="conversation-sidebar"
+    >
+      <VStack spacing={2} align="stretch">
+        <Button
+          data-testid="new-conversation-button"
+          leftIcon={<AddIcon />}
+          size="sm"
+          bg="brand.500"
+          color="white"
+          _hover={{ bg: 'brand.600' }}
+          onClick={onNew}
+        >
+          New conversation
+        </Button>
+
+        {conversations.length === 0 && (
+          <Text fontSize="sm" color="gray.500" textAlign="center" py={2}>
+            No conversations yet
+          </Text>
+        )}
+
+        {conversations.map((conversation) => {
+          const isActive = conversation.conversationId === activeId;
+          return (
+            <HStack
+              key={conversation.conversationId}
+              data-testid="conversation-item"
+              px={2}
+              py={1}
+              borderRadius="md"
+              bg={isActive ? 'brand.50' : 'transparent'}
+              _hover={{ bg: isActive ? 'brand.50' : 'gray.50' }}
+              spacing={1}
+            >
+              {editingId === conversation.conversationId ? (
+                <>
+                  <Input
+                    data-testid="conversation-title-input"
+                    size="sm"
+                    value={title}
+                    autoFocus
+                    onChange={(event) => setTitle(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') {
+                        saveTitle();
+                      } else if (event.key === 'Escape') {
+                        setEditingId(null);
+                      }
+                    }}
+                  />
+                  <IconButton
+                    aria-label="Save title"
+                    icon={<CheckIcon />}
+                    size="xs"
+                    variant="ghost"
+                    onClick={saveTitle}
+                  />
+                </>
+              ) : (
+                <>
+                  <Text
+                    flex={1}
+                    fontSize="sm"
+                    fontWeight={isActive ? 'semibold' : 'normal'}
+                    color="gray.700"
+                    noOfLines={1}
+                    cursor="pointer"
+                    onClick={() => onSelect(conversation.conversationId)}
+                  >
+                    {conversation.title}
+                  </Text>
+                  <IconButton
+                    data-testid="rename-conversation-button"
+                    aria-label="Rename conversation"
+                    icon={<EditIcon />}
+                    size="xs"
+                    variant="ghost"
+                    onClick={() => startEditing(conversation)}
+                  />
+                  <IconButton
+                    data-testid="delete-conversation-button"
+                    aria-label="Delete conversation"
+                    icon={<DeleteIcon />}
+                    size="xs"
+                    variant="ghost"
+                    colorScheme="red"
+                    onClick={() => onDelete(conversation.conversationId)}
+                  />
+                </>
+              )}
+            </HStack>
+          );
+        })}
+      </VStack>
+    </Box>
+  );
+};
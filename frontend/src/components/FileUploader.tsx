@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Image,
+  Input,
+  Progress,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { AttachmentIcon, CloseIcon, RepeatIcon } from '@chakra-ui/icons';
+import { requestUpload, uploadFile } from '../services/content';
+import {
+  MULTIPART_THRESHOLD,
+  SavedUpload,
+  cancelPartsUpload,
+  discardSavedUpload,
+  listSavedUploads,
+  uploadInParts,
+} from '../services/resumableUpload';
+import { ACCEPTED_FILE_TYPES, formatBytes, resolveFileType } from '../utils/files';
+
+interface QueuedUpload {
+  id: number;
+  file: File;
+  fileType?: string;
+  /** Local object URL, for images. */
+  previewUrl?: string;
+  /** Set once the API has reserved a row, so a retry reuses it. */
+  contentId?: string;
+  progress: number;
+  status: 'uploading' | 'done' | 'error';
+  error?: string;
+  /** Large files go up in parts and can be resumed. */
+  multipart: boolean;
+  resumed?: boolean;
+}
+
+interface FileUploaderProps {
+  pkbId: string;
+  /** Called after each file reaches S3. */
+  onUploaded: () => void;
+}
+
+/** Finished uploads leave the queue after this long; the content table lists them from then on. */
+const FINISHED_LINGER_MS = 4000;
+
+let nextUploadId = 0;
+
+export const FileUploader: React.FC<FileUploaderProps> = ({ pkbId, onUploaded }) => {
+  const toast = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [queue, setQueue] = useState<QueuedUpload[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [interrupted, setInterrupted] = useState<(SavedUpload & { key: string })[]>([]);
+  const controllers = useRef(new Map<number, AbortController>());
+
+  const refreshInterrupted = useCallback(() => setInterrupted(listSavedUploads(pkbId)), [pkbId]);
+  useEffect(refreshInterrupted, [refreshInterrupted]);
+  useEffect(() => () => controllers.current.forEach((controller) => controller.abort()), []);
+
+  // Object URLs live until revoked, so release them with the component.
+  const previewUrls = useRef(new Set<string>());
+  useEffect(() => () => previewUrls.current.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  const patch = (id: number, changes: Partial<QueuedUpload>) => {
+    setQueue((current) => current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+  };
+
+  const start = async (upload: QueuedUpload) => {
+    patch(upload.id, { status: 'uploading', progress: 0, error: undefined });
+    if (!upload.fileType) {
+      patch(upload.id, { status: 'error', error: 'This file type is not supported' });
+      return;
+    }
+
+    const controller = new AbortController();
+    controllers.current.set(upload.id, controller);
+    try {
+      if (upload.multipart) {
+        await uploadInParts(pkbId, upload.file, upload.fileType, {
+          signal: controller.signal,
+          onStarted: (contentId, resumed) => {
+            patch(upload.id, { contentId, resumed });
+            refreshInterrupted();
+          },
+          onProgress: (loaded) => patch(upload.id, { progress: loaded / upload.file.size }),
+        });
+      } else {
+        const ticket = await requestUpload(pkbId, upload.file, upload.fileType, upload.contentId);
+        patch(upload.id, { contentId: ticket.contentId });
+        await uploadFile(ticket, upload.file, (progress) => patch(upload.id, { progress }));
+      }
+      patch(upload.id, { status: 'done', progress: 1 });
+      toast({ title: 'File uploaded successfully', description: upload.file.name, status: 'success' });
+      onUploaded();
+      setTimeout(() => dismiss(upload), FINISHED_LINGER_MS);
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        patch(upload.id, { status: 'error', error: (error as Error).message });
+      }
+    } finally {
+      controllers.current.delete(upload.id);
+    }
+  };
+
+  const cancel = async (upload: QueuedUpload) => {
+    controllers.current.get(upload.id)?.abort();
+    if (upload.contentId) {
+      await cancelPartsUpload(pkbId, upload.file, upload.contentId).catch(() => undefined);
+      onUploaded();
+    }
+    dismiss(upload);
+  };
+
+  const discard = async (saved: SavedUpload & { key: string }) => {
+    await discardSavedUpload(saved);
+    refreshInterrupted();
+    onUploaded();
+  };
+
+  const addFiles = (files: FileList | null) => {
+    const added = Array.from(files ?? []).map((file): QueuedUpload => {
+      const fileType = resolveFileType(file);
+      const previewUrl = fileType?.startsWith('image/') ? URL.createObjectURL(file) : undefined;
+      if (previewUrl) {
+        previewUrls.current.add(previewUrl);
+      }
+      nextUploadId += 1;
+      return {
+        id: nextUploadId,
+        file,
+        fileType,
+        previewUrl,
+        progress: 0,
+        status: 'uploading',
+        multipart: file.size >= MULTIPART_THRESHOLD,
+      };
+    });
+    setQueue((current) => [...current, ...added]);
+    added.forEach(start);
+  };
+
+  const dismiss = (upload: QueuedUpload) => {
+    if (upload.previewUrl) {
+      URL.revokeObjectURL(upload.previewUrl);
+      previewUrls.current.delete(upload.previewUrl);
+    }
+    setQueue((current) => current.filter((item) => item.id !== upload.id));
+    refreshInterrupted();
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(event.dataTransfer.files);
+  };
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <Box
+        data-testid="drop-zone"
+        border="2px dashed"
+        borderColor={isDragging ? 'brand.500' : 'gray.300'}
+        bg={isDragging ? 'brand.50' : 'white'}
+        borderRadius="xl"
+        p={6}
+        textAlign="center"
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <VStack spacing={2}>
+          <Text color="gray.600">Drag and drop files here, or</Text>
+          <Button
+            data-testid="upload-button"
+            leftIcon={<AttachmentIcon />}
+            bg="brand.500"
+            color="white"
+            _hover={{ bg: 'brand.600' }}
+            onClick={() => inputRef.current?.click()}
+          >
+            Upload Files
+          </Button>
+          <Text fontSize="xs" color="gray.500">
+            Text, Markdown, HTML, CSV, JSON, PDF, Word, images, audio and video
+          </Text>
+        </VStack>
+        <Input
+          ref={inputRef}
+          data-testid="file-input"
+          type="file"
+          multiple
+          accept={ACCEPTED_FILE_TYPES}
+          display="none"
+          onChange={(event) => {
+            addFiles(event.target.files);
+            // Let the same file be picked again after a failure.
+            event.target.value = '';
+          }}
+        />
+      </Box>
+
+      {interrupted
+        .filter((saved) => !queue.some((upload) => upload.contentId === saved.contentId))
+        .map((saved) => (
+          <HStack
+            key={saved.key}
+            data-testid="interrupted-upload"
+            p={3}
+            bg="yellow.50"
+            borderRadius="md"
+            border="1px solid"
+            borderColor="yellow.200"
+            justify="space-between"
+          >
+            <Text fontSize="sm">
+              Upload of <b>{saved.fileName}</b> ({formatBytes(saved.size)}) was interrupted. Select the file
+              again to resume.
+            </Text>
+            <Button size="xs" variant="ghost" onClick={() => discard(saved)}>
+              Discard
+            </Button>
+          </HStack>
+        ))}
+
+      {queue.map((upload) => (
+        <HStack
+          key={upload.id}
+          data-testid="upload-item"
+          spacing={3}
+          p={3}
+          bg="white"
+          borderRadius="md"
+          border="1px solid"
+          borderColor={upload.status === 'error' ? 'red.200' : 'gray.200'}
+        >
+          {upload.previewUrl && (
+            <Image
+              data-testid="image-preview"
+              src={upload.previewUrl}
+              alt={upload.file.name}
+              boxSize="48px"
+              objectFit="cover"
+              borderRadius="md"
+            />
+          )}
+          <Box flex={1} minW={0}>
+            <HStack justify="space-between">
+              <Text fontSize="sm" fontWeight="medium" noOfLines={1}>
+                {upload.file.name}
+              </Text>
+              <Text fontSize="xs" color="gray.500" flexShrink={0}>
+                {formatBytes(upload.file.size)}
+              </Text>
+            </HStack>
+            {upload.status === 'uploading' && (
+              <>
+                <Progress value={upload.progress * 100} size="xs" colorScheme="brand" borderRadius="full" mt={1} />
+                <Text fontSize="xs" color="gray.500">
+                  {upload.resumed ? 'Resuming' : 'Uploading'}... {Math.round(upload.progress * 100)}%
+                </Text>
+              </>
+            )}
+            {upload.status === 'done' && (
+              <Text fontSize="xs" color="green.600">
+                Uploaded, processing will start shortly
+              </Text>
+            )}
+            {upload.status === 'error' && (
+              <Text fontSize="xs" color="red.600" role="alert">
+                {upload.error}
+              </Text>
+            )}
+          </Box>
+          {upload.status === 'error' && upload.fileType && (
+            <IconButton
+              data-testid="retry-upload-button"
+              aria-label={`Retry ${upload.file.name}`}
+              icon={<RepeatIcon />}
+              size="sm"
+              variant="ghost"
+              onClick={() => start(upload)}
+            />
+          )}
+          {upload.status === 'uploading' && upload.multipart && (
+            <IconButton
+              aria-label={`Cancel ${upload.file.name}`}
+              icon={<CloseIcon />}
+              size="xs"
+              variant="ghost"
+              onClick={() => cancel(upload)}
+            />
+          )}
+          {upload.status !== 'uploading' && (
+            <IconButton
+              aria-label={`Dismiss ${upload.file.name}`}
+              icon={<CloseIcon />}
+              size="xs"
+              variant="ghost"
+              onClick={() => dismiss(upload)}
+            />
+          )}
+        </HStack>
+      ))}
+    </VStack>
+  );
+};
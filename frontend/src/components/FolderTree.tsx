@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { AddIcon, CheckIcon, DeleteIcon, EditIcon } from '@chakra-ui/icons';
+import { Folder } from '../services/content';
+
+interface FolderTreeProps {
+  folders: Folder[];
+  /** Undefined shows all content. */
+  selectedId?: string;
+  canEdit: boolean;
+  onSelect: (folderId: string | undefined) => void;
+  onCreate: (name: string, parentId?: string) => void;
+  onRename: (folder: Folder, name: string) => void;
+  onDelete: (folder: Folder) => void;
+}
+
+/** The folder being named: a new one under `parentId`, or an existing one. */
+type Editing = { parentId?: string } | { folderId: string };
+
+const byName = (a: Folder, b: Folder) => a.name.localeCompare(b.name);
+
+export const FolderTree: React.FC<FolderTreeProps> = ({
+  folders,
+  selectedId,
+  canEdit,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [name, setName] = useState('');
+
+  const startEditing = (next: Editing, initialName = '') => {
+    setEditing(next);
+    setName(initialName);
+  };
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (editing && trimmed) {
+      if ('folderId' in editing) {
+        const folder = folders.find((candidate) => candidate.folderId === editing.folderId);
+        if (folder && folder.name !== trimmed) {
+          onRename(folder, trimmed);
+        }
+      } else {
+        onCreate(trimmed, editing.parentId);
+      }
+    }
+    setEditing(null);
+  };
+
+  const nameInput = (depth: number) => (
+    <HStack pl={depth * 4} spacing={1}>
+      <Input
+        data-testid="folder-name-input"
+        size="sm"
+        value={name}
+        placeholder="Folder name"
+        maxLength={100}
+        autoFocus
+        onChange={(event) => setName(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            saveName();
+          } else if (event.key === 'Escape') {
+            setEditing(null);
+          }
+        }}
+      />
+      <IconButton aria-label="Save folder" icon={<CheckIcon />} size="xs" variant="ghost" onClick={saveName} />
+    </HStack>
+  );
+
+  const renderLevel = (parentId: string | undefined, depth: number): React.ReactNode => (
+    <>
+      {folders
+        .filter((folder) => folder.parentId === parentId)
+        .sort(byName)
+        .map((folder) => {
+          const isActive = folder.folderId === selectedId;
+          return (
+            <React.Fragment key={folder.folderId}>
+              {editing && 'folderId' in editing && editing.folderId === folder.folderId ? nameInput(depth) : (
+                <HStack
+                  data-testid="folder-item"
+                  pl={depth * 4 + 2}
+                  pr={1}
+                  py={1}
+                  spacing={1}
+                  borderRadius="md"
+                  bg={isActive ? 'brand.50' : 'transparent'}
+                  _hover={{ bg: isActive ? 'brand.50' : 'gray.50' }}
+                >
+                  <Text
+                    flex={1}
+                    fontSize="sm"
+                    fontWeight={isActive ? 'semibold' : 'normal'}
+                    color="gray.700"
+                    noOfLines={1}
+                    cursor="pointer"
+                    onClick={() => onSelect(folder.folderId)}
+                  >
+                    {folder.name}
+                  </Text>
+                  {canEdit && (
+                    <>
+                      <IconButton
+                        aria-label={`New folder in ${folder.name}`}
+                        icon={<AddIcon />}
+                        size="xs"
+                        variant="ghost"
+                        onClick={() => startEditing({ parentId: folder.folderId })}
+                      />
+                      <IconButton
+                        aria-label={`Rename ${folder.name}`}
+                        icon={<EditIcon />}
+                        size="xs"
+                        variant="ghost"
+                        onClick={() => startEditing({ folderId: folder.folderId }, folder.name)}
+                      />
+                      <IconButton
+                        data-testid="delete-folder-button"
+                        aria-label={`Delete ${folder.name}`}
+                        icon={<DeleteIcon />}
+                        size="xs"
+                        variant="ghost"
+                        colorScheme="red"
+                        onClick={() => onDelete(folder)}
+                      />
+                    </>
+                  )}
+                </HStack>
+              )}
+              {renderLevel(folder.folderId, depth + 1)}
+            </React.Fragment>
+          );
+        })}
+      {editing && !('folderId' in editing) && editing.parentId === parentId && nameInput(depth)}
+    </>
+  );
+
+  return (
+    <Box
+      bg="white"
+      p={4}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor="gray.200"
+      minW="220px"
+      data-testid="folder-tree"
+    >
+      <VStack spacing={1} align="stretch">
+        <Text
+          data-testid="all-content-folder"
+          px={2}
+          py={1}
+          fontSize="sm"
+          borderRadius="md"
+          cursor="pointer"
+          fontWeight={selectedId ? 'normal' : 'semibold'}
+          bg={selectedId ? 'transparent' : 'brand.50'}
+          color="gray.700"
+          onClick={() => onSelect(undefined)}
+        >
+          All content
+        </Text>
+        {renderLevel(undefined, 0)}
+        {canEdit && (
+          <Button
+            data-testid="new-folder-button"
+            leftIcon={<AddIcon />}
+            size="sm"
+            variant="ghost"
+            justifyContent="flex-start"
+            onClick={() => startEditing({})}
+          >
+            New folder
+          </Button>
+        )}
+      </VStack>
+    </Box>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Box, Flex, Heading, Button, HStack, Spacer } from '@chakra-ui/react';
+import { useNavigate } from 'react-router-dom';
+import { Box, Flex, Heading, Button, HStack, Text, useToast } from '@chakra-ui/react';
 import { useAuth } from '../hooks/useAuth';
 
 interface LayoutProps {
@@ -7,10 +8,16 @@ interface LayoutProps {
 }
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { signOut } = useAuth();
+  const { user, signOut } = useAuth();
+  const toast = useToast();
+  const navigate = useNavigate();
+  const displayName = [user?.givenName, user?.familyName].filter(Boolean).join(' ') || user?.username;
 
   const handleSignOut = async () => {
-    await signOut();
+    const result = await signOut();
+    if (!result.success) {
+      toast({ title: 'Sign out failed', description: result.error, status: 'error' });
+    }
   };
 
   return (
@@ -22,7 +29,15 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
             ProjectKB
           </Heading>
           <HStack spacing={4}>
-            <Button variant="ghost" size="sm">
+            {displayName && (
+              <Text fontSize="sm" color="gray.600" data-testid="user-display-name">
+                {displayName}
+              </Text>
+            )}
+            <Button data-testid="usage-button" variant="ghost" size="sm" onClick={() => navigate('/usage')}>
+              Usage
+            </Button>
+            <Button data-testid="settings-button" variant="ghost" size="sm" onClick={() => navigate('/settings')}>
               Settings
             </Button>
             <Button
@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Button,
+  Center,
+  Divider,
+  HStack,
+  IconButton,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Spinner,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { CloseIcon, DeleteIcon } from '@chakra-ui/icons';
+import { useAuth } from '../hooks/useAuth';
+import {
+  InvitableRole,
+  Invitation,
+  Member,
+  inviteMember,
+  listMembers,
+  removeMember,
+  revokeInvitation,
+  updateMember,
+} from '../services/members';
+import { Pkb } from '../services/pkbs';
+
+interface MembersModalProps {
+  /** The PKB whose members to show; the modal is closed when undefined. */
+  pkb?: Pkb;
+  onClose: () => void;
+  /** Called once the signed-in member has left the PKB. */
+  onLeft: () => void;
+}
+
+/**
+ * Who is in a PKB. Owners also invite people by e-mail address, change
+ * roles and revoke pending invitations; anyone else can leave.
+ */
+export const MembersModal: React.FC<MembersModalProps> = ({ pkb, onClose, onLeft }) => {
+  const toast = useToast();
+  const { user } = useAuth();
+  const [members, setMembers] = useState<Member[] | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<InvitableRole>('viewer');
+  const [isInviting, setIsInviting] = useState(false);
+  const isOwner = pkb?.role === 'owner';
+
+  const showError = useCallback((title: string, cause: unknown) => {
+    toast({ title, description: (cause as Error).message, status: 'error', duration: 5000, isClosable: true });
+  }, [toast]);
+
+  const load = useCallback(async () => {
+    if (!pkb) {
+      return;
+    }
+    try {
+      const result = await listMembers(pkb.pkbId);
+      setMembers(result.members);
+      setInvitations(result.invitations);
+    } catch (cause) {
+      setError((cause as Error).message);
+    }
+  }, [pkb]);
+
+  useEffect(() => {
+    setMembers(null);
+    setInvitations([]);
+    setError(null);
+    load();
+  }, [load]);
+
+  if (!pkb) {
+    return null;
+  }
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsInviting(true);
+    try {
+      const result = await inviteMember(pkb.pkbId, email.trim(), role);
+      setInvitations((current) => [...current.filter((invitation) => invitation.email !== result.invitation.email),
+        result.invitation]);
+      setEmail('');
+      toast({
+        title: result.emailed ? 'Invitation e-mailed' : 'Invitation created',
+        description: result.emailed
+          ? undefined
+          : `No e-mail was sent. ${result.invitation.email} will find it after signing in with that address.`,
+        status: result.emailed ? 'success' : 'info',
+        duration: 7000,
+        isClosable: true,
+      });
+    } catch (cause) {
+      showError('Could not invite', cause);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: Member, newRole: InvitableRole) => {
+    try {
+      const updated = await updateMember(pkb.pkbId, member.userId, newRole);
+      setMembers((current) => current && current.map((entry) => (entry.userId === updated.userId ? updated : entry)));
+    } catch (cause) {
+      showError('Could not change the role', cause);
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    const leaving = member.userId === user?.sub;
+    try {
+      await removeMember(pkb.pkbId, member.userId);
+      if (leaving) {
+        toast({ title: `You left ${pkb.name}`, status: 'success' });
+        onLeft();
+        return;
+      }
+      setMembers((current) => current && current.filter((entry) => entry.userId !== member.userId));
+    } catch (cause) {
+      showError(leaving ? 'Could not leave the PKB' : 'Could not remove the member', cause);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await revokeInvitation(pkb.pkbId, invitation.email);
+      setInvitations((current) => current.filter((entry) => entry.email !== invitation.email));
+    } catch (cause) {
+      showError('Could not revoke the invitation', cause);
+    }
+  };
+
+  const self = members?.find((member) => member.userId === user?.sub);
+
+  return (
+    <Modal isOpen onClose={onClose} size="lg">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Members of {pkb.name}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          {error ? (
+            <Alert status="error"><AlertIcon />{error}</Alert>
+          ) : !members ? (
+            <Center py={6}><Spinner color="brand.500" /></Center>
+          ) : (
+            <VStack spacing={4} align="stretch">
+              <VStack spacing={2} align="stretch">
+                {members.map((member) => (
+                  <HStack key={member.userId} data-testid="member-row" justify="space-between">
+                    <Text fontSize="sm" noOfLines={1}>
+                      {member.email ?? member.userId}
+                      {member.userId === user?.sub && <Text as="span" color="gray.500"> (you)</Text>}
+                    </Text>
+                    {isOwner && member.role !== 'owner' ? (
+                      <HStack>
+                        <Select
+                          aria-label={`Role of ${member.email ?? member.userId}`}
+                          size="sm"
+                          w="110px"
+                          value={member.role}
+                          onChange={(event) => handleRoleChange(member, event.target.value as InvitableRole)}
+                        >
+                          <option value="editor">Editor</option>
+                          <option value="viewer">Viewer</option>
+                        </Select>
+                        <IconButton
+                          aria-label={`Remove ${member.email ?? member.userId}`}
+                          icon={<DeleteIcon />}
+                          size="sm"
+                          variant="ghost"
+                          colorScheme="red"
+                          onClick={() => handleRemove(member)}
+                        />
+                      </HStack>
+                    ) : (
+                      <Badge colorScheme={member.role === 'owner' ? 'purple' : 'gray'}>{member.role}</Badge>
+                    )}
+                  </HStack>
+                ))}
+              </VStack>
+
+              {isOwner && invitations.length > 0 && (
+                <>
+                  <Divider />
+                  <Text fontSize="sm" fontWeight="medium">Pending invitations</Text>
+                  <VStack spacing={2} align="stretch">
+                    {invitations.map((invitation) => (
+                      <HStack key={invitation.email} data-testid="invitation-row" justify="space-between">
+                        <Text fontSize="sm" noOfLines={1}>{invitation.email}</Text>
+                        <HStack>
+                          <Badge>{invitation.role}</Badge>
+                          <IconButton
+                            aria-label={`Revoke the invitation to ${invitation.email}`}
+                            icon={<CloseIcon />}
+                            size="xs"
+                            variant="ghost"
+                            onClick={() => handleRevoke(invitation)}
+                          />
+                        </HStack>
+                      </HStack>
+                    ))}
+                  </VStack>
+                </>
+              )}
+
+              {isOwner && (
+                <>
+                  <Divider />
+                  <HStack as="form" onSubmit={handleInvite} align="flex-start">
+                    <Input
+                      data-testid="invite-email-input"
+                      aria-label="E-mail address"
+                      type="email"
+                      placeholder="colleague@example.com"
+                      value={email}
+                      onChange={(event) => setEmail(event.target.value)}
+                      isRequired
+                    />
+                    <Select
+                      aria-label="Role"
+                      w="130px"
+                      flexShrink={0}
+                      value={role}
+                      onChange={(event) => setRole(event.target.value as InvitableRole)}
+                    >
+                      <option value="editor">Editor</option>
+                      <option value="viewer">Viewer</option>
+                    </Select>
+                    <Button
+                      data-testid="invite-member-button"
+                      type="submit"
+                      flexShrink={0}
+                      bg="brand.500"
+                      color="white"
+                      _hover={{ bg: 'brand.600' }}
+                      isLoading={isInviting}
+                    >
+                      Invite
+                    </Button>
+                  </HStack>
+                </>
+              )}
+            </VStack>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          {self && self.role !== 'owner' && (
+            <Button data-testid="leave-pkb-button" variant="ghost" colorScheme="red" mr="auto" onClick={() => handleRemove(self)}>
+              Leave PKB
+            </Button>
+          )}
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { AddIcon, DeleteIcon } from '@chakra-ui/icons';
+import { MetadataField, MetadataFieldType } from '../services/pkbs';
+
+/** Mirrors the limit the PKB Lambda enforces. */
+const MAX_METADATA_FIELDS = 20;
+
+interface MetadataFieldsModalProps {
+  isOpen: boolean;
+  fields: MetadataField[];
+  onClose: () => void;
+  onSubmit: (fields: MetadataField[]) => Promise<void>;
+}
+
+interface DraftField {
+  /** Fixed once saved, since item values are stored under it. */
+  key?: string;
+  label: string;
+  type: MetadataFieldType;
+  /** Comma-separated options of a `select` field. */
+  options: string;
+}
+
+/** A key for a new field from its label, e.g. "Due date" becomes `due-date`. */
+const keyFromLabel = (label: string) => label
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^[^a-z]+|-+$/g, '')
+  .slice(0, 40);
+
+const toDraft = (field: MetadataField): DraftField => ({
+  key: field.key,
+  label: field.label,
+  type: field.type,
+  options: (field.options ?? []).join(', '),
+});
+
+const toField = (draft: DraftField): MetadataField => ({
+  key: draft.key ?? keyFromLabel(draft.label),
+  label: draft.label.trim(),
+  type: draft.type,
+  ...(draft.type === 'select'
+    ? { options: draft.options.split(',').map((option) => option.trim()).filter(Boolean) }
+    : {}),
+});
+
+/**
+ * Defines the custom metadata of a PKB. Removing a field hides its values
+ * but leaves them on the items.
+ */
+export const MetadataFieldsModal: React.FC<MetadataFieldsModalProps> = ({ isOpen, fields, onClose, onSubmit }) => {
+  const [drafts, setDrafts] = useState<DraftField[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts(fields.map(toDraft));
+    }
+  }, [isOpen, fields]);
+
+  const updateDraft = (index: number, changes: Partial<DraftField>) => {
+    setDrafts((current) => current.map((draft, at) => (at === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onSubmit(drafts.filter((draft) => draft.label.trim()).map(toField));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl">
+      <ModalOverlay />
+      <ModalContent as="form" onSubmit={handleSubmit}>
+        <ModalHeader>Metadata fields</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={3} align="stretch">
+            {drafts.length === 0 && (
+              <Text fontSize="sm" color="gray.500">
+                Add fields such as an owner, a status or a due date to fill in on each item.
+              </Text>
+            )}
+            {drafts.map((draft, index) => (
+              <HStack key={draft.key ?? `new-${index}`} data-testid="metadata-field-row" align="flex-start">
+                <Input
+                  aria-label="Field name"
+                  placeholder="Field name"
+                  maxLength={50}
+                  value={draft.label}
+                  onChange={(event) => updateDraft(index, { label: event.target.value })}
+                />
+                <Select
+                  aria-label="Field type"
+                  w="160px"
+                  flexShrink={0}
+                  value={draft.type}
+                  onChange={(event) => updateDraft(index, { type: event.target.value as MetadataFieldType })}
+                >
+                  <option value="text">Text</option>
+                  <option value="number">Number</option>
+                  <option value="date">Date</option>
+                  <option value="select">Choice</option>
+                </Select>
+                {draft.type === 'select' && (
+                  <Input
+                    aria-label="Choices"
+                    placeholder="draft, final"
+                    value={draft.options}
+                    onChange={(event) => updateDraft(index, { options: event.target.value })}
+                  />
+                )}
+                <IconButton
+                  aria-label={`Remove ${draft.label || 'field'}`}
+                  icon={<DeleteIcon />}
+                  variant="ghost"
+                  colorScheme="red"
+                  onClick={() => setDrafts((current) => current.filter((_, at) => at !== index))}
+                />
+              </HStack>
+            ))}
+            <Button
+              data-testid="add-metadata-field-button"
+              leftIcon={<AddIcon />}
+              size="sm"
+              variant="ghost"
+              alignSelf="flex-start"
+              isDisabled={drafts.length >= MAX_METADATA_FIELDS}
+              onClick={() => setDrafts((current) => [...current, { label: '', type: 'text', options: '' }])}
+            >
+              Add field
+            </Button>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            data-testid="save-metadata-fields-button"
+            type="submit"
+            bg="brand.500"
+            color="white"
+            _hover={{ bg: 'brand.600' }}
+            isLoading={isSubmitting}
+          >
+            Save
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
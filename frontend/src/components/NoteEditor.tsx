@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import {
+  Box,
+  Button,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Spinner,
+  Tab,
+  TabList,
+  TabPanel,
+  TabPanels,
+  Tabs,
+  Text,
+  Textarea,
+} from '@chakra-ui/react';
+import { ContentItem, createNote, getNote, saveNote } from '../services/content';
+
+/** Saves once typing has paused for this long. */
+const AUTOSAVE_DELAY_MS = 1500;
+
+type SaveState = 'saved' | 'unsaved' | 'saving' | 'error';
+
+interface Draft {
+  title: string;
+  body: string;
+}
+
+interface NoteEditorProps {
+  pkbId: string;
+  isOpen: boolean;
+  /** The note to open; a new note is started without one. */
+  note?: ContentItem;
+  readOnly: boolean;
+  /** Called after a save, so the content list can pick up the new revision. */
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+const SAVE_LABELS: Record<Exclude<SaveState, 'error'>, string> = {
+  saved: 'All changes saved',
+  unsaved: 'Unsaved changes',
+  saving: 'Saving...',
+};
+
+export const NoteEditor: React.FC<NoteEditorProps> = ({ pkbId, isOpen, note, readOnly, onSaved, onClose }) => {
+  const [draft, setDraft] = useState<Draft>({ title: '', body: '' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>('saved');
+  const [saveError, setSaveError] = useState<string | undefined>();
+  const [loadError, setLoadError] = useState<string | undefined>();
+  const latest = useRef<Draft>(draft);
+  const contentId = useRef<string | undefined>();
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  // Saves run one after another, so a slow save never lands after a newer one.
+  const pending = useRef<Promise<boolean>>(Promise.resolve(true));
+  const edits = useRef(0);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    contentId.current = note?.contentId;
+    latest.current = { title: note?.fileName ?? '', body: '' };
+    setDraft(latest.current);
+    setSaveState('saved');
+    setSaveError(undefined);
+    setLoadError(undefined);
+    if (!note) {
+      return;
+    }
+    setIsLoading(true);
+    getNote(pkbId, note.contentId)
+      .then(({ title, body }) => {
+        latest.current = { title, body };
+        setDraft(latest.current);
+      })
+      .catch((error: Error) => setLoadError(error.message))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, note, pkbId]);
+
+  /** Resolves with whether the save went through. */
+  const save = useCallback(() => {
+    const edit = edits.current;
+    pending.current = pending.current.then(async () => {
+      const { title, body } = latest.current;
+      setSaveState('saving');
+      try {
+        if (contentId.current) {
+          await saveNote(pkbId, contentId.current, title, body);
+        } else {
+          contentId.current = (await createNote(pkbId, title, body)).contentId;
+        }
+        setSaveError(undefined);
+        setSaveState(edits.current === edit ? 'saved' : 'unsaved');
+        onSaved();
+        return true;
+      } catch (error) {
+        setSaveState('error');
+        setSaveError((error as Error).message);
+        return false;
+      }
+    });
+    return pending.current;
+  }, [pkbId, onSaved]);
+
+  const edit = (changes: Partial<Draft>) => {
+    latest.current = { ...latest.current, ...changes };
+    edits.current += 1;
+    setDraft(latest.current);
+    setSaveState('unsaved');
+    clearTimeout(timer.current);
+    timer.current = setTimeout(save, AUTOSAVE_DELAY_MS);
+  };
+
+  // Warn before leaving the page with changes that have not reached the API.
+  useEffect(() => {
+    if (saveState === 'saved') {
+      return undefined;
+    }
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [saveState]);
+
+  // Without the saved text, a save would overwrite it.
+  const editable = !readOnly && !isLoading && !loadError;
+
+  const handleClose = async () => {
+    clearTimeout(timer.current);
+    const saved = saveState === 'unsaved' || saveState === 'error' ? await save() : await pending.current;
+    if (saved || window.confirm('Your latest changes could not be saved. Close anyway?')) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} size="4xl" closeOnOverlayClick={false}>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader pr={12}>
+          {!editable ? (
+            <Text noOfLines={1}>{draft.title}</Text>
+          ) : (
+            <Input
+              data-testid="note-title-input"
+              variant="flushed"
+              fontSize="lg"
+              fontWeight="semibold"
+              placeholder="Untitled note"
+              value={draft.title}
+              maxLength={200}
+              onChange={(event) => edit({ title: event.target.value })}
+            />
+          )}
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody pb={6}>
+          {isLoading && <HStack justify="center" py={10}><Spinner color="brand.500" /></HStack>}
+          {loadError && <Text color="red.600" role="alert">{loadError}</Text>}
+          {!isLoading && !loadError && (
+            <Tabs variant="soft-rounded" colorScheme="brand" size="sm" defaultIndex={readOnly ? 1 : 0}>
+              <HStack justify="space-between" mb={3}>
+                <TabList>
+                  {!readOnly && <Tab>Write</Tab>}
+                  <Tab>Preview</Tab>
+                </TabList>
+                {!readOnly && (
+                  <Text
+                    data-testid="note-save-status"
+                    fontSize="xs"
+                    color={saveState === 'error' ? 'red.600' : 'gray.500'}
+                    role={saveState === 'error' ? 'alert' : undefined}
+                  >
+                    {saveState === 'error' ? `Not saved: ${saveError}` : SAVE_LABELS[saveState]}
+                  </Text>
+                )}
+              </HStack>
+              <TabPanels>
+                {!readOnly && (
+                  <TabPanel p={0}>
+                    <Textarea
+                      data-testid="note-body-input"
+                      value={draft.body}
+                      onChange={(event) => edit({ body: event.target.value })}
+                      placeholder="Write in Markdown: # headings, **bold**, - lists, [links](https://...)"
+                      fontFamily="mono"
+                      fontSize="sm"
+                      minH="50vh"
+                      autoFocus
+                    />
+                  </TabPanel>
+                )}
+                <TabPanel p={0}>
+                  <Box
+                    data-testid="note-preview"
+                    minH="50vh"
+                    p={4}
+                    border="1px solid"
+                    borderColor="gray.200"
+                    borderRadius="md"
+                    sx={{
+                      h1: { fontSize: '2xl', fontWeight: 'bold', mb: 3 },
+                      h2: { fontSize: 'xl', fontWeight: 'bold', mb: 2 },
+                      h3: { fontSize: 'lg', fontWeight: 'semibold', mb: 2 },
+                      p: { mb: 3 },
+                      'ul, ol': { pl: 6, mb: 3 },
+                      a: { color: 'brand.600', textDecoration: 'underline' },
+                      code: { bg: 'gray.100', px: 1, borderRadius: 'sm', fontSize: 'sm' },
+                      pre: { bg: 'gray.100', p: 3, borderRadius: 'md', overflowX: 'auto', mb: 3 },
+                      blockquote: { borderLeft: '4px solid', borderColor: 'gray.300', pl: 3, color: 'gray.600' },
+                    }}
+                  >
+                    {draft.body ? (
+                      <ReactMarkdown>{draft.body}</ReactMarkdown>
+                    ) : (
+                      <Text color="gray.500">Nothing to preview yet</Text>
+                    )}
+                  </Box>
+                </TabPanel>
+              </TabPanels>
+            </Tabs>
+          )}
+          {editable && (
+            <HStack justify="flex-end" mt={4}>
+              <Button
+                data-testid="close-note-button"
+                bg="brand.500"
+                color="white"
+                _hover={{ bg: 'brand.600' }}
+                isLoading={saveState === 'saving'}
+                onClick={handleClose}
+              >
+                Done
+              </Button>
+            </HStack>
+          )}
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Box, Button, HStack, Heading, Text, VStack } from '@chakra-ui/react';
+import { Invitation } from '../services/members';
+
+interface PendingInvitationsProps {
+  invitations: Invitation[];
+  onAccept: (invitation: Invitation) => Promise<void>;
+  onDecline: (invitation: Invitation) => Promise<void>;
+}
+
+/** Invitations to the signed-in user's address, answered from the dashboard. */
+export const PendingInvitations: React.FC<PendingInvitationsProps> = ({ invitations, onAccept, onDecline }) => {
+  const [answering, setAnswering] = useState<string | undefined>();
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  const answer = async (invitation: Invitation, respond: (invitation: Invitation) => Promise<void>) => {
+    setAnswering(invitation.pkbId);
+    try {
+      await respond(invitation);
+    } finally {
+      setAnswering(undefined);
+    }
+  };
+
+  return (
+    <Box
+      data-testid="pending-invitations"
+      bg="white"
+      p={4}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor="brand.200"
+    >
+      <Heading size="sm" mb={3}>Invitations</Heading>
+      <VStack spacing={3} align="stretch">
+        {invitations.map((invitation) => (
+          <HStack key={invitation.pkbId} justify="space-between">
+            <Text fontSize="sm">
+              Join <Text as="span" fontWeight="medium">{invitation.pkbName}</Text> as {invitation.role === 'editor' ? 'an editor' : 'a viewer'}
+            </Text>
+            <HStack>
+              <Button
+                size="sm"
+                variant="ghost"
+                isDisabled={answering !== undefined}
+                onClick={() => answer(invitation, onDecline)}
+              >
+                Decline
+              </Button>
+              <Button
+                data-testid="accept-invitation-button"
+                size="sm"
+                bg="brand.500"
+                color="white"
+                _hover={{ bg: 'brand.600' }}
+                isLoading={answering === invitation.pkbId}
+                isDisabled={answering !== undefined && answering !== invitation.pkbId}
+                onClick={() => answer(invitation, onAccept)}
+              >
+                Accept
+              </Button>
+            </HStack>
+          </HStack>
+        ))}
+      </VStack>
+    </Box>
+  );
+};
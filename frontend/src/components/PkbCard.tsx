@@ -0,0 +1,104 @@
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Heading,
+  HStack,
+  IconButton,
+  LinkBox,
+  LinkOverlay,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { DeleteIcon, EditIcon } from '@chakra-ui/icons';
+import { Link as RouterLink } from 'react-router-dom';
+import { ContentStats, Pkb, lastActivityAt } from '../services/pkbs';
+
+interface PkbCardProps {
+  pkb: Pkb;
+  onEdit: (pkb: Pkb) => void;
+  onDelete: (pkb: Pkb) => void;
+}
+
+const IngestionBadge: React.FC<{ stats: ContentStats }> = ({ stats }) => {
+  if (stats.failed > 0) {
+    return <Badge colorScheme="red">{stats.failed} failed</Badge>;
+  }
+  if (stats.processing > 0) {
+    return <Badge colorScheme="yellow">Indexing {stats.processing}</Badge>;
+  }
+  if (stats.total > 0) {
+    return <Badge colorScheme="green">Indexed</Badge>;
+  }
+  return null;
+};
+
+export const PkbCard: React.FC<PkbCardProps> = ({ pkb, onEdit, onDelete }) => {
+  const { total } = pkb.contentStats;
+
+  return (
+    <LinkBox
+      as="article"
+      data-testid="pkb-card"
+      bg="white"
+      p={5}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor="gray.200"
+      _hover={{ boxShadow: 'md' }}
+    >
+      <VStack align="stretch" spacing={3} h="full">
+        <HStack justify="space-between" align="flex-start">
+          <Heading size="sm" color="gray.800" noOfLines={2}>
+            <LinkOverlay as={RouterLink} to={`/pkb/${pkb.pkbId}`}>
+              {pkb.name}
+            </LinkOverlay>
+          </Heading>
+          {/* Sits above the overlay so the buttons stay clickable. */}
+          <HStack spacing={1} position="relative" zIndex={1}>
+            {pkb.role !== 'viewer' && (
+              <IconButton
+                data-testid="edit-pkb-button"
+                aria-label={`Edit ${pkb.name}`}
+                icon={<EditIcon />}
+                size="sm"
+                variant="ghost"
+                onClick={() => onEdit(pkb)}
+              />
+            )}
+            {pkb.role === 'owner' && (
+              <IconButton
+                data-testid="delete-pkb-button"
+                aria-label={`Delete ${pkb.name}`}
+                icon={<DeleteIcon />}
+                size="sm"
+                variant="ghost"
+                colorScheme="red"
+                onClick={() => onDelete(pkb)}
+              />
+            )}
+          </HStack>
+        </HStack>
+
+        <Text color="gray.600" fontSize="sm" noOfLines={3} flex={1}>
+          {pkb.description || 'No description'}
+        </Text>
+
+        <HStack spacing={2} wrap="wrap">
+          <Text fontSize="sm" color="gray.700" data-testid="pkb-content-count">
+            {total} {total === 1 ? 'item' : 'items'}
+          </Text>
+          <IngestionBadge stats={pkb.contentStats} />
+          {pkb.role !== 'owner' && <Badge colorScheme="purple">Shared · {pkb.role}</Badge>}
+        </HStack>
+
+        <Box>
+          <Text fontSize="xs" color="gray.500">
+            Updated {new Date(lastActivityAt(pkb)).toLocaleString()}
+          </Text>
+        </Box>
+      </VStack>
+    </LinkBox>
+  );
+};
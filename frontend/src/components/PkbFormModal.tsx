@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Textarea,
+  VStack,
+} from '@chakra-ui/react';
+import { Pkb, PkbInput } from '../services/pkbs';
+import { AiModelList, listAiModels, modelName } from '../services/models';
+
+/** Mirrors the limits the PKB Lambda enforces. */
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+interface PkbFormModalProps {
+  isOpen: boolean;
+  /** The PKB being edited; creates a new one when absent. */
+  pkb?: Pkb;
+  onClose: () => void;
+  onSubmit: (input: PkbInput) => Promise<void>;
+}
+
+export const PkbFormModal: React.FC<PkbFormModalProps> = ({ isOpen, pkb, onClose, onSubmit }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [chatModelId, setChatModelId] = useState('');
+  const [modelList, setModelList] = useState<AiModelList | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(pkb?.name ?? '');
+      setDescription(pkb?.description ?? '');
+      setChatModelId(pkb?.chatModelId ?? '');
+      setNameError(null);
+    }
+  }, [isOpen, pkb]);
+
+  useEffect(() => {
+    if (!isOpen || modelList) {
+      return;
+    }
+    // Without the list the PKB keeps its model; the field is simply not shown.
+    listAiModels().then(setModelList).catch(() => undefined);
+  }, [isOpen, modelList]);
+
+  const selectedModel = modelList?.models.find((model) => model.modelId === (chatModelId || modelList.defaultModelId));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setNameError('Name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ name: name.trim(), description: description.trim(), chatModelId: chatModelId || null });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <ModalOverlay />
+      <ModalContent as="form" onSubmit={handleSubmit} noValidate>
+        <ModalHeader>{pkb ? 'Edit PKB' : 'Create New PKB'}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4}>
+            <FormControl isInvalid={!!nameError} isRequired>
+              <FormLabel fontSize="sm" color="gray.700">Name</FormLabel>
+              <Input
+                data-testid="pkb-name-input"
+                maxLength={MAX_NAME_LENGTH}
+                value={name}
+                onChange={(event) => {
+                  setName(event.target.value);
+                  setNameError(null);
+                }}
+                autoFocus
+              />
+              <FormErrorMessage>{nameError}</FormErrorMessage>
+            </FormControl>
+            <FormControl>
+              <FormLabel fontSize="sm" color="gray.700">Description</FormLabel>
+              <Textarea
+                data-testid="pkb-description-input"
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                rows={4}
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+              />
+            </FormControl>
+            {modelList && (
+              <FormControl>
+                <FormLabel fontSize="sm" color="gray.700">AI model</FormLabel>
+                <Select
+                  data-testid="pkb-model-select"
+                  value={chatModelId}
+                  onChange={(event) => setChatModelId(event.target.value)}
+                >
+                  <option value="">Default ({modelName(modelList.models, modelList.defaultModelId)})</option>
+                  {modelList.models.map((model) => (
+                    <option key={model.modelId} value={model.modelId}>{model.name}</option>
+                  ))}
+                </Select>
+                {selectedModel && (
+                  <FormHelperText>
+                    ${selectedModel.pricing.inputPer1kTokens} input and ${selectedModel.pricing.outputPer1kTokens} output
+                    per 1,000 tokens; up to {selectedModel.contextTokens.toLocaleString()} tokens of context.
+                  </FormHelperText>
+                )}
+              </FormControl>
+            )}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            data-testid={pkb ? 'update-pkb-submit' : 'create-pkb-submit'}
+            type="submit"
+            bg="brand.500"
+            color="white"
+            _hover={{ bg: 'brand.600' }}
+            isLoading={isSubmitting}
+          >
+            {pkb ? 'Save Changes' : 'Create PKB'}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Link,
+  Tag,
+  Text,
+  VStack,
+  Wrap,
+} from '@chakra-ui/react';
+import { CheckIcon, CloseIcon, RepeatIcon } from '@chakra-ui/icons';
+import { ContentItem } from '../services/content';
+import { Suggestion, SuggestionType } from '../services/suggestions';
+
+const TYPE_LABELS: Record<SuggestionType, { label: string; colorScheme: string }> = {
+  summary: { label: 'Summary', colorScheme: 'brand' },
+  duplicate: { label: 'Duplicate', colorScheme: 'orange' },
+  conflict: { label: 'Conflict', colorScheme: 'red' },
+  stale: { label: 'Stale', colorScheme: 'yellow' },
+  coverage: { label: 'Coverage gap', colorScheme: 'purple' },
+};
+
+/** What the Accept button does, where it does more than close the suggestion. */
+const ACCEPT_LABELS: Partial<Record<SuggestionType, string>> = {
+  summary: 'Apply',
+  stale: 'Mark reviewed',
+};
+
+interface SuggestionsPanelProps {
+  suggestions: Suggestion[];
+  /** The PKB's content, to name and open the items a suggestion is about. */
+  items: ContentItem[];
+  canEdit: boolean;
+  isRefreshing: boolean;
+  onRefresh: () => void;
+  onAccept: (suggestion: Suggestion) => Promise<void>;
+  onDismiss: (suggestion: Suggestion) => Promise<void>;
+  onOpenItem: (item: ContentItem) => void;
+}
+
+export const SuggestionsPanel: React.FC<SuggestionsPanelProps> = ({
+  suggestions,
+  items,
+  canEdit,
+  isRefreshing,
+  onRefresh,
+  onAccept,
+  onDismiss,
+  onOpenItem,
+}) => {
+  const [busyId, setBusyId] = useState<string | undefined>();
+  const [showResolved, setShowResolved] = useState(false);
+
+  const open = suggestions.filter((suggestion) => suggestion.status === 'open');
+  const resolved = suggestions.filter((suggestion) => suggestion.status !== 'open');
+  const shown = showResolved ? [...open, ...resolved] : open;
+
+  const resolve = async (suggestion: Suggestion, action: typeof onAccept) => {
+    setBusyId(suggestion.suggestionId);
+    try {
+      await action(suggestion);
+    } finally {
+      setBusyId(undefined);
+    }
+  };
+
+  return (
+    <Box
+      bg="white"
+      p={4}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor="gray.200"
+      data-testid="suggestions-panel"
+    >
+      <HStack justify="space-between" mb={3}>
+        <Heading size="md" color="gray.800">AI Suggestions</Heading>
+        <HStack>
+          {resolved.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => setShowResolved((value) => !value)}>
+              {showResolved ? 'Hide resolved' : `Show resolved (${resolved.length})`}
+            </Button>
+          )}
+          {canEdit && (
+            <Button
+              data-testid="refresh-suggestions-button"
+              size="sm"
+              variant="outline"
+              leftIcon={<RepeatIcon />}
+              isLoading={isRefreshing}
+              loadingText="Analyzing"
+              onClick={onRefresh}
+            >
+              Refresh
+            </Button>
+          )}
+        </HStack>
+      </HStack>
+
+      {shown.length === 0 && (
+        <Text fontSize="sm" color="gray.500" textAlign="center" py={2}>
+          No open suggestions. New uploads are summarized as they are indexed, and the whole PKB is reviewed daily.
+        </Text>
+      )}
+
+      <VStack spacing={3} align="stretch">
+        {shown.map((suggestion) => {
+          const { label, colorScheme } = TYPE_LABELS[suggestion.type];
+          const related = suggestion.contentIds
+            .map((contentId) => items.find((item) => item.contentId === contentId))
+            .filter((item): item is ContentItem => item !== undefined);
+          return (
+            <Box
+              key={suggestion.suggestionId}
+              data-testid="suggestion-item"
+              p={3}
+              border="1px solid"
+              borderColor="gray.200"
+              borderRadius="md"
+              opacity={suggestion.status === 'open' ? 1 : 0.6}
+            >
+              <HStack justify="space-between" align="flex-start">
+                <Box minW={0}>
+                  <HStack mb={1}>
+                    <Badge colorScheme={colorScheme}>{label}</Badge>
+                    {suggestion.status !== 'open' && <Badge>{suggestion.status}</Badge>}
+                  </HStack>
+                  <Text fontWeight="medium">{suggestion.title}</Text>
+                  <Text fontSize="sm" color="gray.600">{suggestion.detail}</Text>
+                  {suggestion.tags && suggestion.tags.length > 0 && (
+                    <Wrap mt={2} spacing={1}>
+                      {suggestion.tags.map((tag) => <Tag key={tag} size="sm">{tag}</Tag>)}
+                    </Wrap>
+                  )}
+                  {related.length > 0 && suggestion.type !== 'summary' && (
+                    <Wrap mt={2} spacing={2} fontSize="sm">
+                      {related.map((item) => (
+                        <Link key={item.contentId} color="brand.600" onClick={() => onOpenItem(item)}>
+                          {item.fileName}
+                        </Link>
+                      ))}
+                    </Wrap>
+                  )}
+                </Box>
+                {canEdit && suggestion.status === 'open' && (
+                  <HStack flexShrink={0}>
+                    <Button
+                      data-testid="accept-suggestion-button"
+                      size="xs"
+                      leftIcon={<CheckIcon />}
+                      colorScheme="brand"
+                      isLoading={busyId === suggestion.suggestionId}
+                      isDisabled={busyId !== undefined}
+                      onClick={() => resolve(suggestion, onAccept)}
+                    >
+                      {ACCEPT_LABELS[suggestion.type] ?? 'Accept'}
+                    </Button>
+                    <Button
+                      data-testid="dismiss-suggestion-button"
+                      size="xs"
+                      variant="ghost"
+                      leftIcon={<CloseIcon boxSize={2} />}
+                      isDisabled={busyId !== undefined}
+                      onClick={() => resolve(suggestion, onDismiss)}
+                    >
+                      Dismiss
+                    </Button>
+                  </HStack>
+                )}
+              </HStack>
+            </Box>
+          );
+        })}
+      </VStack>
+    </Box>
+  );
+};
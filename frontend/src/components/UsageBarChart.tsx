@@ -0,0 +1,51 @@
+import React from 'react';
+import { Box, Flex, Heading, Text, VStack } from '@chakra-ui/react';
+import { UsageTotal, formatCost, formatTokens } from '../services/usage';
+
+interface UsageBarChartProps {
+  title: string;
+  totals: UsageTotal[];
+  labelOf: (key: string) => string;
+  testId?: string;
+}
+
+/**
+ * Horizontal bars of estimated cost, one per total. Free usage (local
+ * models) is drawn by tokens instead so it still shows up.
+ */
+export const UsageBarChart: React.FC<UsageBarChartProps> = ({ title, totals, labelOf, testId }) => {
+  const maxCost = Math.max(0, ...totals.map((total) => total.costUsd));
+  const maxTokens = Math.max(0, ...totals.map((total) => total.tokens));
+  const share = (total: UsageTotal) => (maxCost > 0 ? total.costUsd / maxCost : total.tokens / (maxTokens || 1));
+
+  return (
+    <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200" data-testid={testId}>
+      <Heading size="sm" color="gray.800" mb={4}>
+        {title}
+      </Heading>
+      {totals.length === 0 ? (
+        <Text color="gray.500" fontSize="sm">
+          No usage in this period.
+        </Text>
+      ) : (
+        <VStack spacing={3} align="stretch">
+          {totals.map((total) => (
+            <Box key={total.key}>
+              <Flex justify="space-between" fontSize="sm" mb={1}>
+                <Text color="gray.700" noOfLines={1}>
+                  {labelOf(total.key)}
+                </Text>
+                <Text color="gray.600" flexShrink={0} ml={3}>
+                  {formatCost(total.costUsd)} · {formatTokens(total.tokens)} tokens · {total.requests} calls
+                </Text>
+              </Flex>
+              <Box bg="gray.100" borderRadius="full" h={2}>
+                <Box bg="brand.500" borderRadius="full" h={2} w={`${Math.max(share(total) * 100, 1)}%`} />
+              </Box>
+            </Box>
+          ))}
+        </VStack>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Center,
+  Drawer,
+  DrawerBody,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  HStack,
+  Spinner,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { ExternalLinkIcon, RepeatClockIcon } from '@chakra-ui/icons';
+import {
+  ContentItem,
+  ContentVersion,
+  VersionDiff,
+  getDownloadUrl,
+  getVersionDiff,
+  listVersions,
+  restoreVersion,
+} from '../services/content';
+import { formatBytes } from '../utils/files';
+
+/** Unchanged lines shown around each change; longer unchanged runs are folded. */
+const DIFF_CONTEXT_LINES = 3;
+
+const DIFF_STYLES = {
+  added: { prefix: '+', bg: 'green.50', color: 'green.800' },
+  removed: { prefix: '-', bg: 'red.50', color: 'red.800' },
+  equal: { prefix: ' ', bg: undefined, color: 'gray.700' },
+};
+
+type DiffRow = VersionDiff['lines'][number] | { op: 'folded'; count: number };
+
+/** Folds unchanged lines that are not near a change. */
+const foldUnchanged = (lines: VersionDiff['lines']): DiffRow[] => {
+  const nearChange = lines.map((_, index) => lines
+    .slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1)
+    .some((line) => line.op !== 'equal'));
+  const rows: DiffRow[] = [];
+  lines.forEach((line, index) => {
+    if (line.op !== 'equal' || nearChange[index]) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last?.op === 'folded') {
+      last.count += 1;
+    } else {
+      rows.push({ op: 'folded', count: 1 });
+    }
+  });
+  return rows;
+};
+
+const DiffView: React.FC<{ diff: VersionDiff }> = ({ diff }) => {
+  if (diff.added === 0 && diff.removed === 0) {
+    return <Text fontSize="sm" color="gray.500">No text changes</Text>;
+  }
+  return (
+    <Box data-testid="version-diff" border="1px solid" borderColor="gray.200" borderRadius="md" overflowX="auto">
+      <Text fontSize="xs" color="gray.600" px={2} py={1} borderBottom="1px solid" borderColor="gray.200">
+        <Text as="span" color="green.700">+{diff.added}</Text>{' '}
+        <Text as="span" color="red.700">-{diff.removed}</Text> lines
+        {!diff.againstVersionId && ' · first version'}
+      </Text>
+      <Box as="pre" fontFamily="mono" fontSize="xs" py={1}>
+        {foldUnchanged(diff.lines).map((row, index) => (row.op === 'folded' ? (
+          <Box key={index} px={2} color="gray.400">
+            ··· {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+          </Box>
+        ) : (
+          <Box key={index} px={2} bg={DIFF_STYLES[row.op].bg} color={DIFF_STYLES[row.op].color}>
+            {DIFF_STYLES[row.op].prefix} {row.text}
+          </Box>
+        )))}
+      </Box>
+    </Box>
+  );
+};
+
+interface VersionHistoryDrawerProps {
+  pkbId: string;
+  /** The item whose history to show; the drawer is closed when undefined. */
+  item?: ContentItem;
+  canEdit: boolean;
+  /** Called after a restore, so the content list shows the item re-indexing. */
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+export const VersionHistoryDrawer: React.FC<VersionHistoryDrawerProps> = ({
+  pkbId,
+  item,
+  canEdit,
+  onRestored,
+  onClose,
+}) => {
+  const toast = useToast();
+  const [versions, setVersions] = useState<ContentVersion[] | null>(null);
+  const [diffable, setDiffable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, VersionDiff | 'loading' | Error>>({});
+  const [restoringId, setRestoringId] = useState<string | undefined>();
+
+  const load = useCallback(async () => {
+    if (!item) {
+      return;
+    }
+    try {
+      const history = await listVersions(pkbId, item.contentId);
+      setVersions(history.versions);
+      setDiffable(history.diffable);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    }
+  }, [pkbId, item]);
+
+  useEffect(() => {
+    setVersions(null);
+    setError(null);
+    setDiffs({});
+    load();
+  }, [load]);
+
+  const toggleDiff = async (version: ContentVersion) => {
+    if (!item) {
+      return;
+    }
+    if (diffs[version.versionId]) {
+      setDiffs(({ [version.versionId]: _, ...rest }) => rest);
+      return;
+    }
+    setDiffs((current) => ({ ...current, [version.versionId]: 'loading' }));
+    try {
+      const diff = await getVersionDiff(pkbId, item.contentId, version.versionId);
+      setDiffs((current) => ({ ...current, [version.versionId]: diff }));
+    } catch (diffError) {
+      setDiffs((current) => ({ ...current, [version.versionId]: diffError as Error }));
+    }
+  };
+
+  const open = async (version: ContentVersion) => {
+    if (!item) {
+      return;
+    }
+    try {
+      const { url } = await getDownloadUrl(pkbId, item.contentId, version.versionId);
+      window.open(url, '_blank', 'noopener');
+    } catch (openError) {
+      toast({ title: (openError as Error).message, status: 'error' });
+    }
+  };
+
+  const restore = async (version: ContentVersion) => {
+    if (!item) {
+      return;
+    }
+    setRestoringId(version.versionId);
+    try {
+      await restoreVersion(pkbId, item.contentId, version.versionId);
+      toast({
+        title: 'Version restored successfully',
+        description: 'It will be re-indexed shortly.',
+        status: 'success',
+      });
+      onRestored();
+      setDiffs({});
+      await load();
+    } catch (restoreError) {
+      toast({ title: (restoreError as Error).message, status: 'error' });
+    } finally {
+      setRestoringId(undefined);
+    }
+  };
+
+  const renderDiff = (versionId: string) => {
+    const diff = diffs[versionId];
+    if (!diff) {
+      return null;
+    }
+    if (diff === 'loading') {
+      return <Spinner size="sm" color="brand.500" />;
+    }
+    if (diff instanceof Error) {
+      return <Text fontSize="sm" color="red.600" role="alert">{diff.message}</Text>;
+    }
+    return <DiffView diff={diff} />;
+  };
+
+  return (
+    <Drawer isOpen={item !== undefined} placement="right" size="md" onClose={onClose}>
+      <DrawerOverlay />
+      <DrawerContent data-testid="history-drawer">
+        <DrawerCloseButton />
+        <DrawerHeader borderBottomWidth="1px">
+          <Text>Version history</Text>
+          <Text fontSize="sm" fontWeight="normal" color="gray.600" noOfLines={1}>{item?.fileName}</Text>
+        </DrawerHeader>
+        <DrawerBody>
+          {error && (
+            <Alert status="error" mt={4}>
+              <AlertIcon />
+              {error}
+            </Alert>
+          )}
+          {!error && !versions && (
+            <Center py={10}>
+              <Spinner color="brand.500" />
+            </Center>
+          )}
+          {versions?.length === 0 && (
+            <Text color="gray.500" mt={4}>
+              {item?.kind === 'note'
+                ? 'Short notes are saved on the item itself, so only their latest text is kept.'
+                : 'No stored versions yet.'}
+            </Text>
+          )}
+          <VStack spacing={3} align="stretch" mt={4}>
+            {versions?.map((version) => (
+              <Box
+                key={version.versionId}
+                data-testid="version-item"
+                p={3}
+                border="1px solid"
+                borderColor={version.isLatest ? 'brand.200' : 'gray.200'}
+                borderRadius="md"
+              >
+                <HStack justify="space-between" align="flex-start">
+                  <Box minW={0}>
+                    <HStack>
+                      <Text fontSize="sm" fontWeight="medium">
+                        {new Date(version.lastModified).toLocaleString()}
+                      </Text>
+                      {version.isLatest && <Badge colorScheme="brand">Current</Badge>}
+                    </HStack>
+                    <Text fontSize="xs" color="gray.600" noOfLines={1}>
+                      {version.uploadedByEmail ?? (version.uploadedBy ? 'A former member' : 'Unknown uploader')}
+                      {' · '}
+                      {formatBytes(version.size)}
+                    </Text>
+                    {version.restoredFrom && (
+                      <Text fontSize="xs" color="gray.500">Restored from an earlier version</Text>
+                    )}
+                  </Box>
+                  {canEdit && !version.isLatest && (
+                    <Button
+                      data-testid="restore-version-button"
+                      size="xs"
+                      leftIcon={<RepeatClockIcon />}
+                      variant="outline"
+                      isLoading={restoringId === version.versionId}
+                      isDisabled={restoringId !== undefined || item?.status !== 'uploaded'}
+                      onClick={() => restore(version)}
+                    >
+                      Restore
+                    </Button>
+                  )}
+                </HStack>
+                <HStack spacing={1} mt={2}>
+                  {diffable && (
+                    <Button data-testid="view-changes-button" size="xs" variant="ghost" onClick={() => toggleDiff(version)}>
+                      {diffs[version.versionId] ? 'Hide changes' : 'View changes'}
+                    </Button>
+                  )}
+                  <Button size="xs" variant="ghost" rightIcon={<ExternalLinkIcon />} onClick={() => open(version)}>
+                    Open
+                  </Button>
+                </HStack>
+                <Box mt={2}>{renderDiff(version.versionId)}</Box>
+              </Box>
+            ))}
+          </VStack>
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
@@ -0,0 +1,305 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Auth, Hub } from 'aws-amplify';
+
+export interface AuthUser {
+  username: string;
+  sub: string;
+  email?: string;
+  givenName?: string;
+  familyName?: string;
+}
+
+export interface AuthResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface SignUpDetails {
+  username: string;
+  email: string;
+  password: string;
+  givenName: string;
+  familyName: string;
+}
+
+export type FederatedProvider = 'Google' | 'Microsoft';
+
+interface AuthState {
+  isAuthenticated: boolean;
+  user: AuthUser | null;
+  isLoading: boolean;
+  /** Set when the session ends unexpectedly or a Hosted UI sign-in fails. */
+  error: string | null;
+}
+
+export interface SignInResult extends AuthResult {
+  /** The account has not been confirmed with its e-mailed code yet. */
+  unconfirmed?: boolean;
+  /** The password was accepted; finish with {@link AuthContextValue.confirmMfa}. */
+  mfaRequired?: boolean;
+}
+
+export interface AuthContextValue extends AuthState {
+  signIn: (username: string, password: string) => Promise<SignInResult>;
+  /** Completes a sign-in that asked for an authenticator code. */
+  confirmMfa: (code: string, rememberDevice: boolean) => Promise<AuthResult>;
+  signUp: (details: SignUpDetails) => Promise<AuthResult & { destination?: string }>;
+  confirmSignUp: (username: string, code: string) => Promise<AuthResult>;
+  resendConfirmationCode: (username: string) => Promise<AuthResult & { destination?: string }>;
+  federatedSignIn: (provider: FederatedProvider) => Promise<void>;
+  /** With `global`, also revokes the sessions on every other device. */
+  signOut: (options?: { global?: boolean }) => Promise<AuthResult>;
+  /** Reloads the user's attributes, e.g. after editing their profile. */
+  refreshUser: () => Promise<void>;
+  clearError: () => void;
+}
+
+interface AmplifyUser {
+  username: string;
+  attributes?: Record<string, string>;
+}
+
+type Session = Awaited<ReturnType<typeof Auth.currentSession>>;
+
+/** Refresh the ID token this long before it expires. */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const TOTP_CHALLENGE = 'SOFTWARE_TOKEN_MFA';
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  NotAuthorizedException: 'Invalid username or password',
+  UserNotFoundException: 'Invalid username or password',
+  UserNotConfirmedException: 'Please confirm your account before signing in',
+  UsernameExistsException: 'An account with this username already exists',
+  AliasExistsException: 'An account with this email already exists',
+  InvalidPasswordException: 'Password does not meet requirements',
+  CodeMismatchException: 'Invalid verification code',
+  EnableSoftwareTokenMFAException: 'Invalid authenticator code',
+  ExpiredCodeException: 'Verification code has expired, request a new one',
+  LimitExceededException: 'Too many attempts, please try again later',
+  TooManyRequestsException: 'Too many attempts, please try again later',
+};
+
+/** Turns Cognito and Amplify errors into messages fit for the UI. */
+export const describeAuthError = (error: unknown): string => {
+  const { code, name, message } = (error ?? {}) as { code?: string; name?: string; message?: string };
+  return AUTH_ERROR_MESSAGES[code ?? name ?? ''] ?? message ?? 'Something went wrong, please try again';
+};
+
+const toAuthUser = (user: AmplifyUser): AuthUser => ({
+  username: user.username,
+  sub: user.attributes?.sub ?? user.username,
+  email: user.attributes?.email,
+  givenName: user.attributes?.given_name,
+  familyName: user.attributes?.family_name,
+});
+
+/** Exchanges the refresh token for new ID and access tokens. */
+const refreshSession = async (): Promise<Session> => {
+  const cognitoUser = await Auth.currentAuthenticatedUser();
+  const session = await Auth.currentSession();
+  return new Promise((resolve, reject) => {
+    cognitoUser.refreshSession(session.getRefreshToken(), (error: Error | null, refreshed: Session) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(refreshed);
+      }
+    });
+  });
+};
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+const signedOut: AuthState = { isAuthenticated: false, user: null, isLoading: false, error: null };
+
+/**
+ * Holds the signed-in user for the whole app. Tokens are refreshed shortly
+ * before they expire, and federated sign-ins completed on the Hosted UI
+ * callback are picked up through Amplify's Hub.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [authState, setAuthState] = useState<AuthState>({ ...signedOut, isLoading: true });
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+  // The Cognito user between the password step and the MFA step of a sign-in.
+  const pendingMfaUser = useRef<unknown>();
+
+  const scheduleRefresh = useCallback((session: Session) => {
+    clearTimeout(refreshTimer.current);
+    const expiresAt = session.getIdToken().getExpiration() * 1000;
+    const delay = Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+    refreshTimer.current = setTimeout(async () => {
+      try {
+        scheduleRefresh(await refreshSession());
+      } catch {
+        setAuthState({ ...signedOut, error: 'Your session has expired. Please sign in again.' });
+      }
+    }, delay);
+  }, []);
+
+  const loadUser = useCallback(async () => {
+    try {
+      const user: AmplifyUser = await Auth.currentAuthenticatedUser({ bypassCache: true });
+      scheduleRefresh(await Auth.currentSession());
+      setAuthState({ isAuthenticated: true, user: toAuthUser(user), isLoading: false, error: null });
+    } catch {
+      clearTimeout(refreshTimer.current);
+      setAuthState((current) => ({ ...signedOut, error: current.error }));
+    }
+  }, [scheduleRefresh]);
+
+  useEffect(() => {
+    loadUser();
+    const stopListening = Hub.listen('auth', ({ payload }) => {
+      switch (payload.event) {
+        case 'signIn':
+        case 'cognitoHostedUI':
+          loadUser();
+          break;
+        case 'signOut':
+          clearTimeout(refreshTimer.current);
+          setAuthState(signedOut);
+          break;
+        case 'signIn_failure':
+        case 'cognitoHostedUI_failure':
+          setAuthState({ ...signedOut, error: describeAuthError(payload.data) });
+          break;
+        case 'tokenRefresh_failure':
+          clearTimeout(refreshTimer.current);
+          setAuthState({ ...signedOut, error: 'Your session has expired. Please sign in again.' });
+          break;
+        default:
+          break;
+      }
+    });
+    return () => {
+      stopListening();
+      clearTimeout(refreshTimer.current);
+    };
+  }, [loadUser]);
+
+  const signIn = useCallback(async (username: string, password: string): Promise<SignInResult> => {
+    try {
+      pendingMfaUser.current = undefined;
+      const user = await Auth.signIn(username, password);
+      if (user.challengeName === TOTP_CHALLENGE) {
+        pendingMfaUser.current = user;
+        return { success: false, mfaRequired: true };
+      }
+      if (user.challengeName) {
+        return { success: false, error: 'Additional verification is required to sign in' };
+      }
+      await loadUser();
+      return { success: true };
+    } catch (error) {
+      const unconfirmed = (error as { code?: string }).code === 'UserNotConfirmedException';
+      return { success: false, error: describeAuthError(error), unconfirmed };
+    }
+  }, [loadUser]);
+
+  const confirmMfa = useCallback(async (code: string, rememberDevice: boolean) => {
+    if (!pendingMfaUser.current) {
+      return { success: false, error: 'Your sign-in has expired, please enter your password again' };
+    }
+    try {
+      await Auth.confirmSignIn(pendingMfaUser.current, code, TOTP_CHALLENGE);
+      pendingMfaUser.current = undefined;
+      if (rememberDevice) {
+        await Auth.rememberDevice();
+      }
+      await loadUser();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: describeAuthError(error) };
+    }
+  }, [loadUser]);
+
+  const signUp = useCallback(async (details: SignUpDetails) => {
+    try {
+      const result = await Auth.signUp({
+        username: details.username,
+        password: details.password,
+        attributes: {
+          email: details.email,
+          given_name: details.givenName,
+          family_name: details.familyName,
+        },
+      });
+      return { success: true, destination: result.codeDeliveryDetails?.Destination };
+    } catch (error) {
+      return { success: false, error: describeAuthError(error) };
+    }
+  }, []);
+
+  const confirmSignUp = useCallback(async (username: string, code: string) => {
+    try {
+      await Auth.confirmSignUp(username, code);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: describeAuthError(error) };
+    }
+  }, []);
+
+  const resendConfirmationCode = useCallback(async (username: string) => {
+    try {
+      const result = await Auth.resendSignUp(username);
+      return { success: true, destination: result?.CodeDeliveryDetails?.Destination };
+    } catch (error) {
+      return { success: false, error: describeAuthError(error) };
+    }
+  }, []);
+
+  const federatedSignIn = useCallback(async (provider: FederatedProvider) => {
+    // Redirects to the Hosted UI; the app reloads on the callback URL.
+    await Auth.federatedSignIn({ customProvider: provider });
+  }, []);
+
+  const signOut = useCallback(async (options: { global?: boolean } = {}) => {
+    try {
+      await Auth.signOut({ global: options.global ?? false });
+      clearTimeout(refreshTimer.current);
+      setAuthState(signedOut);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: describeAuthError(error) };
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setAuthState((current) => ({ ...current, error: null }));
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    ...authState,
+    signIn,
+    confirmMfa,
+    signUp,
+    confirmSignUp,
+    resendConfirmationCode,
+    federatedSignIn,
+    signOut,
+    refreshUser: loadUser,
+    clearError,
+  }), [
+    authState,
+    signIn,
+    confirmMfa,
+    signUp,
+    confirmSignUp,
+    resendConfirmationCode,
+    federatedSignIn,
+    signOut,
+    loadUser,
+    clearError,
+  ]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
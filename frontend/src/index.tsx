@@ -3,6 +3,10 @@ import ReactDOM from 'react-dom/client';
 import { ChakraProvider, extendTheme } from '@chakra-ui/react';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import { AuthProvider } from './hooks/useAuth';
+import { configureAmplify } from './services/amplify';
+
+configureAmplify();
 
 // Custom theme inspired by Notion/Figma/Linear
 const theme = extendTheme({
@@ -93,7 +97,9 @@ root.render(
   <React.StrictMode>
     <ChakraProvider theme={theme}>
       <BrowserRouter>
-        <App />
+        <AuthProvider>
+          <App />
+        </AuthProvider>
       </BrowserRouter>
     </ChakraProvider>
   </React.StrictMode>
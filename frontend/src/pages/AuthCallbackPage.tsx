@@ -0,0 +1,35 @@
+import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Alert, AlertIcon, Link, Spinner, Text } from '@chakra-ui/react';
+import { useAuth } from '../hooks/useAuth';
+import { AuthCard } from '../components/AuthCard';
+
+/**
+ * Landing page for the Hosted UI redirect. Amplify exchanges the
+ * authorization code on load; the app moves on to the dashboard once the
+ * auth context reports the user as signed in.
+ */
+export const AuthCallbackPage: React.FC = () => {
+  const { error } = useAuth();
+
+  if (error) {
+    return (
+      <AuthCard title="Sign-in failed">
+        <Alert status="error" borderRadius="md" role="alert">
+          <AlertIcon />
+          {error}
+        </Alert>
+        <Link as={RouterLink} to="/login" color="brand.500">
+          Back to sign in
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Signing you in">
+      <Spinner size="lg" color="brand.500" />
+      <Text color="gray.600">Completing sign-in, one moment...</Text>
+    </AuthCard>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Link as RouterLink, useLocation, useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  AlertIcon,
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Link,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { useAuth } from '../hooks/useAuth';
+import { AuthCard } from '../components/AuthCard';
+
+interface ConfirmLocationState {
+  username?: string;
+  destination?: string;
+}
+
+export const ConfirmSignUpPage: React.FC = () => {
+  const { confirmSignUp, resendConfirmationCode } = useAuth();
+  const navigate = useNavigate();
+  const state = (useLocation().state ?? {}) as ConfirmLocationState;
+
+  const [username, setUsername] = useState(state.username ?? '');
+  const [code, setCode] = useState('');
+  const [destination, setDestination] = useState(state.destination);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setNotice(null);
+    if (!username.trim() || !code.trim()) {
+      setError('Enter your username and the verification code');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await confirmSignUp(username.trim(), code.trim());
+    setIsSubmitting(false);
+    if (!result.success) {
+      setError(result.error ?? 'Confirmation failed');
+      return;
+    }
+    navigate('/login', {
+      state: { username: username.trim(), message: 'Your account is confirmed. Please sign in.' },
+    });
+  };
+
+  const handleResend = async () => {
+    setError(null);
+    setNotice(null);
+    if (!username.trim()) {
+      setError('Enter your username to receive a new code');
+      return;
+    }
+    const result = await resendConfirmationCode(username.trim());
+    if (!result.success) {
+      setError(result.error ?? 'Could not send a new code');
+      return;
+    }
+    setDestination(result.destination);
+    setNotice('A new verification code has been sent');
+  };
+
+  return (
+    <AuthCard
+      title="Confirm your account"
+      subtitle={`Please check your email for verification${destination ? ` (sent to ${destination})` : ''} and enter the code below.`}
+    >
+      {error && (
+        <Alert status="error" borderRadius="md" role="alert">
+          <AlertIcon />
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          {notice}
+        </Alert>
+      )}
+
+      <VStack as="form" spacing={4} w="full" onSubmit={handleSubmit} noValidate>
+        <FormControl>
+          <FormLabel fontSize="sm" color="gray.700">Username</FormLabel>
+          <Input
+            data-testid="username-input"
+            autoComplete="username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+          />
+        </FormControl>
+
+        <FormControl>
+          <FormLabel fontSize="sm" color="gray.700">Verification code</FormLabel>
+          <Input
+            data-testid="confirmation-code-input"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+          />
+        </FormControl>
+
+        <Button
+          data-testid="confirm-signup-button"
+          type="submit"
+          w="full"
+          bg="brand.500"
+          color="white"
+          _hover={{ bg: 'brand.600' }}
+          size="lg"
+          isLoading={isSubmitting}
+        >
+          Confirm Account
+        </Button>
+      </VStack>
+
+      <Text fontSize="sm" color="gray.500">
+        Didn't get a code?{' '}
+        <Link data-testid="resend-code-button" as="button" color="brand.500" onClick={handleResend}>
+          Send a new one
+        </Link>
+        {' · '}
+        <Link as={RouterLink} to="/login" color="brand.500">
+          Back to sign in
+        </Link>
+      </Text>
+    </AuthCard>
+  );
+};
@@ -1,7 +1,149 @@
-import React from 'react';
-import { Box, Heading, Text, Button, VStack, HStack, SimpleGrid } from '@chakra-ui/react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogOverlay,
+  Box,
+  Button,
+  Center,
+  Heading,
+  HStack,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { SearchIcon } from '@chakra-ui/icons';
+import { PkbCard } from '../components/PkbCard';
+import { PkbFormModal } from '../components/PkbFormModal';
+import { PendingInvitations } from '../components/PendingInvitations';
+import { Invitation, acceptInvitation, declineInvitation, listMyInvitations } from '../services/members';
+import {
+  Pkb,
+  PkbInput,
+  createPkb,
+  deletePkb,
+  lastActivityAt,
+  listPkbs,
+  updatePkb,
+} from '../services/pkbs';
+
+type SortOrder = 'updated' | 'name';
+
+const comparators: Record<SortOrder, (a: Pkb, b: Pkb) => number> = {
+  updated: (a, b) => lastActivityAt(b).localeCompare(lastActivityAt(a)),
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+};
+
+const EMPTY_STATS: Pkb['contentStats'] = { total: 0, ready: 0, processing: 0, failed: 0 };
 
 export const DashboardPage: React.FC = () => {
+  const toast = useToast();
+  const [pkbs, setPkbs] = useState<Pkb[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('updated');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Pkb | undefined>();
+  const [deleting, setDeleting] = useState<Pkb | undefined>();
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const cancelDeleteRef = useRef<HTMLButtonElement>(null);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({ title, description: (error as Error).message, status: 'error', duration: 5000, isClosable: true });
+  }, [toast]);
+
+  useEffect(() => {
+    listPkbs()
+      .then(setPkbs)
+      .catch((error) => showError('Could not load PKBs', error))
+      .finally(() => setIsLoading(false));
+    // Accounts without a verified address cannot be invited, so there is nothing to show.
+    listMyInvitations().then(setInvitations).catch(() => setInvitations([]));
+  }, [showError]);
+
+  const visiblePkbs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return pkbs
+      .filter((pkb) => !query
+        || pkb.name.toLowerCase().includes(query)
+        || pkb.description.toLowerCase().includes(query))
+      .sort(comparators[sortOrder]);
+  }, [pkbs, search, sortOrder]);
+
+  const openCreate = () => {
+    setEditing(undefined);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (pkb: Pkb) => {
+    setEditing(pkb);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (input: PkbInput) => {
+    try {
+      if (editing) {
+        const updated = await updatePkb(editing.pkbId, input);
+        setPkbs((current) => current.map((pkb) => (pkb.pkbId === updated.pkbId ? { ...pkb, ...updated } : pkb)));
+        toast({ title: 'PKB updated successfully', status: 'success' });
+      } else {
+        const created = await createPkb(input);
+        setPkbs((current) => [...current, { ...created, role: 'owner', contentStats: EMPTY_STATS }]);
+        toast({ title: 'PKB created successfully', status: 'success' });
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      showError(editing ? 'Could not update PKB' : 'Could not create PKB', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) {
+      return;
+    }
+    setIsDeleting(true);
+    try {
+      await deletePkb(deleting.pkbId);
+      setPkbs((current) => current.filter((pkb) => pkb.pkbId !== deleting.pkbId));
+      toast({ title: 'PKB deleted successfully', status: 'success' });
+      setDeleting(undefined);
+    } catch (error) {
+      showError('Could not delete PKB', error);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleAccept = async (invitation: Invitation) => {
+    try {
+      await acceptInvitation(invitation.pkbId);
+      setInvitations((current) => current.filter((entry) => entry.pkbId !== invitation.pkbId));
+      setPkbs(await listPkbs());
+      toast({ title: `You joined ${invitation.pkbName}`, status: 'success' });
+    } catch (error) {
+      showError('Could not accept the invitation', error);
+    }
+  };
+
+  const handleDecline = async (invitation: Invitation) => {
+    try {
+      await declineInvitation(invitation.pkbId);
+      setInvitations((current) => current.filter((entry) => entry.pkbId !== invitation.pkbId));
+    } catch (error) {
+      showError('Could not decline the invitation', error);
+    }
+  };
+
   return (
     <Box p={6}>
       <VStack spacing={6} align="stretch">
@@ -16,33 +158,121 @@ export const DashboardPage: React.FC = () => {
           </Box>
           <Button
             data-testid="create-pkb-button"
+            aria-label="Create new PKB"
             bg="brand.500"
             color="white"
             _hover={{ bg: 'brand.600' }}
             size="lg"
+            onClick={openCreate}
           >
             Create New PKB
           </Button>
         </HStack>
-        
-        <Box
-          bg="white"
-          p={6}
-          borderRadius="xl"
-          boxShadow="sm"
-          border="1px solid"
-          borderColor="gray.200"
-        >
-          <VStack spacing={4}>
-            <Text color="gray.500" fontSize="lg">
-              No project knowledge bases found
-            </Text>
-            <Text color="gray.400" textAlign="center">
-              Create your first PKB to start organizing your project knowledge
-            </Text>
-          </VStack>
-        </Box>
+
+        <PendingInvitations invitations={invitations} onAccept={handleAccept} onDecline={handleDecline} />
+
+        <HStack spacing={4}>
+          <InputGroup maxW="md">
+            <InputLeftElement pointerEvents="none">
+              <SearchIcon color="gray.400" />
+            </InputLeftElement>
+            <Input
+              data-testid="pkb-search-input"
+              aria-label="Search PKBs"
+              placeholder="Search by name or description"
+              bg="white"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+          </InputGroup>
+          <Select
+            data-testid="pkb-sort-select"
+            aria-label="Sort PKBs"
+            maxW="xs"
+            bg="white"
+            value={sortOrder}
+            onChange={(event) => setSortOrder(event.target.value as SortOrder)}
+          >
+            <option value="updated">Last updated</option>
+            <option value="name">Name</option>
+          </Select>
+        </HStack>
+
+        {isLoading ? (
+          <Center py={12}>
+            <Spinner size="lg" color="brand.500" />
+          </Center>
+        ) : visiblePkbs.length > 0 ? (
+          <SimpleGrid columns={{ base: 1, md: 2, xl: 3 }} spacing={4}>
+            {visiblePkbs.map((pkb) => (
+              <PkbCard key={pkb.pkbId} pkb={pkb} onEdit={openEdit} onDelete={setDeleting} />
+            ))}
+          </SimpleGrid>
+        ) : (
+          <Box
+            bg="white"
+            p={6}
+            borderRadius="xl"
+            boxShadow="sm"
+            border="1px solid"
+            borderColor="gray.200"
+          >
+            <VStack spacing={4}>
+              {pkbs.length > 0 ? (
+                <Text color="gray.500" fontSize="lg">
+                  No PKBs match "{search.trim()}"
+                </Text>
+              ) : (
+                <>
+                  <Text color="gray.500" fontSize="lg">
+                    No project knowledge bases found
+                  </Text>
+                  <Text color="gray.400" textAlign="center">
+                    Create your first PKB to start organizing your project knowledge
+                  </Text>
+                </>
+              )}
+            </VStack>
+          </Box>
+        )}
       </VStack>
+
+      <PkbFormModal
+        isOpen={isFormOpen}
+        pkb={editing}
+        onClose={() => setIsFormOpen(false)}
+        onSubmit={handleSubmit}
+      />
+
+      <AlertDialog
+        isOpen={deleting !== undefined}
+        leastDestructiveRef={cancelDeleteRef}
+        onClose={() => setDeleting(undefined)}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader>Delete PKB</AlertDialogHeader>
+            <AlertDialogBody>
+              Delete "{deleting?.name}"? Its content, search index and conversations are removed for every
+              member, and this cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelDeleteRef} variant="ghost" onClick={() => setDeleting(undefined)}>
+                Cancel
+              </Button>
+              <Button
+                data-testid="confirm-delete-button"
+                colorScheme="red"
+                ml={3}
+                onClick={handleDelete}
+                isLoading={isDeleting}
+              >
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
     </Box>
   );
 };
@@ -1,103 +1,225 @@
-import React from 'react';
-import { Box, Flex, Heading, Text, Button, VStack, HStack } from '@chakra-ui/react';
+import React, { useState } from 'react';
+import { Link as RouterLink, useLocation, useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Link,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { FederatedProvider, useAuth } from '../hooks/useAuth';
+import { AuthCard } from '../components/AuthCard';
+
+interface LoginLocationState {
+  message?: string;
+  username?: string;
+}
 
 export const LoginPage: React.FC = () => {
-  return (
-    <Box minH="100vh" bg="gray.50" display="flex" alignItems="center" justifyContent="center">
-      <Box
-        bg="white"
-        p={8}
-        borderRadius="xl"
-        boxShadow="lg"
-        w="full"
-        maxW="md"
-      >
-        <VStack spacing={6}>
-          <Heading size="lg" color="gray.800">
-            Welcome to ProjectKB
-          </Heading>
-          <Text color="gray.600" textAlign="center">
-            Sign in to access your project knowledge bases
-          </Text>
-          
-          <VStack spacing={4} w="full">
-            <Box w="full">
-              <Text fontSize="sm" color="gray.700" mb={2}>
-                Username
-              </Text>
-              <Box
-                as="input"
-                data-testid="username-input"
-                w="full"
-                p={3}
-                border="1px solid"
-                borderColor="gray.300"
-                borderRadius="md"
-                placeholder="Enter your username"
-                _focus={{
-                  borderColor: 'brand.500',
-                  boxShadow: '0 0 0 1px var(--chakra-colors-brand-500)',
-                }}
-              />
-            </Box>
-            
-            <Box w="full">
-              <Text fontSize="sm" color="gray.700" mb={2}>
-                Password
-              </Text>
-              <Box
-                as="input"
-                data-testid="password-input"
-                type="password"
-                w="full"
-                p={3}
-                border="1px solid"
-                borderColor="gray.300"
-                borderRadius="md"
-                placeholder="Enter your password"
-                _focus={{
-                  borderColor: 'brand.500',
-                  boxShadow: '0 0 0 1px var(--chakra-colors-brand-500)',
-                }}
-              />
-            </Box>
-            
-            <Button
-              data-testid="signin-button"
-              w="full"
-              bg="brand.500"
-              color="white"
-              _hover={{ bg: 'brand.600' }}
-              size="lg"
-            >
-              Sign In
-            </Button>
-          </VStack>
-          
-          <HStack spacing={4} w="full">
-            <Button
-              data-testid="google-login-button"
-              variant="outline"
-              flex={1}
-              leftIcon={<Box>G</Box>}
-            >
-              Google
-            </Button>
-            <Button
-              data-testid="microsoft-login-button"
-              variant="outline"
-              flex={1}
-              leftIcon={<Box>M</Box>}
-            >
-              Microsoft
-            </Button>
-          </HStack>
-          
-          <Text fontSize="sm" color="gray.500">
-            Don't have an account? <Text as="span" color="brand.500" cursor="pointer">Sign up</Text>
-          </Text>
+  const { signIn, confirmMfa, federatedSignIn, error: sessionError, clearError } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const state = (location.state ?? {}) as LoginLocationState;
+
+  const [username, setUsername] = useState(state.username ?? '');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mfaRequired, setMfaRequired] = useState(false);
+  const [mfaCode, setMfaCode] = useState('');
+  const [rememberDevice, setRememberDevice] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    clearError();
+    if (!username.trim() || !password) {
+      setError('Enter your username and password');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await signIn(username.trim(), password);
+    setIsSubmitting(false);
+    if (result.unconfirmed) {
+      navigate('/confirm', { state: { username: username.trim() } });
+    } else if (result.mfaRequired) {
+      setError(null);
+      setMfaRequired(true);
+    } else if (!result.success) {
+      setError(result.error ?? 'Sign in failed');
+    }
+  };
+
+  const handleMfaSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!/^\d{6}$/.test(mfaCode.trim())) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await confirmMfa(mfaCode.trim(), rememberDevice);
+    setIsSubmitting(false);
+    if (!result.success) {
+      setError(result.error ?? 'Verification failed');
+    }
+  };
+
+  const cancelMfa = () => {
+    setMfaRequired(false);
+    setMfaCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const handleFederatedSignIn = async (provider: FederatedProvider) => {
+    clearError();
+    setError(null);
+    try {
+      await federatedSignIn(provider);
+    } catch {
+      setError(`Could not start ${provider} sign-in`);
+    }
+  };
+
+  const message = error ?? sessionError;
+
+  if (mfaRequired) {
+    return (
+      <AuthCard title="Two-step verification" subtitle="Enter the 6-digit code from your authenticator app">
+        {message && (
+          <Alert status="error" borderRadius="md" role="alert">
+            <AlertIcon />
+            {message}
+          </Alert>
+        )}
+        <VStack as="form" spacing={4} w="full" onSubmit={handleMfaSubmit} noValidate>
+          <FormControl>
+            <FormLabel fontSize="sm" color="gray.700">Authentication code</FormLabel>
+            <Input
+              data-testid="mfa-code-input"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={mfaCode}
+              onChange={(event) => setMfaCode(event.target.value)}
+              autoFocus
+            />
+          </FormControl>
+          <Checkbox
+            alignSelf="flex-start"
+            isChecked={rememberDevice}
+            onChange={(event) => setRememberDevice(event.target.checked)}
+          >
+            Remember this device
+          </Checkbox>
+          <Button
+            data-testid="verify-mfa-button"
+            type="submit"
+            w="full"
+            bg="brand.500"
+            color="white"
+            _hover={{ bg: 'brand.600' }}
+            size="lg"
+            isLoading={isSubmitting}
+          >
+            Verify
+          </Button>
         </VStack>
-      </Box>
-    </Box>
+        <Link as="button" fontSize="sm" color="brand.500" onClick={cancelMfa}>
+          Use a different account
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Welcome to ProjectKB" subtitle="Sign in to access your project knowledge bases">
+      {state.message && !message && (
+        <Alert status="success" borderRadius="md">
+          <AlertIcon />
+          {state.message}
+        </Alert>
+      )}
+      {message && (
+        <Alert status="error" borderRadius="md" role="alert">
+          <AlertIcon />
+          {message}
+        </Alert>
+      )}
+
+      <VStack as="form" spacing={4} w="full" onSubmit={handleSubmit} noValidate>
+        <FormControl>
+          <FormLabel fontSize="sm" color="gray.700">Username</FormLabel>
+          <Input
+            data-testid="username-input"
+            placeholder="Enter your username or email"
+            autoComplete="username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+          />
+        </FormControl>
+
+        <FormControl>
+          <FormLabel fontSize="sm" color="gray.700">Password</FormLabel>
+          <Input
+            data-testid="password-input"
+            type="password"
+            placeholder="Enter your password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </FormControl>
+
+        <Button
+          data-testid="signin-button"
+          type="submit"
+          w="full"
+          bg="brand.500"
+          color="white"
+          _hover={{ bg: 'brand.600' }}
+          size="lg"
+          isLoading={isSubmitting}
+        >
+          Sign In
+        </Button>
+      </VStack>
+
+      <HStack spacing={4} w="full">
+        <Button
+          data-testid="google-login-button"
+          variant="outline"
+          flex={1}
+          leftIcon={<Box>G</Box>}
+          onClick={() => handleFederatedSignIn('Google')}
+        >
+          Google
+        </Button>
+        <Button
+          data-testid="microsoft-login-button"
+          variant="outline"
+          flex={1}
+          leftIcon={<Box>M</Box>}
+          onClick={() => handleFederatedSignIn('Microsoft')}
+        >
+          Microsoft
+        </Button>
+      </HStack>
+
+      <Text fontSize="sm" color="gray.500">
+        Don't have an account?{' '}
+        <Link as={RouterLink} to="/signup" color="brand.500">
+          Sign up
+        </Link>
+      </Text>
+    </AuthCard>
   );
 };
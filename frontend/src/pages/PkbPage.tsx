@@ -1,15 +1,538 @@
-import React from 'react';
-import { Box, Heading, Text } from '@chakra-ui/react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogOverlay,
+  Badge,
+  Box,
+  Heading,
+  Text,
+  Button,
+  HStack,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { EditIcon, StarIcon } from '@chakra-ui/icons';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { ChatPanel } from '../components/ChatPanel';
+import { ConversationSidebar } from '../components/ConversationSidebar';
+import { ContentFilterBar } from '../components/ContentFilterBar';
+import { ContentPreview } from '../components/ContentPreview';
+import { ContentPropertiesModal } from '../components/ContentPropertiesModal';
+import { ContentTable } from '../components/ContentTable';
+import { FileUploader } from '../components/FileUploader';
+import { FolderTree } from '../components/FolderTree';
+import { MembersModal } from '../components/MembersModal';
+import { MetadataFieldsModal } from '../components/MetadataFieldsModal';
+import { NoteEditor } from '../components/NoteEditor';
+import { SuggestionsPanel } from '../components/SuggestionsPanel';
+import { VersionHistoryDrawer } from '../components/VersionHistoryDrawer';
+import { AiScope, Citation } from '../services/aiStream';
+import {
+  BulkAction,
+  ContentItem,
+  ContentProperties,
+  Folder,
+  bulkUpdateContent,
+  createFolder,
+  deleteContent,
+  deleteFolder,
+  listContent,
+  listFolders,
+  updateFolder,
+  updateProperties,
+} from '../services/content';
+import { MetadataField, Pkb, getPkb, updateMetadataFields } from '../services/pkbs';
+import {
+  Suggestion,
+  acceptSuggestion,
+  dismissSuggestion,
+  listSuggestions,
+  refreshSuggestions,
+} from '../services/suggestions';
+import {
+  Conversation,
+  deleteConversation,
+  listConversations,
+  renameConversation,
+} from '../services/conversations';
+import {
+  ContentFilter,
+  EMPTY_FILTER,
+  collectTags,
+  filterContent,
+  folderPath,
+  isFiltered,
+  subtreeOf,
+} from '../utils/folders';
+
+/** How often to re-check content while uploads or ingestion are in flight. */
+const STATUS_POLL_MS = 5000;
+
+/** Items per bulk request, the most the content Lambda accepts. */
+const BULK_BATCH_SIZE = 100;
+
+const isSettled = (item: ContentItem) => item.status === 'uploaded'
+  && !item.pendingUpload
+  && (item.ingestionStatus === 'ready' || item.ingestionStatus === 'failed');
 
 export const PkbPage: React.FC = () => {
+  const { pkbId = '' } = useParams<{ pkbId: string }>();
+  const navigate = useNavigate();
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | undefined>();
+  const [pkb, setPkb] = useState<Pkb | null>(null);
+  const [content, setContent] = useState<ContentItem[]>([]);
+  const [previewing, setPreviewing] = useState<{ item: ContentItem; startTime?: number } | undefined>();
+  /** The note being edited; `note` is unset for a new one. */
+  const [editingNote, setEditingNote] = useState<{ note?: ContentItem } | undefined>();
+  const [historyItem, setHistoryItem] = useState<ContentItem | undefined>();
+  const [deleting, setDeleting] = useState<ContentItem | undefined>();
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [filter, setFilter] = useState<ContentFilter>(EMPTY_FILTER);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  const [propertiesItem, setPropertiesItem] = useState<ContentItem | undefined>();
+  const [isFieldsOpen, setIsFieldsOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const cancelDeleteRef = useRef<HTMLButtonElement>(null);
+  const toast = useToast();
+
+  const showError = useCallback((error: unknown) => {
+    toast({ title: (error as Error).message, status: 'error', duration: 5000, isClosable: true });
+  }, [toast]);
+
+  const refreshContent = useCallback(async () => {
+    try {
+      setContent(await listContent(pkbId));
+    } catch (error) {
+      showError(error);
+    }
+  }, [pkbId, showError]);
+
+  useEffect(() => {
+    getPkb(pkbId).then(setPkb).catch(showError);
+    refreshContent();
+    listFolders(pkbId).then(setFolders).catch(showError);
+    listSuggestions(pkbId).then(setSuggestions).catch(showError);
+    setFilter(EMPTY_FILTER);
+    setSelectedIds(new Set());
+  }, [pkbId, refreshContent, showError]);
+
+  const hasPendingContent = content.some((item) => !isSettled(item));
+  useEffect(() => {
+    if (!hasPendingContent) {
+      return undefined;
+    }
+    const timer = setInterval(refreshContent, STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasPendingContent, refreshContent]);
+
+  const handleDeleteContent = async () => {
+    if (!deleting) {
+      return;
+    }
+    setIsDeleting(true);
+    try {
+      await deleteContent(pkbId, deleting.contentId);
+      setContent((current) => current.filter((item) => item.contentId !== deleting.contentId));
+      toast({ title: 'Content deleted successfully', status: 'success' });
+      setDeleting(undefined);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const openItem = (item: ContentItem, startTime?: number) => {
+    if (item.kind === 'note') {
+      setEditingNote({ note: item });
+    } else {
+      setPreviewing({ item, startTime });
+    }
+  };
+
+  const handleCitationSelect = (citation: Citation) => {
+    const item = content.find((candidate) => candidate.contentId === citation.contentId);
+    if (item) {
+      openItem(item, citation.startTime);
+    } else {
+      toast({ title: `${citation.fileName} is no longer in this PKB`, status: 'warning' });
+    }
+  };
+
+  const canEdit = pkb?.role === 'owner' || pkb?.role === 'editor';
+  const metadataFields = useMemo(() => pkb?.metadataFields ?? [], [pkb]);
+  const visibleContent = useMemo(() => filterContent(content, folders, filter), [content, folders, filter]);
+  const visibleSelection = visibleContent.filter((item) => selectedIds.has(item.contentId));
+
+  // AI answers can be limited to the selected folder and tag; metadata filters only narrow the list.
+  const aiScope: AiScope | undefined = filter.folderId || filter.tag
+    ? { folderId: filter.folderId, tag: filter.tag }
+    : undefined;
+  const aiScopeLabel = [
+    filter.folderId && folderPath(folders, filter.folderId),
+    filter.tag && `#${filter.tag}`,
+  ].filter(Boolean).join(' · ');
+
+  const replaceItems = (updated: ContentItem[]) => {
+    const byId = new Map(updated.map((item) => [item.contentId, item]));
+    setContent((current) => current.map((item) => byId.get(item.contentId) ?? item));
+  };
+
+  const handleCreateFolder = async (name: string, parentId?: string) => {
+    try {
+      const folder = await createFolder(pkbId, name, parentId);
+      setFolders((current) => [...current, folder]);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRenameFolder = async (folder: Folder, name: string) => {
+    try {
+      const renamed = await updateFolder(pkbId, folder.folderId, { name });
+      setFolders((current) =>
+        current.map((candidate) => (candidate.folderId === renamed.folderId ? renamed : candidate)));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteFolder = async (folder: Folder) => {
+    try {
+      await deleteFolder(pkbId, folder.folderId);
+      setFolders((current) => current.filter((candidate) => candidate.folderId !== folder.folderId));
+      if (filter.folderId && subtreeOf(folders, folder.folderId).has(filter.folderId)) {
+        setFilter((current) => ({ ...current, folderId: folder.parentId }));
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSaveProperties = async (item: ContentItem, properties: ContentProperties) => {
+    try {
+      replaceItems([await updateProperties(pkbId, item.contentId, properties)]);
+      setPropertiesItem(undefined);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleBulkAction = async (change: BulkAction) => {
+    const contentIds = visibleSelection.map((item) => item.contentId);
+    setIsBulkWorking(true);
+    try {
+      for (let start = 0; start < contentIds.length; start += BULK_BATCH_SIZE) {
+        const { items } = await bulkUpdateContent(pkbId, contentIds.slice(start, start + BULK_BATCH_SIZE), change);
+        replaceItems(items);
+      }
+      toast({ title: `Updated ${contentIds.length} ${contentIds.length === 1 ? 'item' : 'items'}`, status: 'success' });
+      setSelectedIds(new Set());
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  const handleSaveFields = async (fields: MetadataField[]) => {
+    try {
+      const updated = await updateMetadataFields(pkbId, fields);
+      setPkb((current) => current && { ...current, metadataFields: updated.metadataFields });
+      const keys = new Set((updated.metadataFields ?? []).map((field) => field.key));
+      setFilter((current) => ({
+        ...current,
+        metadata: Object.fromEntries(Object.entries(current.metadata).filter(([key]) => keys.has(key))),
+      }));
+      setIsFieldsOpen(false);
+    } catch (error) {
+      showError(error);
+    }
+  };
+  const openSuggestionCount = suggestions.filter((suggestion) => suggestion.status === 'open').length;
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    try {
+      setSuggestions(await refreshSuggestions(pkbId));
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const resolveSuggestion = async (suggestion: Suggestion, accept: boolean) => {
+    try {
+      const resolved = accept
+        ? await acceptSuggestion(pkbId, suggestion.suggestionId)
+        : await dismissSuggestion(pkbId, suggestion.suggestionId);
+      setSuggestions((current) => current.map((candidate) =>
+        (candidate.suggestionId === resolved.suggestionId ? resolved : candidate)));
+      if (accept && (suggestion.type === 'summary' || suggestion.type === 'stale')) {
+        refreshContent();
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await listConversations(pkbId));
+    } catch (error) {
+      showError(error);
+    }
+  }, [pkbId, showError]);
+
+  useEffect(() => {
+    if (isChatOpen) {
+      refreshConversations();
+    }
+  }, [isChatOpen, refreshConversations]);
+
+  const handleConversationStarted = (conversationId: string) => {
+    setActiveConversationId(conversationId);
+    refreshConversations();
+  };
+
+  const handleRename = async (conversationId: string, title: string) => {
+    try {
+      const renamed = await renameConversation(pkbId, conversationId, title);
+      setConversations((current) =>
+        current.map((conversation) => (conversation.conversationId === conversationId ? renamed : conversation)));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    try {
+      await deleteConversation(pkbId, conversationId);
+      setConversations((current) => current.filter((conversation) => conversation.conversationId !== conversationId));
+      if (conversationId === activeConversationId) {
+        setActiveConversationId(undefined);
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
   return (
     <Box p={6}>
-      <Heading size="lg" color="gray.800" mb={4}>
-        PKB Details
-      </Heading>
-      <Text color="gray.600">
-        PKB content and management interface will be implemented in Sprint 3.
-      </Text>
+      <VStack spacing={6} align="stretch">
+        <HStack justify="space-between" align="center">
+          <Box>
+            <HStack>
+              <Heading size="lg" color="gray.800">
+                {pkb?.name ?? 'PKB Details'}
+              </Heading>
+              {pkb && pkb.role !== 'owner' && <Badge colorScheme="purple">Shared · {pkb.role}</Badge>}
+            </HStack>
+            {pkb?.description && <Text color="gray.600">{pkb.description}</Text>}
+          </Box>
+          <HStack>
+            {canEdit && (
+              <Button
+                data-testid="new-note-button"
+                leftIcon={<EditIcon />}
+                variant="outline"
+                onClick={() => setEditingNote({})}
+              >
+                New Note
+              </Button>
+            )}
+            {pkb && (
+              <Button data-testid="members-button" variant="outline" onClick={() => setIsMembersOpen(true)}>
+                Members
+              </Button>
+            )}
+            <Button
+              data-testid="ai-suggestions-button"
+              variant="outline"
+              leftIcon={<StarIcon />}
+              onClick={() => setIsSuggestionsOpen((open) => !open)}
+            >
+              {isSuggestionsOpen ? 'Hide Suggestions' : 'Suggestions'}
+              {openSuggestionCount > 0 && (
+                <Badge ml={2} colorScheme="brand" borderRadius="full">{openSuggestionCount}</Badge>
+              )}
+            </Button>
+            <Button
+              data-testid="ai-chat-button"
+              variant="outline"
+              onClick={() => setIsChatOpen((open) => !open)}
+            >
+              {isChatOpen ? 'Hide AI Chat' : 'Ask AI'}
+            </Button>
+          </HStack>
+        </HStack>
+        {isChatOpen && (
+          <HStack align="flex-start" spacing={4}>
+            <ConversationSidebar
+              conversations={conversations}
+              activeId={activeConversationId}
+              onSelect={setActiveConversationId}
+              onNew={() => setActiveConversationId(undefined)}
+              onRename={handleRename}
+              onDelete={handleDelete}
+            />
+            <Box flex={1}>
+              <ChatPanel
+                pkbId={pkbId}
+                conversationId={activeConversationId}
+                onConversationStarted={handleConversationStarted}
+                onAnswered={refreshConversations}
+                onCitationSelect={handleCitationSelect}
+                scope={aiScope}
+                scopeLabel={aiScopeLabel}
+              />
+            </Box>
+          </HStack>
+        )}
+        {isSuggestionsOpen && (
+          <SuggestionsPanel
+            suggestions={suggestions}
+            items={content}
+            canEdit={canEdit}
+            isRefreshing={isAnalyzing}
+            onRefresh={handleAnalyze}
+            onAccept={(suggestion) => resolveSuggestion(suggestion, true)}
+            onDismiss={(suggestion) => resolveSuggestion(suggestion, false)}
+            onOpenItem={(item) => openItem(item)}
+          />
+        )}
+        {canEdit && <FileUploader pkbId={pkbId} onUploaded={refreshContent} />}
+        <HStack align="flex-start" spacing={4}>
+          <FolderTree
+            folders={folders}
+            selectedId={filter.folderId}
+            canEdit={canEdit}
+            onSelect={(folderId) => setFilter((current) => ({ ...current, folderId }))}
+            onCreate={handleCreateFolder}
+            onRename={handleRenameFolder}
+            onDelete={handleDeleteFolder}
+          />
+          <VStack flex={1} minW={0} spacing={3} align="stretch">
+            <ContentFilterBar
+              filter={filter}
+              tags={collectTags(content)}
+              fields={metadataFields}
+              canEdit={canEdit}
+              onChange={setFilter}
+              onEditFields={() => setIsFieldsOpen(true)}
+            />
+            {canEdit && visibleSelection.length > 0 && (
+              <BulkActionBar
+                count={visibleSelection.length}
+                folders={folders}
+                isWorking={isBulkWorking}
+                onApply={handleBulkAction}
+                onClear={() => setSelectedIds(new Set())}
+              />
+            )}
+            <ContentTable
+              items={visibleContent}
+              canEdit={canEdit}
+              fields={metadataFields}
+              emptyMessage={isFiltered(filter) && content.length > 0 ? 'Nothing matches these filters' : undefined}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+              onPreview={(item) => openItem(item)}
+              onHistory={setHistoryItem}
+              onProperties={setPropertiesItem}
+              onDelete={setDeleting}
+            />
+          </VStack>
+        </HStack>
+      </VStack>
+
+      <ContentPreview
+        pkbId={pkbId}
+        item={previewing?.item}
+        startTime={previewing?.startTime}
+        onClose={() => setPreviewing(undefined)}
+      />
+
+      <NoteEditor
+        pkbId={pkbId}
+        isOpen={editingNote !== undefined}
+        note={editingNote?.note}
+        readOnly={!canEdit}
+        onSaved={refreshContent}
+        onClose={() => setEditingNote(undefined)}
+      />
+
+      <ContentPropertiesModal
+        item={propertiesItem}
+        folders={folders}
+        fields={metadataFields}
+        onClose={() => setPropertiesItem(undefined)}
+        onSubmit={handleSaveProperties}
+      />
+
+      <MetadataFieldsModal
+        isOpen={isFieldsOpen}
+        fields={metadataFields}
+        onClose={() => setIsFieldsOpen(false)}
+        onSubmit={handleSaveFields}
+      />
+
+      <MembersModal
+        pkb={isMembersOpen && pkb ? pkb : undefined}
+        onClose={() => setIsMembersOpen(false)}
+        onLeft={() => navigate('/dashboard')}
+      />
+
+      <VersionHistoryDrawer
+        pkbId={pkbId}
+        item={historyItem}
+        canEdit={canEdit}
+        onRestored={refreshContent}
+        onClose={() => setHistoryItem(undefined)}
+      />
+
+      <AlertDialog
+        isOpen={deleting !== undefined}
+        leastDestructiveRef={cancelDeleteRef}
+        onClose={() => setDeleting(undefined)}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader>Delete content</AlertDialogHeader>
+            <AlertDialogBody>
+              Delete "{deleting?.fileName}"? Every stored version and its search index are removed, and this
+              cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelDeleteRef} variant="ghost" onClick={() => setDeleting(undefined)}>
+                Cancel
+              </Button>
+              <Button
+                data-testid="confirm-delete-button"
+                colorScheme="red"
+                ml={3}
+                onClick={handleDeleteContent}
+                isLoading={isDeleting}
+              >
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
     </Box>
   );
 };
@@ -0,0 +1,472 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Code,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  Input,
+  Link,
+  Spinner,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { describeAuthError, useAuth } from '../hooks/useAuth';
+import {
+  AccountDevice,
+  TotpSetup,
+  changePassword,
+  disableMfa,
+  forgetDevice,
+  getMfaEnabled,
+  listDevices,
+  startTotpSetup,
+  updateProfile,
+  verifyTotp,
+} from '../services/account';
+import { missingPasswordRequirements } from '../utils/password';
+
+const SettingsSection: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children,
+}) => (
+  <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+    <VStack spacing={4} align="stretch">
+      <Box>
+        <Heading size="md" color="gray.800">
+          {title}
+        </Heading>
+        <Text color="gray.600" fontSize="sm">
+          {description}
+        </Text>
+      </Box>
+      {children}
+    </VStack>
+  </Box>
+);
+
+const ProfileSection: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const toast = useToast();
+  const [givenName, setGivenName] = useState(user?.givenName ?? '');
+  const [familyName, setFamilyName] = useState(user?.familyName ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!givenName.trim() || !familyName.trim()) {
+      toast({ title: 'First and last name are required', status: 'error' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateProfile(givenName.trim(), familyName.trim());
+      await refreshUser();
+      toast({ title: 'Profile updated', status: 'success' });
+    } catch (error) {
+      toast({ title: 'Could not update profile', description: describeAuthError(error), status: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SettingsSection title="Profile" description="The name shown to you and to members of shared PKBs.">
+      <VStack as="form" spacing={4} align="stretch" onSubmit={handleSubmit} noValidate>
+        <HStack spacing={4} align="flex-start">
+          <FormControl>
+            <FormLabel fontSize="sm" color="gray.700">First name</FormLabel>
+            <Input
+              data-testid="given-name-input"
+              autoComplete="given-name"
+              value={givenName}
+              onChange={(event) => setGivenName(event.target.value)}
+            />
+          </FormControl>
+          <FormControl>
+            <FormLabel fontSize="sm" color="gray.700">Last name</FormLabel>
+            <Input
+              data-testid="family-name-input"
+              autoComplete="family-name"
+              value={familyName}
+              onChange={(event) => setFamilyName(event.target.value)}
+            />
+          </FormControl>
+        </HStack>
+        <Button
+          data-testid="save-profile-button"
+          type="submit"
+          alignSelf="flex-start"
+          bg="brand.500"
+          color="white"
+          _hover={{ bg: 'brand.600' }}
+          isLoading={isSaving}
+        >
+          Save
+        </Button>
+      </VStack>
+    </SettingsSection>
+  );
+};
+
+const PasswordSection: React.FC = () => {
+  const toast = useToast();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{ newPassword?: string; confirmPassword?: string }>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const missing = missingPasswordRequirements(newPassword);
+    const validation = {
+      newPassword: missing.length > 0 ? `Password needs ${missing.join(', ')}` : undefined,
+      confirmPassword: confirmPassword !== newPassword ? 'Passwords do not match' : undefined,
+    };
+    setErrors(validation);
+    if (!currentPassword || validation.newPassword || validation.confirmPassword) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({ title: 'Password changed', status: 'success' });
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      toast({
+        title: 'Could not change password',
+        // A wrong current password comes back as NotAuthorizedException.
+        description: code === 'NotAuthorizedException' ? 'Current password is incorrect' : describeAuthError(error),
+        status: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SettingsSection title="Password" description="Change the password you use to sign in.">
+      <VStack as="form" spacing={4} align="stretch" onSubmit={handleSubmit} noValidate>
+        <FormControl>
+          <FormLabel fontSize="sm" color="gray.700">Current password</FormLabel>
+          <Input
+            data-testid="current-password-input"
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(event) => setCurrentPassword(event.target.value)}
+          />
+        </FormControl>
+        <FormControl isInvalid={!!errors.newPassword}>
+          <FormLabel fontSize="sm" color="gray.700">New password</FormLabel>
+          <Input
+            data-testid="new-password-input"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(event) => setNewPassword(event.target.value)}
+          />
+          {errors.newPassword ? (
+            <FormErrorMessage>{errors.newPassword}</FormErrorMessage>
+          ) : (
+            <FormHelperText>
+              At least 8 characters with upper and lowercase letters, a number and a special character
+            </FormHelperText>
+          )}
+        </FormControl>
+        <FormControl isInvalid={!!errors.confirmPassword}>
+          <FormLabel fontSize="sm" color="gray.700">Confirm new password</FormLabel>
+          <Input
+            data-testid="confirm-new-password-input"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(event) => setConfirmPassword(event.target.value)}
+          />
+          <FormErrorMessage>{errors.confirmPassword}</FormErrorMessage>
+        </FormControl>
+        <Button
+          data-testid="change-password-button"
+          type="submit"
+          alignSelf="flex-start"
+          bg="brand.500"
+          color="white"
+          _hover={{ bg: 'brand.600' }}
+          isLoading={isSaving}
+          isDisabled={!currentPassword || !newPassword}
+        >
+          Change Password
+        </Button>
+      </VStack>
+    </SettingsSection>
+  );
+};
+
+const MfaSection: React.FC = () => {
+  const toast = useToast();
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    getMfaEnabled()
+      .then(setEnabled)
+      .catch(() => setEnabled(false));
+  }, []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({ title: failure, description: describeAuthError(error), status: 'error' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = () => run(async () => {
+    setSetup(await startTotpSetup());
+    setCode('');
+  }, 'Could not start authenticator setup');
+
+  const handleVerify = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!/^\d{6}$/.test(code.trim())) {
+      toast({ title: 'Enter the 6-digit code from your authenticator app', status: 'error' });
+      return;
+    }
+    run(async () => {
+      await verifyTotp(code.trim());
+      setSetup(null);
+      setEnabled(true);
+      toast({ title: 'Two-factor authentication enabled', status: 'success' });
+    }, 'Could not verify code');
+  };
+
+  const handleDisable = () => run(async () => {
+    await disableMfa();
+    setEnabled(false);
+    toast({ title: 'Two-factor authentication disabled', status: 'success' });
+  }, 'Could not disable two-factor authentication');
+
+  return (
+    <SettingsSection
+      title="Two-factor authentication"
+      description="Ask for a code from an authenticator app whenever you sign in on a new device."
+    >
+      {enabled === null ? (
+        <Spinner color="brand.500" />
+      ) : (
+        <HStack justify="space-between">
+          <Badge data-testid="mfa-status" colorScheme={enabled ? 'green' : 'gray'}>
+            {enabled ? 'Enabled' : 'Disabled'}
+          </Badge>
+          {enabled ? (
+            <Button data-testid="disable-mfa-button" variant="outline" size="sm" onClick={handleDisable} isLoading={isBusy}>
+              Disable
+            </Button>
+          ) : (
+            !setup && (
+              <Button
+                data-testid="enable-mfa-button"
+                bg="brand.500"
+                color="white"
+                _hover={{ bg: 'brand.600' }}
+                size="sm"
+                onClick={handleEnable}
+                isLoading={isBusy}
+              >
+                Set up authenticator app
+              </Button>
+            )
+          )}
+        </HStack>
+      )}
+
+      {setup && (
+        <VStack as="form" spacing={4} align="stretch" onSubmit={handleVerify} noValidate>
+          <Alert status="info" borderRadius="md">
+            <AlertIcon />
+            <Box>
+              <Text>
+                Add ProjectKB to your authenticator app with this key, or{' '}
+                <Link href={setup.uri} color="brand.500">
+                  open it on this device
+                </Link>
+                .
+              </Text>
+              <Code data-testid="totp-secret" mt={2} wordBreak="break-all">
+                {setup.secret}
+              </Code>
+            </Box>
+          </Alert>
+          <FormControl>
+            <FormLabel fontSize="sm" color="gray.700">Code from the app</FormLabel>
+            <Input
+              data-testid="totp-code-input"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+            />
+          </FormControl>
+          <HStack>
+            <Button
+              data-testid="verify-totp-button"
+              type="submit"
+              bg="brand.500"
+              color="white"
+              _hover={{ bg: 'brand.600' }}
+              isLoading={isBusy}
+            >
+              Verify and enable
+            </Button>
+            <Button variant="ghost" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </HStack>
+        </VStack>
+      )}
+    </SettingsSection>
+  );
+};
+
+const DevicesSection: React.FC = () => {
+  const { signOut } = useAuth();
+  const toast = useToast();
+  const [devices, setDevices] = useState<AccountDevice[] | null>(null);
+  const [forgetting, setForgetting] = useState<string | null>(null);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setDevices(await listDevices());
+    } catch (error) {
+      setDevices([]);
+      toast({ title: 'Could not load devices', description: describeAuthError(error), status: 'error' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const handleForget = async (device: AccountDevice) => {
+    setForgetting(device.deviceKey);
+    try {
+      await forgetDevice(device.deviceKey);
+      setDevices((current) => current?.filter((item) => item.deviceKey !== device.deviceKey) ?? null);
+      toast({ title: `${device.name} will be asked for a code next time`, status: 'success' });
+    } catch (error) {
+      toast({ title: 'Could not forget device', description: describeAuthError(error), status: 'error' });
+    } finally {
+      setForgetting(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setIsSigningOut(true);
+    const result = await signOut({ global: true });
+    if (!result.success) {
+      setIsSigningOut(false);
+      toast({ title: 'Sign out failed', description: result.error, status: 'error' });
+    }
+  };
+
+  return (
+    <SettingsSection
+      title="Devices"
+      description="Devices you chose to remember skip two-factor authentication. Signing out everywhere ends every session, including this one."
+    >
+      {devices === null ? (
+        <Spinner color="brand.500" />
+      ) : devices.length === 0 ? (
+        <Text color="gray.500" fontSize="sm">
+          No remembered devices
+        </Text>
+      ) : (
+        <VStack spacing={2} align="stretch">
+          {devices.map((device) => (
+            <HStack
+              key={device.deviceKey}
+              data-testid="device-item"
+              justify="space-between"
+              p={3}
+              borderRadius="md"
+              border="1px solid"
+              borderColor="gray.100"
+            >
+              <Box>
+                <HStack>
+                  <Text fontWeight="medium">{device.name}</Text>
+                  {device.current && <Badge colorScheme="brand">This device</Badge>}
+                </HStack>
+                {device.lastAuthenticatedAt && (
+                  <Text fontSize="xs" color="gray.500">
+                    Last used {new Date(device.lastAuthenticatedAt).toLocaleString()}
+                  </Text>
+                )}
+              </Box>
+              <Button
+                data-testid="forget-device-button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleForget(device)}
+                isLoading={forgetting === device.deviceKey}
+              >
+                Forget
+              </Button>
+            </HStack>
+          ))}
+        </VStack>
+      )}
+      <Button
+        data-testid="sign-out-everywhere-button"
+        alignSelf="flex-start"
+        variant="outline"
+        colorScheme="red"
+        onClick={handleSignOutEverywhere}
+        isLoading={isSigningOut}
+      >
+        Sign out of all devices
+      </Button>
+    </SettingsSection>
+  );
+};
+
+export const SettingsPage: React.FC = () => (
+  <Box p={6} maxW="3xl" mx="auto">
+    <VStack spacing={6} align="stretch">
+      <Box>
+        <Heading size="lg" color="gray.800">
+          Settings
+        </Heading>
+        <Text color="gray.600">
+          Manage your profile and account security
+        </Text>
+      </Box>
+      <ProfileSection />
+      <PasswordSection />
+      <MfaSection />
+      <DevicesSection />
+    </VStack>
+  </Box>
+);
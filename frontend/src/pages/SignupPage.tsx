@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  AlertIcon,
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  Link,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { useAuth } from '../hooks/useAuth';
+import { AuthCard } from '../components/AuthCard';
+import { missingPasswordRequirements } from '../utils/password';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface SignupForm {
+  username: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+  givenName: string;
+  familyName: string;
+}
+
+type SignupErrors = Partial<Record<keyof SignupForm, string>>;
+
+const validate = (form: SignupForm): SignupErrors => {
+  const errors: SignupErrors = {};
+  if (!form.username.trim()) {
+    errors.username = 'Username is required';
+  } else if (EMAIL_PATTERN.test(form.username.trim())) {
+    errors.username = 'Username cannot be an email address';
+  }
+  if (!EMAIL_PATTERN.test(form.email.trim())) {
+    errors.email = 'Enter a valid email address';
+  }
+  const missing = missingPasswordRequirements(form.password);
+  if (missing.length > 0) {
+    errors.password = `Password needs ${missing.join(', ')}`;
+  }
+  if (form.confirmPassword !== form.password) {
+    errors.confirmPassword = 'Passwords do not match';
+  }
+  if (!form.givenName.trim()) {
+    errors.givenName = 'First name is required';
+  }
+  if (!form.familyName.trim()) {
+    errors.familyName = 'Last name is required';
+  }
+  return errors;
+};
+
+export const SignupPage: React.FC = () => {
+  const { signUp } = useAuth();
+  const navigate = useNavigate();
+
+  const [form, setForm] = useState<SignupForm>({
+    username: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+    givenName: '',
+    familyName: '',
+  });
+  const [errors, setErrors] = useState<SignupErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const update = (field: keyof SignupForm) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setForm((current) => ({ ...current, [field]: event.target.value }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    const validation = validate(form);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await signUp({
+      username: form.username.trim(),
+      email: form.email.trim(),
+      password: form.password,
+      givenName: form.givenName.trim(),
+      familyName: form.familyName.trim(),
+    });
+    setIsSubmitting(false);
+    if (!result.success) {
+      setError(result.error ?? 'Sign up failed');
+      return;
+    }
+    navigate('/confirm', { state: { username: form.username.trim(), destination: result.destination } });
+  };
+
+  return (
+    <AuthCard title="Create your account" subtitle="Start organizing your project knowledge">
+      {error && (
+        <Alert status="error" borderRadius="md" role="alert">
+          <AlertIcon />
+          {error}
+        </Alert>
+      )}
+
+      <VStack as="form" spacing={4} w="full" onSubmit={handleSubmit} noValidate>
+        <HStack spacing={4} w="full" align="flex-start">
+          <FormControl isInvalid={!!errors.givenName}>
+            <FormLabel fontSize="sm" color="gray.700">First name</FormLabel>
+            <Input
+              data-testid="first-name-input"
+              autoComplete="given-name"
+              value={form.givenName}
+              onChange={update('givenName')}
+            />
+            <FormErrorMessage>{errors.givenName}</FormErrorMessage>
+          </FormControl>
+          <FormControl isInvalid={!!errors.familyName}>
+            <FormLabel fontSize="sm" color="gray.700">Last name</FormLabel>
+            <Input
+              data-testid="last-name-input"
+              autoComplete="family-name"
+              value={form.familyName}
+              onChange={update('familyName')}
+            />
+            <FormErrorMessage>{errors.familyName}</FormErrorMessage>
+          </FormControl>
+        </HStack>
+
+        <FormControl isInvalid={!!errors.username}>
+          <FormLabel fontSize="sm" color="gray.700">Username</FormLabel>
+          <Input
+            data-testid="username-input"
+            autoComplete="username"
+            value={form.username}
+            onChange={update('username')}
+          />
+          <FormErrorMessage>{errors.username}</FormErrorMessage>
+        </FormControl>
+
+        <FormControl isInvalid={!!errors.email}>
+          <FormLabel fontSize="sm" color="gray.700">Email</FormLabel>
+          <Input
+            data-testid="email-input"
+            type="email"
+            autoComplete="email"
+            value={form.email}
+            onChange={update('email')}
+          />
+          <FormErrorMessage>{errors.email}</FormErrorMessage>
+        </FormControl>
+
+        <FormControl isInvalid={!!errors.password}>
+          <FormLabel fontSize="sm" color="gray.700">Password</FormLabel>
+          <Input
+            data-testid="password-input"
+            type="password"
+            autoComplete="new-password"
+            value={form.password}
+            onChange={update('password')}
+          />
+          {errors.password ? (
+            <FormErrorMessage>{errors.password}</FormErrorMessage>
+          ) : (
+            <FormHelperText>
+              At least 8 characters with upper and lowercase letters, a number and a special character
+            </FormHelperText>
+          )}
+        </FormControl>
+
+        <FormControl isInvalid={!!errors.confirmPassword}>
+          <FormLabel fontSize="sm" color="gray.700">Confirm password</FormLabel>
+          <Input
+            data-testid="confirm-password-input"
+            type="password"
+            autoComplete="new-password"
+            value={form.confirmPassword}
+            onChange={update('confirmPassword')}
+          />
+          <FormErrorMessage>{errors.confirmPassword}</FormErrorMessage>
+        </FormControl>
+
+        <Button
+          data-testid="signup-button"
+          type="submit"
+          w="full"
+          bg="brand.500"
+          color="white"
+          _hover={{ bg: 'brand.600' }}
+          size="lg"
+          isLoading={isSubmitting}
+        >
+          Sign Up
+        </Button>
+      </VStack>
+
+      <Text fontSize="sm" color="gray.500">
+        Already have an account?{' '}
+        <Link as={RouterLink} to="/login" color="brand.500">
+          Sign in
+        </Link>
+      </Text>
+    </AuthCard>
+  );
+};
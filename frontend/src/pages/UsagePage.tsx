@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Center,
+  Flex,
+  Heading,
+  HStack,
+  Progress,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Text,
+  Tooltip,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { UsageBarChart } from '../components/UsageBarChart';
+import { Pkb, listPkbs } from '../services/pkbs';
+import {
+  QuotaStatus,
+  UsageRecord,
+  UsageReport,
+  formatCost,
+  formatTokens,
+  getMyUsage,
+  getPkbUsage,
+  lastDays,
+  totalsBy,
+} from '../services/usage';
+
+const RANGES = [7, 30, 90];
+/** `mine`, or the id of an owned PKB to see everyone's usage of it. */
+type Scope = 'mine' | string;
+
+const QuotaCard: React.FC<{ quota: QuotaStatus }> = ({ quota }) => {
+  const byCost = quota.maxCostUsd !== undefined;
+  const used = byCost ? quota.costUsd / quota.maxCostUsd! : quota.tokens / quota.maxTokens!;
+  return (
+    <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200" data-testid="usage-quota">
+      <Flex justify="space-between" align="baseline" mb={2}>
+        <Heading size="sm" color="gray.800">
+          {quota.period === 'day' ? 'Daily' : 'Monthly'} quota
+        </Heading>
+        <Text fontSize="sm" color="gray.600">
+          {byCost
+            ? `${formatCost(quota.costUsd)} of ${formatCost(quota.maxCostUsd!)}`
+            : `${formatTokens(quota.tokens)} of ${formatTokens(quota.maxTokens!)} tokens`}
+        </Text>
+      </Flex>
+      <Progress
+        value={Math.min(used, 1) * 100}
+        size="sm"
+        borderRadius="full"
+        colorScheme={quota.exceeded ? 'red' : used >= 0.8 ? 'orange' : 'brand'}
+      />
+      <Text fontSize="xs" color="gray.500" mt={2}>
+        {quota.exceeded ? 'Used up; questions are refused until it ' : 'It '}
+        resets {new Date(quota.resetsAt).toLocaleString()}.
+      </Text>
+    </Box>
+  );
+};
+
+/** Cost per day of the range as columns, including days without usage. */
+const DailyChart: React.FC<{ report: UsageReport }> = ({ report }) => {
+  const days = useMemo(() => {
+    const costs = new Map(totalsBy(report.records, (record) => record.day).map((total) => [total.key, total]));
+    const result = [];
+    for (let day = new Date(report.range.from); day <= new Date(report.range.to); day.setUTCDate(day.getUTCDate() + 1)) {
+      const key = day.toISOString().slice(0, 10);
+      result.push({ day: key, costUsd: costs.get(key)?.costUsd ?? 0, tokens: costs.get(key)?.tokens ?? 0 });
+    }
+    return result;
+  }, [report]);
+  const max = Math.max(0, ...days.map((day) => day.costUsd));
+
+  return (
+    <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+      <Heading size="sm" color="gray.800" mb={4}>
+        Cost per day
+      </Heading>
+      <Flex align="flex-end" h="120px" gap="2px">
+        {days.map((day) => (
+          <Tooltip key={day.day} label={`${day.day}: ${formatCost(day.costUsd)}, ${formatTokens(day.tokens)} tokens`}>
+            <Box
+              flex={1}
+              bg={day.costUsd > 0 ? 'brand.500' : 'gray.100'}
+              borderTopRadius="sm"
+              h={`${max > 0 ? Math.max((day.costUsd / max) * 100, 2) : 2}%`}
+            />
+          </Tooltip>
+        ))}
+      </Flex>
+      <Flex justify="space-between" fontSize="xs" color="gray.500" mt={1}>
+        <Text>{report.range.from}</Text>
+        <Text>{report.range.to}</Text>
+      </Flex>
+    </Box>
+  );
+};
+
+export const UsagePage: React.FC = () => {
+  const toast = useToast();
+  const [days, setDays] = useState(30);
+  const [scope, setScope] = useState<Scope>('mine');
+  const [pkbs, setPkbs] = useState<Pkb[]>([]);
+  const [report, setReport] = useState<UsageReport | undefined>();
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({ title, description: (error as Error).message, status: 'error', duration: 5000, isClosable: true });
+  }, [toast]);
+
+  useEffect(() => {
+    listPkbs()
+      .then(setPkbs)
+      .catch((error) => showError('Could not load PKBs', error));
+  }, [showError]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const range = lastDays(days);
+    const request = scope === 'mine'
+      ? getMyUsage(range).then((mine) => {
+        setQuota(mine.quota);
+        return mine;
+      })
+      : getPkbUsage(scope, range);
+    request
+      .then(setReport)
+      .catch((error) => showError('Could not load usage', error))
+      .finally(() => setIsLoading(false));
+  }, [days, scope, showError]);
+
+  const records: UsageRecord[] = report?.records ?? [];
+  const pkbName = (pkbId: string) => pkbs.find((pkb) => pkb.pkbId === pkbId)?.name ?? pkbId;
+  const modelName = (modelId: string) => report?.modelNames[modelId] ?? modelId;
+  const total = totalsBy(records, () => 'all')[0];
+
+  return (
+    <Box p={6}>
+      <VStack spacing={6} align="stretch">
+        <HStack justify="space-between" align="center" wrap="wrap" spacing={4}>
+          <Box>
+            <Heading size="lg" color="gray.800">
+              AI usage
+            </Heading>
+            <Text color="gray.600">
+              Tokens and estimated cost of answers, indexing and transcription
+            </Text>
+          </Box>
+          <HStack>
+            <Select
+              value={scope}
+              onChange={(event) => setScope(event.target.value)}
+              size="sm"
+              w="auto"
+              data-testid="usage-scope-select"
+            >
+              <option value="mine">My usage</option>
+              {pkbs.filter((pkb) => pkb.role === 'owner').map((pkb) => (
+                <option key={pkb.pkbId} value={pkb.pkbId}>
+                  Everyone in {pkb.name}
+                </option>
+              ))}
+            </Select>
+            <Select
+              value={days}
+              onChange={(event) => setDays(Number(event.target.value))}
+              size="sm"
+              w="auto"
+              data-testid="usage-range-select"
+            >
+              {RANGES.map((range) => (
+                <option key={range} value={range}>
+                  Last {range} days
+                </option>
+              ))}
+            </Select>
+          </HStack>
+        </HStack>
+
+        {scope === 'mine' && quota && <QuotaCard quota={quota} />}
+
+        {isLoading && !report ? (
+          <Center py={12}>
+            <Spinner size="lg" color="brand.500" />
+          </Center>
+        ) : (
+          <>
+            <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+              <Stat bg="white" p={4} borderRadius="xl" border="1px solid" borderColor="gray.200">
+                <StatLabel>Estimated cost</StatLabel>
+                <StatNumber data-testid="usage-total-cost">{formatCost(total?.costUsd ?? 0)}</StatNumber>
+              </Stat>
+              <Stat bg="white" p={4} borderRadius="xl" border="1px solid" borderColor="gray.200">
+                <StatLabel>Tokens</StatLabel>
+                <StatNumber>{formatTokens(total?.tokens ?? 0)}</StatNumber>
+              </Stat>
+              <Stat bg="white" p={4} borderRadius="xl" border="1px solid" borderColor="gray.200">
+                <StatLabel>Model calls</StatLabel>
+                <StatNumber>{total?.requests ?? 0}</StatNumber>
+              </Stat>
+            </SimpleGrid>
+
+            {report && <DailyChart report={report} />}
+
+            <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={4}>
+              {scope === 'mine' && (
+                <UsageBarChart
+                  title="By PKB"
+                  totals={totalsBy(records, (record) => record.pkbId)}
+                  labelOf={pkbName}
+                  testId="usage-by-pkb"
+                />
+              )}
+              <UsageBarChart
+                title="By model"
+                totals={totalsBy(records, (record) => record.modelId)}
+                labelOf={modelName}
+                testId="usage-by-model"
+              />
+            </SimpleGrid>
+
+            <Alert status="info" borderRadius="md" fontSize="sm">
+              <AlertIcon />
+              Costs are estimates from on-demand prices; days are in UTC. Background work such as indexing
+              an upload is counted for whoever uploaded it.
+            </Alert>
+          </>
+        )}
+      </VStack>
+    </Box>
+  );
+};
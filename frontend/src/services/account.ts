@@ -0,0 +1,101 @@
+import { Auth } from 'aws-amplify';
+
+/** Issuer shown in authenticator apps next to the account name. */
+const TOTP_ISSUER = 'ProjectKB';
+const DEVICE_PAGE_SIZE = 60;
+
+export interface AccountDevice {
+  deviceKey: string;
+  name: string;
+  lastAuthenticatedAt?: string;
+  /** The device (browser) this session is running on. */
+  current: boolean;
+}
+
+export interface TotpSetup {
+  secret: string;
+  /** `otpauth://` URI that authenticator apps can import. */
+  uri: string;
+}
+
+interface CognitoDevice {
+  DeviceKey: string;
+  DeviceAttributes?: { Name: string; Value: string }[];
+  DeviceLastAuthenticatedDate?: string | number;
+}
+
+interface DeviceCallbacks<T> {
+  onSuccess: (result: T) => void;
+  onFailure: (error: Error) => void;
+}
+
+const callbacks = <T>(resolve: (result: T) => void, reject: (error: Error) => void): DeviceCallbacks<T> => ({
+  onSuccess: resolve,
+  onFailure: reject,
+});
+
+export const getMfaEnabled = async (): Promise<boolean> => {
+  const user = await Auth.currentAuthenticatedUser();
+  const preferred = await Auth.getPreferredMFA(user, { bypassCache: true });
+  return preferred === 'SOFTWARE_TOKEN_MFA';
+};
+
+/** Starts authenticator enrolment; MFA is only switched on by {@link verifyTotp}. */
+export const startTotpSetup = async (): Promise<TotpSetup> => {
+  const user = await Auth.currentAuthenticatedUser();
+  const secret = await Auth.setupTOTP(user);
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.attributes?.email ?? user.username}`);
+  return {
+    secret,
+    uri: `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}`,
+  };
+};
+
+export const verifyTotp = async (code: string): Promise<void> => {
+  const user = await Auth.currentAuthenticatedUser();
+  await Auth.verifyTotpToken(user, code);
+  await Auth.setPreferredMFA(user, 'TOTP');
+};
+
+export const disableMfa = async (): Promise<void> => {
+  const user = await Auth.currentAuthenticatedUser();
+  await Auth.setPreferredMFA(user, 'NOMFA');
+};
+
+export const changePassword = async (oldPassword: string, newPassword: string): Promise<void> => {
+  const user = await Auth.currentAuthenticatedUser();
+  await Auth.changePassword(user, oldPassword, newPassword);
+};
+
+export const updateProfile = async (givenName: string, familyName: string): Promise<void> => {
+  const user = await Auth.currentAuthenticatedUser();
+  await Auth.updateUserAttributes(user, { given_name: givenName, family_name: familyName });
+};
+
+export const listDevices = async (): Promise<AccountDevice[]> => {
+  const user = await Auth.currentAuthenticatedUser();
+  const { Devices = [] } = await new Promise<{ Devices?: CognitoDevice[] }>((resolve, reject) => {
+    user.listDevices(DEVICE_PAGE_SIZE, null, callbacks(resolve, reject));
+  });
+  return Devices.map((device) => {
+    const name = device.DeviceAttributes?.find((attribute) => attribute.Name === 'device_name')?.Value;
+    const lastAuthenticated = device.DeviceLastAuthenticatedDate;
+    return {
+      deviceKey: device.DeviceKey,
+      name: name ?? 'Unknown device',
+      lastAuthenticatedAt: lastAuthenticated === undefined
+        ? undefined
+        // The SDK returns epoch seconds.
+        : new Date(typeof lastAuthenticated === 'number' ? lastAuthenticated * 1000 : lastAuthenticated).toISOString(),
+      current: device.DeviceKey === user.deviceKey,
+    };
+  });
+};
+
+/** Stops remembering a device, so it has to pass MFA again on its next sign-in. */
+export const forgetDevice = async (deviceKey: string): Promise<void> => {
+  const user = await Auth.currentAuthenticatedUser();
+  await new Promise<string>((resolve, reject) => {
+    user.forgetSpecificDevice(deviceKey, callbacks(resolve, reject));
+  });
+};
@@ -0,0 +1,115 @@
+import { Auth } from 'aws-amplify';
+import { quotaExceededMessage } from './usage';
+
+export interface Citation {
+  marker: number;
+  contentId: string;
+  fileName: string;
+  start: number;
+  end: number;
+  excerpt: string;
+  /** Position in a recording, in seconds, when citing a transcript. */
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface AiAnswer {
+  response: string;
+  citations: Citation[];
+  /** The model that answered. */
+  modelId: string;
+  /** The model asked for, when it was busy and `modelId` answered instead. */
+  fallbackFrom?: string;
+  usage: { inputTokens: number; outputTokens: number };
+  /** Set when the question continued a saved conversation. */
+  conversationId?: string;
+}
+
+export interface AiQuery {
+  pkbId: string;
+  query: string;
+  conversationId?: string;
+  /** Uploaded image the question is about. */
+  imageContentId?: string;
+  /** Answers only from a folder (with its subfolders) or from items with a tag. */
+  scope?: AiScope;
+  /** Overrides the PKB's model for this question. */
+  modelId?: string;
+}
+
+export interface AiScope {
+  folderId?: string;
+  tag?: string;
+}
+
+type StreamEvent =
+  | { type: 'token'; text: string }
+  | ({ type: 'answer' } & AiAnswer)
+  | { type: 'error'; error: string; resetsAt?: string };
+
+const AI_STREAM_URL = process.env.REACT_APP_AI_STREAM_URL || '';
+
+/**
+ * Asks the AI stream endpoint a question and calls `onToken` for each piece
+ * of the answer as it arrives. Resolves with the final answer and its
+ * citations; abort `signal` to cancel.
+ */
+export const streamAiAnswer = async (
+  query: AiQuery,
+  onToken: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<AiAnswer> => {
+  const session = await Auth.currentSession();
+  const response = await fetch(AI_STREAM_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.getIdToken().getJwtToken()}`,
+    },
+    body: JSON.stringify(query),
+    signal,
+  });
+
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let answer: AiAnswer | undefined;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+    const event = JSON.parse(line) as StreamEvent;
+    if (event.type === 'token') {
+      onToken(event.text);
+    } else if (event.type === 'answer') {
+      const { type, ...rest } = event;
+      answer = rest;
+    } else {
+      // Quota refusals say when the user may ask again.
+      throw new Error(event.resetsAt ? quotaExceededMessage(event.resetsAt) : event.error);
+    }
+  };
+
+  // The response is newline-delimited JSON; a read can end mid-line.
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered);
+
+  if (!answer) {
+    throw new Error('The answer stream ended unexpectedly');
+  }
+  return answer;
+};
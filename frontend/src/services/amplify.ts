@@ -0,0 +1,28 @@
+import { Amplify } from 'aws-amplify';
+
+/** Path the Hosted UI redirects back to; must match the client's callback URLs in the stack. */
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+export const AUTH_LOGOUT_PATH = '/auth/logout';
+
+/**
+ * Points Amplify Auth at the Cognito user pool and its Hosted UI domain.
+ * The Hosted UI is only used for federated (Google and Microsoft) sign-in;
+ * username and password sign-in talks to Cognito directly.
+ */
+export const configureAmplify = () => {
+  const origin = window.location.origin;
+  Amplify.configure({
+    Auth: {
+      region: process.env.REACT_APP_REGION || 'us-east-1',
+      userPoolId: process.env.REACT_APP_USER_POOL_ID,
+      userPoolWebClientId: process.env.REACT_APP_USER_POOL_CLIENT_ID,
+      oauth: {
+        domain: (process.env.REACT_APP_AUTH_DOMAIN || '').replace(/^https?:\/\//, '').replace(/\/$/, ''),
+        scope: ['email', 'openid', 'profile'],
+        redirectSignIn: `${origin}${AUTH_CALLBACK_PATH}`,
+        redirectSignOut: `${origin}${AUTH_LOGOUT_PATH}`,
+        responseType: 'code',
+      },
+    },
+  });
+};
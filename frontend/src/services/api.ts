@@ -0,0 +1,44 @@
+import { Auth } from 'aws-amplify';
+
+const API_URL = (process.env.REACT_APP_API_URL || '').replace(/\/$/, '');
+
+/**
+ * Error response from the REST API, carrying its status code and the
+ * envelope's machine-readable `code`, e.g. `bad_request`. Validation errors
+ * also name the offending `field`.
+ */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string, readonly code?: string, readonly field?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Calls the REST API with the signed-in user's Cognito ID token, which the
+ * API Gateway authorizer expects. Rejects with an {@link ApiError} carrying
+ * the API's `error` message and `code` on non-2xx responses. Requests go
+ * through the client generated from the API spec in `./generated/apiClient`.
+ */
+export const apiRequest = async <T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> => {
+  const session = await Auth.currentSession();
+  const response = await fetch(`${API_URL}${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.getIdToken().getJwtToken()}`,
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      payload.error || `Request failed with status ${response.status}`,
+      payload.code,
+      payload.field,
+    );
+  }
+  return payload as T;
+};
@@ -0,0 +1,285 @@
+import * as api from './generated/apiClient';
+
+export type ContentStatus = 'uploading' | 'uploaded';
+
+export type IngestionStatus = 'pending' | 'processing' | 'transcribing' | 'ready' | 'failed';
+
+/** Uploaded files, or Markdown notes written in the app. */
+export type ContentKind = 'file' | 'note';
+
+export interface ContentItem {
+  pkbId: string;
+  contentId: string;
+  /** Missing on items from before notes existed, which are all files. */
+  kind?: ContentKind;
+  /** Where a note's text is saved; only notes kept in S3 have versions. */
+  noteStorage?: 'inline' | 's3';
+  /** The file name, or a note's title. */
+  fileName: string;
+  /** MIME type the upload was requested with. */
+  fileType: string;
+  status: ContentStatus;
+  ingestionStatus: IngestionStatus;
+  uploadedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  size?: number;
+  uploadedAt?: string;
+  chunkCount?: number;
+  ingestionError?: string;
+  caption?: string;
+  durationSeconds?: number;
+  /** Applied from an accepted AI suggestion. */
+  summary?: string;
+  tags?: string[];
+  reviewedAt?: string;
+  /** A new version on its way; the item shows the current one until it lands. */
+  pendingUpload?: { fileName: string; uploadedBy: string; requestedAt: string };
+  /** Absent for items at the top level. */
+  folderId?: string;
+  /** Values of the PKB's custom metadata fields, by field key. */
+  metadata?: Record<string, string>;
+}
+
+export interface UploadTicket {
+  contentId: string;
+  uploadUrl: string;
+  /** Form fields to post to S3 ahead of the file. */
+  fields: Record<string, string>;
+  expiresIn: number;
+  maxSize: number;
+}
+
+/** Base64 SHA-256 of a file or part, which S3 checks the upload against. */
+export const sha256 = async (blob: Blob): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+  return btoa(String.fromCharCode(...Array.from(digest)));
+};
+
+export const listContent = async (pkbId: string): Promise<ContentItem[]> => {
+  const { content } = await api.listContent<{ content: ContentItem[] }>(pkbId);
+  return content;
+};
+
+/**
+ * Reserves a content row and signs an S3 upload for it. Passing
+ * `contentId` uploads a new version of that item instead, which is also
+ * how a failed upload is retried without leaving an orphaned row.
+ */
+export const requestUpload = async (pkbId: string, file: File, fileType: string, contentId?: string) =>
+  api.requestUpload<UploadTicket>({
+    pkbId,
+    contentId,
+    fileName: file.name,
+    fileType,
+    size: file.size,
+    checksum: await sha256(file),
+  });
+
+/**
+ * Posts the file straight to S3. Uses XHR rather than fetch because only
+ * XHR reports upload progress.
+ */
+export const uploadFile = (
+  ticket: UploadTicket,
+  file: File,
+  onProgress: (fraction: number) => void,
+): Promise<void> => new Promise((resolve, reject) => {
+  const form = new FormData();
+  Object.entries(ticket.fields).forEach(([name, value]) => form.append(name, value));
+  // S3 ignores any fields after the file.
+  form.append('file', file);
+
+  const request = new XMLHttpRequest();
+  request.open('POST', ticket.uploadUrl);
+  request.upload.onprogress = (event) => {
+    if (event.lengthComputable) {
+      onProgress(event.loaded / event.total);
+    }
+  };
+  request.onload = () => {
+    if (request.status >= 200 && request.status < 300) {
+      onProgress(1);
+      resolve();
+    } else {
+      reject(new Error(`Upload failed with status ${request.status}`));
+    }
+  };
+  request.onerror = () => reject(new Error('Upload failed, check your connection'));
+  request.send(form);
+});
+
+export interface MultipartTicket {
+  contentId: string;
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+}
+
+export interface MultipartStatus extends MultipartTicket {
+  /** Parts S3 already holds. */
+  parts: { partNumber: number; etag: string; size: number }[];
+}
+
+export const initiateMultipartUpload = (pkbId: string, file: File, fileType: string) =>
+  api.initiateMultipartUpload<MultipartTicket>({ pkbId, fileName: file.name, fileType, size: file.size });
+
+/** Signs PUT URLs that only accept parts matching the given checksums. */
+export const signUploadParts = async (
+  pkbId: string,
+  contentId: string,
+  parts: { partNumber: number; checksum: string }[],
+) => {
+  const { parts: signed } = await api.signUploadParts<{ parts: { partNumber: number; url: string }[] }>({
+    pkbId,
+    contentId,
+    partNumbers: parts.map((part) => part.partNumber),
+    checksums: parts.map((part) => part.checksum),
+  });
+  return signed;
+};
+
+export const getMultipartStatus = (pkbId: string, contentId: string) =>
+  api.getMultipartStatus<MultipartStatus>({ pkbId, contentId });
+
+export const completeMultipartUpload = (pkbId: string, contentId: string) =>
+  api.completeMultipartUpload<{ message: string }>({ pkbId, contentId });
+
+export const abortMultipartUpload = (pkbId: string, contentId: string) =>
+  api.abortMultipartUpload<{ message: string }>({ pkbId, contentId });
+
+/**
+ * PUTs one part to its presigned URL, with the checksum it was signed for;
+ * rejects with an `AbortError` when `signal` fires.
+ */
+export const uploadPart = (
+  url: string,
+  part: Blob,
+  checksum: string,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<void> => new Promise((resolve, reject) => {
+  const request = new XMLHttpRequest();
+  request.open('PUT', url);
+  request.setRequestHeader('x-amz-checksum-sha256', checksum);
+  request.upload.onprogress = (event) => onProgress(event.loaded);
+  request.onload = () => {
+    if (request.status >= 200 && request.status < 300) {
+      resolve();
+    } else {
+      reject(new Error(`Part upload failed with status ${request.status}`));
+    }
+  };
+  request.onerror = () => reject(new Error('Upload failed, check your connection'));
+  request.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+  signal?.addEventListener('abort', () => request.abort());
+  request.send(part);
+});
+
+/** Short-lived link for previewing or downloading the stored file, or an earlier version of it. */
+export const getDownloadUrl = (pkbId: string, contentId: string, versionId?: string) =>
+  api.getDownloadUrl<{ url: string; expiresIn: number }>(pkbId, contentId, { versionId });
+
+export const deleteContent = (pkbId: string, contentId: string) =>
+  api.deleteContent<{ message: string }>(pkbId, contentId);
+
+export interface Note {
+  contentId: string;
+  title: string;
+  /** Markdown. */
+  body: string;
+  updatedAt: string;
+}
+
+export const createNote = (pkbId: string, title: string, body: string) =>
+  api.createNote<ContentItem>({ pkbId, title, body });
+
+export const saveNote = async (pkbId: string, contentId: string, title: string, body: string) => {
+  const { item } = await api.saveNote<{ item: ContentItem }>(pkbId, contentId, { title, body });
+  return item;
+};
+
+export const getNote = (pkbId: string, contentId: string) =>
+  api.getNote<Note>(pkbId, contentId);
+
+export interface ContentVersion {
+  versionId: string;
+  size: number;
+  lastModified: string;
+  isLatest: boolean;
+  /** Unknown for versions stored before uploaders were recorded. */
+  uploadedBy?: string;
+  uploadedByEmail?: string;
+  /** Set when this version was created by restoring that one. */
+  restoredFrom?: string;
+}
+
+export interface VersionDiff {
+  versionId: string;
+  /** Missing when diffing the first version, which is compared with an empty file. */
+  againstVersionId?: string;
+  added: number;
+  removed: number;
+  lines: { op: 'equal' | 'added' | 'removed'; text: string }[];
+}
+
+/** Notes saved inline keep only their latest text, so have no versions to list. */
+export const hasVersionHistory = (item: ContentItem) => !(item.kind === 'note' && item.noteStorage === 'inline');
+
+/** Stored versions, newest first; `diffable` says whether they can be compared as text. */
+export const listVersions = (pkbId: string, contentId: string) =>
+  api.listVersions<{ versions: ContentVersion[]; diffable: boolean }>(pkbId, contentId);
+
+/** Changes in a version since the one before it. */
+export const getVersionDiff = (pkbId: string, contentId: string, versionId: string) =>
+  api.getVersionDiff<VersionDiff>(pkbId, contentId, versionId);
+
+/** Makes an earlier version current again; it is re-indexed like a new upload. */
+export const restoreVersion = (pkbId: string, contentId: string, versionId: string) =>
+  api.restoreVersion<{ message: string; item: ContentItem }>(pkbId, contentId, versionId);
+
+export interface Folder {
+  pkbId: string;
+  folderId: string;
+  name: string;
+  /** Absent for top-level folders. */
+  parentId?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const listFolders = async (pkbId: string): Promise<Folder[]> => {
+  const { folders } = await api.listFolders<{ folders: Folder[] }>(pkbId);
+  return folders;
+};
+
+export const createFolder = (pkbId: string, name: string, parentId?: string) =>
+  api.createFolder<Folder>(pkbId, { name, parentId });
+
+/** Renames a folder, or moves it when `parentId` is given; `null` moves it to the top level. */
+export const updateFolder = (pkbId: string, folderId: string, changes: { name?: string; parentId?: string | null }) =>
+  api.updateFolder<Folder>(pkbId, folderId, changes);
+
+/** Only empty folders can be deleted. */
+export const deleteFolder = (pkbId: string, folderId: string) =>
+  api.deleteFolder<{ message: string }>(pkbId, folderId);
+
+export interface ContentProperties {
+  /** `null` moves the item to the top level. */
+  folderId?: string | null;
+  tags?: string[];
+  metadata?: Record<string, string>;
+}
+
+/** Sets an item's folder, tags or metadata; properties left out are unchanged. */
+export const updateProperties = (pkbId: string, contentId: string, properties: ContentProperties) =>
+  api.updateProperties<ContentItem>(pkbId, contentId, properties);
+
+export type BulkAction =
+  | { action: 'move'; folderId: string | null }
+  | { action: 'tag' | 'untag'; tags: string[] };
+
+/** Moves or tags up to 100 items at once; nothing changes unless all of them can be. */
+export const bulkUpdateContent = (pkbId: string, contentIds: string[], change: BulkAction) =>
+  api.bulkUpdateContent<{ updated: number; items: ContentItem[] }>({ pkbId, contentIds, ...change });
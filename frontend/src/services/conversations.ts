@@ -0,0 +1,43 @@
+import * as api from './generated/apiClient';
+import { Citation } from './aiStream';
+
+export interface Conversation {
+  conversationId: string;
+  pkbId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  modelId?: string;
+}
+
+export interface ConversationMessage {
+  messageId: string;
+  index: number;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  modelId?: string;
+  citations?: Citation[];
+}
+
+export const listConversations = async (pkbId: string): Promise<Conversation[]> => {
+  const { conversations } = await api.listConversations<{ conversations: Conversation[] }>(pkbId);
+  return conversations;
+};
+
+export const getConversation = (pkbId: string, conversationId: string) =>
+  api.getConversation<{ conversation: Conversation; messages: ConversationMessage[] }>(pkbId, conversationId);
+
+export const createConversation = (pkbId: string, title?: string) =>
+  api.createConversation<Conversation>(pkbId, { title });
+
+export const renameConversation = async (pkbId: string, conversationId: string, title: string) => {
+  const { conversation } = await api.renameConversation<{ conversation: Conversation }>(pkbId, conversationId, { title });
+  return conversation;
+};
+
+export const deleteConversation = (pkbId: string, conversationId: string) =>
+  api.deleteConversation<{ message: string }>(pkbId, conversationId);
@@ -0,0 +1,442 @@
+// Generated from backend/src/shared/openapi.ts; do not edit. Regenerate with
+// `UPDATE_API_CLIENT=1` when running tests/backend/openapi.test.js.
+import { apiRequest } from '../api';
+
+const withQuery = (path: string, query: Record<string, string | number | undefined> = {}) => {
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  return params.length > 0 ? `${path}?${params.join('&')}` : path;
+};
+
+export type SignUpBody = {
+  username: string;
+  email: string;
+  password: string;
+  givenName?: string;
+  familyName?: string;
+};
+
+/** Create an account: `POST /auth/signup`. */
+export const signUp = <T>(body: SignUpBody) =>
+  apiRequest<T>('/auth/signup', { method: 'POST', body });
+
+export type ConfirmSignUpBody = {
+  username: string;
+  code: string;
+};
+
+/** Confirm an account with the e-mailed code: `POST /auth/confirm`. */
+export const confirmSignUp = <T>(body: ConfirmSignUpBody) =>
+  apiRequest<T>('/auth/confirm', { method: 'POST', body });
+
+export type ResendConfirmationCodeBody = {
+  username: string;
+};
+
+/** Send the confirmation code again: `POST /auth/resend-code`. */
+export const resendConfirmationCode = <T>(body: ResendConfirmationCodeBody) =>
+  apiRequest<T>('/auth/resend-code', { method: 'POST', body });
+
+export type SignInBody = {
+  username: string;
+  password: string;
+};
+
+/** Sign in with a username or e-mail address: `POST /auth/signin`. */
+export const signIn = <T>(body: SignInBody) =>
+  apiRequest<T>('/auth/signin', { method: 'POST', body });
+
+export type RefreshSessionBody = {
+  refreshToken: string;
+};
+
+/** Exchange a refresh token for new tokens: `POST /auth/refresh`. */
+export const refreshSession = <T>(body: RefreshSessionBody) =>
+  apiRequest<T>('/auth/refresh', { method: 'POST', body });
+
+export type ForgotPasswordBody = {
+  username: string;
+};
+
+/** Send a password reset code: `POST /auth/forgot-password`. */
+export const forgotPassword = <T>(body: ForgotPasswordBody) =>
+  apiRequest<T>('/auth/forgot-password', { method: 'POST', body });
+
+export type ResetPasswordBody = {
+  username: string;
+  code: string;
+  newPassword: string;
+};
+
+/** Set a new password with a reset code: `POST /auth/reset-password`. */
+export const resetPassword = <T>(body: ResetPasswordBody) =>
+  apiRequest<T>('/auth/reset-password', { method: 'POST', body });
+
+/** PKBs the caller owns or is a member of: `GET /pkb`. */
+export const listPkbs = <T>() =>
+  apiRequest<T>('/pkb', { method: 'GET' });
+
+export type CreatePkbBody = {
+  name: string;
+  description?: string | null;
+  chatModelId?: string | null;
+};
+
+/** Create a PKB: `POST /pkb`. */
+export const createPkb = <T>(body: CreatePkbBody) =>
+  apiRequest<T>('/pkb', { method: 'POST', body });
+
+/** Invitations to the caller's verified e-mail address: `GET /pkb/invitations`. */
+export const listMyInvitations = <T>() =>
+  apiRequest<T>('/pkb/invitations', { method: 'GET' });
+
+/** Join a PKB: `POST /pkb/invitations/{pkbId}`. */
+export const acceptInvitation = <T>(pkbId: string) =>
+  apiRequest<T>(`/pkb/invitations/${encodeURIComponent(pkbId)}`, { method: 'POST' });
+
+/** Decline an invitation: `DELETE /pkb/invitations/{pkbId}`. */
+export const declineInvitation = <T>(pkbId: string) =>
+  apiRequest<T>(`/pkb/invitations/${encodeURIComponent(pkbId)}`, { method: 'DELETE' });
+
+/** A PKB with the caller's role and content stats: `GET /pkb/{pkbId}`. */
+export const getPkb = <T>(pkbId: string) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}`, { method: 'GET' });
+
+export type UpdatePkbBody = {
+  name?: string;
+  description?: string | null;
+  metadataFields?: ({
+    key: string;
+    label: string;
+    type: 'text' | 'number' | 'date' | 'select';
+    options?: string[];
+  })[];
+  chatModelId?: string | null;
+};
+
+/** Rename a PKB or change its settings; editors and owners: `PUT /pkb/{pkbId}`. */
+export const updatePkb = <T>(pkbId: string, body?: UpdatePkbBody) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}`, { method: 'PUT', body });
+
+/** Delete a PKB and everything in it; owners only: `DELETE /pkb/{pkbId}`. */
+export const deletePkb = <T>(pkbId: string) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}`, { method: 'DELETE' });
+
+/** Members, and for the owner pending invitations: `GET /pkb/{pkbId}/members`. */
+export const listMembers = <T>(pkbId: string) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}/members`, { method: 'GET' });
+
+export type InviteMemberBody = {
+  email: string;
+  role: 'editor' | 'viewer';
+};
+
+/** Invite someone by e-mail address; owners only: `POST /pkb/{pkbId}/members`. */
+export const inviteMember = <T>(pkbId: string, body: InviteMemberBody) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}/members`, { method: 'POST', body });
+
+export type UpdateMemberBody = {
+  role: 'editor' | 'viewer';
+};
+
+/** Change a member's role; owners only: `PUT /pkb/{pkbId}/members/{memberId}`. */
+export const updateMember = <T>(pkbId: string, memberId: string, body: UpdateMemberBody) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}/members/${encodeURIComponent(memberId)}`, { method: 'PUT', body });
+
+/** Remove a member, or leave the PKB: `DELETE /pkb/{pkbId}/members/{memberId}`. */
+export const removeMember = <T>(pkbId: string, memberId: string) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}/members/${encodeURIComponent(memberId)}`, { method: 'DELETE' });
+
+/** Revoke a pending invitation; owners only: `DELETE /pkb/{pkbId}/invitations/{email}`. */
+export const revokeInvitation = <T>(pkbId: string, email: string) =>
+  apiRequest<T>(`/pkb/${encodeURIComponent(pkbId)}/invitations/${encodeURIComponent(email)}`, { method: 'DELETE' });
+
+export type RequestUploadBody = {
+  pkbId: string;
+  contentId?: string;
+  fileName: string;
+  fileType: string;
+  size?: number;
+  checksum?: string;
+};
+
+/** Reserve an item, or a new version of one, and sign its S3 upload: `POST /content/upload-url`. */
+export const requestUpload = <T>(body: RequestUploadBody) =>
+  apiRequest<T>('/content/upload-url', { method: 'POST', body });
+
+export type InitiateMultipartUploadBody = {
+  pkbId: string;
+  fileName: string;
+  fileType: string;
+  size: number;
+};
+
+/** Reserve an item and open a multipart upload: `POST /content/multipart/initiate`. */
+export const initiateMultipartUpload = <T>(body: InitiateMultipartUploadBody) =>
+  apiRequest<T>('/content/multipart/initiate', { method: 'POST', body });
+
+export type SignUploadPartsBody = {
+  pkbId: string;
+  contentId: string;
+  partNumbers: number[];
+  checksums: string[];
+};
+
+/** Sign upload URLs for up to 100 parts: `POST /content/multipart/parts`. */
+export const signUploadParts = <T>(body: SignUploadPartsBody) =>
+  apiRequest<T>('/content/multipart/parts', { method: 'POST', body });
+
+export type GetMultipartStatusBody = {
+  pkbId: string;
+  contentId: string;
+};
+
+/** Parts S3 already has, to resume an upload: `POST /content/multipart/status`. */
+export const getMultipartStatus = <T>(body: GetMultipartStatusBody) =>
+  apiRequest<T>('/content/multipart/status', { method: 'POST', body });
+
+export type CompleteMultipartUploadBody = {
+  pkbId: string;
+  contentId: string;
+};
+
+/** Assemble the uploaded parts: `POST /content/multipart/complete`. */
+export const completeMultipartUpload = <T>(body: CompleteMultipartUploadBody) =>
+  apiRequest<T>('/content/multipart/complete', { method: 'POST', body });
+
+export type AbortMultipartUploadBody = {
+  pkbId: string;
+  contentId: string;
+};
+
+/** Discard the parts and the reserved item: `POST /content/multipart/abort`. */
+export const abortMultipartUpload = <T>(body: AbortMultipartUploadBody) =>
+  apiRequest<T>('/content/multipart/abort', { method: 'POST', body });
+
+export type CreateNoteBody = {
+  pkbId: string;
+  title?: string | null;
+  body?: string | null;
+};
+
+/** Write a Markdown note: `POST /content/notes`. */
+export const createNote = <T>(body: CreateNoteBody) =>
+  apiRequest<T>('/content/notes', { method: 'POST', body });
+
+export type BulkUpdateContentBody = {
+  pkbId: string;
+  contentIds: string[];
+  action: 'move' | 'tag' | 'untag';
+  folderId?: string | null;
+  tags?: string[];
+};
+
+/** Move or tag up to 100 items at once: `POST /content/bulk`. */
+export const bulkUpdateContent = <T>(body: BulkUpdateContentBody) =>
+  apiRequest<T>('/content/bulk', { method: 'POST', body });
+
+/** Folders of a PKB: `GET /content/folders/{pkbId}`. */
+export const listFolders = <T>(pkbId: string) =>
+  apiRequest<T>(`/content/folders/${encodeURIComponent(pkbId)}`, { method: 'GET' });
+
+export type CreateFolderBody = {
+  name: string;
+  parentId?: string | null;
+};
+
+/** Create a folder: `POST /content/folders/{pkbId}`. */
+export const createFolder = <T>(pkbId: string, body: CreateFolderBody) =>
+  apiRequest<T>(`/content/folders/${encodeURIComponent(pkbId)}`, { method: 'POST', body });
+
+export type UpdateFolderBody = {
+  name?: string;
+  parentId?: string | null;
+};
+
+/** Rename or move a folder: `PUT /content/folders/{pkbId}/{folderId}`. */
+export const updateFolder = <T>(pkbId: string, folderId: string, body?: UpdateFolderBody) =>
+  apiRequest<T>(`/content/folders/${encodeURIComponent(pkbId)}/${encodeURIComponent(folderId)}`, { method: 'PUT', body });
+
+/** Delete an empty folder: `DELETE /content/folders/{pkbId}/{folderId}`. */
+export const deleteFolder = <T>(pkbId: string, folderId: string) =>
+  apiRequest<T>(`/content/folders/${encodeURIComponent(pkbId)}/${encodeURIComponent(folderId)}`, { method: 'DELETE' });
+
+export type ListContentQuery = {
+  /** Only items in this folder or its subfolders. */
+  folderId?: string;
+  /** Only items with this tag. `meta.<key>` filters on custom metadata. */
+  tag?: string;
+};
+
+/** Items of a PKB: `GET /content/{pkbId}`. */
+export const listContent = <T>(pkbId: string, query?: ListContentQuery) =>
+  apiRequest<T>(withQuery(`/content/${encodeURIComponent(pkbId)}`, query), { method: 'GET' });
+
+/** One item: `GET /content/{pkbId}/{contentId}`. */
+export const getContent = <T>(pkbId: string, contentId: string) =>
+  apiRequest<T>(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}`, { method: 'GET' });
+
+export type SaveNoteBody = {
+  title?: string | null;
+  body?: string | null;
+};
+
+/** Save a note's title or text: `PUT /content/{pkbId}/{contentId}`. */
+export const saveNote = <T>(pkbId: string, contentId: string, body?: SaveNoteBody) =>
+  apiRequest<T>(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}`, { method: 'PUT', body });
+
+/** Delete an item, every stored version and its index: `DELETE /content/{pkbId}/{contentId}`. */
+export const deleteContent = <T>(pkbId: string, contentId: string) =>
+  apiRequest<T>(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}`, { method: 'DELETE' });
+
+/** A note's title and Markdown: `GET /content/{pkbId}/{contentId}/note`. */
+export const getNote = <T>(pkbId: string, contentId: string) =>
+  apiRequest<T>(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}/note`, { method: 'GET' });
+
+export type GetDownloadUrlQuery = {
+  /** An earlier version; the current one by default. */
+  versionId?: string;
+};
+
+/** A short-lived link to the stored file: `GET /content/{pkbId}/{contentId}/download-url`. */
+export const getDownloadUrl = <T>(pkbId: string, contentId: string, query?: GetDownloadUrlQuery) =>
+  apiRequest<T>(withQuery(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}/download-url`, query), { method: 'GET' });
+
+export type UpdatePropertiesBody = {
+  folderId?: string | null;
+  tags?: string[];
+  metadata?: Record<string, string | null>;
+};
+
+/** File an item in a folder and set its tags and metadata: `PUT /content/{pkbId}/{contentId}/properties`. */
+export const updateProperties = <T>(pkbId: string, contentId: string, body?: UpdatePropertiesBody) =>
+  apiRequest<T>(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}/properties`, { method: 'PUT', body });
+
+/** Stored versions, newest first: `GET /content/{pkbId}/{contentId}/versions`. */
+export const listVersions = <T>(pkbId: string, contentId: string) =>
+  apiRequest<T>(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}/versions`, { method: 'GET' });
+
+export type GetVersionDiffQuery = {
+  /** Version to compare with; the one before by default. */
+  against?: string;
+};
+
+/** Line changes of a text version: `GET /content/{pkbId}/{contentId}/versions/{versionId}/diff`. */
+export const getVersionDiff = <T>(pkbId: string, contentId: string, versionId: string, query?: GetVersionDiffQuery) =>
+  apiRequest<T>(withQuery(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}/versions/${encodeURIComponent(versionId)}/diff`, query), { method: 'GET' });
+
+/** Make an earlier version current again: `POST /content/{pkbId}/{contentId}/versions/{versionId}/restore`. */
+export const restoreVersion = <T>(pkbId: string, contentId: string, versionId: string) =>
+  apiRequest<T>(`/content/${encodeURIComponent(pkbId)}/${encodeURIComponent(contentId)}/versions/${encodeURIComponent(versionId)}/restore`, { method: 'POST' });
+
+/** The caller's conversations in a PKB, latest first: `GET /conversations/{pkbId}`. */
+export const listConversations = <T>(pkbId: string) =>
+  apiRequest<T>(`/conversations/${encodeURIComponent(pkbId)}`, { method: 'GET' });
+
+export type CreateConversationBody = {
+  title?: string;
+};
+
+/** Start a conversation: `POST /conversations/{pkbId}`. */
+export const createConversation = <T>(pkbId: string, body?: CreateConversationBody) =>
+  apiRequest<T>(`/conversations/${encodeURIComponent(pkbId)}`, { method: 'POST', body });
+
+/** A conversation with its messages: `GET /conversations/{pkbId}/{conversationId}`. */
+export const getConversation = <T>(pkbId: string, conversationId: string) =>
+  apiRequest<T>(`/conversations/${encodeURIComponent(pkbId)}/${encodeURIComponent(conversationId)}`, { method: 'GET' });
+
+export type RenameConversationBody = {
+  title: string;
+};
+
+/** Rename a conversation: `PUT /conversations/{pkbId}/{conversationId}`. */
+export const renameConversation = <T>(pkbId: string, conversationId: string, body: RenameConversationBody) =>
+  apiRequest<T>(`/conversations/${encodeURIComponent(pkbId)}/${encodeURIComponent(conversationId)}`, { method: 'PUT', body });
+
+/** Delete a conversation: `DELETE /conversations/{pkbId}/{conversationId}`. */
+export const deleteConversation = <T>(pkbId: string, conversationId: string) =>
+  apiRequest<T>(`/conversations/${encodeURIComponent(pkbId)}/${encodeURIComponent(conversationId)}`, { method: 'DELETE' });
+
+/** Chat models a PKB or question can use: `GET /ai/models`. */
+export const listAiModels = <T>() =>
+  apiRequest<T>('/ai/models', { method: 'GET' });
+
+export type QueryPkbBody = {
+  pkbId: string;
+  query: string;
+  topK?: number;
+  conversationId?: string;
+  context?: 'text' | 'image';
+  imageContentId?: string;
+  imageUrl?: string;
+  scope?: {
+    folderId?: string;
+    tag?: string;
+  } | null;
+  modelId?: string;
+};
+
+/** Answer a question from a PKB's content: `POST /ai/query`. */
+export const queryPkb = <T>(body: QueryPkbBody) =>
+  apiRequest<T>('/ai/query', { method: 'POST', body });
+
+export type SearchPkbQuery = {
+  pkbId: string;
+  q: string;
+  /** Comma-separated file types. */
+  type?: string;
+  uploadedBy?: string;
+  /** ISO-8601 date. */
+  from?: string;
+  /** ISO-8601 date. */
+  to?: string;
+  /** Only items in this folder or its subfolders. */
+  folderId?: string;
+  /** Only items with this tag. `meta.<key>` filters on custom metadata. */
+  tag?: string;
+  page?: number;
+  pageSize?: number;
+};
+
+/** Keyword and semantic search without the LLM: `GET /search`. */
+export const searchPkb = <T>(query: SearchPkbQuery) =>
+  apiRequest<T>(withQuery('/search', query), { method: 'GET' });
+
+/** Open suggestions first, then resolved ones: `GET /suggestions/{pkbId}`. */
+export const listSuggestions = <T>(pkbId: string) =>
+  apiRequest<T>(`/suggestions/${encodeURIComponent(pkbId)}`, { method: 'GET' });
+
+/** Analyze the PKB now: `POST /suggestions/{pkbId}/refresh`. */
+export const refreshSuggestions = <T>(pkbId: string) =>
+  apiRequest<T>(`/suggestions/${encodeURIComponent(pkbId)}/refresh`, { method: 'POST' });
+
+/** Apply a suggestion: `POST /suggestions/{pkbId}/{suggestionId}/accept`. */
+export const acceptSuggestion = <T>(pkbId: string, suggestionId: string) =>
+  apiRequest<T>(`/suggestions/${encodeURIComponent(pkbId)}/${encodeURIComponent(suggestionId)}/accept`, { method: 'POST' });
+
+/** Dismiss a suggestion: `POST /suggestions/{pkbId}/{suggestionId}/dismiss`. */
+export const dismissSuggestion = <T>(pkbId: string, suggestionId: string) =>
+  apiRequest<T>(`/suggestions/${encodeURIComponent(pkbId)}/${encodeURIComponent(suggestionId)}/dismiss`, { method: 'POST' });
+
+export type GetMyUsageQuery = {
+  /** First day, `YYYY-MM-DD`; 30 days before `to` by default. */
+  from?: string;
+  /** Last day, `YYYY-MM-DD`; today by default. */
+  to?: string;
+};
+
+/** The caller's AI usage and quota: `GET /usage`. */
+export const getMyUsage = <T>(query?: GetMyUsageQuery) =>
+  apiRequest<T>(withQuery('/usage', query), { method: 'GET' });
+
+export type GetPkbUsageQuery = {
+  /** First day, `YYYY-MM-DD`; 30 days before `to` by default. */
+  from?: string;
+  /** Last day, `YYYY-MM-DD`; today by default. */
+  to?: string;
+};
+
+/** Everyone's AI usage of a PKB; owners only: `GET /usage/{pkbId}`. */
+export const getPkbUsage = <T>(pkbId: string, query?: GetPkbUsageQuery) =>
+  apiRequest<T>(withQuery(`/usage/${encodeURIComponent(pkbId)}`, query), { method: 'GET' });
@@ -0,0 +1,61 @@
+import * as api from './generated/apiClient';
+import { PkbRole } from './pkbs';
+
+/** Roles an owner can give by invitation. */
+export type InvitableRole = Exclude<PkbRole, 'owner'>;
+
+export interface Member {
+  pkbId: string;
+  /** The member's Cognito `sub`. */
+  userId: string;
+  role: PkbRole;
+  email?: string;
+  addedAt: string;
+}
+
+export interface Invitation {
+  pkbId: string;
+  /** The invitee's lower-cased address. */
+  email: string;
+  role: InvitableRole;
+  pkbName: string;
+  invitedAt: string;
+}
+
+export interface InvitationResult {
+  message: string;
+  invitation: Invitation;
+  /** False when the stage sends no e-mail, or sending failed; the invitation waits in the app either way. */
+  emailed: boolean;
+}
+
+/** Members of a PKB, plus pending invitations when the caller is its owner. */
+export const listMembers = (pkbId: string) =>
+  api.listMembers<{ members: Member[]; invitations: Invitation[] }>(pkbId);
+
+export const inviteMember = (pkbId: string, email: string, role: InvitableRole) =>
+  api.inviteMember<InvitationResult>(pkbId, { email, role });
+
+export const updateMember = async (pkbId: string, userId: string, role: InvitableRole) => {
+  const { member } = await api.updateMember<{ member: Member }>(pkbId, userId, { role });
+  return member;
+};
+
+/** Removes a member, or with the caller's own id leaves the PKB. */
+export const removeMember = (pkbId: string, userId: string) =>
+  api.removeMember<{ message: string }>(pkbId, userId);
+
+export const revokeInvitation = (pkbId: string, email: string) =>
+  api.revokeInvitation<{ message: string }>(pkbId, email);
+
+/** Invitations to the signed-in user's verified address. */
+export const listMyInvitations = async (): Promise<Invitation[]> => {
+  const { invitations } = await api.listMyInvitations<{ invitations: Invitation[] }>();
+  return invitations;
+};
+
+export const acceptInvitation = (pkbId: string) =>
+  api.acceptInvitation<{ pkbId: string; role: PkbRole }>(pkbId);
+
+export const declineInvitation = (pkbId: string) =>
+  api.declineInvitation<{ message: string }>(pkbId);
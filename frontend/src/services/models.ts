@@ -0,0 +1,25 @@
+import * as api from './generated/apiClient';
+
+/** A chat model of the backend's model registry. */
+export interface AiModel {
+  modelId: string;
+  name: string;
+  capabilities: ('chat' | 'vision' | 'embedding')[];
+  /** Largest prompt the model accepts, in tokens. */
+  contextTokens: number;
+  maxOutputTokens: number;
+  /** US dollars per 1,000 tokens. */
+  pricing: { inputPer1kTokens: number; outputPer1kTokens: number };
+}
+
+export interface AiModelList {
+  models: AiModel[];
+  /** Answers for PKBs that have not chosen a model. */
+  defaultModelId: string;
+}
+
+export const listAiModels = () => api.listAiModels<AiModelList>();
+
+/** The model's display name, or its id when it is not in `models`. */
+export const modelName = (models: AiModel[], modelId: string) =>
+  models.find((model) => model.modelId === modelId)?.name ?? modelId;
@@ -0,0 +1,76 @@
+import * as api from './generated/apiClient';
+
+export type PkbRole = 'owner' | 'editor' | 'viewer';
+
+/** Uploaded content of a PKB by ingestion progress. */
+export interface ContentStats {
+  total: number;
+  ready: number;
+  /** Pending, processing or transcribing. */
+  processing: number;
+  failed: number;
+  lastUpdatedAt?: string;
+}
+
+export interface Pkb {
+  pkbId: string;
+  /** The owner's Cognito `sub`. */
+  userId: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+  /** The signed-in user's role on this PKB. */
+  role: PkbRole;
+  contentStats: ContentStats;
+  /** Custom metadata editors can fill in on each item. */
+  metadataFields?: MetadataField[];
+  /** Model that answers questions; the stage default when unset. */
+  chatModelId?: string;
+}
+
+export type MetadataFieldType = 'text' | 'number' | 'date' | 'select';
+
+export interface MetadataField {
+  /** Lower-case letters, digits and dashes. */
+  key: string;
+  label: string;
+  type: MetadataFieldType;
+  /** The allowed values of a `select` field. */
+  options?: string[];
+}
+
+export interface PkbInput {
+  name: string;
+  description: string;
+  /** `null` goes back to the default model. */
+  chatModelId?: string | null;
+}
+
+export const listPkbs = async (): Promise<Pkb[]> => {
+  const { pkbs } = await api.listPkbs<{ pkbs: Pkb[] }>();
+  return pkbs;
+};
+
+export const getPkb = (pkbId: string) => api.getPkb<Pkb>(pkbId);
+
+/** Resolves without role or stats, which the caller already knows for a new PKB. */
+export const createPkb = (input: PkbInput) => api.createPkb<Omit<Pkb, 'role' | 'contentStats'>>(input);
+
+export const updatePkb = async (pkbId: string, input: Partial<PkbInput>) => {
+  const { pkb } = await api.updatePkb<{ pkb: Omit<Pkb, 'role' | 'contentStats'> }>(pkbId, input);
+  return pkb;
+};
+
+export const updateMetadataFields = async (pkbId: string, metadataFields: MetadataField[]) => {
+  const { pkb } = await api.updatePkb<{ pkb: Omit<Pkb, 'role' | 'contentStats'> }>(pkbId, { metadataFields });
+  return pkb;
+};
+
+export const deletePkb = (pkbId: string) => api.deletePkb<{ message: string }>(pkbId);
+
+/** When the PKB or any of its content last changed. */
+export const lastActivityAt = (pkb: Pkb): string => {
+  const contentUpdatedAt = pkb.contentStats.lastUpdatedAt;
+  return contentUpdatedAt && contentUpdatedAt > pkb.updatedAt ? contentUpdatedAt : pkb.updatedAt;
+};
@@ -0,0 +1,201 @@
+import { ApiError } from './api';
+import {
+  MultipartStatus,
+  abortMultipartUpload,
+  completeMultipartUpload,
+  getMultipartStatus,
+  initiateMultipartUpload,
+  sha256,
+  signUploadParts,
+  uploadPart,
+} from './content';
+
+const MB = 1024 * 1024;
+
+/** Files from this size on go up in parts; smaller ones use a single presigned POST. */
+export const MULTIPART_THRESHOLD = 100 * MB;
+
+const PART_CONCURRENCY = 3;
+/** Matches the most part URLs the API signs per request. */
+const SIGN_BATCH_SIZE = 100;
+const MAX_PART_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const STORAGE_PREFIX = 'projectkb:upload:';
+
+/** An upload that was interrupted, e.g. by a reload, and can be resumed by picking the same file. */
+export interface SavedUpload {
+  pkbId: string;
+  contentId: string;
+  fileName: string;
+  size: number;
+  savedAt: string;
+}
+
+// Name, size and modification time identify "the same file" across reloads,
+// since browsers do not keep file handles.
+const storageKey = (pkbId: string, file: File) =>
+  `${STORAGE_PREFIX}${pkbId}:${file.name}:${file.size}:${file.lastModified}`;
+
+const readSaved = (key: string): SavedUpload | undefined => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as SavedUpload) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const listSavedUploads = (pkbId: string): (SavedUpload & { key: string })[] =>
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(`${STORAGE_PREFIX}${pkbId}:`))
+    .map((key) => ({ key, saved: readSaved(key) }))
+    .filter((entry): entry is { key: string; saved: SavedUpload } => entry.saved !== undefined)
+    .map(({ key, saved }) => ({ ...saved, key }));
+
+/** Gives up on an interrupted upload and frees its parts in S3. */
+export const discardSavedUpload = async (saved: SavedUpload & { key: string }) => {
+  localStorage.removeItem(saved.key);
+  await abortMultipartUpload(saved.pkbId, saved.contentId).catch(() => undefined);
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Upload cancelled', 'AbortError'));
+  });
+});
+
+const isAbort = (error: unknown) => (error as Error).name === 'AbortError';
+
+/** Waits for the browser to come back online, if it is offline. */
+const whenOnline = () => new Promise<void>((resolve) => {
+  if (navigator.onLine) {
+    resolve();
+    return;
+  }
+  window.addEventListener('online', () => resolve(), { once: true });
+});
+
+/** The saved upload's progress, or undefined if it can no longer be resumed. */
+const resume = async (pkbId: string, key: string): Promise<MultipartStatus | undefined> => {
+  const saved = readSaved(key);
+  if (!saved) {
+    return undefined;
+  }
+  try {
+    return await getMultipartStatus(pkbId, saved.contentId);
+  } catch (error) {
+    // Completed, aborted or cleaned up by the lifecycle rule.
+    if (error instanceof ApiError && (error.status === 404 || error.status === 409)) {
+      localStorage.removeItem(key);
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+export interface ResumableUploadOptions {
+  /** Bytes uploaded so far, including parts from before a resume. */
+  onProgress: (loaded: number) => void;
+  /** Called once the content id is known. */
+  onStarted?: (contentId: string, resumed: boolean) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Uploads a large file in parts, a few at a time. Progress is kept in
+ * local storage, so after a reload or a dropped connection uploading the
+ * same file again only sends the parts S3 does not have yet. Failed parts
+ * are retried with backoff before giving up. Resolves with the content id.
+ */
+export const uploadInParts = async (
+  pkbId: string,
+  file: File,
+  fileType: string,
+  { onProgress, onStarted, signal }: ResumableUploadOptions,
+): Promise<string> => {
+  const key = storageKey(pkbId, file);
+  const resumed = await resume(pkbId, key);
+  const upload = resumed ?? { ...(await initiateMultipartUpload(pkbId, file, fileType)), parts: [] };
+  if (!resumed) {
+    const saved: SavedUpload = {
+      pkbId,
+      contentId: upload.contentId,
+      fileName: file.name,
+      size: file.size,
+      savedAt: new Date().toISOString(),
+    };
+    localStorage.setItem(key, JSON.stringify(saved));
+  }
+  onStarted?.(upload.contentId, resumed !== undefined);
+
+  const done = new Set(upload.parts.map((part) => part.partNumber));
+  let completedBytes = upload.parts.reduce((total, part) => total + part.size, 0);
+  const inFlight = new Map<number, number>();
+  const reportProgress = () => {
+    onProgress(completedBytes + Array.from(inFlight.values()).reduce((total, loaded) => total + loaded, 0));
+  };
+  reportProgress();
+
+  const remaining = Array.from({ length: upload.partCount }, (_, index) => index + 1)
+    .filter((partNumber) => !done.has(partNumber));
+
+  const partOf = (partNumber: number) => {
+    const start = (partNumber - 1) * upload.partSize;
+    return file.slice(start, Math.min(start + upload.partSize, file.size));
+  };
+
+  const sendPart = async (partNumber: number, checksum: string, url: string) => {
+    const blob = partOf(partNumber);
+    let target = url;
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        await uploadPart(target, blob, checksum, (loaded) => {
+          inFlight.set(partNumber, loaded);
+          reportProgress();
+        }, signal);
+        inFlight.delete(partNumber);
+        completedBytes += blob.size;
+        reportProgress();
+        return;
+      } catch (error) {
+        inFlight.delete(partNumber);
+        if (isAbort(error) || attempt >= MAX_PART_ATTEMPTS) {
+          throw error;
+        }
+        await whenOnline();
+        await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+        // The URL may have expired while waiting.
+        [{ url: target }] = await signUploadParts(pkbId, upload.contentId, [{ partNumber, checksum }]);
+      }
+    }
+  };
+
+  for (let batchStart = 0; batchStart < remaining.length; batchStart += SIGN_BATCH_SIZE) {
+    // Each URL is signed for its part's checksum, so hash the batch first.
+    const batch: { partNumber: number; checksum: string }[] = [];
+    for (const partNumber of remaining.slice(batchStart, batchStart + SIGN_BATCH_SIZE)) {
+      batch.push({ partNumber, checksum: await sha256(partOf(partNumber)) });
+    }
+    const checksums = new Map(batch.map((part) => [part.partNumber, part.checksum]));
+    const queue = await signUploadParts(pkbId, upload.contentId, batch);
+    const workers = Array.from({ length: PART_CONCURRENCY }, async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        await sendPart(next.partNumber, checksums.get(next.partNumber)!, next.url);
+      }
+    });
+    await Promise.all(workers);
+  }
+
+  await completeMultipartUpload(pkbId, upload.contentId);
+  localStorage.removeItem(key);
+  return upload.contentId;
+};
+
+/** Stops tracking and frees the parts of an upload the user cancelled. */
+export const cancelPartsUpload = async (pkbId: string, file: File, contentId: string) => {
+  localStorage.removeItem(storageKey(pkbId, file));
+  await abortMultipartUpload(pkbId, contentId);
+};
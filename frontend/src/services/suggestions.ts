@@ -0,0 +1,44 @@
+import * as api from './generated/apiClient';
+
+export type SuggestionType = 'summary' | 'duplicate' | 'conflict' | 'stale' | 'coverage';
+
+export type SuggestionStatus = 'open' | 'accepted' | 'dismissed';
+
+export interface Suggestion {
+  pkbId: string;
+  suggestionId: string;
+  type: SuggestionType;
+  status: SuggestionStatus;
+  title: string;
+  detail: string;
+  /** Items the suggestion is about; empty for coverage gaps. */
+  contentIds: string[];
+  summary?: string;
+  tags?: string[];
+  createdAt: string;
+  updatedAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+export const listSuggestions = async (pkbId: string): Promise<Suggestion[]> => {
+  const { suggestions } = await api.listSuggestions<{ suggestions: Suggestion[] }>(pkbId);
+  return suggestions;
+};
+
+/** Re-runs the PKB analysis now instead of waiting for the daily run. */
+export const refreshSuggestions = async (pkbId: string): Promise<Suggestion[]> => {
+  const { suggestions } = await api.refreshSuggestions<{ suggestions: Suggestion[] }>(pkbId);
+  return suggestions;
+};
+
+/** Accepting a summary applies it and its tags to the item; a stale item is marked reviewed. */
+export const acceptSuggestion = async (pkbId: string, suggestionId: string) => {
+  const { suggestion } = await api.acceptSuggestion<{ suggestion: Suggestion }>(pkbId, suggestionId);
+  return suggestion;
+};
+
+export const dismissSuggestion = async (pkbId: string, suggestionId: string) => {
+  const { suggestion } = await api.dismissSuggestion<{ suggestion: Suggestion }>(pkbId, suggestionId);
+  return suggestion;
+};
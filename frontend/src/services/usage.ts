@@ -0,0 +1,90 @@
+import * as api from './generated/apiClient';
+
+/** Usage of one model by one user in one PKB on one UTC day. */
+export interface UsageRecord {
+  userId: string;
+  pkbId: string;
+  /** `YYYY-MM-DD`. */
+  day: string;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from on-demand prices, in US dollars. */
+  costUsd: number;
+  requests: number;
+}
+
+export interface QuotaStatus {
+  period: 'day' | 'month';
+  maxCostUsd?: number;
+  maxTokens?: number;
+  costUsd: number;
+  tokens: number;
+  resetsAt: string;
+  exceeded: boolean;
+}
+
+export interface UsageReport {
+  range: { from: string; to: string };
+  records: UsageRecord[];
+  /** Display names by model id, including non-chat models and transcription. */
+  modelNames: Record<string, string>;
+}
+
+export interface MyUsageReport extends UsageReport {
+  /** `null` when the stage sets no quota. */
+  quota: QuotaStatus | null;
+}
+
+export interface UsageTotal {
+  key: string;
+  costUsd: number;
+  tokens: number;
+  requests: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The last `days` days up to today, in UTC like the recorded days. */
+export const lastDays = (days: number) => {
+  const to = new Date();
+  return {
+    from: new Date(to.getTime() - (days - 1) * DAY_MS).toISOString().slice(0, 10),
+    to: to.toISOString().slice(0, 10),
+  };
+};
+
+/** The signed-in user's usage across their PKBs, with their quota. */
+export const getMyUsage = (range: { from: string; to: string }) =>
+  api.getMyUsage<MyUsageReport>(range);
+
+/** Everyone's usage of a PKB; owners only. */
+export const getPkbUsage = (pkbId: string, range: { from: string; to: string }) =>
+  api.getPkbUsage<UsageReport>(pkbId, range);
+
+/** Sums records by `keyOf`, most expensive first. */
+export const totalsBy = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageTotal[] => {
+  const totals = new Map<string, UsageTotal>();
+  records.forEach((record) => {
+    const key = keyOf(record);
+    const total = totals.get(key) ?? { key, costUsd: 0, tokens: 0, requests: 0 };
+    total.costUsd += record.costUsd;
+    total.tokens += record.inputTokens + record.outputTokens;
+    total.requests += record.requests;
+    totals.set(key, total);
+  });
+  return Array.from(totals.values()).sort((a, b) => b.costUsd - a.costUsd || b.tokens - a.tokens);
+};
+
+export const formatCost = (usd: number) => {
+  if (usd === 0) {
+    return '$0.00';
+  }
+  return usd < 0.01 ? '< $0.01' : `$${usd.toFixed(2)}`;
+};
+
+export const formatTokens = (tokens: number) => new Intl.NumberFormat(undefined, { notation: 'compact' }).format(tokens);
+
+/** What to tell someone whose question was refused for their quota. */
+export const quotaExceededMessage = (resetsAt: string) =>
+  `You have used your AI quota. It resets ${new Date(resetsAt).toLocaleString()}.`;
@@ -0,0 +1,78 @@
+/**
+ * MIME types the content Lambda accepts, keyed by extension. Browsers leave
+ * `File.type` empty for some of these (Markdown, often), so the extension
+ * is the fallback.
+ */
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  csv: 'text/csv',
+  json: 'application/json',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+};
+
+const SUPPORTED_TYPES = new Set(Object.values(MIME_TYPES_BY_EXTENSION));
+
+/** Value for a file input's `accept` attribute. */
+export const ACCEPTED_FILE_TYPES = [
+  ...Object.keys(MIME_TYPES_BY_EXTENSION).map((extension) => `.${extension}`),
+  ...SUPPORTED_TYPES,
+].join(',');
+
+/** The MIME type to upload `file` as, or undefined if it is not supported. */
+export const resolveFileType = (file: File): string | undefined => {
+  const declared = file.type.toLowerCase();
+  if (SUPPORTED_TYPES.has(declared)) {
+    return declared;
+  }
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES_BY_EXTENSION[extension];
+};
+
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'audio' | 'video' | 'none';
+
+export const previewKind = (fileType: string): PreviewKind => {
+  if (fileType.startsWith('image/')) {
+    return 'image';
+  }
+  if (fileType === 'application/pdf') {
+    return 'pdf';
+  }
+  if (fileType.startsWith('text/') || fileType === 'application/json') {
+    return 'text';
+  }
+  if (fileType.startsWith('audio/')) {
+    return 'audio';
+  }
+  if (fileType.startsWith('video/')) {
+    return 'video';
+  }
+  return 'none';
+};
+
+const UNITS = ['B', 'KB', 'MB', 'GB'];
+
+export const formatBytes = (bytes: number): string => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`;
+};
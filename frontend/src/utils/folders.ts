@@ -0,0 +1,55 @@
+import { ContentItem, Folder } from '../services/content';
+
+/** What the content list is narrowed to; every part that is set must match. */
+export interface ContentFilter {
+  /** Includes the folder's subfolders. */
+  folderId?: string;
+  tag?: string;
+  /** Wanted values by metadata field key. */
+  metadata: Record<string, string>;
+}
+
+export const EMPTY_FILTER: ContentFilter = { metadata: {} };
+
+/** `folderId` and every folder below it, mirroring the content Lambda. */
+export const subtreeOf = (folders: Folder[], folderId: string): Set<string> => {
+  const subtree = new Set([folderId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    folders.forEach((folder) => {
+      if (folder.parentId && subtree.has(folder.parentId) && !subtree.has(folder.folderId)) {
+        subtree.add(folder.folderId);
+        grew = true;
+      }
+    });
+  }
+  return subtree;
+};
+
+/** Folder names from the top level down, e.g. `Projects / Alpha`. */
+export const folderPath = (folders: Folder[], folderId: string): string => {
+  const names: string[] = [];
+  let folder = folders.find((candidate) => candidate.folderId === folderId);
+  while (folder && names.length < folders.length) {
+    names.unshift(folder.name);
+    const { parentId } = folder;
+    folder = parentId ? folders.find((candidate) => candidate.folderId === parentId) : undefined;
+  }
+  return names.join(' / ');
+};
+
+/** Every tag used in the PKB, alphabetically. */
+export const collectTags = (items: ContentItem[]): string[] =>
+  Array.from(new Set(items.flatMap((item) => item.tags ?? []))).sort();
+
+export const isFiltered = (filter: ContentFilter) =>
+  Boolean(filter.folderId || filter.tag || Object.keys(filter.metadata).length > 0);
+
+export const filterContent = (items: ContentItem[], folders: Folder[], filter: ContentFilter): ContentItem[] => {
+  const inFolder = filter.folderId ? subtreeOf(folders, filter.folderId) : undefined;
+  const wanted = Object.entries(filter.metadata);
+  return items.filter((item) => (!inFolder || (item.folderId !== undefined && inFolder.has(item.folderId)))
+    && (!filter.tag || (item.tags ?? []).includes(filter.tag))
+    && wanted.every(([key, value]) => item.metadata?.[key] === value));
+};
@@ -0,0 +1,15 @@
+/**
+ * Client-side copy of the user pool's password policy, so the sign-up form
+ * can explain what is missing before Cognito rejects the password.
+ */
+const RULES: { label: string; test: (password: string) => boolean }[] = [
+  { label: 'at least 8 characters', test: (password) => password.length >= 8 },
+  { label: 'a lowercase letter', test: (password) => /[a-z]/.test(password) },
+  { label: 'an uppercase letter', test: (password) => /[A-Z]/.test(password) },
+  { label: 'a number', test: (password) => /[0-9]/.test(password) },
+  { label: 'a special character', test: (password) => /[\^$*.[\]{}()?"!@#%&/\\,><':;|_~`=+\- ]/.test(password) },
+];
+
+/** The requirements the password does not meet yet; empty when it is acceptable. */
+export const missingPasswordRequirements = (password: string): string[] =>
+  RULES.filter((rule) => !rule.test(password)).map((rule) => rule.label);
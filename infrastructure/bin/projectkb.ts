@@ -1,13 +1,23 @@
 import * as cdk from 'aws-cdk-lib';
-import { ProjectKbStack } from './lib/projectkb-stack';
+import { ProjectKbStack } from '../lib/projectkb-stack';
+import { getStageConfig } from '../lib/config';
 
 const app = new cdk.App();
 
-new ProjectKbStack(app, 'ProjectKbStack', {
+// Pick the stage with `cdk deploy -c stage=prod`; each stage is its own stack.
+// Its frontend origin comes from `-c appOrigin=...` or APP_ORIGIN.
+const config = getStageConfig(app.node.tryGetContext('stage') ?? 'dev', {
+  appOrigin: app.node.tryGetContext('appOrigin') ?? process.env.APP_ORIGIN,
+});
+
+const stack = new ProjectKbStack(app, `ProjectKb-${config.stage}`, {
+  config,
   env: {
     account: process.env.CDK_DEFAULT_ACCOUNT,
     region: process.env.CDK_DEFAULT_REGION || 'us-east-1',
   },
 });
+cdk.Tags.of(stack).add('project', 'projectkb');
+cdk.Tags.of(stack).add('stage', config.stage);
 
 app.synth();
@@ -0,0 +1,233 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { modelsWith } from '../../backend/src/shared/models';
+import { BackendFunction } from './backend-function';
+import { StageConfig, quotaEnvironment } from './config';
+import { DataTables } from './data-construct';
+
+export interface AiConstructProps {
+  config: StageConfig;
+  tables: DataTables;
+  fileBucket: s3.IBucket;
+  /** Verifies the ID tokens sent to the streaming Function URL. */
+  userPool: cognito.IUserPool;
+  userPoolClient: cognito.IUserPoolClient;
+}
+
+/**
+ * Answers, streamed answers, suggestions and AI usage reports, plus the
+ * Bedrock access other Lambdas are granted through `grantChatModel` and
+ * `grantEmbeddingModel`.
+ */
+export class AiConstruct extends Construct {
+  /** Answers questions behind the API's `ai` route. */
+  readonly aiLambda: lambda.Function;
+  readonly aiStreamLambda: lambda.Function;
+  /** Where the frontend streams answers from. */
+  readonly aiStreamUrl: lambda.FunctionUrl;
+  /** Lists, accepts and dismisses suggestions behind the `suggestions` route. */
+  readonly suggestionLambda: lambda.Function;
+  readonly suggestionAnalysisLambda: lambda.Function;
+  /** Reports usage per day, PKB and model behind the `usage` route. */
+  readonly usageLambda: lambda.Function;
+
+  private readonly config: StageConfig;
+
+  constructor(scope: Construct, id: string, props: AiConstructProps) {
+    super(scope, id);
+
+    const { config, tables, fileBucket, userPool, userPoolClient } = props;
+    this.config = config;
+
+    this.aiLambda = new BackendFunction(this, 'AiLambda', {
+      config,
+      name: 'ai',
+      source: 'ai',
+      environment: {
+        PKB_TABLE: tables.pkbs.tableName,
+        MEMBER_TABLE: tables.members.tableName,
+        CONTENT_TABLE: tables.content.tableName,
+        CHUNK_TABLE: tables.chunks.tableName,
+        CONVERSATION_TABLE: tables.conversations.tableName,
+        FOLDER_TABLE: tables.folders.tableName,
+        LABEL_TABLE: tables.labels.tableName,
+        USAGE_TABLE: tables.usage.tableName,
+        FILE_BUCKET: fileBucket.bucketName,
+        BEDROCK_MODEL_ID: config.models.chat,
+        EMBEDDING_MODEL_ID: config.models.embedding,
+        ALLOWED_ORIGIN: config.appOrigin,
+        ...quotaEnvironment(config),
+      },
+      timeout: cdk.Duration.minutes(5),
+    });
+
+    // Streams answers token by token through a Function URL, avoiding the
+    // 29-second API Gateway limit. It verifies Cognito ID tokens itself.
+    this.aiStreamLambda = new BackendFunction(this, 'AiStreamLambda', {
+      config,
+      name: 'ai-stream',
+      source: 'ai',
+      handler: 'index.streamHandler',
+      environment: {
+        PKB_TABLE: tables.pkbs.tableName,
+        MEMBER_TABLE: tables.members.tableName,
+        CONTENT_TABLE: tables.content.tableName,
+        CHUNK_TABLE: tables.chunks.tableName,
+        CONVERSATION_TABLE: tables.conversations.tableName,
+        FOLDER_TABLE: tables.folders.tableName,
+        LABEL_TABLE: tables.labels.tableName,
+        USAGE_TABLE: tables.usage.tableName,
+        FILE_BUCKET: fileBucket.bucketName,
+        BEDROCK_MODEL_ID: config.models.chat,
+        EMBEDDING_MODEL_ID: config.models.embedding,
+        USER_POOL_ID: userPool.userPoolId,
+        USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+        ALLOWED_ORIGIN: config.appOrigin,
+        ...quotaEnvironment(config),
+      },
+      timeout: cdk.Duration.minutes(5),
+    });
+
+    this.aiStreamUrl = this.aiStreamLambda.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+      invokeMode: lambda.InvokeMode.RESPONSE_STREAM,
+      cors: {
+        allowedOrigins: [config.appOrigin],
+        allowedMethods: [lambda.HttpMethod.POST],
+        allowedHeaders: ['Content-Type', 'Authorization'],
+      },
+    });
+
+    const suggestionEnvironment = {
+      PKB_TABLE: tables.pkbs.tableName,
+      MEMBER_TABLE: tables.members.tableName,
+      CONTENT_TABLE: tables.content.tableName,
+      CHUNK_TABLE: tables.chunks.tableName,
+      SUGGESTION_TABLE: tables.suggestions.tableName,
+      LABEL_TABLE: tables.labels.tableName,
+      USAGE_TABLE: tables.usage.tableName,
+      BEDROCK_MODEL_ID: config.models.chat,
+      ALLOWED_ORIGIN: config.appOrigin,
+    };
+    // Lists, accepts and dismisses suggestions, and refreshes them on request
+    this.suggestionLambda = new BackendFunction(this, 'SuggestionLambda', {
+      config,
+      name: 'suggestions',
+      source: 'suggestions',
+      environment: suggestionEnvironment,
+      memorySize: 1024,
+      timeout: cdk.Duration.seconds(29),
+    });
+
+    // Analyzes every PKB once a day for duplicates, conflicts, stale
+    // content and coverage gaps
+    this.suggestionAnalysisLambda = new BackendFunction(this, 'SuggestionAnalysisLambda', {
+      config,
+      name: 'suggestion-analysis',
+      source: 'suggestions',
+      handler: 'index.onSchedule',
+      environment: suggestionEnvironment,
+      memorySize: 1024,
+      timeout: cdk.Duration.minutes(15),
+    });
+
+    // AI usage per day, PKB and model, and each user's standing against the quota
+    this.usageLambda = new BackendFunction(this, 'UsageLambda', {
+      config,
+      name: 'usage',
+      source: 'usage',
+      environment: {
+        PKB_TABLE: tables.pkbs.tableName,
+        MEMBER_TABLE: tables.members.tableName,
+        CONTENT_TABLE: tables.content.tableName,
+        USAGE_TABLE: tables.usage.tableName,
+        ALLOWED_ORIGIN: config.appOrigin,
+        ...quotaEnvironment(config),
+      },
+    });
+
+    const suggestionScheduleRule = new events.Rule(this, 'SuggestionScheduleRule', {
+      schedule: events.Schedule.rate(cdk.Duration.days(1)),
+    });
+    suggestionScheduleRule.addTarget(new targets.LambdaFunction(this.suggestionAnalysisLambda, { retryAttempts: 0 }));
+
+    tables.pkbs.grantReadData(this.aiLambda);
+    tables.members.grantReadData(this.aiLambda);
+    tables.content.grantReadWriteData(this.aiLambda);
+    tables.chunks.grantReadData(this.aiLambda);
+    tables.conversations.grantReadWriteData(this.aiLambda);
+    tables.folders.grantReadData(this.aiLambda);
+    tables.labels.grantReadData(this.aiLambda);
+    tables.usage.grantReadWriteData(this.aiLambda);
+    fileBucket.grantRead(this.aiLambda);
+    tables.pkbs.grantReadData(this.aiStreamLambda);
+    tables.members.grantReadData(this.aiStreamLambda);
+    tables.content.grantReadData(this.aiStreamLambda);
+    tables.chunks.grantReadData(this.aiStreamLambda);
+    tables.conversations.grantReadWriteData(this.aiStreamLambda);
+    tables.folders.grantReadData(this.aiStreamLambda);
+    tables.labels.grantReadData(this.aiStreamLambda);
+    tables.usage.grantReadWriteData(this.aiStreamLambda);
+    fileBucket.grantRead(this.aiStreamLambda);
+    tables.pkbs.grantReadData(this.suggestionLambda);
+    tables.members.grantReadData(this.suggestionLambda);
+    tables.content.grantReadWriteData(this.suggestionLambda);
+    tables.chunks.grantReadData(this.suggestionLambda);
+    tables.suggestions.grantReadWriteData(this.suggestionLambda);
+    tables.labels.grantReadWriteData(this.suggestionLambda);
+    tables.usage.grantWriteData(this.suggestionLambda);
+    tables.pkbs.grantReadData(this.suggestionAnalysisLambda);
+    tables.members.grantReadData(this.suggestionAnalysisLambda);
+    tables.content.grantReadWriteData(this.suggestionAnalysisLambda);
+    tables.chunks.grantReadData(this.suggestionAnalysisLambda);
+    tables.suggestions.grantReadWriteData(this.suggestionAnalysisLambda);
+    tables.usage.grantWriteData(this.suggestionAnalysisLambda);
+    tables.pkbs.grantReadData(this.usageLambda);
+    tables.members.grantReadData(this.usageLambda);
+    tables.usage.grantReadData(this.usageLambda);
+
+    this.grantChatModel(this.aiLambda);
+    this.grantChatModel(this.aiStreamLambda);
+    // Questions are embedded to retrieve passages as search does
+    this.grantEmbeddingModel(this.aiLambda);
+    this.grantEmbeddingModel(this.aiStreamLambda);
+    this.grantChatModel(this.suggestionLambda);
+    this.grantChatModel(this.suggestionAnalysisLambda);
+  }
+
+  /**
+   * Lets `grantee` call the chat and vision models of the model registry,
+   * streamed or not. Queries may pick any of them, and throttled ones fall
+   * back to others.
+   */
+  grantChatModel(grantee: iam.IGrantable): iam.Grant {
+    const modelIds = new Set([...modelsWith('chat'), ...modelsWith('vision')].map((model) => model.modelId));
+    return iam.Grant.addToPrincipal({
+      grantee,
+      actions: [
+        'bedrock:InvokeModel',
+        'bedrock:InvokeModelWithResponseStream',
+      ],
+      resourceArns: [...modelIds].map((modelId) => this.foundationModelArn(modelId)),
+    });
+  }
+
+  /** Lets `grantee` embed text with the stage's embedding model only. */
+  grantEmbeddingModel(grantee: iam.IGrantable): iam.Grant {
+    return iam.Grant.addToPrincipal({
+      grantee,
+      actions: ['bedrock:InvokeModel'],
+      resourceArns: [this.foundationModelArn(this.config.models.embedding)],
+    });
+  }
+
+  private foundationModelArn(modelId: string) {
+    return `arn:aws:bedrock:${cdk.Stack.of(this).region}::foundation-model/${modelId}`;
+  }
+}
@@ -0,0 +1,68 @@
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { Construct } from 'constructs';
+import { API_SPEC, OpenApiDocument, isPublicOperation, listOperations } from '../../backend/src/shared/openapi';
+import { StageConfig } from './config';
+
+export interface ApiConstructProps {
+  config: StageConfig;
+  /** Issues the tokens the authorizer accepts. */
+  userPool: cognito.IUserPool;
+  /** The Lambda serving each top-level resource of the spec, e.g. `pkb`. */
+  handlers: Record<string, lambda.IFunction>;
+  /** The routes to create; backend/src/shared/openapi.ts by default. */
+  spec?: OpenApiDocument;
+}
+
+/**
+ * The REST API, its Cognito authorizer and a method for every operation of
+ * the API spec. Operations the spec marks public skip the authorizer; every
+ * other one requires a user pool token.
+ */
+export class ApiConstruct extends Construct {
+  readonly api: apigateway.RestApi;
+  readonly authorizer: apigateway.CognitoUserPoolsAuthorizer;
+
+  constructor(scope: Construct, id: string, props: ApiConstructProps) {
+    super(scope, id);
+
+    const { config, userPool, handlers, spec = API_SPEC } = props;
+
+    this.api = new apigateway.RestApi(this, 'ProjectKbApi', {
+      restApiName: `ProjectKB API (${config.stage})`,
+      description: 'API for ProjectKB application',
+      deployOptions: {
+        stageName: config.stage,
+      },
+      defaultCorsPreflightOptions: {
+        allowOrigins: [config.appOrigin],
+        allowMethods: apigateway.Cors.ALL_METHODS,
+        allowHeaders: ['Content-Type', 'Authorization'],
+      },
+    });
+
+    this.authorizer = new apigateway.CognitoUserPoolsAuthorizer(this, 'CognitoAuthorizer', {
+      cognitoUserPools: [userPool],
+    });
+
+    const integrations = new Map<string, apigateway.LambdaIntegration>();
+    const integrationFor = (service: string) => {
+      if (!handlers[service]) {
+        throw new Error(`No handler for the /${service} routes of the API spec`);
+      }
+      if (!integrations.has(service)) {
+        // The console's test invocations are not used, so each method grants API Gateway one invoke permission
+        integrations.set(service, new apigateway.LambdaIntegration(handlers[service], { allowTestInvoke: false }));
+      }
+      return integrations.get(service)!;
+    };
+
+    listOperations(spec).forEach(({ path, method, operation }) => {
+      this.api.root.resourceForPath(path).addMethod(method.toUpperCase(), integrationFor(operation.tags[0]), {
+        operationName: operation.operationId,
+        ...(isPublicOperation(operation) ? {} : { authorizer: this.authorizer }),
+      });
+    });
+  }
+}
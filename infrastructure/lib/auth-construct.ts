@@ -0,0 +1,163 @@
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+import { BackendFunction } from './backend-function';
+import { StageConfig, dataRemovalPolicy, resourceName } from './config';
+
+export interface AuthConstructProps {
+  config: StageConfig;
+}
+
+/**
+ * The Cognito user pool the app signs in with, its web client and Hosted UI
+ * domain, the Google and Microsoft identity providers, and the Lambda behind
+ * the API's `auth` route.
+ */
+export class AuthConstruct extends Construct {
+  readonly userPool: cognito.UserPool;
+  readonly userPoolClient: cognito.UserPoolClient;
+  /** Hosted UI domain used for Google and Microsoft sign-in. */
+  readonly userPoolDomain: cognito.UserPoolDomain;
+  /** Signs users up and in against the pool, behind the `auth` route. */
+  readonly authLambda: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: AuthConstructProps) {
+    super(scope, id);
+
+    const { config } = props;
+
+    this.userPool = new cognito.UserPool(this, 'ProjectKbUserPool', {
+      userPoolName: resourceName(config, 'users'),
+      selfSignUpEnabled: true,
+      signInAliases: {
+        email: true,
+        username: true,
+      },
+      autoVerify: {
+        email: true,
+      },
+      standardAttributes: {
+        email: {
+          required: true,
+          mutable: true,
+        },
+        givenName: {
+          required: true,
+          mutable: true,
+        },
+        familyName: {
+          required: true,
+          mutable: true,
+        },
+      },
+      passwordPolicy: {
+        minLength: 8,
+        requireLowercase: true,
+        requireUppercase: true,
+        requireDigits: true,
+        requireSymbols: true,
+      },
+      // Users opt in to an authenticator app from the Settings page.
+      mfa: cognito.Mfa.OPTIONAL,
+      mfaSecondFactor: {
+        sms: false,
+        otp: true,
+      },
+      // Browsers the user chooses to remember skip the MFA step until forgotten.
+      deviceTracking: {
+        challengeRequiredOnNewDevice: true,
+        deviceOnlyRememberedOnUserPrompt: true,
+      },
+      accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
+      removalPolicy: dataRemovalPolicy(config),
+    });
+
+    this.userPoolClient = new cognito.UserPoolClient(this, 'ProjectKbUserPoolClient', {
+      userPool: this.userPool,
+      userPoolClientName: resourceName(config, 'client'),
+      generateSecret: false,
+      authFlows: {
+        userPassword: true,
+        userSrp: true,
+      },
+      supportedIdentityProviders: [
+        cognito.UserPoolClientIdentityProvider.COGNITO,
+        cognito.UserPoolClientIdentityProvider.GOOGLE,
+        cognito.UserPoolClientIdentityProvider.custom('Microsoft'),
+      ],
+      oAuth: {
+        flows: {
+          authorizationCodeGrant: true,
+        },
+        scopes: [
+          cognito.OAuthScope.EMAIL,
+          cognito.OAuthScope.OPENID,
+          cognito.OAuthScope.PROFILE,
+        ],
+        callbackUrls: [`${config.appOrigin}/auth/callback`],
+        logoutUrls: [`${config.appOrigin}/auth/logout`],
+      },
+    });
+
+    this.userPoolDomain = this.userPool.addDomain('ProjectKbUserPoolDomain', {
+      cognitoDomain: {
+        domainPrefix: resourceName(config, 'auth'),
+      },
+    });
+
+    // Client credentials of the sign-in providers are kept in Secrets Manager
+    // and only referenced from the template, never copied into it
+    const googleSecret = secretsmanager.Secret.fromSecretNameV2(
+      this,
+      'GoogleClientSecret',
+      config.identityProviderSecrets.google,
+    );
+    const microsoftSecret = secretsmanager.Secret.fromSecretNameV2(
+      this,
+      'MicrosoftClientSecret',
+      config.identityProviderSecrets.microsoft,
+    );
+
+    const googleProvider = new cognito.UserPoolIdentityProviderGoogle(this, 'GoogleProvider', {
+      userPool: this.userPool,
+      clientId: googleSecret.secretValueFromJson('clientId').unsafeUnwrap(),
+      clientSecretValue: googleSecret.secretValueFromJson('clientSecret'),
+      scopes: ['email', 'profile'],
+      attributeMapping: {
+        email: cognito.ProviderAttribute.GOOGLE_EMAIL,
+        givenName: cognito.ProviderAttribute.GOOGLE_GIVEN_NAME,
+        familyName: cognito.ProviderAttribute.GOOGLE_FAMILY_NAME,
+      },
+    });
+
+    const microsoftProvider = new cognito.UserPoolIdentityProviderOidc(this, 'MicrosoftProvider', {
+      userPool: this.userPool,
+      name: 'Microsoft',
+      // Unwrapping yields a dynamic reference that CloudFormation resolves at deploy time
+      clientId: microsoftSecret.secretValueFromJson('clientId').unsafeUnwrap(),
+      clientSecret: microsoftSecret.secretValueFromJson('clientSecret').unsafeUnwrap(),
+      issuerUrl: 'https://login.microsoftonline.com/common/v2.0',
+      scopes: ['openid', 'email', 'profile'],
+      attributeMapping: {
+        email: cognito.ProviderAttribute.other('email'),
+        givenName: cognito.ProviderAttribute.other('given_name'),
+        familyName: cognito.ProviderAttribute.other('family_name'),
+      },
+    });
+
+    // The client can only list providers that already exist
+    this.userPoolClient.node.addDependency(googleProvider, microsoftProvider);
+
+    this.authLambda = new BackendFunction(this, 'AuthLambda', {
+      config,
+      name: 'auth',
+      source: 'auth',
+      environment: {
+        USER_POOL_ID: this.userPool.userPoolId,
+        USER_POOL_CLIENT_ID: this.userPoolClient.userPoolClientId,
+        ALLOWED_ORIGIN: config.appOrigin,
+      },
+    });
+  }
+}
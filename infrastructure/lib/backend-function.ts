@@ -0,0 +1,50 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import { Construct } from 'constructs';
+import { StageConfig } from './config';
+
+/** The backend package, resolved from this file so synth works from any directory. */
+const BACKEND_ROOT = path.join(__dirname, '../../backend');
+
+export interface BackendFunctionProps {
+  config: StageConfig;
+  /** Function name after the stage prefix, e.g. `content` for `projectkb-dev-content`. */
+  name: string;
+  /** Directory under backend/src holding the handler. */
+  source: string;
+  /** `<file>.<export>` in that directory; defaults to `index.handler`. */
+  handler?: string;
+  environment?: Record<string, string>;
+  memorySize?: number;
+  timeout?: cdk.Duration;
+}
+
+/**
+ * A Lambda running one of the backend handlers, named for its stage. The
+ * handler is bundled with esbuild together with what it imports from other
+ * backend directories and the backend's dependencies, so the asset runs on
+ * Node without the TypeScript sources.
+ */
+export class BackendFunction extends nodejs.NodejsFunction {
+  constructor(scope: Construct, id: string, props: BackendFunctionProps) {
+    const [file, exportName] = (props.handler ?? 'index.handler').split('.');
+    super(scope, id, {
+      functionName: `${props.config.prefix}-${props.name}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      entry: path.join(BACKEND_ROOT, 'src', props.source, `${file}.ts`),
+      handler: exportName,
+      projectRoot: BACKEND_ROOT,
+      depsLockFilePath: path.join(BACKEND_ROOT, 'package-lock.json'),
+      bundling: {
+        tsconfig: path.join(BACKEND_ROOT, 'tsconfig.json'),
+        minify: true,
+        sourceMap: true,
+      },
+      environment: { NODE_OPTIONS: '--enable-source-maps', ...props.environment },
+      memorySize: props.memorySize,
+      timeout: props.timeout,
+    });
+  }
+}
@@ -0,0 +1,177 @@
+import * as cdk from 'aws-cdk-lib';
+import { ModelCapability, hasCapability } from '../../backend/src/shared/models';
+import { UsageQuota } from '../../backend/src/usage/quota';
+
+export type StageName = 'dev' | 'staging' | 'prod';
+
+/** Default Bedrock model IDs of the Lambdas, from the model registry in backend/src/shared/models.ts. */
+export interface ModelConfig {
+  /** Answers, suggestions and summaries. */
+  chat: string;
+  /** Captions and OCR of uploaded images. */
+  vision: string;
+  embedding: string;
+}
+
+/**
+ * Settings of one deployment of ProjectKB. Every named resource starts
+ * with `prefix`, so several stages can live side by side in one account.
+ */
+export interface StageConfig {
+  stage: StageName;
+  /** Prefix of resource names, e.g. `projectkb-dev`; also names the Hosted UI domain. */
+  prefix: string;
+  /**
+   * Keeps tables, the user pool and the file bucket when the stack is
+   * deleted, and turns on point-in-time recovery for the tables.
+   */
+  retainData: boolean;
+  /**
+   * Origin the frontend is served from; used for OAuth callbacks and CORS.
+   * The defaults of `staging` and `prod` are placeholders, replaced at deploy
+   * time with `-c appOrigin=...` or `APP_ORIGIN`.
+   */
+  appOrigin: string;
+  /**
+   * SES-verified address (or an address of a verified domain) invitations
+   * are e-mailed from. Without one, invitees only see invitations in the app.
+   */
+  invitationSender?: string;
+  models: ModelConfig;
+  /** AI usage each user may run up per day or month before questions get a 429. */
+  usageQuota: UsageQuota;
+  /**
+   * Secrets Manager secret names for the federated sign-in providers, each
+   * holding `{"clientId": "...", "clientSecret": "..."}`.
+   */
+  identityProviderSecrets: {
+    google: string;
+    microsoft: string;
+  };
+}
+
+const MODELS: ModelConfig = {
+  chat: 'anthropic.claude-3-haiku-20240307-v1:0',
+  vision: 'anthropic.claude-3-haiku-20240307-v1:0',
+  embedding: 'amazon.titan-embed-text-v2:0',
+};
+
+const identityProviderSecrets = (stage: StageName) => ({
+  google: `projectkb/${stage}/google`,
+  microsoft: `projectkb/${stage}/microsoft`,
+});
+
+export const STAGES: Record<StageName, StageConfig> = {
+  dev: {
+    stage: 'dev',
+    prefix: 'projectkb-dev',
+    retainData: false,
+    appOrigin: 'http://localhost:3000',
+    models: MODELS,
+    usageQuota: { period: 'day', maxCostUsd: 1 },
+    identityProviderSecrets: identityProviderSecrets('dev'),
+  },
+  staging: {
+    stage: 'staging',
+    prefix: 'projectkb-staging',
+    retainData: false,
+    appOrigin: 'https://staging.example.com',
+    models: MODELS,
+    usageQuota: { period: 'day', maxCostUsd: 2 },
+    identityProviderSecrets: identityProviderSecrets('staging'),
+  },
+  prod: {
+    stage: 'prod',
+    prefix: 'projectkb-prod',
+    retainData: true,
+    appOrigin: 'https://app.example.com',
+    models: MODELS,
+    usageQuota: { period: 'month', maxCostUsd: 25 },
+    identityProviderSecrets: identityProviderSecrets('prod'),
+  },
+};
+
+/** Name of a stage resource, e.g. `projectkb-dev-content` for `content`. */
+export const resourceName = (config: StageConfig, suffix: string) => `${config.prefix}-${suffix}`;
+
+/**
+ * Removal policy of stateful resources: kept where the stage retains data,
+ * deleted with the stack elsewhere.
+ */
+export const dataRemovalPolicy = (config: StageConfig) => (
+  config.retainData ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY
+);
+
+/**
+ * Source of the events the content API puts on the default bus. Events are
+ * account-wide, so it carries the prefix too.
+ */
+export const contentEventSource = (config: StageConfig) => `${config.prefix}.content`;
+
+/** The environment variables `quotaFromEnvironment` in the backend reads the quota from. */
+export const quotaEnvironment = ({ usageQuota }: StageConfig): Record<string, string> => ({
+  USAGE_QUOTA_PERIOD: usageQuota.period,
+  ...(usageQuota.maxCostUsd !== undefined && { USAGE_QUOTA_USD: String(usageQuota.maxCostUsd) }),
+  ...(usageQuota.maxTokens !== undefined && { USAGE_QUOTA_TOKENS: String(usageQuota.maxTokens) }),
+});
+
+/**
+ * Throws unless each configured model is in the model registry with the
+ * capability it is used for; the Lambdas may call no other models.
+ */
+export const validateModels = (models: ModelConfig) => {
+  const uses: [ModelCapability, string][] = [
+    ['chat', models.chat],
+    ['vision', models.vision],
+    ['embedding', models.embedding],
+  ];
+  uses.forEach(([capability, modelId]) => {
+    if (!hasCapability(modelId, capability)) {
+      throw new Error(`${modelId} is not a ${capability} model of the model registry`);
+    }
+  });
+};
+
+/** Settings given at deploy time instead of in {@link STAGES}. */
+export interface StageOverrides {
+  appOrigin?: string;
+}
+
+// Hosts of the placeholder origins, which no real frontend is served from.
+const PLACEHOLDER_HOST = /(^|\.)example\.com$/;
+
+/**
+ * Throws unless `appOrigin` is a bare origin such as `https://kb.example.org`
+ * and, outside `dev`, a real one rather than a placeholder.
+ */
+export const validateAppOrigin = ({ stage, appOrigin }: Pick<StageConfig, 'stage' | 'appOrigin'>) => {
+  let url: URL;
+  try {
+    url = new URL(appOrigin);
+  } catch {
+    throw new Error(`appOrigin "${appOrigin}" is not a URL`);
+  }
+  if (url.origin !== appOrigin) {
+    throw new Error(`appOrigin "${appOrigin}" must be an origin, such as ${url.origin}`);
+  }
+  if (stage !== 'dev' && PLACEHOLDER_HOST.test(url.hostname)) {
+    throw new Error(`Set the ${stage} frontend origin with -c appOrigin=<origin> or APP_ORIGIN`);
+  }
+};
+
+/**
+ * The config of `stage`, as passed with `cdk deploy -c stage=<name>`, with
+ * any `overrides` applied.
+ */
+export const getStageConfig = (stage: string, overrides: StageOverrides = {}): StageConfig => {
+  if (!(stage in STAGES)) {
+    throw new Error(`Unknown stage "${stage}"; expected one of ${Object.keys(STAGES).join(', ')}`);
+  }
+  const config: StageConfig = {
+    ...STAGES[stage as StageName],
+    ...(overrides.appOrigin && { appOrigin: overrides.appOrigin }),
+  };
+  validateAppOrigin(config);
+  validateModels(config.models);
+  return config;
+};
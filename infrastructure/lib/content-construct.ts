@@ -0,0 +1,98 @@
+import * as cdk from 'aws-cdk-lib';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { AiConstruct } from './ai-construct';
+import { BackendFunction } from './backend-function';
+import { StageConfig, contentEventSource } from './config';
+import { DataTables } from './data-construct';
+
+export interface ContentConstructProps {
+  config: StageConfig;
+  tables: DataTables;
+  fileBucket: s3.IBucket;
+  /** Where saved notes are announced for the ingestion worker. */
+  eventBus: events.IEventBus;
+  /** Grants search the embedding model. */
+  ai: AiConstruct;
+}
+
+/**
+ * The Lambdas behind the `content` and `search` routes: uploads, notes,
+ * folders and version history, and hybrid search over the chunk index.
+ */
+export class ContentConstruct extends Construct {
+  readonly contentLambda: lambda.Function;
+  readonly searchLambda: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: ContentConstructProps) {
+    super(scope, id);
+
+    const { config, tables, fileBucket, eventBus, ai } = props;
+
+    this.contentLambda = new BackendFunction(this, 'ContentLambda', {
+      config,
+      name: 'content',
+      source: 'content',
+      environment: {
+        PKB_TABLE: tables.pkbs.tableName,
+        MEMBER_TABLE: tables.members.tableName,
+        CONTENT_TABLE: tables.content.tableName,
+        CHUNK_TABLE: tables.chunks.tableName,
+        FOLDER_TABLE: tables.folders.tableName,
+        LABEL_TABLE: tables.labels.tableName,
+        FILE_BUCKET: fileBucket.bucketName,
+        ALLOWED_ORIGIN: config.appOrigin,
+        CONTENT_EVENT_SOURCE: contentEventSource(config),
+        EVENT_BUS_NAME: eventBus.eventBusName,
+      },
+    });
+
+    // Hybrid keyword + semantic search that never calls the LLM
+    this.searchLambda = new BackendFunction(this, 'SearchLambda', {
+      config,
+      name: 'search',
+      source: 'search',
+      environment: {
+        PKB_TABLE: tables.pkbs.tableName,
+        MEMBER_TABLE: tables.members.tableName,
+        CONTENT_TABLE: tables.content.tableName,
+        CHUNK_TABLE: tables.chunks.tableName,
+        FOLDER_TABLE: tables.folders.tableName,
+        LABEL_TABLE: tables.labels.tableName,
+        USAGE_TABLE: tables.usage.tableName,
+        EMBEDDING_MODEL_ID: config.models.embedding,
+        ALLOWED_ORIGIN: config.appOrigin,
+      },
+      memorySize: 1024,
+      timeout: cdk.Duration.seconds(29),
+    });
+
+    tables.pkbs.grantReadData(this.contentLambda);
+    tables.members.grantReadData(this.contentLambda);
+    tables.content.grantReadWriteData(this.contentLambda);
+    tables.chunks.grantReadWriteData(this.contentLambda);
+    tables.folders.grantReadWriteData(this.contentLambda);
+    tables.labels.grantReadWriteData(this.contentLambda);
+    fileBucket.grantReadWrite(this.contentLambda);
+    // Deleting content removes every object version, not just the latest
+    this.contentLambda.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['s3:ListBucketVersions', 's3:DeleteObjectVersion'],
+      resources: [fileBucket.bucketArn, fileBucket.arnForObjects('*')],
+    }));
+    // Saved notes are announced for the ingestion worker
+    eventBus.grantPutEventsTo(this.contentLambda);
+
+    tables.pkbs.grantReadData(this.searchLambda);
+    tables.members.grantReadData(this.searchLambda);
+    tables.content.grantReadData(this.searchLambda);
+    tables.chunks.grantReadData(this.searchLambda);
+    tables.folders.grantReadData(this.searchLambda);
+    tables.labels.grantReadData(this.searchLambda);
+    tables.usage.grantWriteData(this.searchLambda);
+    ai.grantEmbeddingModel(this.searchLambda);
+  }
+}
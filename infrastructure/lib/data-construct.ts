@@ -0,0 +1,200 @@
+import * as cdk from 'aws-cdk-lib';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { StageConfig, dataRemovalPolicy, resourceName } from './config';
+
+export interface DataConstructProps {
+  config: StageConfig;
+}
+
+/** The DynamoDB tables of the app; each Lambda receives the names it uses. */
+export interface DataTables {
+  pkbs: dynamodb.Table;
+  /** Members and pending invitations of shared PKBs. */
+  members: dynamodb.Table;
+  content: dynamodb.Table;
+  /** Chunk text and embeddings produced by the ingestion worker. */
+  chunks: dynamodb.Table;
+  conversations: dynamodb.Table;
+  suggestions: dynamodb.Table;
+  folders: dynamodb.Table;
+  /** Tags and metadata values of content items. */
+  labels: dynamodb.Table;
+  /** Daily token usage and estimated cost per user, PKB and model. */
+  usage: dynamodb.Table;
+}
+
+/** Everything the app stores: the DynamoDB tables and the file bucket. */
+export class DataConstruct extends Construct {
+  readonly tables: DataTables;
+  /** Uploaded files, their versions and transcripts. */
+  readonly fileBucket: s3.Bucket;
+
+  constructor(scope: Construct, id: string, props: DataConstructProps) {
+    super(scope, id);
+
+    const { config } = props;
+    const removalPolicy = dataRemovalPolicy(config);
+    const table = (tableId: string, name: string, partitionKey: string, sortKey: string) => (
+      new dynamodb.Table(this, tableId, {
+        tableName: resourceName(config, name),
+        partitionKey: {
+          name: partitionKey,
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: sortKey,
+          type: dynamodb.AttributeType.STRING,
+        },
+        billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+        pointInTimeRecovery: config.retainData,
+        removalPolicy,
+      })
+    );
+
+    const pkbs = table('ProjectKbTable', 'pkbs', 'userId', 'pkbId');
+
+    const content = table('ContentTable', 'content', 'pkbId', 'contentId');
+    // Lists the items filed in a folder; folderKey is pkbId#folderId
+    content.addGlobalSecondaryIndex({
+      indexName: 'folderKey-index',
+      partitionKey: {
+        name: 'folderKey',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'updatedAt',
+        type: dynamodb.AttributeType.STRING,
+      },
+    });
+
+    // Folder tree of each PKB, kept as parent links
+    const folders = table('FolderTable', 'folders', 'pkbId', 'folderId');
+
+    // One row per tag or metadata value of an item; the GSI finds the items
+    // in a PKB carrying a label (pkbLabel is pkbId#label)
+    const labels = table('LabelTable', 'content-labels', 'contentKey', 'label');
+    labels.addGlobalSecondaryIndex({
+      indexName: 'pkbLabel-index',
+      partitionKey: {
+        name: 'pkbLabel',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'contentId',
+        type: dynamodb.AttributeType.STRING,
+      },
+    });
+
+    const chunks = table('ChunkTable', 'chunks', 'pkbId', 'chunkKey');
+
+    // Conversation threads and their messages, partitioned by user and PKB;
+    // the GSI finds a PKB's threads when the PKB is deleted
+    const conversations = table('ConversationTable', 'conversations', 'ownerPkb', 'itemKey');
+    conversations.addGlobalSecondaryIndex({
+      indexName: 'pkbId-index',
+      partitionKey: {
+        name: 'pkbId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'itemKey',
+        type: dynamodb.AttributeType.STRING,
+      },
+    });
+
+    // AI suggestions per PKB (summaries, duplicates, conflicts, stale items,
+    // coverage gaps), plus a record of each PKB's last analysis
+    const suggestions = table('SuggestionTable', 'suggestions', 'pkbId', 'suggestionId');
+
+    // The GSI lists the PKBs a user belongs to and the invitations sent to
+    // an e-mail address
+    const members = table('MemberTable', 'members', 'pkbId', 'memberKey');
+    members.addGlobalSecondaryIndex({
+      indexName: 'memberKey-index',
+      partitionKey: {
+        name: 'memberKey',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'pkbId',
+        type: dynamodb.AttributeType.STRING,
+      },
+    });
+
+    // Usage counters keyed by userId and day#pkbId#modelId; the GSI reads a
+    // PKB's usage across its members
+    const usage = table('UsageTable', 'usage', 'userId', 'usageKey');
+    usage.addGlobalSecondaryIndex({
+      indexName: 'pkbId-index',
+      partitionKey: {
+        name: 'pkbId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'day',
+        type: dynamodb.AttributeType.STRING,
+      },
+    });
+
+    this.tables = {
+      pkbs,
+      members,
+      content,
+      chunks,
+      conversations,
+      suggestions,
+      folders,
+      labels,
+      usage,
+    };
+
+    this.fileBucket = new s3.Bucket(this, 'ProjectKbFileBucket', {
+      // Bucket names are global; the account suffix keeps deployments to different accounts apart
+      bucketName: `${resourceName(config, 'files')}-${cdk.Stack.of(this).account}`,
+      versioned: true,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      removalPolicy,
+      autoDeleteObjects: !config.retainData,
+      // Upload events go through EventBridge so several consumers can react
+      eventBridgeEnabled: true,
+      cors: [
+        {
+          // Browsers upload directly to S3 with presigned POST forms and
+          // fetch text previews through presigned GET URLs
+          allowedMethods: [s3.HttpMethods.GET, s3.HttpMethods.POST, s3.HttpMethods.PUT],
+          allowedOrigins: [config.appOrigin],
+          allowedHeaders: ['*'],
+          exposedHeaders: ['ETag'],
+        },
+      ],
+      lifecycleRules: [
+        {
+          // Old files are still downloaded, previewed and sent to the model,
+          // so they only move to classes that read without a restore
+          id: 'ArchiveOldFiles',
+          enabled: true,
+          transitions: [
+            {
+              storageClass: s3.StorageClass.INFREQUENT_ACCESS,
+              transitionAfter: cdk.Duration.days(30),
+            },
+            {
+              storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL,
+              transitionAfter: cdk.Duration.days(90),
+            },
+          ],
+        },
+        {
+          // Parts of uploads nobody completed or aborted are billed until removed;
+          // a week leaves room for the uploader to resume
+          id: 'AbortIncompleteMultipartUploads',
+          enabled: true,
+          abortIncompleteMultipartUploadAfter: cdk.Duration.days(7),
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import * as cdk from 'aws-cdk-lib';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { AiConstruct } from './ai-construct';
+import { BackendFunction } from './backend-function';
+import { StageConfig, contentEventSource } from './config';
+import { DataTables } from './data-construct';
+
+export interface IngestionConstructProps {
+  config: StageConfig;
+  tables: DataTables;
+  fileBucket: s3.IBucket;
+  /** Carries confirmed uploads and saved notes to the ingestion worker. */
+  eventBus: events.IEventBus;
+  /** Grants the workers the models they embed, caption and summarize with. */
+  ai: AiConstruct;
+}
+
+/**
+ * The event-driven workers that confirm uploads and index files, notes and
+ * transcripts for retrieval.
+ */
+export class IngestionConstruct extends Construct {
+  readonly contentUploadLambda: lambda.Function;
+  readonly ingestionLambda: lambda.Function;
+  readonly transcriptionLambda: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: IngestionConstructProps) {
+    super(scope, id);
+
+    const { config, tables, fileBucket, eventBus, ai } = props;
+    const { account, region } = cdk.Stack.of(this);
+
+    // Confirms uploads from S3 notifications and records their metadata
+    this.contentUploadLambda = new BackendFunction(this, 'ContentUploadLambda', {
+      config,
+      name: 'content-upload',
+      source: 'content',
+      handler: 'index.onObjectCreated',
+      environment: {
+        CONTENT_TABLE: tables.content.tableName,
+        FILE_BUCKET: fileBucket.bucketName,
+        CONTENT_EVENT_SOURCE: contentEventSource(config),
+        EVENT_BUS_NAME: eventBus.eventBusName,
+      },
+      timeout: cdk.Duration.minutes(5),
+    });
+
+    // Extracts, chunks and embeds confirmed uploads for retrieval
+    this.ingestionLambda = new BackendFunction(this, 'IngestionLambda', {
+      config,
+      name: 'ingestion',
+      source: 'ingestion',
+      environment: {
+        CONTENT_TABLE: tables.content.tableName,
+        CHUNK_TABLE: tables.chunks.tableName,
+        FILE_BUCKET: fileBucket.bucketName,
+        EMBEDDING_MODEL_ID: config.models.embedding,
+        // Captions and OCR for uploaded images
+        VISION_MODEL_ID: config.models.vision,
+        // Summaries and tags of indexed items, offered as suggestions
+        SUMMARY_MODEL_ID: config.models.chat,
+        SUGGESTION_TABLE: tables.suggestions.tableName,
+        USAGE_TABLE: tables.usage.tableName,
+        CONTENT_EVENT_SOURCE: contentEventSource(config),
+        TRANSCRIPTION_JOB_PREFIX: config.prefix,
+      },
+      memorySize: 2048,
+      timeout: cdk.Duration.minutes(15),
+    });
+
+    // Indexes transcripts once Amazon Transcribe finishes a job started by
+    // the ingestion worker for audio and video
+    this.transcriptionLambda = new BackendFunction(this, 'TranscriptionLambda', {
+      config,
+      name: 'transcription',
+      source: 'ingestion',
+      handler: 'index.onTranscriptionComplete',
+      environment: {
+        CONTENT_TABLE: tables.content.tableName,
+        CHUNK_TABLE: tables.chunks.tableName,
+        FILE_BUCKET: fileBucket.bucketName,
+        EMBEDDING_MODEL_ID: config.models.embedding,
+        SUMMARY_MODEL_ID: config.models.chat,
+        SUGGESTION_TABLE: tables.suggestions.tableName,
+        USAGE_TABLE: tables.usage.tableName,
+        TRANSCRIPTION_JOB_PREFIX: config.prefix,
+      },
+      memorySize: 1024,
+      timeout: cdk.Duration.minutes(15),
+    });
+
+    tables.content.grantReadWriteData(this.contentUploadLambda);
+    fileBucket.grantRead(this.contentUploadLambda);
+    tables.content.grantReadWriteData(this.ingestionLambda);
+    tables.chunks.grantReadWriteData(this.ingestionLambda);
+    tables.suggestions.grantReadWriteData(this.ingestionLambda);
+    tables.usage.grantWriteData(this.ingestionLambda);
+    fileBucket.grantRead(this.ingestionLambda);
+    tables.content.grantReadWriteData(this.transcriptionLambda);
+    tables.chunks.grantReadWriteData(this.transcriptionLambda);
+    tables.suggestions.grantReadWriteData(this.transcriptionLambda);
+    tables.usage.grantWriteData(this.transcriptionLambda);
+    ai.grantChatModel(this.ingestionLambda);
+    ai.grantEmbeddingModel(this.ingestionLambda);
+    ai.grantChatModel(this.transcriptionLambda);
+    ai.grantEmbeddingModel(this.transcriptionLambda);
+
+    // Upload events: confirm the upload, which then announces it for ingestion
+    const objectCreatedRule = new events.Rule(this, 'ContentObjectCreatedRule', {
+      eventPattern: {
+        source: ['aws.s3'],
+        detailType: ['Object Created'],
+        detail: {
+          bucket: { name: [fileBucket.bucketName] },
+          object: { key: [{ prefix: 'pkbs/' }] },
+        },
+      },
+    });
+    objectCreatedRule.addTarget(new targets.LambdaFunction(this.contentUploadLambda, { retryAttempts: 2 }));
+    eventBus.grantPutEventsTo(this.contentUploadLambda);
+
+    // Confirmed uploads, and notes small enough to stay on the content item,
+    // which the API announces itself
+    const contentEventRule = new events.Rule(this, 'ContentEventRule', {
+      eventBus,
+      eventPattern: {
+        source: [contentEventSource(config)],
+        detailType: ['Content Uploaded', 'Note Saved'],
+      },
+    });
+    contentEventRule.addTarget(new targets.LambdaFunction(this.ingestionLambda, { retryAttempts: 2 }));
+
+    // Transcription: the ingestion worker starts jobs, which read the media
+    // and write transcripts under transcripts/ with the worker's permissions.
+    // Both workers only touch the stage's own jobs.
+    const stageJobs = `arn:aws:transcribe:${region}:${account}:transcription-job/${config.prefix}_*`;
+    this.ingestionLambda.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['transcribe:StartTranscriptionJob'],
+      resources: [stageJobs],
+    }));
+    fileBucket.grantPut(this.ingestionLambda, 'transcripts/*');
+    this.transcriptionLambda.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['transcribe:GetTranscriptionJob'],
+      resources: [stageJobs],
+    }));
+    fileBucket.grantRead(this.transcriptionLambda, 'transcripts/*');
+
+    const transcriptionRule = new events.Rule(this, 'TranscriptionStateChangeRule', {
+      eventPattern: {
+        source: ['aws.transcribe'],
+        detailType: ['Transcribe Job State Change'],
+        detail: {
+          TranscriptionJobStatus: ['COMPLETED', 'FAILED'],
+          TranscriptionJobName: [{ prefix: `${config.prefix}_` }],
+        },
+      },
+    });
+    transcriptionRule.addTarget(new targets.LambdaFunction(this.transcriptionLambda, { retryAttempts: 2 }));
+  }
+}
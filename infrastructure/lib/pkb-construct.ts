@@ -0,0 +1,93 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { BackendFunction } from './backend-function';
+import { StageConfig } from './config';
+import { DataTables } from './data-construct';
+
+export interface PkbConstructProps {
+  config: StageConfig;
+  tables: DataTables;
+  fileBucket: s3.IBucket;
+}
+
+/**
+ * The Lambdas behind the `pkb` and `conversations` routes: PKBs with their
+ * members and invitations, and the saved conversations within them.
+ */
+export class PkbConstruct extends Construct {
+  readonly pkbLambda: lambda.Function;
+  readonly conversationLambda: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: PkbConstructProps) {
+    super(scope, id);
+
+    const { config, tables, fileBucket } = props;
+
+    this.pkbLambda = new BackendFunction(this, 'PkbLambda', {
+      config,
+      name: 'pkb',
+      source: 'pkb',
+      environment: {
+        PKB_TABLE: tables.pkbs.tableName,
+        MEMBER_TABLE: tables.members.tableName,
+        CONTENT_TABLE: tables.content.tableName,
+        CHUNK_TABLE: tables.chunks.tableName,
+        CONVERSATION_TABLE: tables.conversations.tableName,
+        SUGGESTION_TABLE: tables.suggestions.tableName,
+        FOLDER_TABLE: tables.folders.tableName,
+        LABEL_TABLE: tables.labels.tableName,
+        FILE_BUCKET: fileBucket.bucketName,
+        ALLOWED_ORIGIN: config.appOrigin,
+        ...(config.invitationSender && { INVITATION_SENDER: config.invitationSender, APP_ORIGIN: config.appOrigin }),
+      },
+    });
+
+    this.conversationLambda = new BackendFunction(this, 'ConversationLambda', {
+      config,
+      name: 'conversations',
+      source: 'conversations',
+      environment: {
+        PKB_TABLE: tables.pkbs.tableName,
+        MEMBER_TABLE: tables.members.tableName,
+        CONTENT_TABLE: tables.content.tableName,
+        CONVERSATION_TABLE: tables.conversations.tableName,
+        ALLOWED_ORIGIN: config.appOrigin,
+      },
+    });
+
+    // Deleting a PKB removes everything in it
+    tables.pkbs.grantReadWriteData(this.pkbLambda);
+    tables.members.grantReadWriteData(this.pkbLambda);
+    tables.content.grantReadWriteData(this.pkbLambda);
+    tables.chunks.grantReadWriteData(this.pkbLambda);
+    tables.conversations.grantReadWriteData(this.pkbLambda);
+    tables.suggestions.grantReadWriteData(this.pkbLambda);
+    tables.folders.grantReadWriteData(this.pkbLambda);
+    tables.labels.grantReadWriteData(this.pkbLambda);
+    this.pkbLambda.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['s3:ListBucketVersions', 's3:DeleteObjectVersion'],
+      resources: [fileBucket.bucketArn, fileBucket.arnForObjects('*')],
+    }));
+    if (config.invitationSender) {
+      // SES authorizes the sender's own identity or that of its domain, whichever was verified
+      const domain = config.invitationSender.split('@')[1];
+      this.pkbLambda.addToRolePolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['ses:SendEmail'],
+        resources: [config.invitationSender, domain].map((identity) => cdk.Stack.of(this).formatArn({
+          service: 'ses',
+          resource: 'identity',
+          resourceName: identity,
+        })),
+      }));
+    }
+
+    tables.pkbs.grantReadData(this.conversationLambda);
+    tables.members.grantReadData(this.conversationLambda);
+    tables.conversations.grantReadWriteData(this.conversationLambda);
+  }
+}
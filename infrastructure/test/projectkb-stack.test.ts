@@ -0,0 +1,338 @@
+// Stack Tests - security properties of the synthesized template
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { listOperations } from '../../backend/src/shared/openapi';
+import { STAGES, StageConfig, getStageConfig, validateModels } from '../lib/config';
+import { ProjectKbStack } from '../lib/projectkb-stack';
+
+/** Function names after the stage prefix, in the order the tests report them. */
+const FUNCTION_NAMES = ['auth', 'pkb', 'conversations', 'content', 'content-upload', 'ingestion', 'transcription',
+  'search', 'suggestions', 'suggestion-analysis', 'ai', 'ai-stream', 'usage'];
+
+type Statement = { Effect: string; Action: string | string[]; Resource: unknown };
+
+const synth = (config: StageConfig) => {
+  const app = new cdk.App();
+  const stack = new ProjectKbStack(app, `ProjectKb-${config.stage}`, {
+    config,
+    env: { account: '123456789012', region: 'us-east-1' },
+  });
+  return Template.fromStack(stack);
+};
+
+const only = (resources: Record<string, Record<string, any>>) => {
+  const entries = Object.entries(resources);
+  expect(entries).toHaveLength(1);
+  return entries[0];
+};
+
+const logicalIdOf = (template: Template, type: string, properties: Record<string, unknown>) => (
+  only(template.findResources(type, { Properties: properties }))[0]
+);
+
+/** Every statement of the inline policies attached to a function's role. */
+const statementsOf = (template: Template, functionName: string): Statement[] => {
+  const [, fn] = only(template.findResources('AWS::Lambda::Function', {
+    Properties: { FunctionName: `projectkb-dev-${functionName}` },
+  }));
+  const roleId = fn.Properties.Role['Fn::GetAtt'][0];
+  return Object.values(template.findResources('AWS::IAM::Policy'))
+    .filter((policy) => policy.Properties.Roles.some((role: { Ref: string }) => role.Ref === roleId))
+    .flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+};
+
+const actionsOf = (statements: Statement[]) => statements.flatMap((statement) => ([] as string[]).concat(statement.Action));
+
+/** Logical ids of the tables a set of statements lets the function touch. */
+const tablesOf = (template: Template, statements: Statement[], write = false) => {
+  const tableIds = Object.keys(template.findResources('AWS::DynamoDB::Table'));
+  const granted = statements
+    .filter((statement) => actionsOf([statement]).some((action) => action.startsWith('dynamodb:')))
+    .filter((statement) => !write || actionsOf([statement]).includes('dynamodb:PutItem'));
+  return tableIds.filter((tableId) => granted.some((statement) => JSON.stringify(statement.Resource).includes(`"${tableId}"`)));
+};
+
+const tableId = (template: Template, name: string) => (
+  logicalIdOf(template, 'AWS::DynamoDB::Table', { TableName: `projectkb-dev-${name}` })
+);
+
+describe('ProjectKbStack', () => {
+  let template: Template;
+
+  beforeAll(() => {
+    template = synth(STAGES.dev);
+  });
+
+  describe('API', () => {
+    it('puts every route except auth behind the Cognito authorizer', () => {
+      const authorizerId = logicalIdOf(template, 'AWS::ApiGateway::Authorizer', { Type: 'COGNITO_USER_POOLS' });
+      const authResourceId = logicalIdOf(template, 'AWS::ApiGateway::Resource', { PathPart: 'auth' });
+      const authPaths = Object.entries(template.findResources('AWS::ApiGateway::Resource'))
+        .filter(([, resource]) => JSON.stringify(resource.Properties.ParentId) === JSON.stringify({ Ref: authResourceId }))
+        .map(([id]) => id);
+      const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+        .filter((method) => method.Properties.HttpMethod !== 'OPTIONS');
+
+      const open = methods.filter((method) => method.Properties.AuthorizationType !== 'COGNITO_USER_POOLS');
+      expect(open).toHaveLength(authPaths.length);
+      open.forEach((method) => {
+        expect(method.Properties.HttpMethod).toBe('POST');
+        expect(authPaths).toContain(method.Properties.ResourceId.Ref);
+      });
+
+      methods
+        .filter((method) => !open.includes(method))
+        .forEach((method) => expect(method.Properties.AuthorizerId).toEqual({ Ref: authorizerId }));
+    });
+
+    it('creates a method for every operation of the API spec', () => {
+      const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+        .filter((method) => method.Properties.HttpMethod !== 'OPTIONS');
+
+      expect(methods.map((method) => method.Properties.OperationName).sort()).toEqual(
+        listOperations().map(({ operation }) => operation.operationId).sort(),
+      );
+      template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: '{pkbId}' });
+      template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: '{contentId}' });
+    });
+
+    it('stays within the CloudFormation resource limit', () => {
+      expect(Object.keys(template.toJSON().Resources).length).toBeLessThan(500);
+    });
+
+    it('only allows the app origin in CORS preflights', () => {
+      const preflights = Object.values(template.findResources('AWS::ApiGateway::Method', {
+        Properties: { HttpMethod: 'OPTIONS' },
+      }));
+      expect(preflights.length).toBeGreaterThan(0);
+      preflights.forEach((preflight) => {
+        const headers = preflight.Properties.Integration.IntegrationResponses[0].ResponseParameters;
+        expect(headers['method.response.header.Access-Control-Allow-Origin']).toBe("'http://localhost:3000'");
+      });
+    });
+
+    it('exposes the streaming Lambda as the only function URL', () => {
+      const urls = Object.values(template.findResources('AWS::Lambda::Url'));
+      expect(urls).toHaveLength(1);
+      expect(urls[0].Properties.TargetFunctionArn['Fn::GetAtt'][0]).toBe(
+        logicalIdOf(template, 'AWS::Lambda::Function', { FunctionName: 'projectkb-dev-ai-stream' }),
+      );
+    });
+  });
+
+  describe('file bucket', () => {
+    it('blocks public access and encrypts objects at rest', () => {
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        PublicAccessBlockConfiguration: {
+          BlockPublicAcls: true,
+          BlockPublicPolicy: true,
+          IgnorePublicAcls: true,
+          RestrictPublicBuckets: true,
+        },
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [
+            { ServerSideEncryptionByDefault: { SSEAlgorithm: 'AES256' } },
+          ],
+        },
+        VersioningConfiguration: { Status: 'Enabled' },
+      });
+    });
+
+    it('archives old files only to storage classes that read without a restore', () => {
+      const [bucket] = Object.values(template.findResources('AWS::S3::Bucket', {
+        Properties: { VersioningConfiguration: { Status: 'Enabled' } },
+      }));
+      const rules: { Transitions?: { StorageClass: string }[]; NoncurrentVersionTransitions?: { StorageClass: string }[] }[] =
+        bucket.Properties.LifecycleConfiguration.Rules;
+      const storageClasses = rules.flatMap((rule) => [...rule.Transitions ?? [], ...rule.NoncurrentVersionTransitions ?? []])
+        .map((transition) => transition.StorageClass);
+
+      expect(storageClasses).toEqual(['STANDARD_IA', 'GLACIER_IR']);
+    });
+
+    it('is written to by the content Lambda and, for transcripts, the ingestion worker only', () => {
+      const writers = FUNCTION_NAMES
+        .filter((name) => actionsOf(statementsOf(template, name)).includes('s3:PutObject'));
+      expect(writers).toEqual(['content', 'ingestion']);
+
+      const ingestionPuts = statementsOf(template, 'ingestion')
+        .filter((statement) => actionsOf([statement]).includes('s3:PutObject'));
+      expect(JSON.stringify(ingestionPuts.map((statement) => statement.Resource))).toContain('/transcripts/*');
+    });
+
+    it('ingests uploads only once the upload Lambda has confirmed them', () => {
+      const functionId = (name: string) => logicalIdOf(template, 'AWS::Lambda::Function', { FunctionName: `projectkb-dev-${name}` });
+      const targetsOf = (detailType: string) => Object.values(template.findResources('AWS::Events::Rule'))
+        .filter((rule) => rule.Properties.EventPattern?.['detail-type']?.includes(detailType))
+        .flatMap((rule) => rule.Properties.Targets.map((target: { Arn: unknown }) => JSON.stringify(target.Arn)));
+
+      expect(targetsOf('Object Created')).toEqual([expect.stringContaining(functionId('content-upload'))]);
+      expect(targetsOf('Content Uploaded')).toEqual([expect.stringContaining(functionId('ingestion'))]);
+      expect(actionsOf(statementsOf(template, 'content-upload'))).toContain('events:PutEvents');
+    });
+  });
+
+  describe('Lambda grants', () => {
+    it('gives the auth Lambda no access to data', () => {
+      expect(statementsOf(template, 'auth')).toEqual([]);
+    });
+
+    it('keeps search read-only apart from its usage, and limited to the embedding model', () => {
+      const statements = statementsOf(template, 'search');
+      const actions = actionsOf(statements);
+
+      expect(tablesOf(template, statements, true)).toEqual([tableId(template, 'usage')]);
+      expect(actions.some((action) => action.startsWith('s3:'))).toBe(false);
+      expect(actions).not.toContain('bedrock:InvokeModelWithResponseStream');
+      const bedrock = statements.filter((statement) => actionsOf([statement]).includes('bedrock:InvokeModel'));
+      expect(JSON.stringify(bedrock.map((statement) => statement.Resource))).toContain(
+        'foundation-model/amazon.titan-embed-text-v2:0',
+      );
+      expect(bedrock.map((statement) => statement.Resource)).not.toContain('*');
+    });
+
+    it('limits conversations to the PKB, member and conversation tables', () => {
+      const statements = statementsOf(template, 'conversations');
+
+      expect(tablesOf(template, statements).sort()).toEqual(
+        [tableId(template, 'pkbs'), tableId(template, 'members'), tableId(template, 'conversations')].sort(),
+      );
+      expect(tablesOf(template, statements, true)).toEqual([tableId(template, 'conversations')]);
+      expect(actionsOf(statements).some((action) => action.startsWith('bedrock:'))).toBe(false);
+    });
+
+    it('lets only the PKB Lambda write PKBs and memberships', () => {
+      const pkbsId = tableId(template, 'pkbs');
+      const membersId = tableId(template, 'members');
+      FUNCTION_NAMES.filter((name) => name !== 'pkb').forEach((name) => {
+        const written = tablesOf(template, statementsOf(template, name), true);
+        expect(written).not.toContain(pkbsId);
+        expect(written).not.toContain(membersId);
+      });
+      expect(tablesOf(template, statementsOf(template, 'pkb'), true)).toEqual(
+        expect.arrayContaining([pkbsId, membersId]),
+      );
+    });
+
+    it('scopes event publishing to the default bus and Transcribe to the stage\'s jobs', () => {
+      const resourcesFor = (prefix: string) => FUNCTION_NAMES
+        .flatMap((name) => statementsOf(template, name))
+        .filter((statement) => actionsOf([statement]).some((action) => action.startsWith(prefix)))
+        .flatMap((statement) => ([] as unknown[]).concat(statement.Resource));
+
+      const publishers = FUNCTION_NAMES.filter((name) => actionsOf(statementsOf(template, name)).includes('events:PutEvents'));
+      expect(publishers).toEqual(['content', 'content-upload']);
+      expect(resourcesFor('events:')).not.toContain('*');
+      resourcesFor('events:').forEach((resource) => expect(JSON.stringify(resource)).toContain(':event-bus/default'));
+
+      expect(resourcesFor('transcribe:')).not.toContain('*');
+      resourcesFor('transcribe:').forEach((resource) => (
+        expect(JSON.stringify(resource)).toContain('transcription-job/projectkb-dev_*')
+      ));
+    });
+
+    it('lets only the Lambdas that delete content or PKBs delete object versions', () => {
+      const deleters = FUNCTION_NAMES.filter((name) => actionsOf(statementsOf(template, name)).includes('s3:DeleteObjectVersion'));
+      expect(deleters).toEqual(['pkb', 'content']);
+    });
+
+    it('gives the chat model only to the Lambdas that generate text', () => {
+      const chatters = FUNCTION_NAMES.filter((name) => (
+        actionsOf(statementsOf(template, name)).includes('bedrock:InvokeModelWithResponseStream')
+      ));
+      expect(chatters).toEqual(['ingestion', 'transcription', 'suggestions', 'suggestion-analysis', 'ai', 'ai-stream']);
+    });
+
+    it('limits Bedrock access to the models in the registry', () => {
+      const resources = FUNCTION_NAMES
+        .flatMap((name) => statementsOf(template, name))
+        .filter((statement) => actionsOf([statement]).some((action) => action.startsWith('bedrock:')))
+        .flatMap((statement) => ([] as unknown[]).concat(statement.Resource));
+
+      expect(resources.length).toBeGreaterThan(0);
+      expect(resources).not.toContain('*');
+      const modelIds = new Set(resources.map((resource) => JSON.stringify(resource).match(/foundation-model\/([^"]+)/)?.[1]));
+      expect([...modelIds].sort()).toEqual([
+        'amazon.titan-embed-text-v2:0',
+        'anthropic.claude-3-5-haiku-20241022-v1:0',
+        'anthropic.claude-3-5-sonnet-20240620-v1:0',
+        'anthropic.claude-3-haiku-20240307-v1:0',
+      ]);
+    });
+
+    it('lets only the Lambdas that call models record usage', () => {
+      const usageId = tableId(template, 'usage');
+      const writers = FUNCTION_NAMES.filter((name) => tablesOf(template, statementsOf(template, name), true).includes(usageId));
+      expect(writers).toEqual(['ingestion', 'transcription', 'search', 'suggestions', 'suggestion-analysis', 'ai', 'ai-stream']);
+
+      const usageStatements = statementsOf(template, 'usage');
+      expect(tablesOf(template, usageStatements, true)).toEqual([]);
+      expect(tablesOf(template, usageStatements)).toContain(usageId);
+    });
+
+    it('lets only the PKB Lambda e-mail invitations, from the configured sender', () => {
+      expect(FUNCTION_NAMES.filter((name) => actionsOf(statementsOf(template, name)).includes('ses:SendEmail'))).toEqual([]);
+
+      const withSender = synth({ ...STAGES.dev, invitationSender: 'invites@example.com' });
+      const senders = FUNCTION_NAMES.filter((name) => actionsOf(statementsOf(withSender, name)).includes('ses:SendEmail'));
+      const [sendEmail] = statementsOf(withSender, 'pkb').filter((statement) => actionsOf([statement]).includes('ses:SendEmail'));
+
+      expect(senders).toEqual(['pkb']);
+      expect(JSON.stringify(sendEmail.Resource)).toContain('identity/invites@example.com');
+      expect(JSON.stringify(sendEmail.Resource)).toContain('identity/example.com');
+      withSender.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: 'projectkb-dev-pkb',
+        Environment: { Variables: { INVITATION_SENDER: 'invites@example.com', APP_ORIGIN: 'http://localhost:3000' } },
+      });
+    });
+
+    it('scopes transcription job lookups to the stage prefix', () => {
+      const lookups = statementsOf(template, 'transcription')
+        .filter((statement) => actionsOf([statement]).includes('transcribe:GetTranscriptionJob'));
+      expect(JSON.stringify(lookups[0].Resource)).toContain('transcription-job/projectkb-dev_*');
+    });
+  });
+
+  describe('stages', () => {
+    it('keeps prod data with point-in-time recovery when the stack is deleted', () => {
+      const prod = synth(STAGES.prod);
+      const tables = Object.values(prod.findResources('AWS::DynamoDB::Table'));
+
+      expect(tables).toHaveLength(9);
+      tables.forEach((table) => {
+        expect(table.DeletionPolicy).toBe('Retain');
+        expect(table.Properties.PointInTimeRecoverySpecification).toEqual({ PointInTimeRecoveryEnabled: true });
+      });
+      prod.hasResource('AWS::S3::Bucket', { DeletionPolicy: 'Retain' });
+      prod.hasResource('AWS::Cognito::UserPool', { DeletionPolicy: 'Retain' });
+    });
+
+    it('only configures models of the registry', () => {
+      Object.values(STAGES).forEach((config) => expect(() => validateModels(config.models)).not.toThrow());
+      expect(() => validateModels({ ...STAGES.dev.models, chat: 'amazon.titan-embed-text-v2:0' })).toThrow(
+        'not a chat model',
+      );
+    });
+
+    it('takes the frontend origin of staging and prod from the deployment', () => {
+      expect(() => getStageConfig('prod')).toThrow('-c appOrigin=<origin> or APP_ORIGIN');
+      expect(() => getStageConfig('prod', { appOrigin: 'https://kb.acme.io/' })).toThrow('must be an origin');
+      expect(getStageConfig('prod', { appOrigin: 'https://kb.acme.io' }).appOrigin).toBe('https://kb.acme.io');
+      expect(getStageConfig('dev').appOrigin).toBe('http://localhost:3000');
+    });
+
+    it('passes the stage quota to the Lambdas that enforce or report it', () => {
+      ['ai', 'ai-stream', 'usage'].forEach((name) => {
+        template.hasResourceProperties('AWS::Lambda::Function', {
+          FunctionName: `projectkb-dev-${name}`,
+          Environment: { Variables: { USAGE_QUOTA_PERIOD: 'day', USAGE_QUOTA_USD: '1' } },
+        });
+      });
+    });
+
+    it('deletes dev data with the stack', () => {
+      Object.values(template.findResources('AWS::DynamoDB::Table'))
+        .forEach((table) => expect(table.DeletionPolicy).toBe('Delete'));
+    });
+  });
+});
@@ -0,0 +1,34 @@
+// Manual mock of aws-sdk - every client of a service is one shared object, so
+// a suite can stub the calls a handler makes through the client it built itself.
+// Each call resolves to an empty response unless the suite says otherwise.
+const emptyResponse = () => ({ promise: () => Promise.resolve({}) });
+
+const mockService = (methods) => {
+  const client = Object.fromEntries(methods.map((method) => [method, jest.fn(emptyResponse)]));
+  return function Client() {
+    return client;
+  };
+};
+
+const DynamoDB = mockService([]);
+DynamoDB.DocumentClient = mockService([
+  'get', 'put', 'update', 'delete', 'query', 'scan', 'batchGet', 'batchWrite', 'transactWrite',
+]);
+
+module.exports = {
+  DynamoDB,
+  S3: mockService([
+    'getSignedUrl', 'getSignedUrlPromise', 'createPresignedPost', 'createMultipartUpload', 'listParts',
+    'completeMultipartUpload', 'abortMultipartUpload', 'headObject', 'getObject', 'putObject', 'copyObject',
+    'listObjectVersions', 'deleteObject', 'deleteObjects',
+  ]),
+  BedrockRuntime: mockService(['invokeModel', 'invokeModelWithResponseStream']),
+  EventBridge: mockService(['putEvents']),
+  SES: mockService(['sendEmail']),
+  TranscribeService: mockService(['startTranscriptionJob', 'getTranscriptionJob']),
+  CognitoIdentityServiceProvider: mockService([
+    'signUp', 'confirmSignUp', 'resendConfirmationCode', 'initiateAuth', 'respondToAuthChallenge',
+    'forgotPassword', 'confirmForgotPassword', 'getUser', 'associateSoftwareToken', 'verifySoftwareToken',
+    'setUserMFAPreference', 'globalSignOut',
+  ]),
+};
@@ -0,0 +1,560 @@
+// AI Lambda Tests - retrieval-augmented answers with the fake model client
+const { createHandler } = require('../../backend/src/ai/index');
+const { FakeModelClient } = require('../../backend/src/ai/model');
+const { InMemoryPassageSource, rankPassages } = require('../../backend/src/ai/retrieval');
+const { HashingEmbedder } = require('../../backend/src/ingestion/embedder');
+const { InMemoryPkbRepository } = require('../../backend/src/pkb/repository');
+const { InMemoryMembershipRepository } = require('../../backend/src/pkb/members');
+
+const passages = [
+  {
+    contentId: 'content-react',
+    fileName: 'react.md',
+    text: 'React is a JavaScript library for building user interfaces. It uses components.',
+    start: 0,
+    end: 79,
+  },
+  {
+    contentId: 'content-deploy',
+    fileName: 'deploy.md',
+    text: 'Deployments run through GitHub Actions and the CDK.',
+    start: 400,
+    end: 451,
+  },
+];
+
+const authorizedEvent = (body) => ({
+  httpMethod: 'POST',
+  path: '/ai/query',
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+  body: JSON.stringify(body),
+});
+
+describe('AI query handler', () => {
+  let deps;
+  let handler;
+
+  beforeEach(async () => {
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      passages: new InMemoryPassageSource(passages),
+      embedder: new HashingEmbedder(),
+      model: new FakeModelClient(),
+    };
+    handler = createHandler(deps);
+    await deps.pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+  });
+
+  test('answers from the most relevant passage and cites it', async () => {
+    const result = await handler(authorizedEvent({ pkbId: 'pkb-1', query: 'What is React?' }));
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body);
+    expect(body.response).toContain('React is a JavaScript library');
+    expect(body.citations).toEqual([
+      expect.objectContaining({ marker: 1, contentId: 'content-react', start: 0, end: 79 }),
+    ]);
+    expect(body).toHaveProperty('modelId', 'fake-model');
+  });
+
+  test('only sends the PKB content that matches the query to the model', async () => {
+    await handler(authorizedEvent({ pkbId: 'pkb-1', query: 'How do deployments work?' }));
+
+    const prompt = deps.model.requests[0].messages[0].content;
+    expect(prompt).toContain('deploy.md');
+    expect(prompt).not.toContain('react.md');
+  });
+
+  test('returns AI service errors as 500s without their message', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    deps.model.generate = jest.fn().mockRejectedValue(new Error('AI service unavailable'));
+
+    const result = await handler(authorizedEvent({ pkbId: 'pkb-1', query: 'Test query' }));
+
+    expect(result.statusCode).toBe(500);
+    expect(JSON.parse(result.body)).toEqual({ error: 'Internal server error', code: 'internal_error' });
+    expect(console.error).toHaveBeenCalledWith('Unhandled error', expect.any(Error));
+    console.error.mockRestore();
+  });
+
+  test('rejects queries against PKBs the caller does not own', async () => {
+    const result = await handler(authorizedEvent({ pkbId: 'pkb-2', query: 'What is React?' }));
+
+    expect(result.statusCode).toBe(404);
+  });
+});
+
+describe('AI model selection', () => {
+  const HAIKU = 'anthropic.claude-3-haiku-20240307-v1:0';
+  const HAIKU_3_5 = 'anthropic.claude-3-5-haiku-20241022-v1:0';
+  const SONNET = 'anthropic.claude-3-5-sonnet-20240620-v1:0';
+
+  let deps;
+  let handler;
+
+  beforeEach(async () => {
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      passages: new InMemoryPassageSource(passages),
+      embedder: new HashingEmbedder(),
+      model: new FakeModelClient(HAIKU),
+    };
+    handler = createHandler(deps);
+    await deps.pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+  });
+
+  const ask = async (body) => {
+    const result = await handler(authorizedEvent({ pkbId: 'pkb-1', query: 'What is React?', ...body }));
+    return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+  };
+
+  test('lists the chat models with their pricing and limits', async () => {
+    const result = await handler({ ...authorizedEvent(), httpMethod: 'GET', path: '/ai/models' });
+
+    const body = JSON.parse(result.body);
+    expect(body.defaultModelId).toBe(HAIKU);
+    expect(body.models.map((model) => model.modelId)).toEqual([HAIKU, HAIKU_3_5, SONNET]);
+    expect(body.models[0]).toMatchObject({ contextTokens: 200000, pricing: { inputPer1kTokens: 0.00025 } });
+  });
+
+  test('answers with the requested model, else the PKB choice, else the default', async () => {
+    expect((await ask({})).body.modelId).toBe(HAIKU);
+
+    await deps.pkbs.update('user-1', 'pkb-1', { chatModelId: HAIKU_3_5 });
+    expect((await ask({})).body.modelId).toBe(HAIKU_3_5);
+    expect((await ask({ modelId: SONNET })).body.modelId).toBe(SONNET);
+  });
+
+  test('rejects models outside the registry or unable to chat', async () => {
+    expect((await ask({ modelId: 'gpt-4' })).statusCode).toBe(400);
+    expect((await ask({ modelId: 'amazon.titan-embed-text-v2:0' })).statusCode).toBe(400);
+    expect(deps.model.requests).toHaveLength(0);
+  });
+
+  test('falls back when the model is throttled and reports the model that answered', async () => {
+    deps.model.throttled.add(SONNET);
+
+    const { statusCode, body } = await ask({ modelId: SONNET });
+
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({ modelId: HAIKU, fallbackFrom: SONNET });
+    expect(body.response).toContain('React is a JavaScript library');
+  });
+
+  test('returns 429 once every fallback is throttled', async () => {
+    deps.model.throttled.add(HAIKU);
+    deps.model.throttled.add(HAIKU_3_5);
+
+    const { statusCode, body } = await ask({});
+
+    expect(statusCode).toBe(429);
+    expect(body.error).toContain('busy');
+  });
+
+  test('never falls back to a model that costs more', async () => {
+    deps.model.throttled.add(HAIKU);
+    const generate = jest.spyOn(deps.model, 'generate');
+
+    const { statusCode } = await ask({});
+
+    expect(statusCode).toBe(429);
+    expect(generate.mock.calls.map(([request]) => request.modelId)).toEqual([HAIKU]);
+  });
+});
+
+describe('AI context limits', () => {
+  const { answerQuery } = require('../../backend/src/ai/pipeline');
+  const { DEFAULT_MAX_TOKENS } = require('../../backend/src/ai/model');
+  const HAIKU = 'anthropic.claude-3-haiku-20240307-v1:0';
+  // 200k tokens of context, at the pipeline's estimate of three characters a token.
+  const contextChars = (200000 - DEFAULT_MAX_TOKENS) * 3;
+
+  const promptChars = (request) =>
+    request.system.length + request.messages.reduce((total, message) => total + message.content.length, 0);
+
+  const depsWith = (candidates) => ({
+    passages: new InMemoryPassageSource(candidates),
+    embedder: new HashingEmbedder(),
+    model: new FakeModelClient(HAIKU),
+  });
+
+  test('drops the oldest turns that do not fit, starting the history with a question', async () => {
+    const deps = depsWith(passages);
+    const messages = Array.from({ length: 30 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' : 'assistant',
+      content: `${index} ${'x'.repeat(30000)}`,
+    }));
+
+    await answerQuery(deps, { pkbId: 'pkb-1', query: 'What is React?', history: { messages } });
+
+    const [request] = deps.model.requests;
+    expect(request.messages.length).toBeLessThan(31);
+    expect(request.messages[0].role).toBe('user');
+    expect(request.messages[request.messages.length - 2]).toBe(messages[29]);
+    expect(promptChars(request)).toBeLessThanOrEqual(contextChars);
+  });
+
+  test('drops the lowest-ranked passages that do not fit and cites only those sent', async () => {
+    const deps = depsWith([
+      ...passages,
+      {
+        contentId: 'content-huge',
+        fileName: 'huge.md',
+        text: `React ${'filler '.repeat(100000)}`,
+        start: 0,
+        end: 700006,
+      },
+    ]);
+
+    const answer = await answerQuery(deps, { pkbId: 'pkb-1', query: 'What is React?' });
+
+    expect(promptChars(deps.model.requests[0])).toBeLessThanOrEqual(contextChars);
+    expect(answer.citations.map((citation) => citation.contentId)).toEqual(['content-react']);
+  });
+
+  test('asks Bedrock for no more output than the model can produce', async () => {
+    const { BedrockModelClient } = require('../../backend/src/ai/model');
+    const invokeModel = jest.fn(() => ({
+      promise: () => Promise.resolve({ body: Buffer.from(JSON.stringify({ content: [{ text: 'Hi' }] })) }),
+    }));
+    const client = new BedrockModelClient({ invokeModel }, HAIKU);
+
+    await client.generate({ messages: [{ role: 'user', content: 'Hello' }], maxTokens: 10000 });
+
+    expect(JSON.parse(invokeModel.mock.calls[0][0].body).max_tokens).toBe(4096);
+  });
+
+  test('refuses questions that do not fit on their own', async () => {
+    const deps = depsWith(passages);
+
+    await expect(answerQuery(deps, { pkbId: 'pkb-1', query: 'React '.repeat(100000) }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'The question is too long for the selected model' });
+    expect(deps.model.requests).toHaveLength(0);
+  });
+});
+
+describe('AI image queries', () => {
+  const { StoredImageLoader, parseS3Url } = require('../../backend/src/ai/images');
+  const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+
+  const image = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+  let deps;
+  let handler;
+
+  beforeEach(async () => {
+    const content = new InMemoryContentRepository();
+    const storage = { read: jest.fn().mockResolvedValue(image) };
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      passages: new InMemoryPassageSource(passages),
+      embedder: new HashingEmbedder(),
+      model: new FakeModelClient(),
+      images: new StoredImageLoader(content, storage, 'projectkb-files'),
+    };
+    handler = createHandler(deps);
+    await deps.pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+    await content.create({
+      pkbId: 'pkb-1',
+      contentId: 'image-1',
+      fileName: 'components.png',
+      fileType: 'image/png',
+      s3Key: 'pkbs/pkb-1/image-1',
+      status: 'uploaded',
+      ingestionStatus: 'ready',
+      uploadedBy: 'user-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      size: image.length,
+      caption: 'A diagram of React components.',
+    });
+  });
+
+  test('sends the referenced image to the model with the question', async () => {
+    const result = await handler(authorizedEvent({
+      pkbId: 'pkb-1',
+      query: 'Describe this image',
+      context: 'image',
+      imageUrl: 'https://projectkb-files.s3.amazonaws.com/pkbs/pkb-1/image-1',
+    }));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).response).toContain('An image (image/png, 4 bytes).');
+    const [question] = deps.model.requests[0].messages;
+    expect(question.images).toEqual([{ mediaType: 'image/png', data: image }]);
+    expect(question.content).toContain('components.png');
+    // The caption widens retrieval to the React notes.
+    expect(question.content).toContain('react.md');
+  });
+
+  test('refuses images outside the queried PKB', async () => {
+    const result = await handler(authorizedEvent({
+      pkbId: 'pkb-1',
+      query: 'Describe this image',
+      context: 'image',
+      imageUrl: 'https://s3.amazonaws.com/bucket/image.jpg',
+    }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  test('requires an image reference for image queries', async () => {
+    const result = await handler(authorizedEvent({ pkbId: 'pkb-1', query: 'Describe this image', context: 'image' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).error).toContain('imageContentId or imageUrl');
+  });
+
+  test('parses path-style, virtual-hosted and s3:// URLs', () => {
+    expect(parseS3Url('s3://projectkb-files/pkbs/a/b', 'projectkb-files')).toBe('pkbs/a/b');
+    expect(parseS3Url('https://s3.us-east-1.amazonaws.com/projectkb-files/pkbs/a/b', 'projectkb-files')).toBe('pkbs/a/b');
+    expect(parseS3Url('https://projectkb-files.s3.us-east-1.amazonaws.com/pkbs/a/b?X-Amz-Signature=x', 'projectkb-files'))
+      .toBe('pkbs/a/b');
+    expect(parseS3Url('https://other.s3.amazonaws.com/pkbs/a/b', 'projectkb-files')).toBeUndefined();
+  });
+});
+
+describe('AI answers about recordings', () => {
+  test('cite the timestamp of the transcript passage', async () => {
+    const model = new FakeModelClient();
+    const pkbs = new InMemoryPkbRepository();
+    await pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+    const recording = {
+      contentId: 'content-review',
+      fileName: 'review.mp3',
+      text: '[1:23] Speaker 2: The rollback plan is ready.',
+      start: 0,
+      end: 46,
+      startTime: 83.5,
+      endTime: 90,
+    };
+    const handler = createHandler({
+      pkbs,
+      members: new InMemoryMembershipRepository(),
+      model,
+      passages: new InMemoryPassageSource([recording]),
+      embedder: new HashingEmbedder(),
+    });
+
+    const result = await handler(authorizedEvent({ pkbId: 'pkb-1', query: 'Is the rollback plan ready?' }));
+
+    expect(model.requests[0].messages[0].content).toContain('review.mp3 (recording, from 1:23)');
+    expect(JSON.parse(result.body).citations).toEqual([
+      expect.objectContaining({ contentId: 'content-review', startTime: 83.5, endTime: 90 }),
+    ]);
+  });
+});
+
+describe('rankPassages', () => {
+  test('ignores passages that share no terms with the query', () => {
+    expect(rankPassages('kubernetes', passages, 5)).toEqual([]);
+  });
+});
+
+describe('ChunkIndexPassageSource', () => {
+  const { ChunkIndexPassageSource } = require('../../backend/src/ai/retrieval');
+  const { InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+  const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+  const { InMemoryFolderRepository } = require('../../backend/src/content/folders');
+  const { InMemoryLabelIndex } = require('../../backend/src/content/labels');
+
+  const embedder = new HashingEmbedder();
+  const documents = {
+    'content-react': 'React is a JavaScript library for building user interfaces.',
+    'content-deploy': 'Deployments run through GitHub Actions and the CDK.',
+    'content-rollback': 'Rollback a failed deployment by redeploying the previous CDK release.',
+  };
+  let chunks;
+  let labels;
+  let source;
+
+  const find = async (query, limit, scope) => {
+    const [embedding] = await embedder.embed([query]);
+    return source.findPassages({ pkbId: 'pkb-1', query, embedding, limit, scope });
+  };
+
+  beforeEach(async () => {
+    chunks = new InMemoryChunkStore();
+    labels = new InMemoryLabelIndex();
+    const content = new InMemoryContentRepository();
+    for (const [contentId, text] of Object.entries(documents)) {
+      await content.create({
+        pkbId: 'pkb-1',
+        contentId,
+        fileName: `${contentId}.md`,
+        fileType: 'text/markdown',
+        s3Key: `pkbs/pkb-1/${contentId}`,
+        status: 'uploaded',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      });
+      const [embedding] = await embedder.embed([text]);
+      await chunks.replace('pkb-1', contentId, [{
+        pkbId: 'pkb-1',
+        contentId,
+        index: 0,
+        text,
+        start: 0,
+        end: text.length,
+        embedding,
+        fileName: `${contentId}.md`,
+        fileType: 'text/markdown',
+      }]);
+    }
+    source = new ChunkIndexPassageSource(chunks, { content, folders: new InMemoryFolderRepository(), labels });
+  });
+
+  test('returns the best passages by keyword and similarity, up to the limit', async () => {
+    const found = await find('CDK deployment', 1);
+
+    expect(found).toEqual([expect.objectContaining({ contentId: 'content-rollback', score: expect.any(Number) })]);
+    expect((await find('CDK deployment', 5)).map((passage) => passage.contentId)).toEqual([
+      'content-rollback',
+      'content-deploy',
+    ]);
+  });
+
+  test('reads only the chunks of content in scope, a page at a time', async () => {
+    await labels.replace('pkb-1', 'content-deploy', ['tag#ops']);
+    const pages = jest.spyOn(chunks, 'pages');
+    const list = jest.spyOn(chunks, 'list');
+
+    const found = await find('CDK deployment', 5, { tag: 'ops' });
+
+    expect(found.map((passage) => passage.contentId)).toEqual(['content-deploy']);
+    expect(list).not.toHaveBeenCalled();
+    expect(Array.from(pages.mock.calls[0][1])).toEqual(['content-deploy']);
+  });
+});
+
+describe('AI stream handler', () => {
+  const { PassThrough } = require('stream');
+  const { createStreamHandler } = require('../../backend/src/ai/stream');
+
+  const collect = async (run) => {
+    const stream = new PassThrough();
+    const chunks = [];
+    stream.on('data', (chunk) => chunks.push(chunk.toString()));
+    await run(stream);
+    return chunks.join('').trim().split('\n').map((line) => JSON.parse(line));
+  };
+
+  let handler;
+
+  beforeEach(async () => {
+    const pkbs = new InMemoryPkbRepository();
+    await pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+    handler = createStreamHandler({
+      pkbs,
+      members: new InMemoryMembershipRepository(),
+      passages: new InMemoryPassageSource(passages),
+      embedder: new HashingEmbedder(),
+      model: new FakeModelClient(),
+      verifyToken: jest.fn().mockResolvedValue({ sub: 'user-1' }),
+    });
+  });
+
+  test('streams tokens followed by the cited answer', async () => {
+    const events = await collect((stream) => handler({
+      headers: { authorization: 'Bearer valid-jwt-token' },
+      body: JSON.stringify({ pkbId: 'pkb-1', query: 'What is React?' }),
+    }, stream));
+
+    const tokens = events.filter((event) => event.type === 'token');
+    const answer = events[events.length - 1];
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.map((event) => event.text).join('')).toBe(answer.response);
+    expect(answer).toMatchObject({ type: 'answer', citations: [expect.objectContaining({ contentId: 'content-react' })] });
+  });
+
+  test('reports errors without streaming tokens', async () => {
+    const events = await collect((stream) => handler({
+      headers: { authorization: 'Bearer valid-jwt-token' },
+      body: JSON.stringify({ pkbId: 'pkb-1' }),
+    }, stream));
+
+    expect(events).toEqual([{ type: 'error', error: 'query is required', code: 'bad_request', field: 'query' }]);
+  });
+
+  test('reports unexpected failures without their message', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = createStreamHandler({
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      verifyToken: jest.fn().mockRejectedValue(new Error('JWKS fetch failed for https://cognito-idp.internal')),
+    });
+
+    const events = await collect((stream) => failing({
+      headers: { authorization: 'Bearer valid-jwt-token' },
+      body: JSON.stringify({ pkbId: 'pkb-1', query: 'What is React?' }),
+    }, stream));
+
+    expect(events).toEqual([{ type: 'error', error: 'Internal server error', code: 'internal_error' }]);
+    expect(console.error).toHaveBeenCalledWith('Unhandled error', expect.any(Error));
+    console.error.mockRestore();
+  });
+
+  test('falls back before the first token when the model is throttled', async () => {
+    const model = new FakeModelClient('anthropic.claude-3-5-sonnet-20240620-v1:0');
+    model.throttled.add('anthropic.claude-3-5-sonnet-20240620-v1:0');
+    const pkbs = new InMemoryPkbRepository();
+    await pkbs.create({ userId: 'user-1', pkbId: 'pkb-1', name: 'Test PKB', description: '' });
+    const throttledHandler = createStreamHandler({
+      pkbs,
+      members: new InMemoryMembershipRepository(),
+      passages: new InMemoryPassageSource(passages),
+      embedder: new HashingEmbedder(),
+      model,
+      verifyToken: jest.fn().mockResolvedValue({ sub: 'user-1' }),
+    });
+
+    const events = await collect((stream) => throttledHandler({
+      headers: { authorization: 'Bearer valid-jwt-token' },
+      body: JSON.stringify({ pkbId: 'pkb-1', query: 'What is React?' }),
+    }, stream));
+
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'answer',
+      modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
+      fallbackFrom: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// Auth Lambda Tests - account flows against the in-memory identity provider
+const { createHandler } = require('../../backend/src/auth/index');
+const { InMemoryIdentityProvider } = require('../../backend/src/auth/identity');
+const { passwordPolicyViolations } = require('../../backend/src/auth/password-policy');
+
+const post = (action, body) => ({
+  httpMethod: 'POST',
+  path: `/auth/${action}`,
+  body: JSON.stringify(body),
+});
+
+const newUser = {
+  username: 'testuser',
+  password: 'Password123!',
+  email: 'test@example.com',
+  givenName: 'Test',
+  familyName: 'User',
+};
+
+describe('Auth handler', () => {
+  let identity;
+  let handler;
+
+  beforeEach(() => {
+    identity = new InMemoryIdentityProvider();
+    handler = createHandler({ identity });
+  });
+
+  test('signs up, confirms and signs in', async () => {
+    const signup = await handler(post('signup', newUser));
+    expect(signup.statusCode).toBe(201);
+    expect(JSON.parse(signup.body)).toMatchObject({ message: 'User created successfully', confirmed: false });
+
+    const early = await handler(post('signin', { username: 'testuser', password: 'Password123!' }));
+    expect(early.statusCode).toBe(403);
+
+    const confirm = await handler(post('confirm', { username: 'testuser', code: identity.codes.get('testuser') }));
+    expect(confirm.statusCode).toBe(200);
+
+    const signin = await handler(post('signin', { username: 'test@example.com', password: 'Password123!' }));
+    expect(signin.statusCode).toBe(200);
+    expect(JSON.parse(signin.body)).toEqual(expect.objectContaining({
+      accessToken: expect.any(String),
+      idToken: expect.any(String),
+      refreshToken: expect.any(String),
+    }));
+  });
+
+  test('rejects passwords that break the user pool policy', async () => {
+    const result = await handler(post('signup', { ...newUser, password: 'password123' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body)).toHaveProperty('error', 'Password does not meet requirements');
+    expect(passwordPolicyViolations('password123')).toEqual(['an uppercase letter', 'a special character']);
+  });
+
+  test('checks the password before requiring names', async () => {
+    const { username, email, password } = newUser;
+    const weak = await handler(post('signup', { username, email, password: 'weak' }));
+    const unnamed = await handler(post('signup', { username, email, password, familyName: 'User' }));
+
+    expect(JSON.parse(weak.body)).toHaveProperty('error', 'Password does not meet requirements');
+    expect(unnamed.statusCode).toBe(400);
+    expect(JSON.parse(unnamed.body)).toHaveProperty('error', 'givenName is required');
+  });
+
+  test('rejects wrong passwords and unknown users alike', async () => {
+    await handler(post('signup', newUser));
+    await handler(post('confirm', { username: 'testuser', code: identity.codes.get('testuser') }));
+
+    const wrong = await handler(post('signin', { username: 'testuser', password: 'wrongpassword' }));
+    const unknown = await handler(post('signin', { username: 'nobody', password: 'Password123!' }));
+
+    expect(wrong.statusCode).toBe(401);
+    expect(JSON.parse(wrong.body)).toHaveProperty('error', 'Invalid credentials');
+    expect(unknown.statusCode).toBe(401);
+  });
+
+  test('refreshes tokens with a refresh token', async () => {
+    identity = new InMemoryIdentityProvider({ autoConfirm: true });
+    handler = createHandler({ identity });
+    await handler(post('signup', newUser));
+    const { refreshToken } = JSON.parse((await handler(post('signin', newUser))).body);
+
+    const refreshed = await handler(post('refresh', { refreshToken }));
+    const invalid = await handler(post('refresh', { refreshToken: 'not-a-token' }));
+
+    expect(refreshed.statusCode).toBe(200);
+    expect(JSON.parse(refreshed.body)).toHaveProperty('accessToken');
+    expect(invalid.statusCode).toBe(401);
+  });
+
+  test('resets a forgotten password with the e-mailed code', async () => {
+    await handler(post('signup', newUser));
+    await handler(post('resend-code', { username: 'testuser' }));
+    await handler(post('confirm', { username: 'testuser', code: identity.codes.get('testuser') }));
+
+    const forgot = await handler(post('forgot-password', { username: 'testuser' }));
+    const badCode = await handler(post('reset-password', { username: 'testuser', code: '000000x', newPassword: 'Another456?' }));
+    const reset = await handler(post('reset-password', {
+      username: 'testuser',
+      code: identity.codes.get('testuser'),
+      newPassword: 'Another456?',
+    }));
+    const signin = await handler(post('signin', { username: 'testuser', password: 'Another456?' }));
+
+    expect(forgot.statusCode).toBe(200);
+    expect(badCode.statusCode).toBe(400);
+    expect(reset.statusCode).toBe(200);
+    expect(signin.statusCode).toBe(200);
+  });
+
+  test('does not reveal whether an account exists when resetting passwords', async () => {
+    const result = await handler(post('forgot-password', { username: 'nobody' }));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toEqual({ message: 'Password reset code sent' });
+  });
+});
+
+describe('Auth Lambda configuration', () => {
+  const environment = process.env;
+
+  beforeEach(() => {
+    process.env = { ...environment };
+  });
+
+  afterEach(() => {
+    process.env = environment;
+  });
+
+  test('fails rather than accepting unconfirmed sign-ups without a user pool client', async () => {
+    delete process.env.IDENTITY_PROVIDER;
+    delete process.env.USER_POOL_CLIENT_ID;
+
+    await jest.isolateModulesAsync(async () => {
+      const { handler } = require('../../backend/src/auth/index');
+      await expect(handler(post('signup', newUser))).rejects.toThrow('USER_POOL_CLIENT_ID is not set');
+    });
+  });
+});
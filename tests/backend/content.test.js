@@ -0,0 +1,565 @@
+// Content Lambda Tests - upload reservation, confirmation and deletion
+const { createHandler, createUploadHandler } = require('../../backend/src/content/index');
+const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+const { InMemoryPkbRepository } = require('../../backend/src/pkb/repository');
+const { InMemoryMembershipRepository } = require('../../backend/src/pkb/members');
+const { InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+const { InMemoryFolderRepository } = require('../../backend/src/content/folders');
+const { InMemoryLabelIndex } = require('../../backend/src/content/labels');
+
+const authorizedEvent = (overrides) => ({
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+  ...overrides,
+});
+
+const createFakeStorage = () => ({
+  createUpload: jest.fn().mockResolvedValue({
+    url: 'https://s3.amazonaws.com/projectkb-files',
+    fields: { key: 'ignored' },
+    expiresIn: 900,
+  }),
+  createDownload: jest.fn().mockResolvedValue({ url: 'https://s3.amazonaws.com/projectkb-files/signed', expiresIn: 900 }),
+  describe: jest.fn().mockResolvedValue({ size: 1024, mimeType: 'text/plain', checksum: 'abc123' }),
+  read: jest.fn().mockResolvedValue(Buffer.from('')),
+  write: jest.fn().mockResolvedValue(undefined),
+  listVersions: jest.fn().mockResolvedValue([]),
+  getVersionMetadata: jest.fn().mockResolvedValue({}),
+  restoreVersion: jest.fn().mockResolvedValue(undefined),
+  deleteAllVersions: jest.fn().mockResolvedValue(undefined),
+  createMultipartUpload: jest.fn().mockResolvedValue('upload-1'),
+  signUploadParts: jest.fn(async (key, uploadId, parts) =>
+    parts.map(({ partNumber }) => ({ partNumber, url: `https://s3.amazonaws.com/${key}?partNumber=${partNumber}` }))),
+  listUploadedParts: jest.fn().mockResolvedValue([]),
+  completeMultipartUpload: jest.fn().mockResolvedValue(undefined),
+  abortMultipartUpload: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('Content handler', () => {
+  let deps;
+  let handler;
+
+  beforeEach(async () => {
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      content: new InMemoryContentRepository(),
+      storage: createFakeStorage(),
+      chunks: new InMemoryChunkStore(),
+      events: { noteSaved: jest.fn().mockResolvedValue(undefined), contentUploaded: jest.fn().mockResolvedValue(undefined) },
+      folders: new InMemoryFolderRepository(),
+      labels: new InMemoryLabelIndex(),
+    };
+    handler = createHandler(deps);
+    await deps.pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+  });
+
+  const requestUpload = (body) => handler(authorizedEvent({
+    httpMethod: 'POST',
+    path: '/content/upload-url',
+    body: JSON.stringify(body),
+  }));
+
+  test('reserves a content row and returns an upload URL', async () => {
+    const result = await requestUpload({ pkbId: 'pkb-1', fileName: 'notes.txt', fileType: 'text/plain' });
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body);
+    expect(body).toHaveProperty('uploadUrl');
+    expect(body).toHaveProperty('fileId');
+    const item = await deps.content.get('pkb-1', body.fileId);
+    expect(item).toMatchObject({ status: 'uploading', ingestionStatus: 'pending' });
+    expect(deps.storage.createUpload).toHaveBeenCalledWith(expect.objectContaining({ contentType: 'text/plain' }));
+  });
+
+  test('has S3 check the upload against the checksum the client sends', async () => {
+    const checksum = Buffer.alloc(32, 7).toString('base64');
+
+    const result = await requestUpload({ pkbId: 'pkb-1', fileName: 'notes.txt', fileType: 'text/plain', checksum });
+    const invalid = await requestUpload({ pkbId: 'pkb-1', fileName: 'notes.txt', fileType: 'text/plain', checksum: 'abc' });
+
+    expect(result.statusCode).toBe(200);
+    expect(deps.storage.createUpload).toHaveBeenCalledWith(expect.objectContaining({ checksum }));
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  test('rejects unsupported file types and oversized files', async () => {
+    const unsupported = await requestUpload({ pkbId: 'pkb-1', fileName: 'run.exe', fileType: 'application/x-msdownload' });
+    expect(unsupported.statusCode).toBe(415);
+
+    const oversized = await requestUpload({
+      pkbId: 'pkb-1',
+      fileName: 'notes.txt',
+      fileType: 'text/plain',
+      size: 1024 * 1024 * 1024,
+    });
+    expect(oversized.statusCode).toBe(413);
+  });
+
+  test('refuses uploads to PKBs the caller does not own', async () => {
+    const result = await requestUpload({ pkbId: 'pkb-unknown', fileName: 'notes.txt', fileType: 'text/plain' });
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  test('uploads new versions of existing content to the same key', async () => {
+    const { fileId } = JSON.parse((await requestUpload({
+      pkbId: 'pkb-1',
+      fileName: 'notes.txt',
+      fileType: 'text/plain',
+    })).body);
+    await deps.content.update('pkb-1', fileId, { status: 'uploaded', ingestionStatus: 'ready', versionId: 'v1', checksum: 'abc123' });
+
+    const result = await requestUpload({
+      pkbId: 'pkb-1',
+      contentId: fileId,
+      fileName: 'notes-v2.txt',
+      fileType: 'text/plain',
+    });
+
+    expect(JSON.parse(result.body)).toHaveProperty('fileId', fileId);
+    expect(deps.storage.createUpload).toHaveBeenLastCalledWith(expect.objectContaining({ key: `pkbs/pkb-1/${fileId}` }));
+    // The current version stays available until the new one lands.
+    expect(await deps.content.get('pkb-1', fileId)).toMatchObject({
+      fileName: 'notes.txt',
+      status: 'uploaded',
+      ingestionStatus: 'ready',
+      versionId: 'v1',
+      pendingUpload: expect.objectContaining({ fileName: 'notes-v2.txt', uploadedBy: 'user-1' }),
+    });
+
+    // Uploaded without a checksum, so the first version's must not carry over.
+    deps.storage.describe.mockResolvedValueOnce({ size: 2048, mimeType: 'text/plain' });
+    await createUploadHandler(deps)({
+      'detail-type': 'Object Created',
+      detail: { object: { key: `pkbs/pkb-1/${fileId}`, 'version-id': 'v2', size: 2048 } },
+    });
+
+    const promoted = await deps.content.get('pkb-1', fileId);
+    expect(promoted).toMatchObject({ fileName: 'notes-v2.txt', versionId: 'v2', ingestionStatus: 'pending' });
+    expect(promoted).not.toHaveProperty('pendingUpload');
+    expect(promoted).not.toHaveProperty('checksum');
+  });
+
+  test('confirms uploads from S3 events', async () => {
+    const { fileId } = JSON.parse((await requestUpload({
+      pkbId: 'pkb-1',
+      fileName: 'notes.txt',
+      fileType: 'text/plain',
+    })).body);
+
+    await createUploadHandler(deps)({
+      'detail-type': 'Object Created',
+      detail: { object: { key: `pkbs/pkb-1/${fileId}`, 'version-id': 'v1', size: 1024 } },
+    });
+
+    const item = await deps.content.get('pkb-1', fileId);
+    expect(item).toMatchObject({ status: 'uploaded', size: 1024, checksum: 'abc123', versionId: 'v1' });
+    expect(deps.events.contentUploaded).toHaveBeenCalledWith({ pkbId: 'pkb-1', contentId: fileId, versionId: 'v1' });
+  });
+
+  test('signs a download URL once the upload has landed', async () => {
+    const { fileId } = JSON.parse((await requestUpload({
+      pkbId: 'pkb-1',
+      fileName: 'notes.txt',
+      fileType: 'text/plain',
+    })).body);
+    const downloadUrl = () => handler(authorizedEvent({
+      httpMethod: 'GET',
+      path: `/content/pkb-1/${fileId}/download-url`,
+    }));
+
+    const pending = await downloadUrl();
+    await deps.content.update('pkb-1', fileId, { status: 'uploaded' });
+    const result = await downloadUrl();
+
+    expect(pending.statusCode).toBe(409);
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toHaveProperty('url');
+    expect(deps.storage.createDownload).toHaveBeenCalledWith({ key: `pkbs/pkb-1/${fileId}`, fileName: 'notes.txt' });
+  });
+
+  test('deletes every stored version along with the record', async () => {
+    const { fileId } = JSON.parse((await requestUpload({
+      pkbId: 'pkb-1',
+      fileName: 'notes.txt',
+      fileType: 'text/plain',
+    })).body);
+
+    const result = await handler(authorizedEvent({ httpMethod: 'DELETE', path: `/content/pkb-1/${fileId}` }));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toHaveProperty('message', 'Content deleted successfully');
+    expect(deps.storage.deleteAllVersions).toHaveBeenCalledWith(`pkbs/pkb-1/${fileId}`);
+    expect(await deps.chunks.list('pkb-1')).toHaveLength(0);
+    expect(await deps.content.list('pkb-1')).toHaveLength(0);
+  });
+
+  describe('multipart uploads', () => {
+    const MB = 1024 * 1024;
+
+    const multipart = (action, body) => handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: `/content/multipart/${action}`,
+      body: JSON.stringify({ pkbId: 'pkb-1', ...body }),
+    }));
+
+    const initiate = async () => JSON.parse((await multipart('initiate', {
+      fileName: 'recording.mp4',
+      fileType: 'video/mp4',
+      size: 40 * MB,
+    })).body);
+
+    test('signs parts, reports progress for resuming and completes from S3\'s part list', async () => {
+      const { contentId, uploadId, partSize, partCount } = await initiate();
+      expect(uploadId).toBe('upload-1');
+      expect(partSize).toBe(16 * MB);
+      expect(partCount).toBe(3);
+
+      const checksums = [1, 2, 3].map((partNumber) => Buffer.alloc(32, partNumber).toString('base64'));
+      const signed = await multipart('parts', { contentId, partNumbers: [1, 2, 3], checksums });
+      expect(JSON.parse(signed.body).parts).toHaveLength(3);
+      expect(deps.storage.signUploadParts).toHaveBeenCalledWith(`pkbs/pkb-1/${contentId}`, 'upload-1', [
+        { partNumber: 1, checksum: checksums[0] },
+        { partNumber: 2, checksum: checksums[1] },
+        { partNumber: 3, checksum: checksums[2] },
+      ]);
+      expect((await multipart('parts', { contentId, partNumbers: [4], checksums: [checksums[0]] })).statusCode).toBe(400);
+      expect((await multipart('parts', { contentId, partNumbers: [1, 2] })).statusCode).toBe(400);
+      expect((await multipart('parts', { contentId, partNumbers: [1], checksums: ['abc'] })).statusCode).toBe(400);
+
+      const uploaded = [1, 2, 3].map((partNumber) => ({
+        partNumber,
+        etag: `"etag-${partNumber}"`,
+        size: partNumber === 3 ? 8 * MB : partSize,
+        checksum: checksums[partNumber - 1],
+      }));
+      deps.storage.listUploadedParts.mockResolvedValue(uploaded.slice(0, 2));
+      const status = JSON.parse((await multipart('status', { contentId })).body);
+      expect(status.parts.map((part) => part.partNumber)).toEqual([1, 2]);
+      expect((await multipart('complete', { contentId })).statusCode).toBe(409);
+
+      deps.storage.listUploadedParts.mockResolvedValue(uploaded);
+      const completed = await multipart('complete', { contentId });
+
+      expect(completed.statusCode).toBe(200);
+      expect(deps.storage.completeMultipartUpload).toHaveBeenCalledWith(`pkbs/pkb-1/${contentId}`, 'upload-1',
+        uploaded.map(({ partNumber, etag, checksum }) => ({ partNumber, etag, checksum })));
+    });
+
+    test('aborting discards the parts and the reserved row', async () => {
+      const { contentId } = await initiate();
+
+      const result = await multipart('abort', { contentId });
+
+      expect(result.statusCode).toBe(200);
+      expect(deps.storage.abortMultipartUpload).toHaveBeenCalledWith(`pkbs/pkb-1/${contentId}`, 'upload-1');
+      expect(await deps.content.get('pkb-1', contentId)).toBeUndefined();
+    });
+
+    test('aborts uploads whose parts add up to more than the declared size', async () => {
+      const { contentId, partSize } = await initiate();
+      deps.storage.listUploadedParts.mockResolvedValue([1, 2, 3].map((partNumber) => ({
+        partNumber,
+        etag: `"etag-${partNumber}"`,
+        size: partSize * 100,
+      })));
+
+      const result = await multipart('complete', { contentId });
+
+      expect(result.statusCode).toBe(413);
+      expect(deps.storage.completeMultipartUpload).not.toHaveBeenCalled();
+      expect(deps.storage.abortMultipartUpload).toHaveBeenCalledWith(`pkbs/pkb-1/${contentId}`, 'upload-1');
+      expect(await deps.content.get('pkb-1', contentId)).toBeUndefined();
+    });
+
+    test('requires the declared size to be within the type limit', async () => {
+      const missing = await multipart('initiate', { fileName: 'big.mp4', fileType: 'video/mp4' });
+      const tooLarge = await multipart('initiate', { fileName: 'big.mp4', fileType: 'video/mp4', size: 3000 * MB });
+
+      expect(missing.statusCode).toBe(400);
+      expect(tooLarge.statusCode).toBe(413);
+    });
+  });
+
+  describe('notes', () => {
+    const createNote = (body) => handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/content/notes',
+      body: JSON.stringify({ pkbId: 'pkb-1', ...body }),
+    }));
+
+    const saveNote = (contentId, body) => handler(authorizedEvent({
+      httpMethod: 'PUT',
+      path: `/content/pkb-1/${contentId}`,
+      body: JSON.stringify(body),
+    }));
+
+    const readNote = async (contentId) => JSON.parse((await handler(authorizedEvent({
+      httpMethod: 'GET',
+      path: `/content/pkb-1/${contentId}/note`,
+    }))).body);
+
+    test('keeps small notes on the item and announces them for indexing', async () => {
+      const created = await createNote({ title: 'Meeting', body: '# Agenda' });
+
+      expect(created.statusCode).toBe(201);
+      const { contentId } = JSON.parse(created.body);
+      const item = await deps.content.get('pkb-1', contentId);
+      expect(item).toMatchObject({ kind: 'note', noteStorage: 'inline', noteBody: '# Agenda', status: 'uploaded' });
+      expect(deps.events.noteSaved).toHaveBeenCalledWith({ pkbId: 'pkb-1', contentId, revision: item.noteRevision });
+      expect(deps.storage.write).not.toHaveBeenCalled();
+
+      const saved = await saveNote(contentId, { body: '# Agenda\n\n- Budget' });
+      expect(saved.statusCode).toBe(200);
+      expect(await readNote(contentId)).toMatchObject({ title: 'Meeting', body: '# Agenda\n\n- Budget' });
+
+      const listed = JSON.parse((await handler(authorizedEvent({ httpMethod: 'GET', path: '/content/pkb-1' }))).body);
+      expect(listed.content[0]).not.toHaveProperty('noteBody');
+    });
+
+    test('moves large notes to S3, where the upload event indexes them', async () => {
+      const { contentId } = JSON.parse((await createNote({ title: 'Draft', body: 'short' })).body);
+      deps.events.noteSaved.mockClear();
+      const body = 'x'.repeat(200 * 1024);
+
+      await saveNote(contentId, { body });
+
+      const item = await deps.content.get('pkb-1', contentId);
+      expect(item).toMatchObject({ noteStorage: 's3', noteBody: '', size: body.length });
+      expect(deps.storage.write).toHaveBeenCalledWith(`pkbs/pkb-1/${contentId}`, Buffer.from(body), 'text/markdown', 'user-1');
+      expect(deps.events.noteSaved).not.toHaveBeenCalled();
+
+      deps.storage.read.mockResolvedValue(Buffer.from(body));
+      expect((await readNote(contentId)).body).toBe(body);
+    });
+
+    test('only notes can be edited', async () => {
+      const { fileId } = JSON.parse((await requestUpload({
+        pkbId: 'pkb-1',
+        fileName: 'notes.txt',
+        fileType: 'text/plain',
+      })).body);
+
+      expect((await saveNote(fileId, { body: 'changed' })).statusCode).toBe(400);
+    });
+  });
+
+  describe('version history', () => {
+    const versions = [
+      { versionId: 'v3', size: 30, lastModified: '2024-01-03T00:00:00.000Z', isLatest: true },
+      { versionId: 'v2', size: 20, lastModified: '2024-01-02T00:00:00.000Z', isLatest: false },
+      { versionId: 'v1', size: 10, lastModified: '2024-01-01T00:00:00.000Z', isLatest: false },
+    ];
+    let contentId;
+
+    const versionsRequest = (httpMethod, path, overrides) => handler(authorizedEvent({
+      httpMethod,
+      path: `/content/pkb-1/${contentId}/versions${path}`,
+      ...overrides,
+    }));
+
+    beforeEach(async () => {
+      ({ fileId: contentId } = JSON.parse((await requestUpload({
+        pkbId: 'pkb-1',
+        fileName: 'notes.txt',
+        fileType: 'text/plain',
+      })).body));
+      await deps.content.update('pkb-1', contentId, { status: 'uploaded', ingestionStatus: 'ready' });
+      await deps.members.putMember({
+        pkbId: 'pkb-1',
+        userId: 'user-2',
+        role: 'editor',
+        ownerId: 'user-1',
+        email: 'editor@example.com',
+        addedAt: '2024-01-01T00:00:00Z',
+        addedBy: 'user-1',
+      });
+      deps.storage.listVersions.mockResolvedValue(versions);
+      deps.storage.getVersionMetadata.mockImplementation(async (key, versionId) =>
+        (versionId === 'v2' ? { uploadedBy: 'user-2' } : {}));
+    });
+
+    test('lists versions with who uploaded them', async () => {
+      const result = await versionsRequest('GET', '');
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.diffable).toBe(true);
+      expect(body.versions.map((version) => version.uploadedBy)).toEqual(['user-1', 'user-2', undefined]);
+      expect(body.versions[1].uploadedByEmail).toBe('editor@example.com');
+    });
+
+    test('diffs a version against the one before it', async () => {
+      deps.storage.read.mockImplementation(async (key, versionId) =>
+        Buffer.from(versionId === 'v2' ? 'intro\nold line\nend' : 'intro\nnew line\nend'));
+
+      const body = JSON.parse((await versionsRequest('GET', '/v3/diff')).body);
+
+      expect(body).toMatchObject({ versionId: 'v3', againstVersionId: 'v2', added: 1, removed: 1 });
+      expect(body.lines).toEqual([
+        { op: 'equal', text: 'intro' },
+        { op: 'removed', text: 'old line' },
+        { op: 'added', text: 'new line' },
+        { op: 'equal', text: 'end' },
+      ]);
+      expect((await versionsRequest('GET', '/v9/diff')).statusCode).toBe(404);
+    });
+
+    test('restores an earlier version and queues it for indexing', async () => {
+      const result = await versionsRequest('POST', '/v1/restore');
+
+      expect(result.statusCode).toBe(200);
+      expect(deps.storage.restoreVersion).toHaveBeenCalledWith(`pkbs/pkb-1/${contentId}`, 'v1', 'user-1');
+      expect(await deps.content.get('pkb-1', contentId)).toMatchObject({
+        status: 'uploading',
+        ingestionStatus: 'pending',
+      });
+      await deps.content.update('pkb-1', contentId, { status: 'uploaded' });
+      expect((await versionsRequest('POST', '/v3/restore')).statusCode).toBe(409);
+    });
+
+    test('has no history for notes saved inline', async () => {
+      ({ contentId } = JSON.parse((await handler(authorizedEvent({
+        httpMethod: 'POST',
+        path: '/content/notes',
+        body: JSON.stringify({ pkbId: 'pkb-1', title: 'Short', body: 'inline text' }),
+      }))).body));
+
+      const list = await versionsRequest('GET', '');
+      const restore = await versionsRequest('POST', '/v1/restore');
+
+      expect(list.statusCode).toBe(400);
+      expect(JSON.parse(list.body)).toHaveProperty('error', 'Notes saved inline have no version history');
+      expect(restore.statusCode).toBe(400);
+      expect(deps.storage.restoreVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('folders, tags and metadata', () => {
+    const contentIds = [];
+
+    const request = (httpMethod, path, body, queryStringParameters) => handler(authorizedEvent({
+      httpMethod,
+      path,
+      body: body && JSON.stringify(body),
+      queryStringParameters,
+    }));
+
+    const createFolder = async (name, parentId) =>
+      JSON.parse((await request('POST', '/content/folders/pkb-1', { name, parentId })).body);
+
+    const listIds = async (params) =>
+      JSON.parse((await request('GET', '/content/pkb-1', undefined, params)).body).content
+        .map((item) => item.contentId)
+        .sort();
+
+    beforeEach(async () => {
+      contentIds.length = 0;
+      for (const fileName of ['a.txt', 'b.txt', 'c.txt']) {
+        contentIds.push(JSON.parse((await requestUpload({ pkbId: 'pkb-1', fileName, fileType: 'text/plain' })).body).fileId);
+      }
+      await deps.pkbs.update('user-1', 'pkb-1', {
+        metadataFields: [{ key: 'status', label: 'Status', type: 'select', options: ['draft', 'final'] }],
+      });
+    });
+
+    test('nests folders and refuses to move one into its own subtree', async () => {
+      const parent = await createFolder('Projects');
+      const child = await createFolder('Alpha', parent.folderId);
+      expect(child.parentId).toBe(parent.folderId);
+
+      const duplicate = await request('POST', '/content/folders/pkb-1', { name: 'projects' });
+      expect(duplicate.statusCode).toBe(409);
+
+      const cycle = await request('PUT', `/content/folders/pkb-1/${parent.folderId}`, { parentId: child.folderId });
+      expect(cycle.statusCode).toBe(400);
+
+      const moved = await request('PUT', `/content/folders/pkb-1/${child.folderId}`, { parentId: null });
+      expect(JSON.parse(moved.body)).not.toHaveProperty('parentId');
+    });
+
+    test('sets tags and metadata and filters the content list by them', async () => {
+      const invalid = await request('PUT', `/content/pkb-1/${contentIds[0]}/properties`, { metadata: { status: 'lost' } });
+      expect(invalid.statusCode).toBe(400);
+
+      const result = await request('PUT', `/content/pkb-1/${contentIds[0]}/properties`, {
+        tags: ['Release', 'release', 'ops'],
+        metadata: { status: 'final' },
+      });
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({ tags: ['release', 'ops'], metadata: { status: 'final' } });
+
+      expect(await listIds({ tag: 'release' })).toEqual([contentIds[0]]);
+      expect(await listIds({ 'meta.status': 'final' })).toEqual([contentIds[0]]);
+      expect(await listIds({ tag: 'ops', 'meta.status': 'draft' })).toEqual([]);
+    });
+
+    test('moves and tags items in bulk, and lists a folder with its subfolders', async () => {
+      const parent = await createFolder('Projects');
+      const child = await createFolder('Alpha', parent.folderId);
+
+      await request('POST', '/content/bulk', { pkbId: 'pkb-1', action: 'move', contentIds: [contentIds[0]], folderId: parent.folderId });
+      await request('POST', '/content/bulk', { pkbId: 'pkb-1', action: 'move', contentIds: [contentIds[1]], folderId: child.folderId });
+      const tagged = await request('POST', '/content/bulk', { pkbId: 'pkb-1', action: 'tag', contentIds: contentIds.slice(1), tags: ['q3'] });
+      expect(JSON.parse(tagged.body).updated).toBe(2);
+
+      expect(await listIds({ folderId: parent.folderId })).toEqual([contentIds[0], contentIds[1]].sort());
+      expect(await listIds({ folderId: child.folderId, tag: 'q3' })).toEqual([contentIds[1]]);
+
+      const missing = await request('POST', '/content/bulk', { pkbId: 'pkb-1', action: 'untag', contentIds: ['nope'], tags: ['q3'] });
+      expect(missing.statusCode).toBe(404);
+
+      await request('POST', '/content/bulk', { pkbId: 'pkb-1', action: 'move', contentIds: [contentIds[0]], folderId: null });
+      expect((await deps.content.get('pkb-1', contentIds[0])).folderId).toBeUndefined();
+    });
+
+    test('only deletes empty folders and drops labels with their item', async () => {
+      const folder = await createFolder('Archive');
+      await request('PUT', `/content/pkb-1/${contentIds[0]}/properties`, { folderId: folder.folderId, tags: ['old'] });
+
+      expect((await request('DELETE', `/content/folders/pkb-1/${folder.folderId}`)).statusCode).toBe(409);
+
+      await request('DELETE', `/content/pkb-1/${contentIds[0]}`);
+      expect(await deps.labels.find('pkb-1', 'tag#old')).toEqual([]);
+      expect((await request('DELETE', `/content/folders/pkb-1/${folder.folderId}`)).statusCode).toBe(200);
+    });
+  });
+});
+
+describe('S3FileStorage', () => {
+  const { S3FileStorage } = require('../../backend/src/content/storage');
+  const request = (result) => jest.fn().mockReturnValue({ promise: () => Promise.resolve(result) });
+
+  test('reads the checksum S3 recorded instead of the object', async () => {
+    const digest = Buffer.alloc(32, 1);
+    const s3 = {
+      headObject: request({ ContentLength: 5, ContentType: 'text/plain', ChecksumSHA256: digest.toString('base64') }),
+      getObject: jest.fn(),
+    };
+    const storage = new S3FileStorage(s3, 'projectkb-files');
+
+    const stored = await storage.describe('pkbs/pkb-1/content-1', 'v1');
+
+    expect(stored).toEqual({ size: 5, mimeType: 'text/plain', checksum: digest.toString('hex') });
+    expect(s3.headObject).toHaveBeenCalledWith(expect.objectContaining({ VersionId: 'v1', ChecksumMode: 'ENABLED' }));
+    expect(s3.getObject).not.toHaveBeenCalled();
+  });
+
+  test('fails when S3 could not delete some versions', async () => {
+    const s3 = {
+      listObjectVersions: request({ Versions: [{ Key: 'pkbs/pkb-1/content-1', VersionId: 'v1' }] }),
+      deleteObjects: request({ Errors: [{ Key: 'pkbs/pkb-1/content-1', VersionId: 'v1', Code: 'AccessDenied', Message: 'Access Denied' }] }),
+    };
+    const storage = new S3FileStorage(s3, 'projectkb-files');
+
+    await expect(storage.deleteAllVersions('pkbs/pkb-1/content-1')).rejects.toThrow('AccessDenied');
+  });
+});
@@ -0,0 +1,143 @@
+// Conversation Tests - persistent threads per PKB and multi-turn answers
+const { createHandler } = require('../../backend/src/conversations/index');
+const { createHandler: createAiHandler } = require('../../backend/src/ai/index');
+const { FakeModelClient } = require('../../backend/src/ai/model');
+const { InMemoryPassageSource } = require('../../backend/src/ai/retrieval');
+const { HashingEmbedder } = require('../../backend/src/ingestion/embedder');
+const { RECENT_MESSAGES, SUMMARY_TRIGGER } = require('../../backend/src/ai/conversation');
+const { InMemoryConversationRepository } = require('../../backend/src/conversations/repository');
+const { InMemoryPkbRepository } = require('../../backend/src/pkb/repository');
+const { InMemoryMembershipRepository } = require('../../backend/src/pkb/members');
+
+const passages = [
+  {
+    contentId: 'content-react',
+    fileName: 'react.md',
+    text: 'React is a JavaScript library for building user interfaces. It uses components.',
+    start: 0,
+    end: 79,
+  },
+];
+
+const authorizedEvent = (httpMethod, path, body) => ({
+  httpMethod,
+  path,
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+  body: body === undefined ? null : JSON.stringify(body),
+});
+
+describe('Conversations', () => {
+  let deps;
+  let handler;
+  let ask;
+
+  const createThread = async (body) => {
+    const result = await handler(authorizedEvent('POST', '/conversations/pkb-1', body));
+    return JSON.parse(result.body);
+  };
+
+  beforeEach(async () => {
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      conversations: new InMemoryConversationRepository(),
+      passages: new InMemoryPassageSource(passages),
+      embedder: new HashingEmbedder(),
+      model: new FakeModelClient(),
+    };
+    handler = createHandler(deps);
+    const aiHandler = createAiHandler(deps);
+    ask = (conversationId, query) =>
+      aiHandler(authorizedEvent('POST', '/ai/query', { pkbId: 'pkb-1', query, conversationId }));
+
+    await deps.pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+  });
+
+  test('creates, lists, renames and deletes threads', async () => {
+    const created = await createThread();
+    expect(created).toMatchObject({ title: 'New conversation', messageCount: 0, pkbId: 'pkb-1' });
+
+    const list = await handler(authorizedEvent('GET', '/conversations/pkb-1'));
+    expect(JSON.parse(list.body).conversations).toHaveLength(1);
+
+    const renamed = await handler(
+      authorizedEvent('PUT', `/conversations/pkb-1/${created.conversationId}`, { title: 'Release planning' }),
+    );
+    expect(JSON.parse(renamed.body)).toMatchObject({
+      message: 'Conversation updated successfully',
+      conversation: { title: 'Release planning' },
+    });
+
+    const deleted = await handler(authorizedEvent('DELETE', `/conversations/pkb-1/${created.conversationId}`));
+    expect(JSON.parse(deleted.body)).toHaveProperty('message', 'Conversation deleted successfully');
+
+    const missing = await handler(authorizedEvent('GET', `/conversations/pkb-1/${created.conversationId}`));
+    expect(missing.statusCode).toBe(404);
+  });
+
+  test('rejects threads for PKBs the user does not own', async () => {
+    const result = await handler(authorizedEvent('POST', '/conversations/pkb-other', {}));
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body)).toHaveProperty('error', 'PKB not found');
+  });
+
+  test('stores each exchange with its model and token counts', async () => {
+    const { conversationId } = await createThread();
+
+    const result = await ask(conversationId, 'What is React?');
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toHaveProperty('conversationId', conversationId);
+
+    const thread = JSON.parse(
+      (await handler(authorizedEvent('GET', `/conversations/pkb-1/${conversationId}`))).body,
+    );
+    expect(thread.conversation).toMatchObject({ title: 'What is React?', messageCount: 2, modelId: 'fake-model' });
+    expect(thread.conversation.inputTokens).toBeGreaterThan(0);
+    expect(thread.messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+    expect(thread.messages[1]).toMatchObject({
+      modelId: 'fake-model',
+      citations: [expect.objectContaining({ contentId: 'content-react' })],
+    });
+  });
+
+  test('replays earlier turns to the model on follow-up questions', async () => {
+    const { conversationId } = await createThread();
+    await ask(conversationId, 'What is React?');
+    await ask(conversationId, 'What does it use?');
+
+    const { messages } = deps.model.requests[1];
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toEqual({ role: 'user', content: 'What is React?' });
+    expect(messages[1].role).toBe('assistant');
+  });
+
+  test('summarises older turns once the thread grows long', async () => {
+    const { conversationId } = await createThread();
+    for (let i = 0; i <= SUMMARY_TRIGGER / 2; i += 1) {
+      await ask(conversationId, `Question ${i} about React?`);
+    }
+
+    const conversation = await deps.conversations.get('user-1', 'pkb-1', conversationId);
+    expect(conversation.summary).toBeTruthy();
+    expect(conversation.summarizedThrough).toBe(conversation.messageCount - RECENT_MESSAGES);
+
+    await ask(conversationId, 'And one more?');
+    const lastRequest = deps.model.requests[deps.model.requests.length - 1];
+    expect(lastRequest.system).toContain(conversation.summary);
+    expect(lastRequest.messages).toHaveLength(RECENT_MESSAGES + 1);
+  });
+
+  test('returns 404 when continuing a thread that does not exist', async () => {
+    const result = await ask('missing-thread', 'What is React?');
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body)).toHaveProperty('error', 'Conversation not found');
+  });
+});
@@ -0,0 +1,2 @@
+// Test environment - suites that call a module's `handler` run without a Cognito user pool
+process.env.IDENTITY_PROVIDER = 'in-memory';
@@ -0,0 +1,395 @@
+// Ingestion Tests - extraction, chunking and index replacement
+const { chunkText } = require('../../backend/src/shared/chunking');
+const { extractText } = require('../../backend/src/ingestion/extractors');
+const { ingestContent, ingestNote } = require('../../backend/src/ingestion/pipeline');
+const { DynamoChunkStore, InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+const { HashingEmbedder } = require('../../backend/src/ingestion/embedder');
+const { ModelImageDescriber, parseDescription } = require('../../backend/src/ingestion/image-describer');
+const { FakeModelClient } = require('../../backend/src/ai/model');
+const { ModelContentSummarizer } = require('../../backend/src/ingestion/summarizer');
+const { InMemorySuggestionRepository } = require('../../backend/src/suggestions/repository');
+const { completeTranscription } = require('../../backend/src/ingestion/pipeline');
+const {
+  FakeTranscriptionProvider,
+  parseTranscribeOutput,
+} = require('../../backend/src/ingestion/transcription');
+const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+
+describe('chunkText', () => {
+  test('produces overlapping chunks whose offsets point into the source', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} about the project.`).join(' ');
+
+    const chunks = chunkText(text, { size: 200, overlap: 50 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    }
+    for (let i = 1; i < chunks.length; i += 1) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+    }
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+});
+
+describe('extractText', () => {
+  test('strips markup from HTML', async () => {
+    const html = '<html><head><style>p{}</style></head><body><h1>Title</h1><p>Fish &amp; chips</p></body></html>';
+
+    const text = await extractText(Buffer.from(html), 'text/html');
+
+    expect(text).toContain('Title');
+    expect(text).toContain('Fish & chips');
+    expect(text).not.toContain('<');
+    expect(text).not.toContain('p{}');
+  });
+
+  test('keeps character references that name no character as written', async () => {
+    const html = '<p>&#x1F600; &#128512; &#x110000; &#55296; &#99999999999999999999;</p>';
+
+    const text = await extractText(Buffer.from(html), 'text/html');
+
+    expect(text).toBe('\u{1F600} \u{1F600} &#x110000; &#55296; &#99999999999999999999;');
+  });
+
+  test('strips Markdown syntax but keeps link text', async () => {
+    const text = await extractText(Buffer.from('# Heading\n\nSee the [deploy guide](docs/DEPLOYMENT.md).'), 'text/markdown');
+
+    expect(text).toContain('Heading');
+    expect(text).toContain('See the deploy guide.');
+  });
+
+  test('rejects unsupported types', async () => {
+    await expect(extractText(Buffer.from(''), 'application/zip')).rejects.toThrow('Unsupported content type');
+  });
+});
+
+describe('ingestContent', () => {
+  let deps;
+
+  beforeEach(async () => {
+    deps = {
+      content: new InMemoryContentRepository(),
+      storage: { read: jest.fn().mockResolvedValue(Buffer.from('First version of the release checklist.')) },
+      chunks: new InMemoryChunkStore(),
+      embedder: new HashingEmbedder(),
+    };
+    await deps.content.create({
+      pkbId: 'pkb-1',
+      contentId: 'content-1',
+      fileName: 'checklist.txt',
+      fileType: 'text/plain',
+      s3Key: 'pkbs/pkb-1/content-1',
+      status: 'uploaded',
+      ingestionStatus: 'pending',
+      uploadedBy: 'user-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+  });
+
+  test('indexes the content and marks it ready', async () => {
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+
+    const chunks = await deps.chunks.list('pkb-1');
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].embedding).toHaveLength(deps.embedder.dimensions);
+    expect(await deps.content.get('pkb-1', 'content-1')).toMatchObject({ ingestionStatus: 'ready', chunkCount: 1 });
+  });
+
+  test('replaces the previous chunks on re-upload', async () => {
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+    deps.storage.read.mockResolvedValue(Buffer.from('Second version with a rollback plan.'));
+    await deps.content.update('pkb-1', 'content-1', { versionId: 'v2' });
+
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1', versionId: 'v2' });
+
+    const chunks = await deps.chunks.list('pkb-1');
+    expect(chunks.map((chunk) => chunk.text)).toEqual(['Second version with a rollback plan.']);
+    expect(deps.storage.read).toHaveBeenLastCalledWith('pkbs/pkb-1/content-1', 'v2');
+  });
+
+  test('skips versions the item no longer points at', async () => {
+    await deps.content.update('pkb-1', 'content-1', { versionId: 'v3' });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1', versionId: 'v2' });
+
+    expect(deps.storage.read).not.toHaveBeenCalled();
+    expect(await deps.chunks.list('pkb-1')).toEqual([]);
+    expect(await deps.content.get('pkb-1', 'content-1')).toMatchObject({ ingestionStatus: 'pending' });
+    console.warn.mockRestore();
+  });
+
+  test('records failures on the content item', async () => {
+    deps.storage.read.mockRejectedValue(new Error('Access Denied'));
+
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+
+    expect(await deps.content.get('pkb-1', 'content-1')).toMatchObject({
+      ingestionStatus: 'failed',
+      ingestionError: 'Access Denied',
+    });
+  });
+
+  test('indexes images by their caption and the text found in them', async () => {
+    const model = new FakeModelClient();
+    model.generate = jest.fn().mockResolvedValue({
+      text: 'CAPTION: A whiteboard sketch of the release pipeline.\nTEXT: Build -> Test -> Deploy',
+      modelId: 'fake-model',
+      inputTokens: 1,
+      outputTokens: 1,
+    });
+    deps.images = new ModelImageDescriber(model);
+    deps.storage.read.mockResolvedValue(Buffer.from([0xff, 0xd8, 0xff]));
+    await deps.content.update('pkb-1', 'content-1', { fileName: 'pipeline.jpg', fileType: 'image/jpeg' });
+
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+
+    const [chunk] = await deps.chunks.list('pkb-1');
+    expect(chunk.text).toContain('whiteboard sketch of the release pipeline');
+    expect(chunk.text).toContain('Build -> Test -> Deploy');
+    expect(await deps.content.get('pkb-1', 'content-1')).toMatchObject({
+      ingestionStatus: 'ready',
+      caption: 'A whiteboard sketch of the release pipeline.',
+    });
+    const [request] = model.generate.mock.calls[0];
+    expect(request.messages[0].images).toEqual([{ mediaType: 'image/jpeg', data: Buffer.from([0xff, 0xd8, 0xff]) }]);
+  });
+
+  test('suggests a summary and tags once the item is indexed', async () => {
+    const model = new FakeModelClient();
+    model.generate = jest.fn().mockResolvedValue({
+      text: 'SUMMARY: A checklist for releases.\nTAGS: Release, #checklist, release',
+      modelId: 'fake-model',
+      inputTokens: 1,
+      outputTokens: 1,
+    });
+    deps.summarizer = new ModelContentSummarizer(model);
+    deps.suggestions = new InMemorySuggestionRepository();
+
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+
+    expect(await deps.suggestions.get('pkb-1', 'summary#content-1')).toMatchObject({
+      type: 'summary',
+      status: 'open',
+      summary: 'A checklist for releases.',
+      tags: ['release', 'checklist'],
+      contentIds: ['content-1'],
+    });
+  });
+
+  test('keeps the item ready when summarizing fails', async () => {
+    deps.summarizer = { summarize: jest.fn().mockRejectedValue(new Error('Throttled')) };
+    deps.suggestions = new InMemorySuggestionRepository();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+
+    expect(await deps.content.get('pkb-1', 'content-1')).toMatchObject({ ingestionStatus: 'ready' });
+    expect(await deps.suggestions.list('pkb-1')).toEqual([]);
+    console.warn.mockRestore();
+  });
+
+  test('indexes inline notes from the item and skips saves that were overwritten', async () => {
+    await deps.content.update('pkb-1', 'content-1', {
+      kind: 'note',
+      fileType: 'text/markdown',
+      noteStorage: 'inline',
+      noteBody: '# Launch plan\n\nShip on **Friday**.',
+      noteRevision: 'rev-2',
+    });
+
+    await ingestNote(deps, { pkbId: 'pkb-1', contentId: 'content-1', revision: 'rev-1' });
+    expect(await deps.chunks.list('pkb-1')).toHaveLength(0);
+
+    await ingestNote(deps, { pkbId: 'pkb-1', contentId: 'content-1', revision: 'rev-2' });
+    const [chunk] = await deps.chunks.list('pkb-1');
+    expect(chunk.text).toContain('Ship on Friday.');
+    expect(deps.storage.read).not.toHaveBeenCalled();
+  });
+});
+
+describe('DynamoChunkStore', () => {
+  const record = (contentId, generation, index) => ({
+    pkbId: 'pkb-1',
+    contentId,
+    generation,
+    chunkKey: `${contentId}#${generation}#${String(index).padStart(6, '0')}`,
+    index,
+    text: `${contentId} ${generation}`,
+    start: 0,
+    end: 10,
+    embedding: Buffer.from(new Float32Array([1, 0]).buffer),
+    fileName: 'a.txt',
+    fileType: 'text/plain',
+  });
+
+  test('pages through active chunks, holding back chunks read before their manifest', async () => {
+    const responses = [
+      { Items: [record('content-1', 'old', 0), record('content-1', 'new', 0), record('content-2', 'g', 0)], LastEvaluatedKey: { chunkKey: 'x' } },
+      { Items: [
+        { pkbId: 'pkb-1', chunkKey: 'content-1#active', contentId: 'content-1', generation: 'new' },
+        { pkbId: 'pkb-1', chunkKey: 'content-2#active', contentId: 'content-2', generation: 'g' },
+      ] },
+    ];
+    const query = jest.fn(() => ({ promise: () => Promise.resolve(responses.shift()) }));
+    const store = new DynamoChunkStore({ query }, 'chunks');
+
+    const pages = [];
+    for await (const page of store.pages('pkb-1', new Set(Array.from({ length: 30 }, (_, i) => `content-${i}`)))) {
+      pages.push(page);
+    }
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(pages.flat().map((chunk) => chunk.text)).toEqual(['content-1 new', 'content-2 g']);
+    expect(pages.flat()[0].embedding).toEqual([1, 0]);
+  });
+
+  test('reads a few items by their key prefix', async () => {
+    const query = jest.fn(() => ({ promise: () => Promise.resolve({ Items: [] }) }));
+    const store = new DynamoChunkStore({ query }, 'chunks');
+
+    for await (const _page of store.pages('pkb-1', new Set(['content-1', 'content-2']))) {
+      // nothing stored
+    }
+
+    expect(query.mock.calls.map(([params]) => params.ExpressionAttributeValues[':prefix'])).toEqual(['content-1#', 'content-2#']);
+  });
+});
+
+describe('batchPut', () => {
+  const { batchPut } = require('../../backend/src/shared/dynamo');
+
+  let delays;
+
+  beforeEach(() => {
+    delays = [];
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    jest.spyOn(global, 'setTimeout').mockImplementation((callback, ms) => {
+      delays.push(ms);
+      callback();
+      return 0;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test('retries unprocessed items with growing delays', async () => {
+    const items = [{ id: 'a' }, { id: 'b' }];
+    const unprocessed = [{ UnprocessedItems: { chunks: [{ PutRequest: { Item: items[1] } }] } }, { UnprocessedItems: {} }];
+    const batchWrite = jest.fn(() => ({ promise: () => Promise.resolve(unprocessed.shift() ?? {}) }));
+
+    await batchPut({ batchWrite }, 'chunks', items);
+
+    expect(batchWrite).toHaveBeenCalledTimes(2);
+    expect(batchWrite.mock.calls[1][0].RequestItems.chunks).toEqual([{ PutRequest: { Item: items[1] } }]);
+    expect(delays).toEqual([100]);
+  });
+
+  test('gives up when the table keeps items unprocessed', async () => {
+    const batchWrite = jest.fn(({ RequestItems }) => ({
+      promise: () => Promise.resolve({ UnprocessedItems: RequestItems }),
+    }));
+
+    await expect(batchPut({ batchWrite }, 'chunks', [{ id: 'a' }])).rejects.toThrow(
+      'chunks left 1 writes unprocessed after 8 attempts',
+    );
+    expect(batchWrite).toHaveBeenCalledTimes(8);
+    expect(delays).toEqual([100, 200, 400, 800, 1600, 3200, 6400]);
+  });
+});
+describe('parseDescription', () => {
+  test('treats NONE as no text and unmarked replies as the caption', () => {
+    expect(parseDescription('CAPTION: A cat.\nTEXT: NONE')).toEqual({ caption: 'A cat.', text: '' });
+    expect(parseDescription('Just a cat.')).toEqual({ caption: 'Just a cat.', text: '' });
+  });
+});
+
+describe('transcription', () => {
+  const segments = [
+    { speaker: 'Speaker 1', start: 0, end: 4.2, text: 'Welcome to the release review.' },
+    { speaker: 'Speaker 2', start: 83.5, end: 90, text: 'The rollback plan is ready.' },
+  ];
+  let deps;
+
+  beforeEach(async () => {
+    deps = {
+      content: new InMemoryContentRepository(),
+      storage: { read: jest.fn() },
+      chunks: new InMemoryChunkStore(),
+      embedder: new HashingEmbedder(),
+      transcriber: new FakeTranscriptionProvider(segments),
+      chunkOptions: { size: 60, overlap: 0 },
+    };
+    await deps.content.create({
+      pkbId: 'pkb-1',
+      contentId: 'content-1',
+      fileName: 'review.mp3',
+      fileType: 'audio/mpeg',
+      s3Key: 'pkbs/pkb-1/content-1',
+      status: 'uploaded',
+      ingestionStatus: 'pending',
+      uploadedBy: 'user-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+  });
+
+  test('starts a job for media instead of reading the file', async () => {
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+
+    const item = await deps.content.get('pkb-1', 'content-1');
+    expect(item.ingestionStatus).toBe('transcribing');
+    expect(deps.transcriber.jobs.get(item.transcriptionJob)).toMatchObject({
+      key: 'pkbs/pkb-1/content-1',
+      mediaFormat: 'mp3',
+    });
+    expect(deps.storage.read).not.toHaveBeenCalled();
+  });
+
+  test('indexes the finished transcript with speakers and timestamps', async () => {
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+    const { transcriptionJob } = await deps.content.get('pkb-1', 'content-1');
+
+    await completeTranscription(deps, transcriptionJob);
+
+    const chunks = await deps.chunks.list('pkb-1');
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]).toMatchObject({ startTime: 83.5, endTime: 90 });
+    expect(chunks[1].text).toBe('[1:23] Speaker 2: The rollback plan is ready.');
+    expect(await deps.content.get('pkb-1', 'content-1')).toMatchObject({ ingestionStatus: 'ready', durationSeconds: 90 });
+  });
+
+  test('ignores results of jobs superseded by a newer upload', async () => {
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'content-1' });
+    const { transcriptionJob: oldJob } = await deps.content.get('pkb-1', 'content-1');
+    await deps.content.update('pkb-1', 'content-1', { transcriptionJob: 'projectkb_pkb-1_content-1_999' });
+
+    await completeTranscription(deps, oldJob);
+
+    expect(await deps.chunks.list('pkb-1')).toEqual([]);
+  });
+
+  test('groups Transcribe words into speaker turns', () => {
+    const word = (content, start, speaker) => ({
+      type: 'pronunciation',
+      start_time: String(start),
+      end_time: String(start + 0.4),
+      speaker_label: speaker,
+      alternatives: [{ content }],
+    });
+    const stop = { type: 'punctuation', alternatives: [{ content: '.' }] };
+
+    const turns = parseTranscribeOutput({
+      results: {
+        items: [word('Hello', 0, 'spk_0'), word('there', 0.5, 'spk_0'), stop, word('Hi', 2, 'spk_1'), stop],
+      },
+    });
+
+    expect(turns).toEqual([
+      { speaker: 'Speaker 1', start: 0, end: 0.9, text: 'Hello there.' },
+      { speaker: 'Speaker 2', start: 2, end: 2.4, text: 'Hi.' },
+    ]);
+  });
+});
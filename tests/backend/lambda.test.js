@@ -6,11 +6,45 @@ jest.mock('aws-sdk');
 const mockDynamoDB = new AWS.DynamoDB.DocumentClient();
 const mockS3 = new AWS.S3();
 
+// API Gateway passes the claims of a valid token on from the Cognito authorizer
+const authorizedContext = { authorizer: { claims: { sub: 'user-1' } } };
+
 // Mock environment variables
 process.env.PKB_TABLE = 'test-pkb-table';
 process.env.CONTENT_TABLE = 'test-content-table';
 process.env.FILE_BUCKET = 'test-file-bucket';
 
+// user-1 owns every PKB a request names, and every content item in them is
+// an uploaded image
+const storedItem = ({ TableName, Key }) => {
+  if (TableName === process.env.PKB_TABLE && Key.userId === 'user-1') {
+    return { Item: { userId: 'user-1', pkbId: Key.pkbId, name: 'Test PKB', description: '' } };
+  }
+  if (TableName === process.env.CONTENT_TABLE) {
+    return {
+      Item: {
+        pkbId: Key.pkbId,
+        contentId: Key.contentId,
+        fileName: 'image.jpg',
+        fileType: 'image/jpeg',
+        s3Key: `pkbs/${Key.pkbId}/${Key.contentId}`,
+        status: 'uploaded',
+        size: 1024,
+      },
+    };
+  }
+  return {};
+};
+
+beforeEach(() => {
+  mockDynamoDB.get.mockImplementation((params) => ({
+    promise: () => Promise.resolve(storedItem(params))
+  }));
+  mockDynamoDB.query.mockReturnValue({
+    promise: () => Promise.resolve({ Items: [] })
+  });
+});
+
 describe('Auth Lambda Function', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -108,6 +142,7 @@ describe('PKB Lambda Function', () => {
       headers: {
         Authorization: 'Bearer valid-jwt-token'
       },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         name: 'Test PKB',
         description: 'A test project knowledge base'
@@ -134,7 +169,8 @@ describe('PKB Lambda Function', () => {
       path: '/pkb',
       headers: {
         Authorization: 'Bearer valid-jwt-token'
-      }
+      },
+      requestContext: authorizedContext
     };
 
     // Mock DynamoDB query
@@ -174,6 +210,7 @@ describe('PKB Lambda Function', () => {
       headers: {
         Authorization: 'Bearer valid-jwt-token'
       },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         name: 'Updated PKB',
         description: 'Updated description'
@@ -182,7 +219,9 @@ describe('PKB Lambda Function', () => {
 
     // Mock DynamoDB update
     mockDynamoDB.update.mockReturnValue({
-      promise: () => Promise.resolve({})
+      promise: () => Promise.resolve({
+        Attributes: { userId: 'user-1', pkbId: 'pkb-1', name: 'Updated PKB', description: 'Updated description' }
+      })
     });
 
     const result = await handler(event);
@@ -199,7 +238,8 @@ describe('PKB Lambda Function', () => {
       path: '/pkb/pkb-1',
       headers: {
         Authorization: 'Bearer valid-jwt-token'
-      }
+      },
+      requestContext: authorizedContext
     };
 
     // Mock DynamoDB delete
@@ -245,6 +285,7 @@ describe('Content Lambda Function', () => {
       headers: {
         Authorization: 'Bearer valid-jwt-token'
       },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         fileName: 'test-file.jpg',
         fileType: 'image/jpeg',
@@ -254,6 +295,8 @@ describe('Content Lambda Function', () => {
 
     // Mock S3 getSignedUrl
     mockS3.getSignedUrl.mockReturnValue('https://s3.amazonaws.com/presigned-url');
+    mockS3.createPresignedPost.mockImplementation((params, callback) =>
+      callback(null, { url: 'https://s3.amazonaws.com/presigned-url', fields: params.Fields }));
 
     const result = await handler(event);
     
@@ -271,7 +314,8 @@ describe('Content Lambda Function', () => {
       path: '/content/pkb-1',
       headers: {
         Authorization: 'Bearer valid-jwt-token'
-      }
+      },
+      requestContext: authorizedContext
     };
 
     // Mock DynamoDB query
@@ -302,10 +346,11 @@ describe('Content Lambda Function', () => {
     
     const event = {
       httpMethod: 'DELETE',
-      path: '/content/content-1',
+      path: '/content/pkb-1/content-1',
       headers: {
         Authorization: 'Bearer valid-jwt-token'
-      }
+      },
+      requestContext: authorizedContext
     };
 
     // Mock S3 deleteObject
@@ -339,6 +384,7 @@ describe('AI Lambda Function', () => {
       headers: {
         Authorization: 'Bearer valid-jwt-token'
       },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         query: 'What is React?',
         pkbId: 'pkb-1',
@@ -373,14 +419,19 @@ describe('AI Lambda Function', () => {
       headers: {
         Authorization: 'Bearer valid-jwt-token'
       },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         query: 'Describe this image',
         pkbId: 'pkb-1',
         context: 'image',
-        imageUrl: 'https://s3.amazonaws.com/bucket/image.jpg'
+        imageUrl: 'https://s3.amazonaws.com/test-file-bucket/pkbs/pkb-1/image-1'
       })
     };
 
+    mockS3.getObject.mockReturnValue({
+      promise: () => Promise.resolve({ Body: Buffer.from('image bytes') })
+    });
+
     // Mock Bedrock invokeModel with image
     const mockBedrock = new AWS.BedrockRuntime();
     mockBedrock.invokeModel.mockReturnValue({
@@ -408,6 +459,7 @@ describe('AI Lambda Function', () => {
       headers: {
         Authorization: 'Bearer valid-jwt-token'
       },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         query: 'Test query',
         pkbId: 'pkb-1'
@@ -437,6 +489,7 @@ describe('Lambda Integration Tests', () => {
       httpMethod: 'POST',
       path: '/pkb',
       headers: { Authorization: 'Bearer valid-jwt-token' },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         name: 'Integration Test PKB',
         description: 'Testing complete flow'
@@ -459,6 +512,7 @@ describe('Lambda Integration Tests', () => {
       httpMethod: 'POST',
       path: '/content/upload-url',
       headers: { Authorization: 'Bearer valid-jwt-token' },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         fileName: 'test.txt',
         fileType: 'text/plain',
@@ -467,6 +521,8 @@ describe('Lambda Integration Tests', () => {
     };
 
     mockS3.getSignedUrl.mockReturnValue('https://s3.amazonaws.com/presigned-url');
+    mockS3.createPresignedPost.mockImplementation((params, callback) =>
+      callback(null, { url: 'https://s3.amazonaws.com/presigned-url', fields: params.Fields }));
 
     const uploadResult = await contentHandler(uploadEvent);
     expect(uploadResult.statusCode).toBe(200);
@@ -482,6 +538,7 @@ describe('Lambda Performance Tests', () => {
       httpMethod: 'POST',
       path: '/pkb',
       headers: { Authorization: 'Bearer valid-jwt-token' },
+      requestContext: authorizedContext,
       body: JSON.stringify({
         name: 'Performance Test PKB',
         description: 'Testing response time'
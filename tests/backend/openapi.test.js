@@ -0,0 +1,125 @@
+// API contract tests - the spec, the shared router and the generated client
+const fs = require('fs');
+const path = require('path');
+const { API_SPEC, listOperations } = require('../../backend/src/shared/openapi');
+const { CLIENT_PATH, renderClient } = require('../../backend/src/shared/openapi-client');
+const { createRouter } = require('../../backend/src/shared/router');
+const { createHandler: createAuthHandler } = require('../../backend/src/auth/index');
+const { InMemoryIdentityProvider } = require('../../backend/src/auth/identity');
+
+const SERVICES = ['auth', 'pkb', 'content', 'conversations', 'ai', 'search', 'suggestions', 'usage'];
+
+const withParameters = (template) => template.replace(/\{(\w+)\}/g, (_, name) => `${name}-1`);
+
+const authorizedEvent = (overrides) => ({
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+  ...overrides,
+});
+
+const parse = (result) => JSON.parse(result.body);
+
+describe('API spec', () => {
+  test('gives every operation a unique id and a service Lambda', () => {
+    const operations = listOperations();
+    const ids = operations.map(({ operation }) => operation.operationId);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    operations.forEach(({ path: template, operation }) => {
+      expect(SERVICES).toContain(operation.tags[0]);
+      expect(template.split('/')[1]).toBe(operation.tags[0]);
+    });
+  });
+
+  test('serves every operation from exactly one Lambda router', async () => {
+    const handlers = SERVICES.map((service) => (service === 'auth'
+      ? createAuthHandler({ identity: new InMemoryIdentityProvider() })
+      : require(`../../backend/src/${service}/index`).handler));
+
+    for (const { path: template, method } of listOperations()) {
+      // Without a caller or a body, no handler runs: the router answers 401 or 400 once it has matched the route.
+      const event = { httpMethod: method.toUpperCase(), path: withParameters(template), headers: {} };
+      const results = await Promise.all(handlers.map((handler) => handler(event)));
+      const served = results.filter((result) => ![404, 405].includes(result.statusCode));
+      expect({ route: `${method} ${template}`, served: served.length }).toEqual({ route: `${method} ${template}`, served: 1 });
+    }
+  });
+
+  test('keeps the generated frontend client in step with the spec', () => {
+    const file = path.join(__dirname, '../..', CLIENT_PATH);
+    const client = renderClient(API_SPEC);
+    if (process.env.UPDATE_API_CLIENT) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, client);
+    }
+    expect(fs.readFileSync(file, 'utf8')).toBe(client);
+  });
+});
+
+describe('Router', () => {
+  let calls;
+  let handler;
+
+  beforeEach(() => {
+    calls = [];
+    const record = (operationId) => async (request) => {
+      calls.push({ operationId, params: request.params, body: request.body, userId: request.userId });
+      return { statusCode: 200, body: '{}' };
+    };
+    handler = createRouter({
+      listPkbs: record('listPkbs'),
+      getPkb: record('getPkb'),
+      createPkb: record('createPkb'),
+      listMyInvitations: record('listMyInvitations'),
+      inviteMember: record('inviteMember'),
+    });
+  });
+
+  test('matches fixed segments before path parameters', async () => {
+    await handler(authorizedEvent({ httpMethod: 'GET', path: '/pkb/invitations' }));
+    await handler(authorizedEvent({ httpMethod: 'GET', path: '/pkb/pkb%201' }));
+
+    expect(calls).toEqual([
+      { operationId: 'listMyInvitations', params: {}, body: {}, userId: 'user-1' },
+      { operationId: 'getPkb', params: { pkbId: 'pkb 1' }, body: {}, userId: 'user-1' },
+    ]);
+  });
+
+  test('answers unknown paths with 404 and other methods with 405', async () => {
+    const missing = await handler(authorizedEvent({ httpMethod: 'GET', path: '/pkb/pkb-1/unknown' }));
+    const method = await handler(authorizedEvent({ httpMethod: 'PATCH', path: '/pkb/pkb-1' }));
+    const unrouted = await handler(authorizedEvent({ httpMethod: 'DELETE', path: '/pkb/pkb-1' }));
+
+    expect(missing.statusCode).toBe(404);
+    expect(parse(missing)).toEqual({ error: 'Not found', code: 'not_found' });
+    expect(method.statusCode).toBe(405);
+    expect(parse(method)).toEqual({ error: 'Method PATCH not allowed', code: 'method_not_allowed' });
+    expect(unrouted.statusCode).toBe(405);
+    expect(calls).toEqual([]);
+  });
+
+  test('rejects callers without a token and bodies that do not match the schema', async () => {
+    const anonymous = await handler({ httpMethod: 'GET', path: '/pkb', headers: {} });
+    const missingName = await handler(authorizedEvent({ httpMethod: 'POST', path: '/pkb', body: '{}' }));
+    const badRole = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb/pkb-1/members',
+      body: JSON.stringify({ email: 'a@example.com', role: 'owner' }),
+    }));
+    const badJson = await handler(authorizedEvent({ httpMethod: 'POST', path: '/pkb', body: '{' }));
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(parse(anonymous)).toEqual({ error: 'Unauthorized', code: 'unauthorized' });
+    expect(missingName.statusCode).toBe(400);
+    expect(parse(missingName)).toEqual({ error: 'name is required', code: 'bad_request', field: 'name' });
+    expect(parse(badRole)).toEqual({ error: 'role must be one of: editor, viewer', code: 'bad_request', field: 'role' });
+    expect(badJson.statusCode).toBe(400);
+    expect(calls).toEqual([]);
+  });
+
+  test('refuses operations that are not in the spec or span resources', () => {
+    expect(() => createRouter({ listWidgets: async () => ({}) })).toThrow('listWidgets is not an operation of the API spec');
+    expect(() => createRouter({ listPkbs: async () => ({}), listContent: async () => ({}) }))
+      .toThrow('A router serves one top-level resource, not pkb, content');
+  });
+});
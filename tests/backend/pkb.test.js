@@ -0,0 +1,457 @@
+// PKB Lambda Tests - handler and repository against the in-memory store
+const { createHandler } = require('../../backend/src/pkb/index');
+const { InMemoryPkbRepository } = require('../../backend/src/pkb/repository');
+const { InMemoryMembershipRepository } = require('../../backend/src/pkb/members');
+const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+
+const authorizedEvent = (overrides) => ({
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+  ...overrides,
+});
+
+describe('PKB handler with in-memory repository', () => {
+  let repository;
+  let contents;
+  let handler;
+
+  let storage;
+
+  beforeEach(() => {
+    repository = new InMemoryPkbRepository();
+    contents = new InMemoryContentRepository();
+    storage = { deleteAllVersions: jest.fn().mockResolvedValue(undefined) };
+    handler = createHandler({ pkbs: repository, members: new InMemoryMembershipRepository(), contents, storage });
+  });
+
+  test('creates, lists, updates and deletes a PKB', async () => {
+    const createResult = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ name: 'Test PKB', description: 'A test PKB' }),
+    }));
+    expect(createResult.statusCode).toBe(201);
+    const { pkbId } = JSON.parse(createResult.body);
+
+    const listResult = await handler(authorizedEvent({ httpMethod: 'GET', path: '/pkb' }));
+    expect(JSON.parse(listResult.body).pkbs).toHaveLength(1);
+
+    const updateResult = await handler(authorizedEvent({
+      httpMethod: 'PUT',
+      path: `/pkb/${pkbId}`,
+      body: JSON.stringify({ name: 'Renamed PKB' }),
+    }));
+    expect(updateResult.statusCode).toBe(200);
+    expect(JSON.parse(updateResult.body).pkb).toHaveProperty('name', 'Renamed PKB');
+
+    const deleteResult = await handler(authorizedEvent({ httpMethod: 'DELETE', path: `/pkb/${pkbId}` }));
+    expect(deleteResult.statusCode).toBe(200);
+    expect(await repository.list('user-1')).toHaveLength(0);
+  });
+
+  test('rejects requests without authorizer claims', async () => {
+    const result = await handler({ httpMethod: 'GET', path: '/pkb', headers: {} });
+
+    expect(result.statusCode).toBe(401);
+    expect(JSON.parse(result.body)).toHaveProperty('error', 'Unauthorized');
+  });
+
+  test('requires a name', async () => {
+    const result = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ description: 'No name' }),
+    }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  test('returns 404 for PKBs owned by another user', async () => {
+    await repository.create({
+      userId: 'user-2',
+      pkbId: 'pkb-2',
+      name: 'Someone else',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+
+    const result = await handler(authorizedEvent({ httpMethod: 'DELETE', path: '/pkb/pkb-2' }));
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  test('lists PKBs with content counts by ingestion status', async () => {
+    const created = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ name: 'Counted' }),
+    }));
+    const { pkbId } = JSON.parse(created.body);
+    const item = (contentId, status, ingestionStatus, updatedAt) => contents.create({
+      pkbId,
+      contentId,
+      fileName: `${contentId}.txt`,
+      fileType: 'txt',
+      s3Key: `${pkbId}/${contentId}`,
+      status,
+      ingestionStatus,
+      uploadedBy: 'user-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt,
+    });
+    await item('ready', 'uploaded', 'ready', '2024-01-02T00:00:00Z');
+    await item('queued', 'uploaded', 'pending', '2024-01-03T00:00:00Z');
+    await item('broken', 'uploaded', 'failed', '2024-01-01T00:00:00Z');
+    await item('abandoned', 'uploading', 'pending', '2024-01-04T00:00:00Z');
+
+    const result = await handler(authorizedEvent({ httpMethod: 'GET', path: '/pkb' }));
+
+    expect(JSON.parse(result.body).pkbs[0].contentStats).toEqual({
+      total: 3,
+      ready: 1,
+      processing: 1,
+      failed: 1,
+      lastUpdatedAt: '2024-01-03T00:00:00Z',
+    });
+  });
+
+  test('defines custom metadata fields and rejects invalid ones', async () => {
+    const createResult = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ name: 'With metadata' }),
+    }));
+    const { pkbId } = JSON.parse(createResult.body);
+    const put = (metadataFields) => handler(authorizedEvent({
+      httpMethod: 'PUT',
+      path: `/pkb/${pkbId}`,
+      body: JSON.stringify({ metadataFields }),
+    }));
+
+    const updated = await put([
+      { key: 'status', label: 'Status', type: 'select', options: ['draft', 'final'] },
+      { key: 'due', label: 'Due date', type: 'date' },
+    ]);
+    expect(updated.statusCode).toBe(200);
+    expect(JSON.parse(updated.body).pkb.metadataFields.map((field) => field.key)).toEqual(['status', 'due']);
+
+    expect((await put([{ key: 'Status!', label: 'Status', type: 'text' }])).statusCode).toBe(400);
+    expect((await put([{ key: 'status', label: 'Status', type: 'select' }])).statusCode).toBe(400);
+  });
+
+  test('chooses the PKB chat model from the registry', async () => {
+    const createResult = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ name: 'With a model' }),
+    }));
+    const { pkbId } = JSON.parse(createResult.body);
+    const put = (chatModelId) => handler(authorizedEvent({
+      httpMethod: 'PUT',
+      path: `/pkb/${pkbId}`,
+      body: JSON.stringify({ chatModelId }),
+    }));
+
+    const chosen = await put('anthropic.claude-3-5-sonnet-20240620-v1:0');
+    expect(JSON.parse(chosen.body).pkb.chatModelId).toBe('anthropic.claude-3-5-sonnet-20240620-v1:0');
+    expect((await put('amazon.titan-embed-text-v2:0')).statusCode).toBe(400);
+    expect((await put('gpt-4')).statusCode).toBe(400);
+
+    const reset = await put(null);
+    expect(JSON.parse(reset.body).pkb).not.toHaveProperty('chatModelId');
+  });
+
+  test('cascades deletes to the PKB content rows', async () => {
+    await repository.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'With content',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+    repository.content.put({ pkbId: 'pkb-1', contentId: 'content-1' });
+    repository.content.put({ pkbId: 'pkb-1', contentId: 'content-2' });
+    repository.content.put({ pkbId: 'pkb-other', contentId: 'content-3' });
+
+    await repository.delete('user-1', 'pkb-1');
+
+    expect(repository.content.query('pkb-1')).toHaveLength(0);
+    expect(repository.content.query('pkb-other')).toHaveLength(1);
+  });
+
+  test('cascades deletes to the stores it was given', async () => {
+    const { InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+    const { InMemoryConversationRepository } = require('../../backend/src/conversations/repository');
+    const { InMemoryFolderRepository } = require('../../backend/src/content/folders');
+    const { InMemoryLabelIndex } = require('../../backend/src/content/labels');
+    const { InMemorySuggestionRepository } = require('../../backend/src/suggestions/repository');
+
+    const chunks = new InMemoryChunkStore();
+    const conversations = new InMemoryConversationRepository();
+    const folders = new InMemoryFolderRepository();
+    const labels = new InMemoryLabelIndex();
+    const suggestions = new InMemorySuggestionRepository();
+    repository = new InMemoryPkbRepository({
+      chunks,
+      conversations: conversations.items,
+      folders: folders.folders,
+      labels: labels.records,
+      suggestions: suggestions.suggestions,
+    });
+
+    for (const pkbId of ['pkb-1', 'pkb-other']) {
+      await repository.create({ userId: 'user-1', pkbId, name: pkbId, description: '' });
+      repository.content.put({ pkbId, contentId: `${pkbId}-content` });
+      await chunks.replace(pkbId, `${pkbId}-content`, [
+        { pkbId, contentId: `${pkbId}-content`, index: 0, text: 'Chunk', start: 0, end: 5, embedding: [1] },
+      ]);
+      await labels.replace(pkbId, `${pkbId}-content`, ['draft']);
+      folders.folders.put({ pkbId, folderId: 'folder-1', name: 'Specs' });
+      suggestions.suggestions.put({ pkbId, suggestionId: 'suggestion-1' });
+      // former-member has since left the PKB, but their threads stay in it
+      for (const userId of ['user-1', 'former-member']) {
+        await conversations.create({
+          userId,
+          pkbId,
+          conversationId: 'conversation-1',
+          title: 'Thread',
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:00:00Z',
+          messageCount: 1,
+          inputTokens: 0,
+          outputTokens: 0,
+          summarizedThrough: 0,
+        });
+        await conversations.appendMessages(userId, pkbId, 'conversation-1', [
+          { messageId: 'message-1', index: 0, role: 'user', content: 'Hi', createdAt: '2024-01-01T00:00:00Z' },
+        ]);
+      }
+    }
+
+    await repository.delete('user-1', 'pkb-1');
+
+    expect(await chunks.list('pkb-1')).toEqual([]);
+    expect(await labels.find('pkb-1', 'draft')).toEqual([]);
+    expect(folders.folders.query('pkb-1')).toEqual([]);
+    expect(suggestions.suggestions.query('pkb-1')).toEqual([]);
+    expect(conversations.items.query('user-1#pkb-1')).toEqual([]);
+    expect(conversations.items.query('former-member#pkb-1')).toEqual([]);
+
+    expect(await chunks.list('pkb-other')).toHaveLength(1);
+    expect(await labels.find('pkb-other', 'draft')).toEqual(['pkb-other-content']);
+    expect(folders.folders.query('pkb-other')).toHaveLength(1);
+    expect(suggestions.suggestions.query('pkb-other')).toHaveLength(1);
+    expect(conversations.items.query('former-member#pkb-other')).toHaveLength(2);
+  });
+
+  test('deletes the files of the PKB content and their transcripts', async () => {
+    const created = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ name: 'With files' }),
+    }));
+    const { pkbId } = JSON.parse(created.body);
+    await contents.create({ pkbId, contentId: 'file-1', s3Key: `pkbs/${pkbId}/file-1`, status: 'uploaded' });
+    await contents.create({
+      pkbId,
+      contentId: 'recording-1',
+      s3Key: `pkbs/${pkbId}/recording-1`,
+      status: 'uploaded',
+      transcriptionJob: 'projectkb-dev_recording-1',
+    });
+
+    const result = await handler(authorizedEvent({ httpMethod: 'DELETE', path: `/pkb/${pkbId}` }));
+
+    expect(result.statusCode).toBe(200);
+    expect(storage.deleteAllVersions.mock.calls.map(([key]) => key).sort()).toEqual([
+      `pkbs/${pkbId}/file-1`,
+      `pkbs/${pkbId}/recording-1`,
+      'transcripts/projectkb-dev_recording-1.json',
+    ]);
+  });
+
+  test('keeps the PKB when its files cannot be deleted', async () => {
+    const created = await handler(authorizedEvent({
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ name: 'With files' }),
+    }));
+    const { pkbId } = JSON.parse(created.body);
+    await contents.create({ pkbId, contentId: 'file-1', s3Key: `pkbs/${pkbId}/file-1`, status: 'uploaded' });
+    storage.deleteAllVersions.mockRejectedValue(new Error('Access Denied'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await handler(authorizedEvent({ httpMethod: 'DELETE', path: `/pkb/${pkbId}` }));
+    console.error.mockRestore();
+
+    expect(result.statusCode).toBe(500);
+    expect(await repository.get('user-1', pkbId)).toBeDefined();
+  });
+});
+
+describe('Shared PKBs', () => {
+  const { createHandler: createContentHandler } = require('../../backend/src/content/index');
+  const { InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+
+  const as = (sub, email, overrides) => ({
+    headers: { Authorization: 'Bearer valid-jwt-token' },
+    requestContext: { authorizer: { claims: { sub, email, email_verified: 'true' } } },
+    ...overrides,
+  });
+
+  let deps;
+  let handler;
+  let pkbId;
+
+  const invite = async (email, role) => handler(as('owner-1', 'owner@example.com', {
+    httpMethod: 'POST',
+    path: `/pkb/${pkbId}/members`,
+    body: JSON.stringify({ email, role }),
+  }));
+
+  const accept = async (sub, email) => handler(as(sub, email, {
+    httpMethod: 'POST',
+    path: `/pkb/invitations/${pkbId}`,
+  }));
+
+  beforeEach(async () => {
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      contents: new InMemoryContentRepository(),
+      storage: { deleteAllVersions: jest.fn().mockResolvedValue(undefined) },
+    };
+    handler = createHandler(deps);
+    const created = await handler(as('owner-1', 'owner@example.com', {
+      httpMethod: 'POST',
+      path: '/pkb',
+      body: JSON.stringify({ name: 'Team PKB' }),
+    }));
+    ({ pkbId } = JSON.parse(created.body));
+  });
+
+  test('invited users see the PKB with their role once they accept', async () => {
+    expect((await invite('Editor@Example.com', 'editor')).statusCode).toBe(201);
+
+    const pending = await handler(as('editor-1', 'editor@example.com', { httpMethod: 'GET', path: '/pkb/invitations' }));
+    expect(JSON.parse(pending.body).invitations).toEqual([
+      expect.objectContaining({ pkbId, role: 'editor', pkbName: 'Team PKB' }),
+    ]);
+
+    expect((await accept('editor-1', 'editor@example.com')).statusCode).toBe(200);
+
+    const list = await handler(as('editor-1', 'editor@example.com', { httpMethod: 'GET', path: '/pkb' }));
+    expect(JSON.parse(list.body).pkbs).toEqual([expect.objectContaining({ pkbId, role: 'editor' })]);
+
+    const members = await handler(as('editor-1', 'editor@example.com', { httpMethod: 'GET', path: `/pkb/${pkbId}/members` }));
+    expect(JSON.parse(members.body).members.map((member) => member.role).sort()).toEqual(['editor', 'owner']);
+  });
+
+  test('says whether the invitee was e-mailed', async () => {
+    const created = JSON.parse((await invite('viewer@example.com', 'viewer')).body);
+
+    const send = jest.fn().mockResolvedValue(undefined);
+    handler = createHandler({ ...deps, mailer: { send } });
+    const sent = JSON.parse((await invite('editor@example.com', 'editor')).body);
+
+    send.mockRejectedValueOnce(new Error('Email address is not verified'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failed = await invite('other@example.com', 'viewer');
+    console.error.mockRestore();
+
+    expect(created).toMatchObject({ emailed: false, message: expect.stringContaining('Invitation created') });
+    expect(sent).toMatchObject({ emailed: true, message: 'Invitation sent successfully' });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ pkbId, email: 'editor@example.com', pkbName: 'Team PKB' }));
+    expect(failed.statusCode).toBe(201);
+    expect(JSON.parse(failed.body)).toHaveProperty('emailed', false);
+    expect(await deps.members.getInvitation(pkbId, 'other@example.com')).toBeDefined();
+  });
+
+  test('invitations only match the verified address they were sent to', async () => {
+    await invite('viewer@example.com', 'viewer');
+
+    const result = await accept('someone-else', 'other@example.com');
+    const unverified = await handler({
+      httpMethod: 'POST',
+      path: `/pkb/invitations/${pkbId}`,
+      requestContext: { authorizer: { claims: { sub: 'viewer-1', email: 'viewer@example.com', email_verified: 'false' } } },
+    });
+
+    expect(result.statusCode).toBe(404);
+    expect(unverified.statusCode).toBe(403);
+  });
+
+  test('viewers can read but not change the PKB or its content', async () => {
+    await invite('viewer@example.com', 'viewer');
+    await accept('viewer-1', 'viewer@example.com');
+    const contentHandler = createContentHandler({
+      ...deps,
+      content: new InMemoryContentRepository(),
+      storage: { createUpload: jest.fn(), deleteAllVersions: jest.fn() },
+      chunks: new InMemoryChunkStore(),
+    });
+
+    const get = await handler(as('viewer-1', 'viewer@example.com', { httpMethod: 'GET', path: `/pkb/${pkbId}` }));
+    const rename = await handler(as('viewer-1', 'viewer@example.com', {
+      httpMethod: 'PUT',
+      path: `/pkb/${pkbId}`,
+      body: JSON.stringify({ name: 'Mine now' }),
+    }));
+    const listContent = await contentHandler(as('viewer-1', 'viewer@example.com', { httpMethod: 'GET', path: `/content/${pkbId}` }));
+    const upload = await contentHandler(as('viewer-1', 'viewer@example.com', {
+      httpMethod: 'POST',
+      path: '/content/upload-url',
+      body: JSON.stringify({ pkbId, fileName: 'notes.md', fileType: 'text/markdown' }),
+    }));
+
+    expect(JSON.parse(get.body)).toHaveProperty('role', 'viewer');
+    expect(rename.statusCode).toBe(403);
+    expect(listContent.statusCode).toBe(200);
+    expect(upload.statusCode).toBe(403);
+  });
+
+  test('only the owner manages members and deletes the PKB', async () => {
+    await invite('editor@example.com', 'editor');
+    await accept('editor-1', 'editor@example.com');
+
+    const promote = await handler(as('editor-1', 'editor@example.com', {
+      httpMethod: 'PUT',
+      path: `/pkb/${pkbId}/members/editor-1`,
+      body: JSON.stringify({ role: 'owner' }),
+    }));
+    const changeRole = await handler(as('editor-1', 'editor@example.com', {
+      httpMethod: 'PUT',
+      path: `/pkb/${pkbId}/members/editor-1`,
+      body: JSON.stringify({ role: 'viewer' }),
+    }));
+    const removeOwner = await handler(as('owner-1', 'owner@example.com', {
+      httpMethod: 'DELETE',
+      path: `/pkb/${pkbId}/members/owner-1`,
+    }));
+    const deleteAsEditor = await handler(as('editor-1', 'editor@example.com', { httpMethod: 'DELETE', path: `/pkb/${pkbId}` }));
+    const deleteAsOwner = await handler(as('owner-1', 'owner@example.com', { httpMethod: 'DELETE', path: `/pkb/${pkbId}` }));
+
+    expect(promote.statusCode).toBe(400);
+    expect(changeRole.statusCode).toBe(403);
+    expect(removeOwner.statusCode).toBe(400);
+    expect(deleteAsEditor.statusCode).toBe(403);
+    expect(deleteAsOwner.statusCode).toBe(200);
+    expect(await deps.members.listMemberships('editor-1')).toEqual([]);
+  });
+
+  test('members can leave and lose access', async () => {
+    await invite('viewer@example.com', 'viewer');
+    await accept('viewer-1', 'viewer@example.com');
+
+    const leave = await handler(as('viewer-1', 'viewer@example.com', {
+      httpMethod: 'DELETE',
+      path: `/pkb/${pkbId}/members/viewer-1`,
+    }));
+    const get = await handler(as('viewer-1', 'viewer@example.com', { httpMethod: 'GET', path: `/pkb/${pkbId}` }));
+
+    expect(leave.statusCode).toBe(200);
+    expect(get.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,171 @@
+// Search Lambda Tests - hybrid BM25 + vector search over the chunk index
+const { createHandler } = require('../../backend/src/search/index');
+const { buildSnippet } = require('../../backend/src/search/highlight');
+const { InMemoryPkbRepository } = require('../../backend/src/pkb/repository');
+const { InMemoryMembershipRepository } = require('../../backend/src/pkb/members');
+const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+const { InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+const { HashingEmbedder } = require('../../backend/src/ingestion/embedder');
+const { InMemoryFolderRepository } = require('../../backend/src/content/folders');
+const { InMemoryLabelIndex } = require('../../backend/src/content/labels');
+const { InMemoryUsageRepository, toDay } = require('../../backend/src/usage/repository');
+
+const documents = [
+  { contentId: 'content-1', fileName: 'deploy.md', fileType: 'text/markdown', uploadedBy: 'user-1', uploadedAt: '2024-01-05T00:00:00.000Z', text: 'Deployments run through the CDK pipeline on every release tag.' },
+  { contentId: 'content-2', fileName: 'design.pdf', fileType: 'application/pdf', uploadedBy: 'user-2', uploadedAt: '2024-02-10T00:00:00.000Z', text: 'The frontend uses Chakra UI components and React Router.' },
+  { contentId: 'content-3', fileName: 'runbook.txt', fileType: 'text/plain', uploadedBy: 'user-1', uploadedAt: '2024-03-01T00:00:00.000Z', text: 'Rollback a failed deployment by redeploying the previous CDK release.' },
+];
+
+const searchEvent = (params) => ({
+  httpMethod: 'GET',
+  path: '/search',
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub: 'user-1' } } },
+  queryStringParameters: { pkbId: 'pkb-1', ...params },
+});
+
+describe('Search handler', () => {
+  let deps;
+  let handler;
+
+  beforeEach(async () => {
+    const embedder = new HashingEmbedder();
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      content: new InMemoryContentRepository(),
+      chunks: new InMemoryChunkStore(),
+      folders: new InMemoryFolderRepository(),
+      labels: new InMemoryLabelIndex(),
+      embedder,
+    };
+    await deps.pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+    for (const doc of documents) {
+      await deps.content.create({
+        pkbId: 'pkb-1',
+        contentId: doc.contentId,
+        fileName: doc.fileName,
+        fileType: doc.fileType,
+        s3Key: `pkbs/pkb-1/${doc.contentId}`,
+        status: 'uploaded',
+        ingestionStatus: 'ready',
+        uploadedBy: doc.uploadedBy,
+        uploadedAt: doc.uploadedAt,
+        createdAt: doc.uploadedAt,
+        updatedAt: doc.uploadedAt,
+      });
+      const [embedding] = await embedder.embed([doc.text]);
+      await deps.chunks.replace('pkb-1', doc.contentId, [{
+        pkbId: 'pkb-1',
+        contentId: doc.contentId,
+        index: 0,
+        text: doc.text,
+        start: 0,
+        end: doc.text.length,
+        embedding,
+        fileName: doc.fileName,
+        fileType: doc.fileType,
+      }]);
+    }
+    handler = createHandler(deps);
+  });
+
+  test('ranks keyword matches first and highlights them', async () => {
+    const result = await handler(searchEvent({ q: 'CDK release' }));
+
+    expect(result.statusCode).toBe(200);
+    const { hits, total } = JSON.parse(result.body);
+    expect(total).toBe(2);
+    expect(hits.map((hit) => hit.contentId)).toEqual(expect.arrayContaining(['content-1', 'content-3']));
+    const [first] = hits;
+    const highlighted = first.snippet.highlights.map(({ start, end }) => first.snippet.text.slice(start, end));
+    expect(highlighted).toEqual(expect.arrayContaining(['CDK']));
+  });
+
+  test('applies type, uploader and date filters', async () => {
+    const byType = JSON.parse((await handler(searchEvent({ q: 'CDK release', type: 'text/plain' }))).body);
+    expect(byType.hits.map((hit) => hit.contentId)).toEqual(['content-3']);
+
+    const byUploader = JSON.parse((await handler(searchEvent({ q: 'frontend components', uploadedBy: 'user-1' }))).body);
+    expect(byUploader.hits).toHaveLength(0);
+
+    const byDate = JSON.parse((await handler(searchEvent({ q: 'CDK release', from: '2024-02-01', to: '2024-12-31' }))).body);
+    expect(byDate.hits.map((hit) => hit.contentId)).toEqual(['content-3']);
+  });
+
+  test('searches within a folder or tag', async () => {
+    await deps.folders.put({ pkbId: 'pkb-1', folderId: 'ops', name: 'Ops', createdBy: 'user-1', createdAt: '', updatedAt: '' });
+    await deps.folders.put({ pkbId: 'pkb-1', folderId: 'runbooks', name: 'Runbooks', parentId: 'ops', createdBy: 'user-1', createdAt: '', updatedAt: '' });
+    await deps.content.update('pkb-1', 'content-3', { folderId: 'runbooks' });
+    await deps.labels.replace('pkb-1', 'content-1', ['tag#release']);
+
+    const inFolder = JSON.parse((await handler(searchEvent({ q: 'CDK release', folderId: 'ops' }))).body);
+    expect(inFolder.hits.map((hit) => hit.contentId)).toEqual(['content-3']);
+
+    const tagged = JSON.parse((await handler(searchEvent({ q: 'CDK release', tag: 'Release' }))).body);
+    expect(tagged.hits.map((hit) => hit.contentId)).toEqual(['content-1']);
+
+    const unknown = await handler(searchEvent({ q: 'CDK', folderId: 'missing' }));
+    expect(unknown.statusCode).toBe(404);
+  });
+
+  test('reads only the chunks of content within the scope and filters', async () => {
+    const pages = jest.spyOn(deps.chunks, 'pages');
+    const list = jest.spyOn(deps.chunks, 'list');
+
+    await handler(searchEvent({ q: 'CDK release', type: 'text/plain' }));
+
+    expect(list).not.toHaveBeenCalled();
+    expect(Array.from(pages.mock.calls[0][1])).toEqual(['content-3']);
+  });
+
+  test('pages through results', async () => {
+    const page = JSON.parse((await handler(searchEvent({ q: 'CDK release', pageSize: '1', page: '2' }))).body);
+
+    expect(page).toMatchObject({ total: 2, page: 2, pageSize: 1 });
+    expect(page.hits).toHaveLength(1);
+  });
+
+  test('records the tokens of the query embedding against the caller and PKB', async () => {
+    deps.usage = new InMemoryUsageRepository();
+    handler = createHandler(deps);
+
+    await handler(searchEvent({ q: 'CDK release' }));
+
+    const today = toDay(new Date());
+    expect(await deps.usage.listForUser('user-1', { from: today, to: today })).toEqual([{
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      day: today,
+      modelId: 'local-hashing',
+      inputTokens: 2,
+      outputTokens: 0,
+      costUsd: 0,
+      requests: 1,
+    }]);
+  });
+
+  test('requires a query', async () => {
+    const result = await handler(searchEvent({}));
+
+    expect(result.statusCode).toBe(400);
+  });
+});
+
+describe('buildSnippet', () => {
+  test('centres the snippet on the matches', () => {
+    const text = `${'filler '.repeat(100)}the retention policy keeps backups for thirty days`;
+
+    const snippet = buildSnippet(text, 'retention backups', 80);
+
+    expect(snippet.text).toContain('retention policy keeps backups');
+    expect(snippet.highlights).toHaveLength(2);
+  });
+});
@@ -0,0 +1,232 @@
+// Suggestions Lambda Tests - PKB analysis and accepting or dismissing suggestions
+const { createHandler, createScheduledHandler } = require('../../backend/src/suggestions/index');
+const { analyzePkb, parseConflict, parseCoverageGaps } = require('../../backend/src/suggestions/analysis');
+const { InMemorySuggestionRepository } = require('../../backend/src/suggestions/repository');
+const { parseSummary } = require('../../backend/src/ingestion/summarizer');
+const { InMemoryPkbRepository } = require('../../backend/src/pkb/repository');
+const { InMemoryMembershipRepository } = require('../../backend/src/pkb/members');
+const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+const { InMemoryLabelIndex } = require('../../backend/src/content/labels');
+const { InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+const { HashingEmbedder } = require('../../backend/src/ingestion/embedder');
+const { FakeModelClient } = require('../../backend/src/ai/model');
+
+const NOW = new Date('2024-12-01T00:00:00Z');
+
+const documents = [
+  { contentId: 'content-1', fileName: 'deploy.md', checksum: 'aaa', updatedAt: '2024-11-01T00:00:00.000Z', text: 'Deployments run through the CDK pipeline on every release tag.' },
+  { contentId: 'content-2', fileName: 'deploy-copy.md', checksum: 'aaa', updatedAt: '2024-11-02T00:00:00.000Z', text: 'Deployments run through the CDK pipeline on every release tag.' },
+  { contentId: 'content-3', fileName: 'onboarding.txt', checksum: 'bbb', updatedAt: '2023-01-10T00:00:00.000Z', text: 'New starters get a laptop and an account in the first week.' },
+];
+
+const event = (httpMethod, path, sub = 'user-1') => ({
+  httpMethod,
+  path,
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub } } },
+});
+
+const modelReply = (text) => ({ text, modelId: 'fake-model', inputTokens: 1, outputTokens: 1 });
+
+describe('Suggestions', () => {
+  let deps;
+  let handler;
+
+  beforeEach(async () => {
+    const embedder = new HashingEmbedder();
+    const model = new FakeModelClient();
+    model.generate = jest.fn().mockResolvedValue(modelReply('NONE'));
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      content: new InMemoryContentRepository(),
+      chunks: new InMemoryChunkStore(),
+      suggestions: new InMemorySuggestionRepository(),
+      labels: new InMemoryLabelIndex(),
+      model,
+    };
+    await deps.pkbs.create({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      name: 'Test PKB',
+      description: '',
+      createdAt: '2023-01-01T00:00:00Z',
+      updatedAt: '2023-01-01T00:00:00Z',
+    });
+    for (const doc of documents) {
+      await deps.content.create({
+        pkbId: 'pkb-1',
+        contentId: doc.contentId,
+        fileName: doc.fileName,
+        fileType: 'text/plain',
+        s3Key: `pkbs/pkb-1/${doc.contentId}`,
+        status: 'uploaded',
+        ingestionStatus: 'ready',
+        checksum: doc.checksum,
+        uploadedBy: 'user-1',
+        uploadedAt: doc.updatedAt,
+        createdAt: doc.updatedAt,
+        updatedAt: doc.updatedAt,
+      });
+      const [embedding] = await embedder.embed([doc.text]);
+      await deps.chunks.replace('pkb-1', doc.contentId, [{
+        pkbId: 'pkb-1',
+        contentId: doc.contentId,
+        index: 0,
+        text: doc.text,
+        start: 0,
+        end: doc.text.length,
+        embedding,
+        fileName: doc.fileName,
+        fileType: 'text/plain',
+      }]);
+    }
+    handler = createHandler(deps);
+  });
+
+  test('flags identical copies and content nobody has touched in months', async () => {
+    await analyzePkb(deps, 'pkb-1', NOW);
+
+    const suggestions = await deps.suggestions.list('pkb-1');
+    expect(suggestions.map((suggestion) => suggestion.type).sort()).toEqual(['duplicate', 'stale']);
+    expect(suggestions.find((suggestion) => suggestion.type === 'duplicate').contentIds.sort())
+      .toEqual(['content-1', 'content-2']);
+    expect(suggestions.find((suggestion) => suggestion.type === 'stale').contentIds).toEqual(['content-3']);
+  });
+
+  test('does not raise a dismissed suggestion again', async () => {
+    await analyzePkb(deps, 'pkb-1', NOW);
+    const duplicate = (await deps.suggestions.list('pkb-1')).find((suggestion) => suggestion.type === 'duplicate');
+
+    const result = await handler(event('POST', `/suggestions/pkb-1/${encodeURIComponent(duplicate.suggestionId)}/dismiss`));
+    expect(result.statusCode).toBe(200);
+    await analyzePkb(deps, 'pkb-1', NOW);
+
+    expect(await deps.suggestions.get('pkb-1', duplicate.suggestionId)).toMatchObject({
+      status: 'dismissed',
+      resolvedBy: 'user-1',
+    });
+  });
+
+  test('only asks the model again once the content has changed', async () => {
+    await analyzePkb(deps, 'pkb-1', NOW);
+    const calls = deps.model.generate.mock.calls.length;
+    expect(calls).toBeGreaterThan(0);
+
+    await analyzePkb(deps, 'pkb-1', NOW);
+    expect(deps.model.generate).toHaveBeenCalledTimes(calls);
+
+    await deps.content.update('pkb-1', 'content-3', { fileName: 'onboarding-v2.txt' });
+    await analyzePkb(deps, 'pkb-1', NOW);
+    expect(deps.model.generate.mock.calls.length).toBeGreaterThan(calls);
+  });
+
+  test('records coverage gaps suggested by the model', async () => {
+    deps.model.generate.mockResolvedValue(modelReply('TOPIC: Rollbacks | REASON: Deploys are described but not how to undo them.'));
+
+    await analyzePkb(deps, 'pkb-1', NOW);
+
+    expect(await deps.suggestions.get('pkb-1', 'coverage#rollbacks')).toMatchObject({
+      type: 'coverage',
+      title: 'Thin coverage: Rollbacks',
+      contentIds: [],
+    });
+  });
+
+  test('accepting a summary applies it and its tags to the item', async () => {
+    await deps.content.update('pkb-1', 'content-1', { tags: ['ops'] });
+    await deps.suggestions.put({
+      pkbId: 'pkb-1',
+      suggestionId: 'summary#content-1',
+      type: 'summary',
+      status: 'open',
+      title: 'Summary and tags for deploy.md',
+      detail: 'How deployments work.',
+      contentIds: ['content-1'],
+      summary: 'How deployments work.',
+      tags: ['deploy', 'ops'],
+      createdAt: '2024-11-01T00:00:00Z',
+      updatedAt: '2024-11-01T00:00:00Z',
+    });
+
+    const result = await handler(event('POST', '/suggestions/pkb-1/summary%23content-1/accept'));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).suggestion).toMatchObject({ status: 'accepted', resolvedBy: 'user-1' });
+    expect(await deps.content.get('pkb-1', 'content-1')).toMatchObject({
+      summary: 'How deployments work.',
+      tags: ['ops', 'deploy'],
+    });
+    expect(await deps.labels.find('pkb-1', 'tag#deploy')).toEqual(['content-1']);
+
+    const again = await handler(event('POST', '/suggestions/pkb-1/summary%23content-1/dismiss'));
+    expect(again.statusCode).toBe(409);
+  });
+
+  test('accepting a stale suggestion marks the item reviewed', async () => {
+    await analyzePkb(deps, 'pkb-1', NOW);
+    const stale = (await deps.suggestions.list('pkb-1')).find((suggestion) => suggestion.type === 'stale');
+
+    await handler(event('POST', `/suggestions/pkb-1/${encodeURIComponent(stale.suggestionId)}/accept`));
+
+    expect((await deps.content.get('pkb-1', 'content-3')).reviewedAt).toBeDefined();
+  });
+
+  test('lists suggestions for members only, hiding those about deleted content', async () => {
+    await analyzePkb(deps, 'pkb-1', NOW);
+    await deps.content.delete('pkb-1', 'content-3');
+
+    const result = await handler(event('GET', '/suggestions/pkb-1'));
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).suggestions.map((suggestion) => suggestion.type)).toEqual(['duplicate']);
+
+    const outsider = await handler(event('GET', '/suggestions/pkb-1', 'user-2'));
+    expect(outsider.statusCode).toBe(404);
+  });
+
+  test('the scheduled run analyzes every PKB and carries on past failures', async () => {
+    await deps.pkbs.create({
+      userId: 'user-2',
+      pkbId: 'pkb-2',
+      name: 'Other PKB',
+      description: '',
+      createdAt: '2023-01-01T00:00:00Z',
+      updatedAt: '2023-01-01T00:00:00Z',
+    });
+    const list = deps.content.list.bind(deps.content);
+    jest.spyOn(deps.content, 'list').mockImplementation((pkbId) =>
+      (pkbId === 'pkb-2' ? Promise.reject(new Error('Throttled')) : list(pkbId)));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await createScheduledHandler(deps)();
+
+    expect(await deps.suggestions.getAnalysis('pkb-1')).toBeDefined();
+    expect(console.error).toHaveBeenCalledWith('Could not analyze PKB pkb-2', expect.any(Error));
+    console.error.mockRestore();
+  });
+});
+
+describe('model reply parsing', () => {
+  test('parseSummary splits the summary from unique lower-case tags', () => {
+    expect(parseSummary('SUMMARY: About deploys.\nTAGS: CDK, #Deploy, cdk')).toEqual({
+      summary: 'About deploys.',
+      tags: ['cdk', 'deploy'],
+    });
+    expect(parseSummary('Just a summary.')).toEqual({ summary: 'Just a summary.', tags: [] });
+  });
+
+  test('parseConflict only reports an explicit yes', () => {
+    expect(parseConflict('CONFLICT: no\nEXPLANATION: none')).toBeUndefined();
+    expect(parseConflict('CONFLICT: yes\nEXPLANATION: One says Friday, the other Monday.'))
+      .toBe('One says Friday, the other Monday.');
+  });
+
+  test('parseCoverageGaps reads one gap per line', () => {
+    expect(parseCoverageGaps('NONE')).toEqual([]);
+    expect(parseCoverageGaps('TOPIC: Backups | REASON: Never explained.\nTOPIC: On-call | REASON: Only named.'))
+      .toEqual([
+        { topic: 'Backups', reason: 'Never explained.' },
+        { topic: 'On-call', reason: 'Only named.' },
+      ]);
+  });
+});
@@ -0,0 +1,237 @@
+// Usage Tests - metering of model calls, quotas and the usage API
+const { createHandler: createAiHandler } = require('../../backend/src/ai/index');
+const { FakeModelClient } = require('../../backend/src/ai/model');
+const { InMemoryPassageSource } = require('../../backend/src/ai/retrieval');
+const { createHandler } = require('../../backend/src/usage/index');
+const { InMemoryUsageRepository, toDay } = require('../../backend/src/usage/repository');
+const { UsageTracker, estimateCost } = require('../../backend/src/usage/metering');
+const { currentPeriod } = require('../../backend/src/usage/quota');
+const { ingestContent, completeTranscription } = require('../../backend/src/ingestion/pipeline');
+const { InMemoryChunkStore } = require('../../backend/src/ingestion/chunk-store');
+const { HashingEmbedder } = require('../../backend/src/ingestion/embedder');
+const { FakeTranscriptionProvider } = require('../../backend/src/ingestion/transcription');
+const { InMemoryContentRepository } = require('../../backend/src/content/repository');
+const { InMemoryPkbRepository } = require('../../backend/src/pkb/repository');
+const { InMemoryMembershipRepository } = require('../../backend/src/pkb/members');
+
+const HAIKU = 'anthropic.claude-3-haiku-20240307-v1:0';
+const today = toDay(new Date());
+
+const passages = [{
+  contentId: 'content-react',
+  fileName: 'react.md',
+  text: 'React is a JavaScript library for building user interfaces.',
+  start: 0,
+  end: 59,
+}];
+
+const apiEvent = (userId, overrides) => ({
+  headers: { Authorization: 'Bearer valid-jwt-token' },
+  requestContext: { authorizer: { claims: { sub: userId } } },
+  ...overrides,
+});
+
+const queryEvent = (userId = 'user-1') => apiEvent(userId, {
+  httpMethod: 'POST',
+  path: '/ai/query',
+  body: JSON.stringify({ pkbId: 'pkb-1', query: 'What is React?' }),
+});
+
+const createPkb = (pkbs) => pkbs.create({
+  userId: 'user-1',
+  pkbId: 'pkb-1',
+  name: 'Test PKB',
+  description: '',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+describe('AI usage metering and quotas', () => {
+  let deps;
+  let handler;
+
+  beforeEach(async () => {
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      passages: new InMemoryPassageSource(passages),
+      embedder: new HashingEmbedder(),
+      model: new FakeModelClient(HAIKU),
+      usage: new InMemoryUsageRepository(),
+    };
+    handler = createAiHandler(deps);
+    await createPkb(deps.pkbs);
+  });
+
+  test('records the tokens and estimated cost of each answer per user, PKB, model and day', async () => {
+    const first = JSON.parse((await handler(queryEvent())).body);
+    const second = JSON.parse((await handler(queryEvent())).body);
+
+    const records = await deps.usage.listForUser('user-1', { from: today, to: today });
+    const record = records.find((item) => item.modelId === HAIKU);
+    const inputTokens = first.usage.inputTokens + second.usage.inputTokens;
+    const outputTokens = first.usage.outputTokens + second.usage.outputTokens;
+    expect(record).toEqual({
+      userId: 'user-1',
+      pkbId: 'pkb-1',
+      day: today,
+      modelId: HAIKU,
+      inputTokens,
+      outputTokens,
+      costUsd: expect.closeTo(estimateCost(HAIKU, inputTokens, outputTokens), 10),
+      requests: 2,
+    });
+    expect(record.costUsd).toBeGreaterThan(0);
+    expect(await deps.usage.listForPkb('pkb-1', { from: today, to: today })).toEqual(records);
+  });
+
+  test('records the embedding of each retrieval query', async () => {
+    await handler(queryEvent());
+
+    const records = await deps.usage.listForUser('user-1', { from: today, to: today });
+    expect(records).toContainEqual(expect.objectContaining({
+      modelId: deps.embedder.modelId,
+      inputTokens: expect.any(Number),
+      outputTokens: 0,
+      requests: 1,
+    }));
+  });
+
+  test('refuses questions with a 429 and the reset time once the quota is used up', async () => {
+    deps.quota = { period: 'month', maxTokens: 1 };
+    await handler(queryEvent());
+    const requests = deps.model.requests.length;
+
+    const result = await handler(queryEvent());
+
+    expect(result.statusCode).toBe(429);
+    const body = JSON.parse(result.body);
+    expect(body.error).toMatch(/monthly AI quota/);
+    expect(body.resetsAt).toBe(currentPeriod('month', new Date()).resetsAt.toISOString());
+    expect(deps.model.requests).toHaveLength(requests);
+  });
+
+  test('keeps quotas per user', async () => {
+    deps.quota = { period: 'day', maxCostUsd: 0.000001 };
+    await deps.members.putMember({ pkbId: 'pkb-1', userId: 'user-2', role: 'viewer', ownerId: 'user-1' });
+    await handler(queryEvent('user-1'));
+
+    expect((await handler(queryEvent('user-1'))).statusCode).toBe(429);
+    expect((await handler(queryEvent('user-2'))).statusCode).toBe(200);
+  });
+
+  test('starts a new period at midnight UTC and on the first of the month', () => {
+    const now = new Date('2024-02-29T15:30:00Z');
+
+    expect(currentPeriod('day', now)).toEqual({
+      range: { from: '2024-02-29', to: '2024-02-29' },
+      resetsAt: new Date('2024-03-01T00:00:00Z'),
+    });
+    expect(currentPeriod('month', now)).toEqual({
+      range: { from: '2024-02-01', to: '2024-02-29' },
+      resetsAt: new Date('2024-03-01T00:00:00Z'),
+    });
+  });
+});
+
+describe('ingestion usage', () => {
+  let deps;
+  let usage;
+
+  beforeEach(async () => {
+    usage = new InMemoryUsageRepository();
+    const tracker = new UsageTracker(usage);
+    deps = {
+      content: new InMemoryContentRepository(),
+      storage: { read: jest.fn().mockResolvedValue(Buffer.from('The release checklist has five steps.')) },
+      chunks: new InMemoryChunkStore(),
+      embedder: tracker.embedder(new HashingEmbedder()),
+      transcriber: new FakeTranscriptionProvider([{ speaker: 'Speaker 1', start: 0, end: 90, text: 'Welcome.' }]),
+      usage: tracker,
+    };
+  });
+
+  const upload = (contentId, fileType) => deps.content.create({
+    pkbId: 'pkb-1',
+    contentId,
+    fileName: contentId,
+    fileType,
+    s3Key: `pkbs/pkb-1/${contentId}`,
+    status: 'uploaded',
+    ingestionStatus: 'pending',
+    uploadedBy: 'uploader',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  });
+
+  test('bills embeddings to the uploader', async () => {
+    await upload('checklist.txt', 'text/plain');
+
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'checklist.txt' });
+
+    expect(await usage.listForUser('uploader', { from: today, to: today })).toEqual([
+      expect.objectContaining({ pkbId: 'pkb-1', modelId: 'local-hashing', inputTokens: 6, requests: 1 }),
+    ]);
+  });
+
+  test('bills transcription by the minute of media', async () => {
+    await upload('review.mp3', 'audio/mpeg');
+    await ingestContent(deps, { pkbId: 'pkb-1', contentId: 'review.mp3' });
+    const { transcriptionJob } = await deps.content.get('pkb-1', 'review.mp3');
+
+    await completeTranscription(deps, transcriptionJob);
+
+    const records = await usage.listForUser('uploader', { from: today, to: today });
+    expect(records.find((record) => record.modelId === 'amazon.transcribe')).toMatchObject({
+      costUsd: expect.closeTo(0.036, 10),
+      requests: 1,
+    });
+  });
+});
+
+describe('usage handler', () => {
+  let deps;
+  let handler;
+
+  const usageEvent = (userId, path = '/usage', query = null) => apiEvent(userId, {
+    httpMethod: 'GET',
+    path,
+    queryStringParameters: query,
+  });
+
+  beforeEach(async () => {
+    deps = {
+      pkbs: new InMemoryPkbRepository(),
+      members: new InMemoryMembershipRepository(),
+      usage: new InMemoryUsageRepository(),
+      quota: { period: 'day', maxCostUsd: 1 },
+    };
+    handler = createHandler(deps);
+    await createPkb(deps.pkbs);
+    await deps.members.putMember({ pkbId: 'pkb-1', userId: 'user-2', role: 'editor', ownerId: 'user-1' });
+    const at = new Date();
+    await deps.usage.add({ userId: 'user-1', pkbId: 'pkb-1', modelId: HAIKU, inputTokens: 100, outputTokens: 10, costUsd: 0.25, requests: 1, at });
+    await deps.usage.add({ userId: 'user-2', pkbId: 'pkb-1', modelId: HAIKU, inputTokens: 50, outputTokens: 5, costUsd: 0.5, requests: 1, at });
+  });
+
+  test('returns the caller\'s usage and where they stand against the quota', async () => {
+    const result = await handler(usageEvent('user-2'));
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body);
+    expect(body.records).toEqual([expect.objectContaining({ userId: 'user-2', inputTokens: 50 })]);
+    expect(body.quota).toMatchObject({ period: 'day', maxCostUsd: 1, costUsd: 0.5, tokens: 55, exceeded: false });
+  });
+
+  test('shows everyone\'s usage of a PKB to its owner only', async () => {
+    const owner = JSON.parse((await handler(usageEvent('user-1', '/usage/pkb-1'))).body);
+    expect(owner.records.map((record) => record.userId).sort()).toEqual(['user-1', 'user-2']);
+
+    expect((await handler(usageEvent('user-2', '/usage/pkb-1'))).statusCode).toBe(403);
+  });
+
+  test('rejects malformed and reversed date ranges', async () => {
+    expect((await handler(usageEvent('user-1', '/usage', { from: 'last week' }))).statusCode).toBe(400);
+    expect((await handler(usageEvent('user-1', '/usage', { from: '2024-02-02', to: '2024-02-01' }))).statusCode).toBe(400);
+  });
+});